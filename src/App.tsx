@@ -6,10 +6,13 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import RoleProtectedRoute from "@/components/RoleProtectedRoute";
+import { STAFF_ROLES } from "@/utils/auth/roles";
 import Index from "./pages/Index";
 import Vote from "./pages/Vote";
 import Registration from "./pages/Registration";
 import Results from "./pages/Results";
+import Verify from "./pages/Verify";
 import Profile from "./pages/Profile";
 import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
@@ -35,21 +38,24 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             {/* Results page, accessible to everyone */}
             <Route path="/results" element={<Results />} />
+            {/* Receipt verification page, accessible to everyone */}
+            <Route path="/verify" element={<Verify />} />
             {/* Protected routes that require authentication */}
             <Route path="/vote" element={
-              <ProtectedRoute>
+              <RoleProtectedRoute roles={['voter']}>
                 <Vote />
-              </ProtectedRoute>
+              </RoleProtectedRoute>
             } />
             <Route path="/profile" element={
               <ProtectedRoute>
                 <Profile />
               </ProtectedRoute>
             } />
+            {/* Admin routes that also require a staff role */}
             <Route path="/admin" element={
-              <ProtectedRoute>
+              <RoleProtectedRoute roles={STAFF_ROLES}>
                 <Admin />
-              </ProtectedRoute>
+              </RoleProtectedRoute>
             } />
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,11 +1,13 @@
 
+import type { ElectionStatus } from "./utils/VotingContract";
+
 export interface Election {
   id: string;
   title: string;
   description: string;
   startDate: Date;
   endDate: Date;
-  isActive: boolean;
+  status: ElectionStatus;
   candidates: Candidate[];
 }
 
@@ -25,12 +27,38 @@ export interface Vote {
   createdAt: Date;
 }
 
+export interface CandidateStatistics {
+  id: string;
+  name: string;
+  party: string;
+  votes: number;
+  // Percentage of all votes counted in the election
+  share: number;
+}
+
+// Profile attributes turnout is broken down by
+export type TurnoutAttribute = 'department' | 'year_of_study' | 'district';
+
+export interface TurnoutGroup {
+  // Null when voters have not had the attribute set
+  value: string | null;
+  // Several groups too small to report on their own
+  grouped: boolean;
+  eligible: number;
+  // Null when withheld because it would show whether the group's members voted
+  voted: number | null;
+  turnout: number | null;
+}
+
 export interface VoteStatistics {
   totalVotes: number;
+  eligibleVoters: number;
+  // Percentage of eligible voters who have voted
   voterTurnout: number;
-  candidateStats: {
-    name: string;
-    party: string;
-    votes: number;
-  };
+  // Empty while encrypted ballots are still sealed
+  candidateStats: CandidateStatistics[];
+  // Votes per hour, oldest first
+  votesOverTime: Array<{ time: Date; votes: number }>;
+  // Null unless the user is an election officer or auditor
+  breakdowns: Record<TurnoutAttribute, TurnoutGroup[]> | null;
 }
@@ -0,0 +1,29 @@
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ElectionStatus } from '@/utils/VotingContract';
+
+const STATUS_STYLES: Record<ElectionStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'text-gray-700 border-gray-300' },
+  scheduled: { label: 'Scheduled', className: 'text-blue-700 border-blue-300' },
+  open: { label: 'Open', className: 'text-green-700 border-green-300' },
+  closed: { label: 'Closed', className: 'text-amber-700 border-amber-300' },
+  certified: { label: 'Certified', className: 'text-purple-700 border-purple-300' }
+};
+
+interface ElectionStatusBadgeProps {
+  status: ElectionStatus;
+  className?: string;
+}
+
+const ElectionStatusBadge = ({ status, className = '' }: ElectionStatusBadgeProps) => {
+  const { label, className: statusClassName } = STATUS_STYLES[status];
+
+  return (
+    <Badge variant="outline" className={`${statusClassName} ${className}`}>
+      {label}
+    </Badge>
+  );
+};
+
+export default ElectionStatusBadge;
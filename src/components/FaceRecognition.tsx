@@ -2,10 +2,13 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { useCamera } from '@/hooks/useCamera';
 import { useFaceVerification } from '@/hooks/useFaceVerification';
+import { useLivenessChallenge } from '@/hooks/useLivenessChallenge';
 import { toast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Camera, CheckCircle2, XCircle, Loader2, RotateCcw, UserPlus, Scan } from 'lucide-react';
+import { Camera, Loader2, RotateCcw, UserPlus, Scan } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import VerificationStatus from '@/components/face-verification/VerificationStatus';
+import CameraFeedback from '@/components/face-verification/CameraFeedback';
 import { cn } from '@/lib/utils';
 
 interface FaceRecognitionProps {
@@ -13,9 +16,11 @@ interface FaceRecognitionProps {
   onError?: () => void;
   className?: string;
   isRegistrationMode?: boolean;
+  // Raises the match threshold for an election that asks for a closer match
+  minMatchConfidence?: number | null;
 }
 
-const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode = false }: FaceRecognitionProps) => {
+const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode = false, minMatchConfidence }: FaceRecognitionProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
@@ -31,14 +36,26 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
     captureImage, 
     retryCapture,
     hasReferenceImage,
+    isReEnrollmentRequired,
     isRegistering,
     isLivenessChecking,
     currentGesture,
-    processLivenessGesture
+    processLivenessGesture,
+    matchScore,
+    matchThreshold
   } = useFaceVerification({ 
     onVerified,
     onError,
-    isRegistrationMode: registrationModeState
+    isRegistrationMode: registrationModeState,
+    minMatchConfidence
+  });
+
+  // Each gesture must be seen on the live camera before the check moves on
+  const livenessProgress = useLivenessChallenge({
+    videoRef,
+    gesture: currentGesture,
+    isActive: isLivenessChecking,
+    onResult: processLivenessGesture
   });
 
   // Initialize camera
@@ -144,12 +161,6 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
     });
   };
 
-  const simulateLivenessSuccess = () => {
-    if (isLivenessChecking) {
-      processLivenessGesture(true);
-    }
-  };
-
   return (
     <div className={cn("flex flex-col items-center gap-4 p-4", className)}>
       <div className="relative w-full max-w-md aspect-video bg-black rounded-lg overflow-hidden">
@@ -166,7 +177,7 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
           muted
           className={cn(
             "w-full h-full object-cover",
-            isCaptured && "hidden"
+            isCaptured && !isLivenessChecking && "hidden"
           )}
         />
       
@@ -174,7 +185,7 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
           ref={canvasRef} 
           className={cn(
             "w-full h-full object-cover",
-            !isCaptured && "hidden"
+            (!isCaptured || isLivenessChecking) && "hidden"
           )}
         />
         
@@ -200,27 +211,21 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
           </div>
         )}
         
-        {verificationStatus === 'success' && (
-          <div className="absolute inset-0 flex items-center justify-center bg-green-500/20">
-            <CheckCircle2 className="w-16 h-16 text-green-500" />
-          </div>
-        )}
-        
-        {verificationStatus === 'error' && (
-          <div className="absolute inset-0 flex items-center justify-center bg-red-500/20">
-            <XCircle className="w-16 h-16 text-red-500" />
-          </div>
-        )}
+        <VerificationStatus
+          isVerifying={isVerifying || verificationStatus !== 'idle'}
+          status={verificationStatus}
+          confidence={matchScore}
+          threshold={matchThreshold}
+        />
 
         {isLivenessChecking && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 text-white">
-            <p className="text-lg font-semibold mb-2">Liveness Check</p>
-            <p className="text-md mb-4">Please {formatGestureInstruction(currentGesture)}</p>
-            {/* FOR DEMO PURPOSES ONLY: In a real app, this would be detected automatically */}
-            <Button onClick={simulateLivenessSuccess} variant="outline" className="mt-2">
-              Simulate {currentGesture?.replace('_', ' ')}
-            </Button>
-          </div>
+          <CameraFeedback
+            cameraError={false}
+            liveness={{
+              instruction: formatGestureInstruction(currentGesture),
+              progress: livenessProgress
+            }}
+          />
         )}
       </div>
             
@@ -231,7 +236,7 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
       )}
 
       <div className="flex gap-2">
-        {!hasReferenceImage && !registrationModeState && (
+        {!hasReferenceImage && !isReEnrollmentRequired && !registrationModeState && (
           <Button
             onClick={handleRegistrationMode}
             variant="default"
@@ -287,7 +292,9 @@ const FaceRecognition = ({ onVerified, onError, className, isRegistrationMode =
       {!hasReferenceImage && !registrationModeState && (
         <Alert variant="destructive" className="w-full max-w-md">
           <AlertDescription>
-            You need to register your face before you can vote. Please click the "Register Your Face" button above.
+            {isReEnrollmentRequired
+              ? 'Our face recognition has been updated since you registered. Please ask an election officer to reset your registration, then register your face again before you vote.'
+              : 'You need to register your face before you can vote. Please click the "Register Your Face" button above.'}
           </AlertDescription>
         </Alert>
       )}
@@ -1,9 +1,10 @@
 
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Shield, Vote, BarChart, Users, Settings, LogOut, FileText } from 'lucide-react';
+import { Shield, Vote, BarChart, Users, Settings, LogOut, FileText, SearchCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
+import { STAFF_ROLES } from '@/utils/auth/roles';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,7 +12,7 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
-  const { signOut, user } = useAuth();
+  const { signOut, user, hasRole } = useAuth();
   
   // Updated navigation items with correct order based on user flow
   const navItems = [
@@ -20,10 +21,11 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Vote', path: '/vote', icon: Vote },
     { name: 'Results', path: '/results', icon: BarChart },
     { name: 'Profile', path: '/profile', icon: Users },
+    { name: 'Verify', path: '/verify', icon: SearchCheck },
   ];
 
-  // Only show admin for certain users (in a real app, this would check roles)
-  if (user) {
+  // Only staff can open the admin area
+  if (user && STAFF_ROLES.some(role => hasRole(role))) {
     navItems.push({ name: 'Admin', path: '/admin', icon: Settings });
   }
 
@@ -1,8 +1,8 @@
-
 import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { toast } from '@/hooks/use-toast';
+import { OtpChallenge, OTP_LENGTH, requestOtp, verifyOtp } from '@/utils/auth/otp';
 
 interface OTPVerificationProps {
   onVerified: () => void;
@@ -12,81 +12,34 @@ interface OTPVerificationProps {
 const OTPVerification: React.FC<OTPVerificationProps> = ({ onVerified, onError }) => {
   const [otp, setOtp] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
-  const [generatedOtp, setGeneratedOtp] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [challenge, setChallenge] = useState<OtpChallenge | null>(null);
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
   const [resendDisabled, setResendDisabled] = useState(false);
-  const [countdown, setCountdown] = useState(30);
-  const [autoFill, setAutoFill] = useState(false);
+  const [countdown, setCountdown] = useState(0);
   const timerRef = useRef<number | null>(null);
-  const autoFillTimerRef = useRef<number | null>(null);
-  
-  // Generate a random 4-digit OTP on component mount
+
+  // Send a code as soon as the step is shown
   useEffect(() => {
-    generateOTP();
-    
+    sendOTP();
+
     // Cleanup timer on unmount
     return () => {
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (autoFillTimerRef.current) {
-        clearTimeout(autoFillTimerRef.current);
-      }
     };
   }, []);
-  
-  // Watch for generatedOTP and automatically fill it in after a delay
-  useEffect(() => {
-    if (generatedOtp && !autoFill) {
-      // Auto-fill after 1.5 seconds to give user time to see the OTP
-      autoFillTimerRef.current = window.setTimeout(() => {
-        setOtp(generatedOtp);
-        setAutoFill(true);
-      }, 1500);
-    }
-    
-    return () => {
-      if (autoFillTimerRef.current) {
-        clearTimeout(autoFillTimerRef.current);
-      }
-    };
-  }, [generatedOtp]);
-  
-  // Automatically verify when OTP is filled via auto-fill
-  useEffect(() => {
-    if (autoFill && otp === generatedOtp) {
-      // Slight delay to show the auto-filled OTP before verification
-      const verifyTimer = window.setTimeout(() => {
-        handleVerify();
-      }, 1000);
-      
-      return () => clearTimeout(verifyTimer);
-    }
-  }, [otp, autoFill]);
-  
-  const generateOTP = () => {
-    // Generate 4-digit OTP
-    const newOtp = Math.floor(1000 + Math.random() * 9000).toString();
-    setGeneratedOtp(newOtp);
-    console.log("Generated OTP:", newOtp); // This helps for testing
-    
-    // Reset auto-fill state
-    setAutoFill(false);
-    
-    // Show the OTP in a toast notification (in a real app, this would be sent via SMS/email)
-    toast({
-      title: "OTP Generated",
-      description: `Your verification code is: ${newOtp}`,
-    });
-    
-    // Start the resend countdown
+
+  // Disable the resend button until the server will accept another request
+  const startResendCountdown = (seconds: number) => {
     setResendDisabled(true);
-    setCountdown(30);
-    
+    setCountdown(seconds);
+
     if (timerRef.current) {
       clearInterval(timerRef.current);
     }
-    
-    // Use window.setInterval to ensure it works in browser context
+
     timerRef.current = window.setInterval(() => {
       setCountdown((prev) => {
         if (prev <= 1) {
@@ -98,128 +51,162 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({ onVerified, onError }
       });
     }, 1000);
   };
-  
-  const handleVerify = () => {
-    if (otp.length < 4) {
+
+  const sendOTP = async () => {
+    setIsSending(true);
+
+    try {
+      const newChallenge = await requestOtp();
+      setChallenge(newChallenge);
+      setRemainingAttempts(null);
+      setOtp('');
+
+      toast({
+        title: "Code Sent",
+        description: `A ${OTP_LENGTH}-digit verification code was sent to ${newChallenge.destination}.`,
+      });
+
+      startResendCountdown(newChallenge.resendAfter);
+    } catch (error) {
+      toast({
+        title: "Could Not Send Code",
+        description: error instanceof Error ? error.message : "Failed to send your verification code.",
+        variant: "destructive",
+      });
+      startResendCountdown(30);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerify = async (code: string = otp) => {
+    if (code.length < OTP_LENGTH) {
       toast({
         title: "Incomplete OTP",
-        description: "Please enter the complete 4-digit code",
+        description: `Please enter the complete ${OTP_LENGTH}-digit code`,
         variant: "destructive",
       });
       return;
     }
-    
+
+    if (!challenge) {
+      toast({
+        title: "No Code Sent",
+        description: "Please request a verification code first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsVerifying(true);
-    
-    // Simulate API verification delay
-    setTimeout(() => {
-      if (otp === generatedOtp) {
+
+    try {
+      const result = await verifyOtp(challenge.challengeId, code);
+
+      if (result.verified) {
         toast({
           title: "OTP Verified",
           description: "Your identity has been verified successfully",
         });
         onVerified();
       } else {
+        setRemainingAttempts(result.remainingAttempts);
         toast({
           title: "Invalid OTP",
-          description: "The code you entered doesn't match. Please try again.",
+          description: result.remainingAttempts > 0
+            ? `The code you entered doesn't match. ${result.remainingAttempts} attempts left.`
+            : "The code you entered doesn't match. Please request a new code.",
           variant: "destructive",
         });
         setOtp('');
         onError();
       }
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Failed to verify your code.",
+        variant: "destructive",
+      });
+      setOtp('');
+      onError();
+    } finally {
       setIsVerifying(false);
-    }, 1500);
-  };
-  
-  const handleResend = () => {
-    generateOTP();
-    setOtp('');
+    }
   };
-  
-  // Function to handle OTP change
+
+  // Verify as soon as every digit has been entered
   const handleOTPChange = (value: string) => {
     setOtp(value);
-    
-    // Auto-verify when 4 digits are entered manually (not by auto-fill)
-    if (value.length === 4 && !autoFill) {
-      setTimeout(() => {
-        if (value === generatedOtp) {
-          toast({
-            title: "OTP Verified",
-            description: "Your identity has been verified successfully",
-          });
-          onVerified();
-        } else {
-          toast({
-            title: "Invalid OTP",
-            description: "The code you entered doesn't match. Please try again.",
-            variant: "destructive",
-          });
-          setOtp('');
-          onError();
-        }
-      }, 500);
+
+    if (value.length === OTP_LENGTH && !isVerifying) {
+      handleVerify(value);
     }
   };
-  
+
   return (
     <div className="flex flex-col items-center space-y-6">
       <div className="text-center space-y-2">
         <p className="text-sm text-muted-foreground">
-          Enter the 4-digit code sent to your registered device
-        </p>
-        <p className="text-xs text-muted-foreground">
-          (For demo purposes, the OTP is shown in a notification and will auto-fill)
+          {challenge
+            ? `Enter the ${OTP_LENGTH}-digit code sent to ${challenge.destination}`
+            : isSending ? "Sending your verification code..." : "Request a verification code to continue"}
         </p>
-        {autoFill && (
-          <p className="text-xs text-green-600 font-medium animate-pulse">
-            Auto-filling OTP...
+        {challenge && (
+          <p className="text-xs text-muted-foreground">
+            The code expires at {challenge.expiresAt.toLocaleTimeString()}
+          </p>
+        )}
+        {remainingAttempts !== null && (
+          <p className="text-xs text-destructive font-medium">
+            {remainingAttempts > 0 ? `${remainingAttempts} attempts left` : "No attempts left. Please request a new code."}
           </p>
         )}
       </div>
-      
+
       <div className="w-full flex justify-center">
         <InputOTP
-          maxLength={4}
+          maxLength={OTP_LENGTH}
           value={otp}
           onChange={handleOTPChange}
           pattern="[0-9]*"
           inputMode="numeric"
+          disabled={!challenge || isVerifying || remainingAttempts === 0}
           containerClassName="gap-3 items-center justify-center"
           render={({ slots }) => (
             <InputOTPGroup>
               {slots.map((slot, index) => (
-                <InputOTPSlot 
-                  key={index} 
+                <InputOTPSlot
+                  key={index}
                   index={index}
                   aria-label={`Digit ${index + 1}`}
-                  className="w-14 h-14 text-xl font-bold border-2 cursor-text focus:ring-2 focus:ring-offset-2 focus:ring-primary focus:border-primary"
+                  className="w-12 h-14 text-xl font-bold border-2 cursor-text focus:ring-2 focus:ring-offset-2 focus:ring-primary focus:border-primary"
                 />
               ))}
             </InputOTPGroup>
           )}
         />
       </div>
-      
+
       <div className="flex flex-col w-full gap-2">
-        <Button 
-          onClick={handleVerify} 
-          disabled={otp.length < 4 || isVerifying}
+        <Button
+          onClick={() => handleVerify()}
+          disabled={otp.length < OTP_LENGTH || isVerifying || !challenge}
           className="w-full"
         >
           {isVerifying ? "Verifying..." : "Verify OTP"}
         </Button>
-        
+
         <Button
           variant="outline"
-          onClick={handleResend}
-          disabled={resendDisabled}
+          onClick={sendOTP}
+          disabled={resendDisabled || isSending}
           className="w-full"
         >
-          {resendDisabled 
-            ? `Resend code in ${countdown}s` 
-            : "Resend code"}
+          {isSending
+            ? "Sending..."
+            : resendDisabled
+              ? `Resend code in ${countdown}s`
+              : "Resend code"}
         </Button>
       </div>
     </div>
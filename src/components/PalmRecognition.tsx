@@ -5,14 +5,55 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { detectHand, HandDetection } from '@/utils/biometrics/handLandmarks';
+import {
+  analyzePalm,
+  assessPalmPosition,
+  averagePalmDescriptors,
+  PalmAnalysis,
+  PalmPosition
+} from '@/utils/biometrics/palmprint';
+import { enrollPalmTemplate, fetchPalmTemplate, MIN_PALM_TEMPLATE_QUALITY, needsPalmReEnrollment } from '@/utils/biometrics/palmTemplate';
+import { formatLockoutRemaining, isLockedOut, verifyBiometricAttempt } from '@/utils/biometrics/biometricAttempts';
+
+// Pause between hand detections on the live camera
+const DETECTION_INTERVAL_MS = 250;
+
+// Frames described and averaged when the palm is scanned, and the pause between them
+const CAPTURE_FRAMES = 3;
+const CAPTURE_INTERVAL_MS = 200;
+
+// Position confidence needed before the palm can be scanned
+const MIN_SCAN_CONFIDENCE = 0.6;
+
+// Landmarks joined when drawing the hand: each finger from the wrist, and the knuckles
+const HAND_CONNECTIONS = [
+  [0, 1, 2, 3, 4],
+  [0, 5, 6, 7, 8],
+  [9, 10, 11, 12],
+  [13, 14, 15, 16],
+  [0, 17, 18, 19, 20],
+  [5, 9, 13, 17]
+];
+
+const positionHintFor = (position: PalmPosition): string => {
+  if (!position.isOpen) return "Open your hand and spread your fingers.";
+  if (!position.isLargeEnough) return "Move your palm closer to the camera.";
+  if (!position.isCentred) return "Move your palm to the center of the frame.";
+  return "Position excellent! Click 'Scan Palm' to continue.";
+};
 
 interface PalmRecognitionProps {
   onVerified: () => void;
   onError?: () => void;
   className?: string;
+  // Enroll the scanned palm as the user's template instead of matching against it
+  isRegistrationMode?: boolean;
+  // Raises the match threshold for an election that asks for a closer match
+  minMatchConfidence?: number | null;
 }
 
-const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProps) => {
+const PalmRecognition = ({ onVerified, onError, className, isRegistrationMode = false, minMatchConfidence }: PalmRecognitionProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -21,14 +62,13 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationStatus, setVerificationStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [attemptCount, setAttemptCount] = useState(0);
-  const [isLivenessChecking, setIsLivenessChecking] = useState(false);
   const [isPalmDetected, setIsPalmDetected] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [palmFeatures, setPalmFeatures] = useState<string[]>([]);
   const [isConfidenceLow, setIsConfidenceLow] = useState(false);
   const [detectionConfidence, setDetectionConfidence] = useState(0);
   const [isPalmProperlyPositioned, setIsPalmProperlyPositioned] = useState(false);
-  const animationFrameRef = useRef<number | null>(null);
+  const [positionHint, setPositionHint] = useState('');
   
   // Initialize camera
   useEffect(() => {
@@ -64,207 +104,101 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
     
     return () => {
       stopCamera();
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
     };
   }, [onError]);
   
-  // Simulate advanced palm detection with continuous analysis - optimized for speed
+  // Detect the hand on the live camera and analyse the palm while it is shown
   useEffect(() => {
     if (!isCameraReady || isCaptured || isScanning) return;
     
-    let lastDetectionTime = 0;
-    // Reduced detection interval from 300ms to 100ms for faster detection
-    const DETECTION_INTERVAL = 100; 
+    let cancelled = false;
+    let timer: number | undefined;
     
-    const detectPalm = (timestamp: number) => {
-      if (timestamp - lastDetectionTime > DETECTION_INTERVAL) {
-        lastDetectionTime = timestamp;
-        
-        // Get the video frame
-        if (videoRef.current && overlayCanvasRef.current && canvasRef.current) {
-          const video = videoRef.current;
-          const canvas = canvasRef.current;
-          const context = canvas.getContext('2d');
+    const detectFrame = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      
+      try {
+        if (video && canvas && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          const hand = await detectHand(video);
+          if (cancelled) return;
           
-          if (context) {
-            // Set canvas size to match video
-            canvas.width = video.videoWidth || 640;
-            canvas.height = video.videoHeight || 480;
-            
-            // Draw current frame to analyze
-            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          if (hand) {
+            const position = assessPalmPosition(hand, video.videoWidth, video.videoHeight);
+            setIsPalmDetected(true);
+            setDetectionConfidence(position.confidence);
+            setIsConfidenceLow(position.confidence < MIN_SCAN_CONFIDENCE);
+            setIsPalmProperlyPositioned(position.isOpen && position.isLargeEnough && position.isCentred);
+            setPositionHint(positionHintFor(position));
             
-            // Optimized palm detection simulation - faster processing
-            const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-            const isPalmPresent = detectPalmInFrame(imageData);
-            
-            if (isPalmPresent.detected) {
-              setIsPalmDetected(true);
-              setDetectionConfidence(isPalmPresent.confidence);
-              setIsConfidenceLow(isPalmPresent.confidence < 0.7);
-              setIsPalmProperlyPositioned(isPalmPresent.confidence > 0.8);
-              
-              // Optimized feature detection
-              const detectedFeatures = analyzeFrame(imageData, isPalmPresent.confidence);
-              setPalmFeatures(detectedFeatures);
-              
-              // Draw palm overlay if palm is detected with good confidence
-              if (isPalmPresent.confidence > 0.7) {
-                drawPalmOverlay(canvas.width, canvas.height);
-              }
-            } else {
-              setIsPalmDetected(false);
-              setPalmFeatures([]);
-              clearOverlay();
-            }
+            const frame = grabFrame(video, canvas);
+            setPalmFeatures(frame ? analyzePalm(frame, hand).features : []);
+            drawPalmOverlay(hand, video.videoWidth, video.videoHeight);
+          } else {
+            setIsPalmDetected(false);
+            setDetectionConfidence(0);
+            setPalmFeatures([]);
+            clearOverlay();
           }
         }
+      } catch (error) {
+        console.error('Error detecting palm:', error);
+        setIsPalmDetected(false);
+        clearOverlay();
       }
       
-      // Continue detection loop
-      animationFrameRef.current = requestAnimationFrame(detectPalm);
+      if (cancelled) return;
+      timer = window.setTimeout(detectFrame, DETECTION_INTERVAL_MS);
     };
     
-    animationFrameRef.current = requestAnimationFrame(detectPalm);
+    detectFrame();
     
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      cancelled = true;
+      window.clearTimeout(timer);
     };
   }, [isCameraReady, isCaptured, isScanning]);
   
-  // Optimized palm detection in frame for faster response
-  const detectPalmInFrame = (imageData: ImageData): {detected: boolean, confidence: number} => {
-    // In a real implementation, this would use ML to detect hands/palms
-    // For simulation with faster detection
-    
-    // Reduced random factors to make detection more stable
-    const movementFactor = Math.random() * 0.2; // Reduced from 0.3
-    const lightingFactor = Math.random() * 0.15 + 0.85; // More consistent lighting
-    
-    // Increased base detection probability for faster detection
-    const baseDetection = Math.min(0.8 + (Date.now() % 5000) / 15000, 0.95); // Higher starting point
-    
-    // Calculate detection confidence with optimized parameters
-    const confidence = baseDetection * lightingFactor - movementFactor;
-    
-    // Lowered threshold for faster detection
-    const isDetected = confidence > 0.6; // Reduced from 0.65
-    
-    return { 
-      detected: isDetected, 
-      confidence: isDetected ? confidence : 0 
-    };
-  };
-  
-  // Simplified frame analysis for faster processing
-  const analyzeFrame = (imageData: ImageData, confidence: number): string[] => {
-    // Optimized feature detection for speed
-    
-    const features = [];
+  // Draw the current video frame on the canvas and read it back
+  const grabFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement): ImageData | null => {
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
     
-    // Lowered confidence thresholds for faster feature detection
-    if (confidence > 0.65) { // Reduced from 0.7
-      if (confidence > 0.7) features.push("main lines");
-      if (confidence > 0.75) features.push("heart line"); // Reduced from 0.8
-      if (confidence > 0.78) features.push("head line"); // Reduced from 0.82
-      if (confidence > 0.8) features.push("life line"); // Reduced from 0.84
-      if (confidence > 0.85) features.push("fingerprint patterns"); // Reduced from 0.88
-    }
-    
-    return features;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
   };
   
-  // Draw palm detection overlay with real-time visualization
-  const drawPalmOverlay = (width: number, height: number) => {
+  // Draw the detected hand landmarks and the outline of the palm region
+  const drawPalmOverlay = (hand: HandDetection, width: number, height: number) => {
     if (!overlayCanvasRef.current) return;
     
     const canvas = overlayCanvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    // Clear previous drawings
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // Set canvas dimensions
     canvas.width = width;
     canvas.height = height;
+    ctx.clearRect(0, 0, width, height);
     
-    // Draw palm outline
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    
-    // Reduced jitter effect for more stable visualization
-    const jitter = detectionConfidence > 0.85 ? 0 : Math.random() * 2; // Reduced from 3
-    
-    // Draw palm boundary with dynamic opacity based on confidence
-    ctx.strokeStyle = `rgba(0, 255, 0, ${Math.min(0.7 + detectionConfidence, 1)})`;
+    const { keypoints } = hand;
+    ctx.strokeStyle = 'rgba(0, 255, 0, 0.8)';
     ctx.lineWidth = 3;
-    ctx.beginPath();
-    // Larger ellipse to better cover palm (further increased from 130x200 to 150x220)
-    ctx.ellipse(centerX + jitter, centerY + jitter, 150, 220, 0, 0, Math.PI * 2);
-    ctx.stroke();
     
-    // Only draw detailed features when detection confidence is high
-    if (detectionConfidence > 0.75) {
-      // Draw main lines with dynamic appearance
-      ctx.strokeStyle = `rgba(0, 255, 0, ${Math.min(0.6 + detectionConfidence, 1)})`;
-      ctx.lineWidth = 2;
-      
-      // Heart line - only draw if detected
-      if (palmFeatures.includes("heart line")) {
-        ctx.beginPath();
-        // Scale these lines proportionally with the larger ellipse
-        ctx.moveTo(centerX - 120, centerY - 60);
-        ctx.bezierCurveTo(centerX - 40, centerY - 70, centerX + 40, centerY - 70, centerX + 120, centerY - 40);
-        ctx.stroke();
-      }
-      
-      // Head line - only draw if detected
-      if (palmFeatures.includes("head line")) {
-        ctx.beginPath();
-        ctx.moveTo(centerX - 120, centerY);
-        ctx.bezierCurveTo(centerX - 40, centerY - 15, centerX + 40, centerY - 15, centerX + 100, centerY);
-        ctx.stroke();
-      }
-      
-      // Life line - only draw if detected
-      if (palmFeatures.includes("life line")) {
-        ctx.beginPath();
-        ctx.moveTo(centerX - 75, centerY - 120);
-        ctx.bezierCurveTo(centerX - 90, centerY - 30, centerX - 100, centerY + 50, centerX - 75, centerY + 140);
-        ctx.stroke();
-      }
-      
-      // Fate line - only draw in highest confidence
-      if (detectionConfidence > 0.85) {
-        ctx.beginPath();
-        ctx.moveTo(centerX, centerY + 140);
-        ctx.bezierCurveTo(centerX, centerY + 70, centerX, centerY - 70, centerX, centerY - 140);
-        ctx.stroke();
-      }
-      
-      // Reference points for detailed palm reading
-      ctx.fillStyle = `rgba(0, 255, 0, ${Math.min(0.8 + detectionConfidence, 1)})`;
-      const pointRadius = 3;
-      
-      // Draw detection points only at high confidence
-      if (detectionConfidence > 0.8) {
-        for (let i = 0; i < 8; i++) {
-          const angle = (i / 8) * Math.PI * 2;
-          // Increased radius to match the larger ellipse
-          const x = centerX + Math.cos(angle) * 150;
-          const y = centerY + Math.sin(angle) * 220;
-          
-          ctx.beginPath();
-          ctx.arc(x, y, pointRadius, 0, Math.PI * 2);
-          ctx.fill();
-        }
-      }
-    }
+    HAND_CONNECTIONS.forEach(chain => {
+      ctx.beginPath();
+      ctx.moveTo(keypoints[chain[0]].x, keypoints[chain[0]].y);
+      chain.slice(1).forEach(index => ctx.lineTo(keypoints[index].x, keypoints[index].y));
+      ctx.stroke();
+    });
+    
+    ctx.fillStyle = 'rgba(0, 255, 0, 1)';
+    keypoints.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
   };
   
   // Clear the overlay canvas
@@ -286,12 +220,10 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
     }
   };
   
-  const capturePalm = () => {
+  const capturePalm = async () => {
     if (!videoRef.current || !canvasRef.current) return;
     
-    // First ensure that we actually have a palm detected with sufficient confidence
-    // Slightly reduced required confidence for faster detection
-    if (!isPalmDetected || detectionConfidence < 0.65) { // Reduced from 0.72
+    if (!isPalmDetected || detectionConfidence < MIN_SCAN_CONFIDENCE) {
       toast({
         title: "No Palm Detected",
         description: "Please position your palm clearly in the center of the frame.",
@@ -302,128 +234,126 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
     
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
-    
-    if (!context) return;
-    
-    // Set canvas dimensions to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
     
     setIsScanning(true);
+    clearOverlay();
     
     toast({
       title: "Palm Detection",
-      description: "Scanning palm features...",
+      description: "Scanning palm features... Keep your hand steady.",
     });
     
-    // Further optimized scan timing - reduced delays
-    setTimeout(() => {
-      // Draw the current video frame on the canvas
-      context.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
+    // Several frames are described and averaged, which evens out small movements
+    const samples: PalmAnalysis[] = [];
+    try {
+      for (let i = 0; i < CAPTURE_FRAMES; i++) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, CAPTURE_INTERVAL_MS));
+        }
+        
+        const frame = grabFrame(video, canvas);
+        const hand = frame ? await detectHand(canvas) : null;
+        if (!frame || !hand) {
+          throw new Error("Your palm moved out of view. Keep your hand steady while scanning.");
+        }
+        samples.push(analyzePalm(frame, hand));
+      }
+    } catch (error) {
+      console.error('Error scanning palm:', error);
+      setIsScanning(false);
       toast({
-        title: "Feature Detection",
-        description: `Analyzing palm lines and features...`,
+        title: "Scan Failed",
+        description: error instanceof Error ? error.message : "Could not scan your palm. Please try again.",
+        variant: "destructive",
       });
-      
-      // Reduced delay from 700ms to 500ms
-      setTimeout(() => {
-        setIsCaptured(true);
-        setIsScanning(false);
-        
-        // Start with liveness check before palm verification
-        setIsLivenessChecking(true);
-        toast({
-          title: "Liveness Check",
-          description: "Please move your palm slightly to verify it's a real palm.",
-        });
-        
-        // Reduced liveness check from 800ms to 500ms
-        setTimeout(() => {
-          setIsLivenessChecking(false);
-          toast({
-            title: "Liveness Check Complete",
-            description: "Now verifying your palm scan...",
-          });
-          verifyPalm();
-        }, 500); // Reduced from 800ms
-      }, 500); // Reduced from 700ms
-    }, 600); // Reduced from 800ms
+      return;
+    }
+    
+    const palm: PalmAnalysis = {
+      descriptor: averagePalmDescriptors(samples.map(sample => sample.descriptor)),
+      quality: Math.min(...samples.map(sample => sample.quality)),
+      features: samples[samples.length - 1].features
+    };
+    
+    setPalmFeatures(palm.features);
+    setIsCaptured(true);
+    setIsScanning(false);
+    verifyPalm(palm);
   };
   
-  const verifyPalm = async () => {
+  // Enroll the palm when registering, otherwise match it against the registered template
+  const verifyPalm = async (palm: PalmAnalysis) => {
     setIsVerifying(true);
     
     try {
-      // Faster verification process - reduced delay significantly
-      await new Promise(resolve => setTimeout(resolve, 600)); // Reduced from 1000ms
-      
-      // Success criteria now depends on:
-      // 1. Palm must be detected
-      // 2. Detection confidence must be high enough
-      // 3. Must have detected enough palm features
-      // 4. Previous attempt history is considered
+      if (isRegistrationMode) {
+        await enrollPalmTemplate(palm);
+        setVerificationStatus('success');
+        toast({
+          title: "Palm Registered",
+          description: `Your palm template was saved from ${palm.features.length} palm features.`,
+        });
+        setTimeout(() => {
+          if (onVerified) onVerified();
+        }, 500);
+        return;
+      }
       
-      const minRequiredFeatures = 2; // Reduced from 3 features to 2
-      const detectedFeatureCount = palmFeatures.length;
-      const featuresSufficient = detectedFeatureCount >= minRequiredFeatures;
+      const template = await fetchPalmTemplate();
+      if (!template) {
+        throw new Error("No registered palm was found for your account. Please register your palm first.");
+      }
+      if (needsPalmReEnrollment(template)) {
+        throw new Error("Your registered palm was made with an older scanner. Please ask an election officer to reset your registration, then register your palm again.");
+      }
       
-      // More lenient verification with each attempt for faster process
-      const successThreshold = 0.7 - (Math.min(attemptCount, 2) * 0.05); // Reduced from 0.8
+      // The server matches the palm against the registered template and records the attempt
+      const { verified, similarity, lockout } = await verifyBiometricAttempt({
+        modality: 'palm',
+        probes: [palm.descriptor],
+        minSimilarity: minMatchConfidence
+      });
       
-      // Calculate overall verification score
-      const verificationScore = detectionConfidence * (featuresSufficient ? 1.0 : 0.7);
-      const isSuccess = isPalmDetected && (verificationScore > successThreshold);
+      // A match does not count while the server has the user locked out
+      if (isLockedOut(lockout)) {
+        throw new Error(`Too many failed verification attempts. Biometric verification is locked for ${formatLockoutRemaining(lockout.lockedUntil)}.`);
+      }
       
-      if (isSuccess) {
+      if (verified) {
         setVerificationStatus('success');
         toast({
           title: "Palm Verified",
-          description: `Successfully verified ${detectedFeatureCount} palm features.`,
+          description: `Palm matched with ${Math.round(similarity * 100)}% similarity.`,
         });
         
-        // Call the onVerified callback after a shorter delay
         setTimeout(() => {
           if (onVerified) onVerified();
-        }, 500); // Reduced from 800ms
+        }, 500);
       } else {
         setVerificationStatus('error');
         setAttemptCount(prevCount => prevCount + 1);
         
-        // Different messaging based on failure reason
-        if (!isPalmDetected) {
-          toast({
-            title: "Verification Failed",
-            description: "No palm detected in the image. Please try again with your palm clearly visible.",
-            variant: "destructive",
-          });
-        } else if (!featuresSufficient) {
-          toast({
-            title: "Verification Failed",
-            description: `Not enough palm features detected (found ${detectedFeatureCount}/${minRequiredFeatures}). Please ensure your palm is well-lit and centered.`,
-            variant: "destructive",
-          });
-        } else {
-          toast({
-            title: "Verification Failed",
-            description: "Palm verification failed. Please ensure your entire palm is visible and well-lit.",
-            variant: "destructive",
-          });
-        }
+        toast({
+          title: "Verification Failed",
+          description: palm.quality < MIN_PALM_TEMPLATE_QUALITY
+            ? "Your palm lines were not clear enough. Please ensure your palm is well-lit and centered."
+            : "Your palm does not match your registered palm. Please ensure your entire palm is visible and well-lit.",
+          variant: "destructive",
+        });
         
-        // Reset to try again after a shorter delay
         setTimeout(() => {
           retryCapture();
-        }, 800); // Reduced from 1000ms
+        }, 800);
       }
     } catch (error) {
+      console.error('Error verifying palm:', error);
       setVerificationStatus('error');
       toast({
-        title: "Verification Error",
-        description: "An error occurred during palm verification.",
+        title: isRegistrationMode ? "Registration Error" : "Verification Error",
+        description: error instanceof Error ? error.message : "An error occurred during palm verification.",
         variant: "destructive",
       });
+      if (onError) onError();
     } finally {
       setIsVerifying(false);
     }
@@ -488,15 +418,6 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
           </div>
         )}
         
-        {isLivenessChecking && (
-          <div className="absolute inset-0 flex items-center justify-center bg-blue-500/20">
-            <div className="text-center">
-              <Loader2 className="w-16 h-16 text-blue-500 mx-auto animate-spin" />
-              <p className="text-blue-500 font-medium mt-2">Performing liveness check...</p>
-            </div>
-          </div>
-        )}
-        
         {verificationStatus === 'success' && (
           <div className="absolute inset-0 flex items-center justify-center bg-green-500/20">
             <CheckCircle2 className="w-16 h-16 text-green-500" />
@@ -514,7 +435,7 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
         {!isCaptured ? (
           <Button
             onClick={capturePalm}
-            disabled={!isCameraReady || isVerifying || !isPalmDetected || isScanning || detectionConfidence < 0.7}
+            disabled={!isCameraReady || isVerifying || !isPalmDetected || isScanning || detectionConfidence < MIN_SCAN_CONFIDENCE}
             className="gap-2"
           >
             {isVerifying ? (
@@ -533,7 +454,7 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
           <Button
             onClick={retryCapture}
             variant="outline"
-            disabled={isVerifying || isLivenessChecking}
+            disabled={isVerifying}
           >
             <RotateCcw className="w-4 h-4 mr-2" />
             Try Again
@@ -565,9 +486,7 @@ const PalmRecognition = ({ onVerified, onError, className }: PalmRecognitionProp
             </div>
             <p className="mt-1">Found palm features: {palmFeatures.join(', ') || 'scanning...'}</p>
             <p className="text-xs mt-1">
-              {isPalmProperlyPositioned 
-                ? "Position excellent! Click 'Scan Palm' to continue."
-                : "Please center your palm and ensure all lines are visible."}
+              {positionHint}
             </p>
           </AlertDescription>
         </Alert>
@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole } from '@/utils/auth/roles';
+
+interface RoleProtectedRouteProps {
+  // Any one of these roles lets the user in
+  roles: AppRole[];
+  children: React.ReactNode;
+}
+
+const RoleProtectedRoute: React.FC<RoleProtectedRouteProps> = ({ roles, children }) => {
+  const { user, isLoading, isLoadingRoles, hasRole } = useAuth();
+
+  if (isLoading || isLoadingRoles) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin w-10 h-10 border-4 border-primary border-t-transparent rounded-full"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!roles.some(role => hasRole(role))) {
+    // Signed in but without the role, so send them somewhere they can use
+    return <Navigate to="/home" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RoleProtectedRoute;
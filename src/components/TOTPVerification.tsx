@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { toast } from '@/hooks/use-toast';
+import { OTP_LENGTH } from '@/utils/auth/otp';
+import { verifyTotp } from '@/utils/auth/totp';
+
+interface TOTPVerificationProps {
+  onVerified: () => void;
+  onError: () => void;
+}
+
+const TOTPVerification: React.FC<TOTPVerificationProps> = ({ onVerified, onError }) => {
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (value: string) => {
+    setIsVerifying(true);
+
+    try {
+      const verified = await verifyTotp(value);
+
+      if (verified) {
+        toast({
+          title: "Code Verified",
+          description: "Your identity has been verified successfully",
+        });
+        onVerified();
+      } else {
+        toast({
+          title: "Invalid Code",
+          description: useRecoveryCode
+            ? "That recovery code is not valid or has already been used."
+            : "The code doesn't match. Wait for the next code in your app and try again.",
+          variant: "destructive",
+        });
+        onError();
+      }
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Failed to verify your code.",
+        variant: "destructive",
+      });
+      onError();
+    } finally {
+      setCode('');
+      setRecoveryCode('');
+      setIsVerifying(false);
+    }
+  };
+
+  // Verify as soon as every digit has been entered
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+
+    if (value.length === OTP_LENGTH && !isVerifying) {
+      handleVerify(value);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-6">
+      <p className="text-sm text-muted-foreground text-center">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when adding your authenticator app"
+          : `Enter the ${OTP_LENGTH}-digit code shown in your authenticator app`}
+      </p>
+
+      <div className="w-full flex justify-center">
+        {useRecoveryCode ? (
+          <Input
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            disabled={isVerifying}
+            className="max-w-xs font-mono text-center"
+          />
+        ) : (
+          <InputOTP
+            maxLength={OTP_LENGTH}
+            value={code}
+            onChange={handleCodeChange}
+            pattern="[0-9]*"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            disabled={isVerifying}
+            containerClassName="gap-3 items-center justify-center"
+            render={({ slots }) => (
+              <InputOTPGroup>
+                {slots.map((slot, index) => (
+                  <InputOTPSlot
+                    key={index}
+                    index={index}
+                    aria-label={`Digit ${index + 1}`}
+                    className="w-12 h-14 text-xl font-bold border-2 cursor-text focus:ring-2 focus:ring-offset-2 focus:ring-primary focus:border-primary"
+                  />
+                ))}
+              </InputOTPGroup>
+            )}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-col w-full gap-2">
+        <Button
+          onClick={() => handleVerify(useRecoveryCode ? recoveryCode.trim() : code)}
+          disabled={isVerifying || (useRecoveryCode ? !recoveryCode.trim() : code.length < OTP_LENGTH)}
+          className="w-full"
+        >
+          {isVerifying ? "Verifying..." : "Verify Code"}
+        </Button>
+
+        <Button
+          variant="link"
+          onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          disabled={isVerifying}
+          className="w-full"
+        >
+          {useRecoveryCode ? "Use a code from your app" : "Lost your device? Use a recovery code"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TOTPVerification;
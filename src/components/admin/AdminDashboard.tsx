@@ -2,9 +2,17 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { PresentationAttackSignals } from '@/utils/biometrics/antiSpoofing';
+import { clearBiometricLockout, resetBiometrics } from '@/utils/biometrics/biometricAttempts';
+import AuditLogPanel from '@/components/admin/AuditLogPanel';
+import VoterAttributesDialog from '@/components/admin/VoterAttributesDialog';
+import TurnoutPanel from '@/components/results/TurnoutPanel';
+import { VoterAttributes } from '@/utils/election/eligibility';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import {
   Table,
@@ -23,20 +31,34 @@ import {
   Trash2,
   PenSquare,
   Eye,
-  Loader2
+  Loader2,
+  ShieldAlert,
+  Lock,
+  LockOpen
 } from 'lucide-react';
+import ElectionStatusBadge from '@/components/ElectionStatusBadge';
+import { getElectionStatus } from '@/utils/election/lifecycle';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 
+type SuspectedSpoof = Omit<Tables<'biometric_attempts'>, 'spoof_signals'> & {
+  spoof_signals: PresentationAttackSignals | null;
+};
+
 const AdminDashboard = () => {
-  const { user } = useAuth();
+  const { hasRole } = useAuth();
+  const isSuperAdmin = hasRole('super_admin');
+  const isElectionOfficer = hasRole('election_officer');
+  const isAuditor = hasRole('auditor');
   const [loading, setLoading] = useState(true);
   const [users, setUsers] = useState<any[]>([]);
   const [elections, setElections] = useState<any[]>([]);
   const [votes, setVotes] = useState<any[]>([]);
-  const [activities, setActivities] = useState<any[]>([]);
+  const [suspectedSpoofs, setSuspectedSpoofs] = useState<SuspectedSpoof[]>([]);
+  const [lockouts, setLockouts] = useState<Tables<'biometric_lockouts'>[]>([]);
   // Add state for selected election and candidates
   const [selectedElection, setSelectedElection] = useState<any | null>(null);
   const [candidates, setCandidates] = useState<any[]>([]);
+  const [turnoutElectionId, setTurnoutElectionId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -45,7 +67,7 @@ const AdminDashboard = () => {
         // Fetch users with biometric data status
         const { data: userData, error: userError } = await supabase
           .from('profiles')
-          .select('id, full_name, created_at, avatar_url');
+          .select('id, full_name, created_at, avatar_url, student_id, department, year_of_study, district');
         
         if (userError) throw userError;
         
@@ -65,6 +87,27 @@ const AdminDashboard = () => {
         
         setUsers(usersWithBioStatus);
         
+        // Fetch verification attempts flagged as possible photo or screen spoofs
+        const { data: spoofData, error: spoofError } = await supabase
+          .from('biometric_attempts')
+          .select('*')
+          .eq('suspected_spoof', true)
+          .order('created_at', { ascending: false })
+          .limit(20);
+        
+        if (spoofError) throw spoofError;
+        setSuspectedSpoofs(spoofData as unknown as SuspectedSpoof[]);
+        
+        // Fetch users who have been locked out since their last successful verification
+        const { data: lockoutData, error: lockoutError } = await supabase
+          .from('biometric_lockouts')
+          .select('*')
+          .gt('lockout_count', 0)
+          .order('locked_until', { ascending: false, nullsFirst: false });
+        
+        if (lockoutError) throw lockoutError;
+        setLockouts(lockoutData);
+        
         // Fetch elections
         const { data: electionData, error: electionError } = await supabase
           .from('elections')
@@ -73,32 +116,18 @@ const AdminDashboard = () => {
         
         if (electionError) throw electionError;
         setElections(electionData);
+        setTurnoutElectionId(electionData[0]?.id ?? null);
         
-        // Fetch votes
+        // Recent votes as their ledger blocks; the choice on each ballot is not readable
         const { data: voteData, error: voteError } = await supabase
-          .from('votes')
-          .select(`
-            id, 
-            created_at,
-            voter_id,
-            elections!inner(id, title),
-            candidates!inner(id, name)
-          `)
-          .order('created_at', { ascending: false })
+          .from('vote_ledger')
+          .select('block_number, block_hash, election_id, created_at')
+          .order('block_number', { ascending: false })
           .limit(20);
         
         if (voteError) throw voteError;
         setVotes(voteData);
         
-        // Create simulated activity log
-        const activities = [
-          { id: 1, type: 'login', user_id: 'admin', details: 'Admin logged in', timestamp: new Date().toISOString() },
-          { id: 2, type: 'user_register', user_id: 'user123', details: 'New user registered', timestamp: new Date(Date.now() - 60000).toISOString() },
-          { id: 3, type: 'face_register', user_id: 'user456', details: 'Face biometric registered', timestamp: new Date(Date.now() - 120000).toISOString() },
-          { id: 4, type: 'vote_cast', user_id: 'user789', details: 'Vote cast in Presidential Election', timestamp: new Date(Date.now() - 180000).toISOString() },
-          { id: 5, type: 'system', details: 'Daily backup completed', timestamp: new Date(Date.now() - 240000).toISOString() }
-        ];
-        setActivities(activities);
         
       } catch (error) {
         console.error('Error fetching data:', error);
@@ -142,14 +171,21 @@ const AdminDashboard = () => {
     }
   };
 
+  const handleVoterAttributesSaved = (userId: string, attributes: VoterAttributes) => {
+    setUsers(users.map(u =>
+      u.id === userId ? {
+        ...u,
+        student_id: attributes.studentId || null,
+        department: attributes.department || null,
+        year_of_study: attributes.yearOfStudy,
+        district: attributes.district || null
+      } : u
+    ));
+  };
+
   const handleResetFaceData = async (userId: string) => {
     try {
-      const { error } = await supabase
-        .from('user_biometrics')
-        .delete()
-        .eq('user_id', userId);
-      
-      if (error) throw error;
+      await resetBiometrics(userId);
       
       // Update the local state
       setUsers(users.map(u => 
@@ -170,6 +206,26 @@ const AdminDashboard = () => {
     }
   };
 
+  const handleClearLockout = async (userId: string) => {
+    try {
+      await clearBiometricLockout(userId);
+      
+      setLockouts(lockouts.filter(lockout => lockout.user_id !== userId));
+      
+      toast({
+        title: 'Success',
+        description: 'Biometric lockout cleared successfully.',
+      });
+    } catch (error) {
+      console.error('Error clearing lockout:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to clear biometric lockout.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Add fetchCandidates function
   const fetchCandidates = async (electionId: string) => {
     try {
@@ -242,7 +298,7 @@ const AdminDashboard = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="users">
-            <TabsList className="grid grid-cols-4 mb-8">
+            <TabsList className={`grid ${isAuditor ? 'grid-cols-4' : 'grid-cols-3'} mb-8`}>
               <TabsTrigger value="users" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
                 <span className="hidden sm:inline">Users</span>
@@ -255,10 +311,12 @@ const AdminDashboard = () => {
                 <BarChart3 className="h-4 w-4" />
                 <span className="hidden sm:inline">Analytics</span>
               </TabsTrigger>
-              <TabsTrigger value="activity" className="flex items-center gap-2">
-                <Activity className="h-4 w-4" />
-                <span className="hidden sm:inline">Activity Log</span>
-              </TabsTrigger>
+              {isAuditor && (
+                <TabsTrigger value="activity" className="flex items-center gap-2">
+                  <Activity className="h-4 w-4" />
+                  <span className="hidden sm:inline">Audit Log</span>
+                </TabsTrigger>
+              )}
             </TabsList>
             
             <TabsContent value="users">
@@ -301,16 +359,33 @@ const AdminDashboard = () => {
                               </TableCell>
                               <TableCell>
                                 <div className="flex space-x-2">
-                                  <Button 
-                                    variant="outline" 
-                                    size="sm" 
-                                    onClick={() => handleDeleteUser(user.id)}
-                                    className="h-8 w-8 p-0"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                    <span className="sr-only">Delete User</span>
-                                  </Button>
-                                  {user.has_biometrics && (
+                                  {isElectionOfficer && (
+                                    <VoterAttributesDialog
+                                      userId={user.id}
+                                      userName={user.full_name}
+                                      attributes={{
+                                        studentId: user.student_id ?? "",
+                                        department: user.department ?? "",
+                                        yearOfStudy: user.year_of_study,
+                                        district: user.district ?? ""
+                                      }}
+                                      onSaved={(attributes) => handleVoterAttributesSaved(user.id, attributes)}
+                                    />
+                                  )}
+                                  {isSuperAdmin && (
+                                    <>
+                                      <Button 
+                                        variant="outline" 
+                                        size="sm" 
+                                        onClick={() => handleDeleteUser(user.id)}
+                                        className="h-8 w-8 p-0"
+                                      >
+                                        <Trash2 className="h-4 w-4" />
+                                        <span className="sr-only">Delete User</span>
+                                      </Button>
+                                    </>
+                                  )}
+                                  {isElectionOfficer && user.has_biometrics && (
                                     <Button 
                                       variant="outline" 
                                       size="sm" 
@@ -331,6 +406,134 @@ const AdminDashboard = () => {
                   </div>
                 </CardContent>
               </Card>
+              
+              {isAuditor && (
+                <Card className="mt-4">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <ShieldAlert className="h-5 w-5 text-destructive" />
+                      Suspected Spoof Attempts
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>User</TableHead>
+                            <TableHead>Spoof Score</TableHead>
+                            <TableHead>Signals</TableHead>
+                            <TableHead>Similarity</TableHead>
+                            <TableHead>Timestamp</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {suspectedSpoofs.length === 0 ? (
+                            <TableRow>
+                              <TableCell colSpan={5} className="text-center">No suspected spoofs</TableCell>
+                            </TableRow>
+                          ) : (
+                            suspectedSpoofs.map((attempt) => (
+                              <TableRow key={attempt.id}>
+                                <TableCell>
+                                  {users.find(u => u.id === attempt.user_id)?.full_name || 'N/A'}
+                                  <div className="font-mono text-xs text-muted-foreground">{attempt.user_id.substring(0, 8)}...</div>
+                                </TableCell>
+                                <TableCell>
+                                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                    {Math.round(attempt.spoof_score * 100)}%
+                                  </span>
+                                </TableCell>
+                                <TableCell className="text-xs">
+                                  {attempt.spoof_signals && (
+                                    <>
+                                      Banding {Math.round(attempt.spoof_signals.banding * 100)}% ·
+                                      Glare {Math.round(attempt.spoof_signals.specular * 100)}% ·
+                                      Still {Math.round(attempt.spoof_signals.staticFace * 100)}%
+                                    </>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  {attempt.similarity !== null ? `${Math.round(attempt.similarity * 100)}%` : 'N/A'}
+                                </TableCell>
+                                <TableCell>{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                              </TableRow>
+                            ))
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+              
+              {(isAuditor || isElectionOfficer) && (
+                <Card className="mt-4">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Lock className="h-5 w-5 text-destructive" />
+                      Biometric Lockouts
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>User</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead>Lockouts</TableHead>
+                            <TableHead>Last Updated</TableHead>
+                            <TableHead>Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {lockouts.length === 0 ? (
+                            <TableRow>
+                              <TableCell colSpan={5} className="text-center">No locked out users</TableCell>
+                            </TableRow>
+                          ) : (
+                            lockouts.map((lockout) => (
+                              <TableRow key={lockout.user_id}>
+                                <TableCell>
+                                  {users.find(u => u.id === lockout.user_id)?.full_name || 'N/A'}
+                                  <div className="font-mono text-xs text-muted-foreground">{lockout.user_id.substring(0, 8)}...</div>
+                                </TableCell>
+                                <TableCell>
+                                  {lockout.locked_until && new Date(lockout.locked_until) > new Date() ? (
+                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                      Locked until {new Date(lockout.locked_until).toLocaleString()}
+                                    </span>
+                                  ) : (
+                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                      Expired
+                                    </span>
+                                  )}
+                                </TableCell>
+                                <TableCell>{lockout.lockout_count}</TableCell>
+                                <TableCell>{new Date(lockout.updated_at).toLocaleString()}</TableCell>
+                                <TableCell>
+                                  {isElectionOfficer && (
+                                    <Button 
+                                      variant="outline" 
+                                      size="sm" 
+                                      onClick={() => handleClearLockout(lockout.user_id)}
+                                      className="h-8 w-8 p-0"
+                                    >
+                                      <LockOpen className="h-4 w-4" />
+                                      <span className="sr-only">Clear Lockout</span>
+                                    </Button>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                            ))
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
             </TabsContent>
             
             <TabsContent value="elections">
@@ -362,14 +565,9 @@ const AdminDashboard = () => {
                               <TableCell>{new Date(election.start_date).toLocaleDateString()}</TableCell>
                               <TableCell>{new Date(election.end_date).toLocaleDateString()}</TableCell>
                               <TableCell>
-                                {election.is_active ? 
-                                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                    Active
-                                  </span> : 
-                                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                                    Inactive
-                                  </span>
-                                }
+                                <ElectionStatusBadge
+                                  status={getElectionStatus(election.status, election.start_date, election.end_date)}
+                                />
                               </TableCell>
                               <TableCell>
                                 <div className="flex space-x-2">
@@ -399,6 +597,43 @@ const AdminDashboard = () => {
                   </div>
                 </CardContent>
               </Card>
+              
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle className="text-lg">Recent Ballots</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Votes are shown by their ledger receipt. Neither the voter nor the choice is published.
+                  </p>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Receipt</TableHead>
+                          <TableHead>Election</TableHead>
+                          <TableHead>Recorded</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {votes.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={3} className="text-center">No ballots cast yet</TableCell>
+                          </TableRow>
+                        ) : (
+                          votes.map((block) => (
+                            <TableRow key={block.block_number}>
+                              <TableCell className="font-mono text-xs">{block.block_hash.substring(0, 16)}...</TableCell>
+                              <TableCell>{elections.find(e => e.id === block.election_id)?.title ?? 'Unknown election'}</TableCell>
+                              <TableCell>{new Date(block.created_at).toLocaleString()}</TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
             </TabsContent>
             
             <TabsContent value="analytics">
@@ -422,11 +657,11 @@ const AdminDashboard = () => {
                     
                     <Card>
                       <CardHeader>
-                        <CardTitle className="text-sm">Active Elections</CardTitle>
+                        <CardTitle className="text-sm">Open Elections</CardTitle>
                       </CardHeader>
                       <CardContent>
                         <div className="text-3xl font-bold">
-                          {elections.filter(e => e.is_active).length}
+                          {elections.filter(e => getElectionStatus(e.status, e.start_date, e.end_date) === 'open').length}
                         </div>
                         <div className="text-sm text-muted-foreground">
                           {elections.length} total elections
@@ -463,49 +698,27 @@ const AdminDashboard = () => {
                   </div>
                 </CardContent>
               </Card>
+              
+              <div className="mt-4 space-y-4">
+                <Select value={turnoutElectionId ?? undefined} onValueChange={setTurnoutElectionId}>
+                  <SelectTrigger className="w-full md:w-80">
+                    <SelectValue placeholder="Select an election for turnout" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {elections.map(election => (
+                      <SelectItem key={election.id} value={election.id}>{election.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {turnoutElectionId && <TurnoutPanel electionId={turnoutElectionId} />}
+              </div>
             </TabsContent>
             
-            <TabsContent value="activity">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">System Activity Log</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="rounded-md border">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Type</TableHead>
-                          <TableHead>Details</TableHead>
-                          <TableHead>User ID</TableHead>
-                          <TableHead>Timestamp</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {activities.map((activity) => (
-                          <TableRow key={activity.id}>
-                            <TableCell>
-                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
-                                ${activity.type === 'login' ? 'bg-blue-100 text-blue-800' : ''}
-                                ${activity.type === 'user_register' ? 'bg-green-100 text-green-800' : ''}
-                                ${activity.type === 'face_register' ? 'bg-purple-100 text-purple-800' : ''}
-                                ${activity.type === 'vote_cast' ? 'bg-amber-100 text-amber-800' : ''}
-                                ${activity.type === 'system' ? 'bg-gray-100 text-gray-800' : ''}
-                              `}>
-                                {activity.type}
-                              </span>
-                            </TableCell>
-                            <TableCell>{activity.details}</TableCell>
-                            <TableCell>{activity.user_id}</TableCell>
-                            <TableCell>{new Date(activity.timestamp).toLocaleString()}</TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                </CardContent>
-              </Card>
-            </TabsContent>
+            {isAuditor && (
+              <TabsContent value="activity">
+                <AuditLogPanel />
+              </TabsContent>
+            )}
           </Tabs>
         </CardContent>
       </Card>
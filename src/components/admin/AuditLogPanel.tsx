@@ -0,0 +1,273 @@
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ChevronLeft, ChevronRight, Download, Link2, Loader2 } from 'lucide-react';
+import {
+  AUDIT_EVENT_LABELS,
+  AUDIT_EVENT_TYPES,
+  AuditEvent,
+  AuditEventFilters,
+  AuditEventType,
+  auditEventsToCsv,
+  fetchAllAuditEvents,
+  fetchAuditEvents,
+  verifyAuditChain
+} from '@/utils/audit/auditLog';
+
+const PAGE_SIZE = 25;
+
+// Show the details as short key: value pairs rather than raw JSON
+const describeDetails = (details: AuditEvent['details']) => {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) {
+    return '';
+  }
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : String(value)}`)
+    .join(' · ');
+};
+
+const AuditLogPanel = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [page, setPage] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+
+  // Filter inputs; they apply when the form is submitted
+  const [eventType, setEventType] = useState<AuditEventType | 'all'>('all');
+  const [actorId, setActorId] = useState<string>("");
+  const [fromDate, setFromDate] = useState<string>("");
+  const [toDate, setToDate] = useState<string>("");
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchAuditEvents(filters, page, PAGE_SIZE)
+      .then(result => {
+        if (cancelled) return;
+        setEvents(result.events);
+        setTotal(result.total);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load the audit log.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page]);
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({
+      type: eventType === 'all' ? undefined : eventType,
+      actorId: actorId.trim() || undefined,
+      // Dates are local days, and the last one is included in full
+      from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined
+    });
+    setPage(0);
+  };
+
+  const handleClearFilters = () => {
+    setEventType('all');
+    setActorId("");
+    setFromDate("");
+    setToDate("");
+    setFilters({});
+    setPage(0);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const allEvents = await fetchAllAuditEvents(filters);
+      const blob = new Blob([auditEventsToCsv(allEvents)], { type: 'text/csv' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const result = await verifyAuditChain();
+      if (result.valid) {
+        toast({
+          title: "Audit Log Intact",
+          description: `All ${result.eventCount} events link up and match their hashes.`,
+        });
+      } else {
+        toast({
+          title: "Audit Log Tampered",
+          description: `Event #${result.brokenAtEvent}: ${result.reason}`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to verify the audit log.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="text-lg">Audit Log</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+              {isVerifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+              Verify Chain
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || total === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleApplyFilters} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+          <div>
+            <Label htmlFor="auditEventType">Event</Label>
+            <Select value={eventType} onValueChange={(value) => setEventType(value as AuditEventType | 'all')}>
+              <SelectTrigger id="auditEventType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {AUDIT_EVENT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{AUDIT_EVENT_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="auditActor">User ID</Label>
+            <Input
+              id="auditActor"
+              placeholder="Full user ID"
+              value={actorId}
+              onChange={(e) => setActorId(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="auditFrom">From</Label>
+            <Input id="auditFrom" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="auditTo">To</Label>
+            <Input id="auditTo" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">Filter</Button>
+            <Button type="button" variant="outline" onClick={handleClearFilters}>Clear</Button>
+          </div>
+        </form>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>User ID</TableHead>
+                <TableHead>Timestamp</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary inline" />
+                  </TableCell>
+                </TableRow>
+              ) : events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center">No events found</TableCell>
+                </TableRow>
+              ) : (
+                events.map(event => (
+                  <TableRow key={event.eventNumber}>
+                    <TableCell className="font-mono text-xs">{event.eventNumber}</TableCell>
+                    <TableCell>
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        {AUDIT_EVENT_LABELS[event.type] ?? event.type}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {describeDetails(event.details)}
+                      {event.targetId && (
+                        <div className="font-mono text-muted-foreground">{event.targetId.substring(0, 8)}...</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs" title={event.actorId ?? undefined}>
+                      {event.actorId ? `${event.actorId.substring(0, 8)}...` : 'System'}
+                    </TableCell>
+                    <TableCell>{event.timestamp.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {total} events · page {page + 1} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading}>
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous page</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || isLoading}>
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next page</span>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLogPanel;
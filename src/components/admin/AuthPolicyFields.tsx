@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AUTH_FACTORS, AUTH_FACTOR_LABELS, AuthFactor, BiometricFactor, MATCH_CONFIDENCE_RANGES } from '@/utils/election/authPolicy';
+
+interface AuthPolicyFieldsProps {
+  // Keeps the input ids unique when the fields appear in more than one form
+  idPrefix: string;
+  factors: AuthFactor[];
+  onFactorsChange: (factors: AuthFactor[]) => void;
+  // Percentages as typed; blank keeps the default threshold
+  minFaceConfidence: string;
+  onMinFaceConfidenceChange: (value: string) => void;
+  minPalmConfidence: string;
+  onMinPalmConfidenceChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const AuthPolicyFields = ({
+  idPrefix,
+  factors,
+  onFactorsChange,
+  minFaceConfidence,
+  onMinFaceConfidenceChange,
+  minPalmConfidence,
+  onMinPalmConfidenceChange,
+  disabled = false
+}: AuthPolicyFieldsProps) => {
+  const toggleFactor = (factor: AuthFactor, checked: boolean) => {
+    // Keep the canonical order so the policy reads the same however it was ticked
+    onFactorsChange(AUTH_FACTORS.filter(f => f === factor ? checked : factors.includes(f)));
+  };
+
+  const renderConfidence = (factor: BiometricFactor, value: string, onChange: (value: string) => void) => {
+    const range = MATCH_CONFIDENCE_RANGES[factor];
+    const id = `${idPrefix}-min-${factor}-confidence`;
+
+    return (
+      <div>
+        <Label htmlFor={id}>Minimum {factor} match confidence (%)</Label>
+        <Input
+          id={id}
+          type="number"
+          min={Math.round(range.min * 100)}
+          max={Math.round(range.max * 100)}
+          placeholder={`Default (${Math.round(range.min * 100)})`}
+          value={value}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Between {Math.round(range.min * 100)} and {Math.round(range.max * 100)}. Leave blank for the default.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div>
+        <span className="text-sm font-medium">Voter verification</span>
+        <p className="text-xs text-muted-foreground">
+          Choose what voters must complete before their vote is accepted.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {AUTH_FACTORS.map(factor => (
+          <div key={factor} className="flex items-center gap-2">
+            <input
+              id={`${idPrefix}-factor-${factor}`}
+              type="checkbox"
+              checked={factors.includes(factor)}
+              disabled={disabled}
+              onChange={(e) => toggleFactor(factor, e.target.checked)}
+              className="h-4 w-4 text-primary rounded"
+            />
+            <Label htmlFor={`${idPrefix}-factor-${factor}`}>{AUTH_FACTOR_LABELS[factor]}</Label>
+          </div>
+        ))}
+      </div>
+
+      {factors.includes('face') && renderConfidence('face', minFaceConfidence, onMinFaceConfidenceChange)}
+      {factors.includes('palm') && renderConfidence('palm', minPalmConfidence, onMinPalmConfidenceChange)}
+    </div>
+  );
+};
+
+export default AuthPolicyFields;
@@ -0,0 +1,303 @@
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { Download, FileUp, Loader2 } from 'lucide-react';
+import {
+  ElectionDefinition,
+  ElectionImportPreview,
+  electionsToCsv,
+  electionsToJson,
+  fetchElectionDefinitions,
+  importElections,
+  parseElectionFile,
+  previewElectionImport,
+  shiftElectionDates
+} from '@/utils/election/electionTransfer';
+
+interface ElectionTransferProps {
+  elections: { id: string; title: string; start_date: string }[];
+  // Called after an import so the election lists can be refreshed
+  onImported: () => void;
+}
+
+const downloadFile = (contents: string, type: string, fileName: string) => {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ElectionTransfer = ({ elections, onImported }: ElectionTransferProps) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  const [imported, setImported] = useState<ElectionDefinition[] | null>(null);
+  const [shiftDays, setShiftDays] = useState<string>("0");
+  const [previews, setPreviews] = useState<ElectionImportPreview[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [fileInputKey, setFileInputKey] = useState<number>(0);
+
+  const days = parseInt(shiftDays, 10) || 0;
+  const hasErrors = previews.some(preview => preview.errors.length > 0);
+
+  // Re-check the file whenever it or the date shift changes
+  useEffect(() => {
+    if (!imported) {
+      setPreviews([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsPreviewing(true);
+
+    previewElectionImport(shiftElectionDates(imported, days))
+      .then(result => {
+        if (!cancelled) setPreviews(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to check the import.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imported, days]);
+
+  const toggleElection = (electionId: string, checked: boolean) => {
+    setSelectedIds(checked ? [...selectedIds, electionId] : selectedIds.filter(id => id !== electionId));
+  };
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setIsExporting(true);
+    try {
+      const definitions = await fetchElectionDefinitions(selectedIds);
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'json') {
+        downloadFile(electionsToJson(definitions), 'application/json', `elections-${date}.json`);
+      } else {
+        downloadFile(electionsToCsv(definitions), 'text/csv', `elections-${date}.csv`);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export the elections.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImported(parseElectionFile(file.name, await file.text()));
+    } catch (error) {
+      setImported(null);
+      toast({
+        title: "Invalid File",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetImport = () => {
+    setImported(null);
+    setShiftDays("0");
+    setFileInputKey(key => key + 1);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const ids = await importElections(previews.map(preview => preview.election));
+      toast({
+        title: "Elections Imported",
+        description: `${ids.length} draft elections were created. Publish each one from Edit Election.`,
+      });
+      resetImport();
+      onImported();
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "No elections were imported.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Download className="h-6 w-6 text-primary" />
+            <CardTitle>Export Elections</CardTitle>
+          </div>
+          <CardDescription>
+            Download elections with their candidates to reuse them next term. Rosters and ballot encryption are not included.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="exportAll"
+              checked={elections.length > 0 && selectedIds.length === elections.length}
+              onCheckedChange={(checked) => setSelectedIds(checked === true ? elections.map(election => election.id) : [])}
+            />
+            <Label htmlFor="exportAll">Select all</Label>
+          </div>
+          <div className="max-h-64 overflow-y-auto border rounded-md p-3 space-y-2">
+            {elections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No elections yet.</p>
+            ) : (
+              elections.map(election => (
+                <div key={election.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${election.id}`}
+                    checked={selectedIds.includes(election.id)}
+                    onCheckedChange={(checked) => toggleElection(election.id, checked === true)}
+                  />
+                  <Label htmlFor={`export-${election.id}`} className="font-normal">
+                    {election.title}{' '}
+                    <span className="text-muted-foreground">
+                      ({new Date(election.start_date).toLocaleDateString()})
+                    </span>
+                  </Label>
+                </div>
+              ))
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport('json')} disabled={isExporting || selectedIds.length === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export JSON
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={isExporting || selectedIds.length === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <FileUp className="h-6 w-6 text-primary" />
+            <CardTitle>Import Elections</CardTitle>
+          </div>
+          <CardDescription>
+            Upload a JSON or CSV file in the export format. Every election is created as a draft, and if any one fails nothing is imported.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="importFile">Election file</Label>
+              <Input
+                key={fileInputKey}
+                id="importFile"
+                type="file"
+                accept=".json,.csv"
+                onChange={handleFileChange}
+              />
+            </div>
+            <div>
+              <Label htmlFor="importShiftDays">Move dates by (days)</Label>
+              <Input
+                id="importShiftDays"
+                type="number"
+                value={shiftDays}
+                disabled={!imported}
+                onChange={(e) => setShiftDays(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                For example 182 to run last term's elections again next term.
+              </p>
+            </div>
+          </div>
+
+          {imported && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium flex items-center gap-2">
+                  {isPreviewing && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {previews.length} elections in the file
+                </span>
+                <Button variant="ghost" size="sm" onClick={resetImport}>Clear</Button>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto space-y-2">
+                {previews.map((preview, index) => (
+                  <div key={index} className="border rounded-md p-3 text-sm">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-medium">{preview.election.title || 'Untitled election'}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(preview.election.start_date).toLocaleString()} – {new Date(preview.election.end_date).toLocaleString()}
+                          {' · '}{preview.election.candidates.length} candidates
+                        </div>
+                      </div>
+                      {preview.errors.length > 0 ? (
+                        <Badge variant="destructive">Invalid</Badge>
+                      ) : preview.previous ? (
+                        <Badge variant="secondary">{preview.changes.length} changes from last run</Badge>
+                      ) : (
+                        <Badge variant="outline">New</Badge>
+                      )}
+                    </div>
+                    {preview.errors.length > 0 && (
+                      <ul className="mt-2 list-disc list-inside text-destructive">
+                        {preview.errors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    )}
+                    {preview.changes.length > 0 && (
+                      <ul className="mt-2 list-disc list-inside text-muted-foreground text-xs">
+                        {preview.changes.map(change => <li key={change}>{change}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || isPreviewing || previews.length === 0 || hasErrors}
+                className="w-full"
+              >
+                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {hasErrors ? 'Fix the errors above to import' : `Import ${previews.length} Elections`}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ElectionTransfer;
@@ -0,0 +1,171 @@
+
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import {
+  ELIGIBILITY_LABELS,
+  Eligibility,
+  EligibilityRules,
+  fetchRosterSize,
+  parseRosterCsv,
+  replaceRoster
+} from '@/utils/election/eligibility';
+
+// Each rule as typed: a comma-separated list of allowed values
+export type EligibilityRulesInput = Record<keyof EligibilityRules, string>;
+
+interface EligibilityFieldsProps {
+  // Keeps the input ids unique when the fields appear in more than one form
+  idPrefix: string;
+  eligibility: Eligibility;
+  onEligibilityChange: (eligibility: Eligibility) => void;
+  rules: EligibilityRulesInput;
+  onRulesChange: (rules: EligibilityRulesInput) => void;
+  // The roster can only be uploaded once the election exists
+  electionId?: string;
+  disabled?: boolean;
+}
+
+const RULE_FIELDS: Array<{ key: keyof EligibilityRules; label: string; placeholder: string }> = [
+  { key: 'departments', label: "Departments", placeholder: "Physics, Chemistry" },
+  { key: 'years', label: "Years of study", placeholder: "3, 4" },
+  { key: 'districts', label: "Districts", placeholder: "North, East" }
+];
+
+const EligibilityFields = ({
+  idPrefix,
+  eligibility,
+  onEligibilityChange,
+  rules,
+  onRulesChange,
+  electionId,
+  disabled = false
+}: EligibilityFieldsProps) => {
+  const [rosterSize, setRosterSize] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+
+  useEffect(() => {
+    setRosterSize(null);
+    if (!electionId || eligibility !== 'roster') return;
+
+    let cancelled = false;
+    fetchRosterSize(electionId)
+      .then(size => {
+        if (!cancelled) setRosterSize(size);
+      })
+      .catch(error => console.error("Error loading roster size:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [electionId, eligibility]);
+
+  const handleRosterUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !electionId) return;
+
+    const identifiers = parseRosterCsv(await file.text());
+    if (identifiers.length === 0) {
+      toast({
+        title: "Empty Roster",
+        description: "The file has no emails or student IDs in its first column.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const size = await replaceRoster(electionId, identifiers);
+      setRosterSize(size);
+      toast({
+        title: "Roster Uploaded",
+        description: `${size} voters are on the roster for this election.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload the roster.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div>
+        <span className="text-sm font-medium">Electorate</span>
+        <p className="text-xs text-muted-foreground">
+          Choose who may vote. Voters only see the elections they are eligible for.
+        </p>
+      </div>
+
+      <Select
+        value={eligibility}
+        onValueChange={(value) => onEligibilityChange(value as Eligibility)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={`${idPrefix}-eligibility`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(ELIGIBILITY_LABELS) as Eligibility[]).map(option => (
+            <SelectItem key={option} value={option}>{ELIGIBILITY_LABELS[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {eligibility === 'roster' && (
+        electionId ? (
+          <div>
+            <Label htmlFor={`${idPrefix}-roster`}>Roster CSV</Label>
+            <Input
+              id={`${idPrefix}-roster`}
+              type="file"
+              accept=".csv,.txt"
+              disabled={disabled || isUploading}
+              onChange={handleRosterUpload}
+            />
+            <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+              {isUploading && <Loader2 className="h-3 w-3 animate-spin" />}
+              One email or student ID per row in the first column. Uploading replaces the current roster
+              {rosterSize !== null && ` of ${rosterSize} voters`}.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Upload the roster from Edit Election once the election has been created.
+          </p>
+        )
+      )}
+
+      {eligibility === 'rules' && (
+        <div className="space-y-2">
+          {RULE_FIELDS.map(field => (
+            <div key={field.key}>
+              <Label htmlFor={`${idPrefix}-rule-${field.key}`}>{field.label}</Label>
+              <Input
+                id={`${idPrefix}-rule-${field.key}`}
+                placeholder={field.placeholder}
+                value={rules[field.key]}
+                disabled={disabled}
+                onChange={(e) => onRulesChange({ ...rules, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Separate values with commas. Voters must match every list that is filled in; leave a list blank to allow anyone.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EligibilityFields;
@@ -0,0 +1,183 @@
+
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2, UserMinus, UserPlus } from 'lucide-react';
+import {
+  AppRole,
+  RoleAssignment,
+  STAFF_ROLES,
+  ROLE_LABELS,
+  fetchRoleAssignments,
+  grantRole,
+  revokeRole
+} from '@/utils/auth/roles';
+
+const RoleManagement = () => {
+  const { user } = useAuth();
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [email, setEmail] = useState<string>("");
+  const [role, setRole] = useState<AppRole>('election_officer');
+
+  const loadAssignments = async () => {
+    setIsLoading(true);
+    try {
+      setAssignments(await fetchRoleAssignments());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load role assignments.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAssignments();
+  }, []);
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await grantRole(email, role);
+      toast({
+        title: "Role Granted",
+        description: `${email.trim()} is now ${ROLE_LABELS[role].toLowerCase()}.`,
+      });
+      setEmail("");
+      await loadAssignments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to grant the role.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (assignment: RoleAssignment) => {
+    try {
+      await revokeRole(assignment.userId, assignment.role);
+      setAssignments(assignments.filter(a => !(a.userId === assignment.userId && a.role === assignment.role)));
+      toast({
+        title: "Role Revoked",
+        description: `${assignment.email} is no longer ${ROLE_LABELS[assignment.role].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke the role.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff Roles</CardTitle>
+        <CardDescription>
+          Election officers run elections, auditors review verification activity and super admins manage roles.
+          Every account can vote unless its voter role is revoked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleGrant} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="flex-1">
+            <Label htmlFor="grantEmail">Email</Label>
+            <Input
+              id="grantEmail"
+              type="email"
+              placeholder="officer@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="sm:w-48">
+            <Label htmlFor="grantRole">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+              <SelectTrigger id="grantRole">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFF_ROLES.map(staffRole => (
+                  <SelectItem key={staffRole} value={staffRole}>{ROLE_LABELS[staffRole]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Grant
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Granted</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center">No staff roles granted</TableCell>
+                  </TableRow>
+                ) : (
+                  assignments.map(assignment => (
+                    <TableRow key={`${assignment.userId}-${assignment.role}`}>
+                      <TableCell>{assignment.email}</TableCell>
+                      <TableCell>{ROLE_LABELS[assignment.role] ?? assignment.role}</TableCell>
+                      <TableCell>{assignment.grantedAt.toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        {/* Super admins cannot revoke their own role, so someone can always manage roles */}
+                        {!(assignment.role === 'super_admin' && assignment.userId === user?.id) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRevoke(assignment)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                            <span className="sr-only">Revoke Role</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoleManagement;
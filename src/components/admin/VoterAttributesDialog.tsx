@@ -0,0 +1,129 @@
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { IdCard, Loader2 } from 'lucide-react';
+import { VoterAttributes, setVoterAttributes } from '@/utils/election/eligibility';
+
+interface VoterAttributesDialogProps {
+  userId: string;
+  userName: string | null;
+  attributes: VoterAttributes;
+  onSaved: (attributes: VoterAttributes) => void;
+}
+
+const VoterAttributesDialog = ({ userId, userName, attributes, onSaved }: VoterAttributesDialogProps) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [studentId, setStudentId] = useState<string>("");
+  const [department, setDepartment] = useState<string>("");
+  const [yearOfStudy, setYearOfStudy] = useState<string>("");
+  const [district, setDistrict] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // Start from the stored details each time the dialog opens
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setStudentId(attributes.studentId);
+      setDepartment(attributes.department);
+      setYearOfStudy(attributes.yearOfStudy === null ? "" : String(attributes.yearOfStudy));
+      setDistrict(attributes.district);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = async () => {
+    const year = yearOfStudy.trim() === "" ? null : Number(yearOfStudy);
+    if (year !== null && !(Number.isInteger(year) && year >= 1 && year <= 10)) {
+      toast({
+        title: "Invalid Year",
+        description: "Year of study must be a whole number between 1 and 10.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updated: VoterAttributes = {
+      studentId: studentId.trim(),
+      department: department.trim(),
+      yearOfStudy: year,
+      district: district.trim()
+    };
+
+    setIsSaving(true);
+    try {
+      await setVoterAttributes(userId, updated);
+      onSaved(updated);
+      setOpen(false);
+      toast({
+        title: "Voter Details Saved",
+        description: "Eligibility rules will use the new details.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the voter's details.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 w-8 p-0">
+          <IdCard className="h-4 w-4" />
+          <span className="sr-only">Edit Voter Details</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Voter Details</DialogTitle>
+          <DialogDescription>
+            {userName || 'This user'}'s details decide which rule-based elections they can vote in.
+            Leave a field blank to clear it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="voterStudentId">Student ID</Label>
+            <Input id="voterStudentId" value={studentId} onChange={(e) => setStudentId(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="voterDepartment">Department</Label>
+            <Input id="voterDepartment" value={department} onChange={(e) => setDepartment(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="voterYear">Year of Study</Label>
+              <Input
+                id="voterYear"
+                type="number"
+                min="1"
+                max="10"
+                value={yearOfStudy}
+                onChange={(e) => setYearOfStudy(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="voterDistrict">District</Label>
+              <Input id="voterDistrict" value={district} onChange={(e) => setDistrict(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoterAttributesDialog;
@@ -1,12 +1,38 @@
 
 import React from 'react';
-import { User, CameraOff } from 'lucide-react';
+import { User, CameraOff, ScanFace } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { LivenessProgress } from '@/utils/biometrics/liveness';
 
 interface CameraFeedbackProps {
   cameraError: boolean;
+  // While a liveness gesture is being checked, what to do and how far along it is
+  liveness?: {
+    instruction: string;
+    progress: LivenessProgress | null;
+  };
 }
 
-const CameraFeedback: React.FC<CameraFeedbackProps> = ({ cameraError }) => {
+const CameraFeedback: React.FC<CameraFeedbackProps> = ({ cameraError, liveness }) => {
+  if (liveness) {
+    const { instruction, progress } = liveness;
+
+    return (
+      <div className="absolute inset-x-0 bottom-0 flex flex-col items-center gap-2 bg-black/60 p-4 text-white">
+        <p className="flex items-center gap-2 text-sm font-semibold">
+          <ScanFace className="h-4 w-4" />
+          Liveness Check
+        </p>
+        <p className="text-md">Please {instruction}</p>
+        <Progress value={(progress?.progress ?? 0) * 100} className="h-2 w-3/4" />
+        <p className={`text-xs ${progress?.status === 'failed' ? 'text-red-300' : 'text-white/80'}`}>
+          {progress ? progress.message : 'Starting camera analysis...'}
+          {progress && progress.status !== 'passed' && ` · ${Math.ceil(progress.timeRemaining / 1000)}s left`}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-64 items-center justify-center bg-muted">
       {cameraError ? (
@@ -5,13 +5,17 @@ import { Loader2, AlertCircle, ThumbsUp } from 'lucide-react';
 interface VerificationStatusProps {
   isVerifying: boolean;
   status: 'idle' | 'success' | 'error';
+  // Cosine similarity between the captured and registered faces, once compared
+  confidence?: number | null;
+  // Similarity needed for a match
+  threshold?: number;
 }
 
-const VerificationStatus: React.FC<VerificationStatusProps> = ({ isVerifying, status }) => {
+const VerificationStatus: React.FC<VerificationStatusProps> = ({ isVerifying, status, confidence = null, threshold }) => {
   if (!isVerifying) return null;
-  
+
   return (
-    <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10">
+    <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/80 z-10">
       {status === 'idle' && (
         <Loader2 className="h-10 w-10 animate-spin text-primary" />
       )}
@@ -21,6 +25,18 @@ const VerificationStatus: React.FC<VerificationStatusProps> = ({ isVerifying, st
       {status === 'error' && (
         <AlertCircle className="h-10 w-10 text-destructive" />
       )}
+      {status !== 'idle' && confidence !== null && (
+        <div className="mt-3 text-center">
+          <p className={`text-lg font-semibold ${status === 'success' ? 'text-green-600' : 'text-destructive'}`}>
+            {(confidence * 100).toFixed(1)}% match
+          </p>
+          {threshold !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              {(threshold * 100).toFixed(0)}% needed
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,173 @@
+
+import React, { useEffect, useState } from 'react';
+import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { Loader2, KeyRound, Trash2, AlertCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import CodeVerificationStep from '@/components/vote/CodeVerificationStep';
+import { Passkey, fetchPasskeys, isPasskeySupported, registerPasskey, removePasskey } from '@/utils/auth/passkeys';
+
+const PasskeysCard = () => {
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null);
+  const [name, setName] = useState('');
+  const [isRegistering, setIsRegistering] = useState(false);
+  // Adding a passkey after the first one needs a verified code
+  const [needsCode, setNeedsCode] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const isSupported = isPasskeySupported();
+
+  const loadPasskeys = async () => {
+    try {
+      setPasskeys(await fetchPasskeys());
+    } catch (error) {
+      setPasskeys([]);
+    }
+  };
+
+  useEffect(() => {
+    loadPasskeys();
+  }, []);
+
+  const handleRegister = async () => {
+    setIsRegistering(true);
+    try {
+      if (!(await registerPasskey(name.trim() || 'Passkey'))) {
+        setNeedsCode(true);
+        return;
+      }
+
+      setName('');
+      toast({
+        title: "Passkey Added",
+        description: "You will confirm your votes with a passkey from now on.",
+      });
+      await loadPasskeys();
+    } catch (error) {
+      toast({
+        title: "Could Not Add Passkey",
+        description: error instanceof Error ? error.message : "Failed to add a passkey.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleCodeVerified = () => {
+    setNeedsCode(false);
+    handleRegister();
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    setRemovingId(passkey.id);
+    try {
+      await removePasskey(passkey.id);
+      toast({
+        title: "Passkey Removed",
+        description: `"${passkey.name}" can no longer be used to vote.`,
+      });
+      await loadPasskeys();
+    } catch (error) {
+      toast({
+        title: "Removal Failed",
+        description: error instanceof Error ? error.message : "Failed to remove the passkey.",
+        variant: "destructive",
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Passkeys
+        </CardTitle>
+        <CardDescription>
+          Sign your vote with your device's screen lock or a security key. Once you add a passkey,
+          every vote needs a signature from one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Passkeys Not Supported</AlertTitle>
+            <AlertDescription>This browser cannot create or use passkeys.</AlertDescription>
+          </Alert>
+        )}
+
+        {passkeys === null ? (
+          <div className="flex items-center">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            <span>Loading passkeys...</span>
+          </div>
+        ) : passkeys.length > 0 ? (
+          <div className="space-y-2">
+            {passkeys.map(passkey => (
+              <div key={passkey.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <p className="font-medium">{passkey.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {passkey.createdAt.toLocaleDateString()}
+                    {passkey.lastUsedAt && ` · last used ${passkey.lastUsedAt.toLocaleDateString()}`}
+                    {passkey.backedUp && ' · synced'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(passkey)}
+                  disabled={removingId !== null}
+                  aria-label={`Remove ${passkey.name}`}
+                >
+                  {removingId === passkey.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">You have not added a passkey yet.</p>
+        )}
+
+        {isSupported && needsCode && (
+          <div className="space-y-2 rounded-md border p-4">
+            <p className="text-sm text-muted-foreground">
+              Your account has had a passkey before. Verify a code to add another.
+            </p>
+            <CodeVerificationStep onVerified={handleCodeVerified} onError={() => {}} />
+            <Button variant="ghost" className="w-full" onClick={() => setNeedsCode(false)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {isSupported && !needsCode && (
+          <div className="space-y-2">
+            <Label htmlFor="passkey-name">Add a passkey</Label>
+            <div className="flex gap-2">
+              <Input
+                id="passkey-name"
+                placeholder="Name, e.g. My laptop"
+                value={name}
+                maxLength={64}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Button onClick={handleRegister} disabled={isRegistering}>
+                {isRegistering ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Add passkey
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </>
+  );
+};
+
+export default PasskeysCard;
@@ -0,0 +1,277 @@
+
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Loader2, CheckCircle, Smartphone, Copy, KeyRound } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { OTP_LENGTH } from '@/utils/auth/otp';
+import {
+  TotpEnrollment,
+  TotpStatus,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  fetchTotpStatus,
+  removeTotp
+} from '@/utils/auth/totp';
+
+interface TotpEnrollmentCardProps {
+  // Shown as the account name in the authenticator app
+  accountName: string;
+}
+
+const TotpEnrollmentCard = ({ accountName }: TotpEnrollmentCardProps) => {
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [removalCode, setRemovalCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await fetchTotpStatus());
+    } catch (error) {
+      setStatus({ enrolled: false, confirmedAt: null, recoveryCodesRemaining: 0 });
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleBegin = async () => {
+    setIsWorking(true);
+    try {
+      setEnrollment(await beginTotpEnrollment(accountName));
+      setCode('');
+    } catch (error) {
+      toast({
+        title: "Setup Failed",
+        description: error instanceof Error ? error.message : "Failed to set up your authenticator app.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirm = async (value: string = code) => {
+    if (value.length < OTP_LENGTH) return;
+
+    setIsWorking(true);
+    try {
+      const codes = await confirmTotpEnrollment(value);
+      setRecoveryCodes(codes);
+      setEnrollment(null);
+      toast({
+        title: "Authenticator App Added",
+        description: "You can now use codes from your app when voting.",
+      });
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Invalid Code",
+        description: error instanceof Error ? error.message : "Failed to confirm your authenticator app.",
+        variant: "destructive",
+      });
+    } finally {
+      setCode('');
+      setIsWorking(false);
+    }
+  };
+
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+
+    if (value.length === OTP_LENGTH && !isWorking) {
+      handleConfirm(value);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsWorking(true);
+    try {
+      const removed = await removeTotp(removalCode.trim());
+      if (!removed) {
+        toast({
+          title: "Invalid Code",
+          description: "Enter a current code from your app or one of your recovery codes.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Authenticator App Removed",
+        description: "Codes for voting will be sent by text message again.",
+      });
+      setRemovalCode('');
+      setRecoveryCodes(null);
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Removal Failed",
+        description: error instanceof Error ? error.message : "Failed to remove your authenticator app.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: `${what} copied to the clipboard.` });
+    } catch (error) {
+      toast({ title: "Copy Failed", description: "Please copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const renderContent = () => {
+    if (!status) {
+      return (
+        <div className="flex items-center">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          <span>Checking authenticator status...</span>
+        </div>
+      );
+    }
+
+    // Recovery codes are only returned once, right after confirming
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Save your recovery codes</AlertTitle>
+            <AlertDescription>
+              Each code can be used once instead of a code from your app. They will not be shown again.
+            </AlertDescription>
+          </Alert>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-slate-50 p-4 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => copyToClipboard(recoveryCodes.join('\n'), "Recovery codes")}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy codes
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I have saved them</Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (status.enrolled) {
+      return (
+        <div className="space-y-4">
+          <Alert className="bg-green-50 border-green-200">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <AlertTitle>Authenticator App Enabled</AlertTitle>
+            <AlertDescription>
+              Added {status.confirmedAt?.toLocaleDateString()}. {status.recoveryCodesRemaining} recovery codes left.
+            </AlertDescription>
+          </Alert>
+          <div className="space-y-2">
+            <Label htmlFor="totp-removal-code">Remove authenticator app</Label>
+            <div className="flex gap-2">
+              <Input
+                id="totp-removal-code"
+                placeholder="Code from your app or a recovery code"
+                value={removalCode}
+                onChange={(e) => setRemovalCode(e.target.value)}
+                autoComplete="one-time-code"
+              />
+              <Button variant="destructive" onClick={handleRemove} disabled={!removalCode.trim() || isWorking}>
+                {isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Remove"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    if (enrollment) {
+      return (
+        <div className="space-y-6">
+          <div className="flex flex-col md:flex-row gap-6 items-center">
+            <div className="rounded-md border bg-white p-3">
+              <QRCodeSVG value={enrollment.uri} size={176} />
+            </div>
+            <div className="space-y-2 text-sm">
+              <p>Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy.</p>
+              <p className="text-muted-foreground">Or enter this key manually:</p>
+              <div className="flex items-center gap-2">
+                <code className="rounded bg-slate-100 px-2 py-1 font-mono text-xs break-all">{enrollment.secret}</code>
+                <Button variant="ghost" size="icon" onClick={() => copyToClipboard(enrollment.secret, "Key")} aria-label="Copy key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Enter the {OTP_LENGTH}-digit code from your app</Label>
+            <InputOTP
+              maxLength={OTP_LENGTH}
+              value={code}
+              onChange={handleCodeChange}
+              pattern="[0-9]*"
+              inputMode="numeric"
+              disabled={isWorking}
+              render={({ slots }) => (
+                <InputOTPGroup>
+                  {slots.map((slot, index) => (
+                    <InputOTPSlot key={index} index={index} aria-label={`Digit ${index + 1}`} />
+                  ))}
+                </InputOTPGroup>
+              )}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => handleConfirm()} disabled={code.length < OTP_LENGTH || isWorking}>
+              {isWorking ? "Verifying..." : "Verify and enable"}
+            </Button>
+            <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isWorking}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Use codes from an authenticator app instead of text messages to confirm your vote.
+        </p>
+        <Button onClick={handleBegin} disabled={isWorking}>
+          {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Smartphone className="mr-2 h-4 w-4" />}
+          Set up authenticator app
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Smartphone className="mr-2 h-5 w-5" />
+          Authenticator App
+        </CardTitle>
+        <CardDescription>Time-based codes for confirming your vote</CardDescription>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </>
+  );
+};
+
+export default TotpEnrollmentCard;
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, KeyRound, Download } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import VotingContract, { KeyCeremony, TrusteeKeyShare } from '@/utils/VotingContract';
+
+const downloadKeyFile = (keyShare: TrusteeKeyShare) => {
+  const blob = new Blob([JSON.stringify(keyShare, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `trustee-${keyShare.trusteeIndex}-key-${keyShare.electionId.substring(0, 8)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Shown only to users who are trustees of an election
+const TrusteeKeyCeremonyCard = () => {
+  const [ceremonies, setCeremonies] = useState<KeyCeremony[]>([]);
+  const [busyElectionId, setBusyElectionId] = useState<string | null>(null);
+
+  const loadCeremonies = async () => {
+    try {
+      setCeremonies(await VotingContract.getInstance().getKeyCeremonies());
+    } catch (error) {
+      setCeremonies([]);
+    }
+  };
+
+  useEffect(() => {
+    loadCeremonies();
+  }, []);
+
+  const handleJoin = async (ceremony: KeyCeremony) => {
+    setBusyElectionId(ceremony.electionId);
+    try {
+      downloadKeyFile(await VotingContract.getInstance().joinKeyCeremony(ceremony.electionId));
+      toast({
+        title: "Key File Downloaded",
+        description: "Keep this file safe and private. You need it to decrypt the tally, and it cannot be replaced.",
+      });
+      await loadCeremonies();
+    } catch (error) {
+      toast({
+        title: "Could Not Join",
+        description: error instanceof Error ? error.message : "Failed to join the key ceremony.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyElectionId(null);
+    }
+  };
+
+  const handleDeal = async (ceremony: KeyCeremony) => {
+    setBusyElectionId(ceremony.electionId);
+    try {
+      await VotingContract.getInstance().submitKeyDealing(ceremony.electionId);
+      toast({
+        title: "Dealing Published",
+        description: ceremony.dealtCount + 1 === ceremony.trusteeCount
+          ? "Every trustee has dealt and the election key is published."
+          : "The election key is published once every trustee has dealt.",
+      });
+      await loadCeremonies();
+    } catch (error) {
+      toast({
+        title: "Dealing Failed",
+        description: error instanceof Error ? error.message : "Failed to publish your dealing.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyElectionId(null);
+    }
+  };
+
+  const renderStep = (ceremony: KeyCeremony) => {
+    const isBusy = busyElectionId === ceremony.electionId;
+
+    if (ceremony.publicKey) {
+      return <Badge variant="outline">Key published</Badge>;
+    }
+
+    if (!ceremony.hasJoined) {
+      return (
+        <Button size="sm" onClick={() => handleJoin(ceremony)} disabled={busyElectionId !== null}>
+          {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Join and download key file
+        </Button>
+      );
+    }
+
+    if (ceremony.joinedCount < ceremony.trusteeCount) {
+      return (
+        <span className="text-sm text-muted-foreground">
+          Waiting for {ceremony.trusteeCount - ceremony.joinedCount} more trustees to join
+        </span>
+      );
+    }
+
+    if (!ceremony.hasDealt) {
+      return (
+        <Button size="sm" onClick={() => handleDeal(ceremony)} disabled={busyElectionId !== null}>
+          {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Deal my part of the key
+        </Button>
+      );
+    }
+
+    return (
+      <span className="text-sm text-muted-foreground">
+        Waiting for {ceremony.trusteeCount - ceremony.dealtCount} more trustees to deal
+      </span>
+    );
+  };
+
+  if (ceremonies.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Trustee Key Ceremonies
+        </CardTitle>
+        <CardDescription>
+          You are a trustee of these sealed elections. The trustees generate each election key together:
+          first everyone joins and saves their key file, then everyone deals their part of the key.
+          Nobody, including the election officers, ever holds the whole key.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {ceremonies.map(ceremony => (
+          <div key={ceremony.electionId} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div>
+              <p className="font-medium">{ceremony.electionTitle}</p>
+              <p className="text-xs text-muted-foreground">
+                Trustee {ceremony.trusteeIndex} of {ceremony.trusteeCount} · any {ceremony.threshold} can decrypt the tally
+              </p>
+            </div>
+            {renderStep(ceremony)}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrusteeKeyCeremonyCard;
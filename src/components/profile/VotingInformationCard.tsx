@@ -1,12 +1,14 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Loader2, CheckCircle, Vote, AlertCircle } from 'lucide-react';
+import { Loader2, CheckCircle, Vote, AlertCircle, Download } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useNavigate } from 'react-router-dom';
+import { toast } from '@/hooks/use-toast';
+import VotingContract from '@/utils/VotingContract';
 
 interface VotingInformationCardProps {
   isEditing: boolean;
@@ -15,6 +17,7 @@ interface VotingInformationCardProps {
   editedEmail: string;
   hasVoted: boolean;
   votingDetails: {
+    electionId?: string;
     electionName?: string;
     candidateName?: string;
     timestamp?: string;
@@ -31,6 +34,7 @@ const VotingInformationCard = ({
   votingDetails
 }: VotingInformationCardProps) => {
   const navigate = useNavigate();
+  const [isDownloadingProof, setIsDownloadingProof] = useState(false);
 
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'Unknown date';
@@ -41,6 +45,45 @@ const VotingInformationCard = ({
     navigate('/vote');
   };
 
+  const handleDownloadProof = async () => {
+    if (!votingDetails?.electionId || !votingDetails.transactionHash) return;
+
+    try {
+      setIsDownloadingProof(true);
+      const receiptProof = await VotingContract.getInstance().getReceiptProof(
+        votingDetails.electionId,
+        votingDetails.transactionHash
+      );
+
+      const proofDocument = {
+        ...receiptProof,
+        algorithm: {
+          hash: 'SHA-256 over UTF-8 hex strings',
+          leaf: 'sha256("00" + receiptHash)',
+          node: 'sha256("01" + left + right)',
+          unpairedNode: 'promoted to the next level unchanged'
+        }
+      };
+
+      const blob = new Blob([JSON.stringify(proofDocument, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `vote-inclusion-proof-${receiptProof.receiptHash.substring(0, 12)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading inclusion proof:', error);
+      toast({
+        title: "Proof Unavailable",
+        description: error instanceof Error ? error.message : "Could not generate the inclusion proof.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloadingProof(false);
+    }
+  };
+
   return (
     <>
       <CardHeader>
@@ -103,7 +146,7 @@ const VotingInformationCard = ({
                           </div>
                           <div>
                             <span className="font-medium">Voted for:</span>{' '}
-                            {votingDetails?.candidateName || 'Unknown candidate'}
+                            {votingDetails?.candidateName || 'Secret ballot (receipt not on this device)'}
                           </div>
                           <div>
                             <span className="font-medium">When:</span>{' '}
@@ -117,6 +160,22 @@ const VotingInformationCard = ({
                               </span>
                             </div>
                           )}
+                          {votingDetails?.transactionHash && votingDetails.electionId && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleDownloadProof}
+                              disabled={isDownloadingProof}
+                              className="mt-1 bg-white"
+                            >
+                              {isDownloadingProof ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <Download className="h-4 w-4 mr-2" />
+                              )}
+                              Download inclusion proof
+                            </Button>
+                          )}
                         </div>
                       </AlertDescription>
                     </Alert>
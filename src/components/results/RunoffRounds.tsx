@@ -0,0 +1,94 @@
+
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { RunoffResult } from '@/utils/VotingContract';
+
+interface RunoffRoundsProps {
+  result: RunoffResult;
+  candidates: { id: string; name: string; party: string }[];
+}
+
+const RunoffRounds = ({ result, candidates }: RunoffRoundsProps) => {
+  const nameOf = (candidateId: string) =>
+    candidates.find(candidate => candidate.id === candidateId)?.name || 'Unknown candidate';
+
+  if (result.ballotCount === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No ranked ballots have been cast yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {result.ballotCount} ranked ballots counted over {result.rounds.length} rounds
+        </p>
+        {result.winner && (
+          <Badge className="flex items-center">
+            <Trophy className="h-3 w-3 mr-1" /> {nameOf(result.winner)}
+          </Badge>
+        )}
+      </div>
+
+      {result.tied.length > 0 && (
+        <p className="text-sm text-amber-700">
+          The count stopped at a tie for last place between {result.tied.map(nameOf).join(', ')} that no earlier
+          round breaks. Election officials must resolve it.
+        </p>
+      )}
+
+      {result.rounds.map(round => {
+        const active = result.ballotCount - round.exhausted;
+        // Candidates still in the count, most votes first
+        const standings = Object.entries(round.counts).sort((a, b) => b[1] - a[1]);
+
+        return (
+          <div key={round.round} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="font-medium">Round {round.round}</h4>
+              <span className="text-xs text-muted-foreground">
+                {round.exhausted} exhausted {round.exhausted === 1 ? 'ballot' : 'ballots'}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {standings.map(([candidateId, votes]) => {
+                const share = active > 0 ? (votes / active) * 100 : 0;
+                const isEliminated = round.eliminated === candidateId;
+                const isWinner = round.winner === candidateId;
+
+                return (
+                  <div key={candidateId}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className={isEliminated ? 'text-muted-foreground line-through' : 'font-medium'}>
+                        {nameOf(candidateId)}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {votes} ({share.toFixed(1)}%)
+                        {isEliminated && ' · eliminated'}
+                        {isWinner && ' · elected'}
+                      </span>
+                    </div>
+                    <div className="h-2 rounded bg-slate-100">
+                      <div
+                        className={`h-2 rounded ${
+                          isWinner ? 'bg-green-500' : isEliminated ? 'bg-slate-300' : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${share}%` }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RunoffRounds;
@@ -0,0 +1,142 @@
+
+import React from 'react';
+import { Download, Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StvResult, StvStage } from '@/utils/VotingContract';
+
+interface StvStagesProps {
+  electionId: string;
+  result: StvResult;
+  candidates: { id: string; name: string; party: string }[];
+  canDownload: boolean;
+}
+
+const formatVotes = (votes: number) => Number.isInteger(votes) ? String(votes) : votes.toFixed(5);
+
+const StvStages = ({ electionId, result, candidates, canDownload }: StvStagesProps) => {
+  const nameOf = (candidateId: string) =>
+    candidates.find(candidate => candidate.id === candidateId)?.name || 'Unknown candidate';
+
+  const describeStage = (stage: StvStage) => {
+    switch (stage.kind) {
+      case 'first_preferences':
+        return 'First preferences';
+      case 'surplus':
+        return `Surplus of ${nameOf(stage.from)} transferred at ${stage.transferValue.toFixed(5)}`;
+      case 'exclusion':
+        return `${nameOf(stage.from)} excluded`;
+    }
+  };
+
+  // The log names candidates alongside their IDs so it can be audited on its own
+  const handleDownloadLog = () => {
+    const log = {
+      electionId,
+      method: 'Single transferable vote, Droop quota, fractional surplus transfer',
+      seats: result.seats,
+      ballotCount: result.ballotCount,
+      quota: result.quota,
+      candidates: candidates.map(({ id, name, party }) => ({ id, name, party })),
+      stages: result.stages.map(stage => ({
+        ...stage,
+        description: describeStage(stage)
+      })),
+      elected: result.elected,
+      tied: result.tied
+    };
+
+    const blob = new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stv-transfer-log-${electionId.substring(0, 8)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (result.ballotCount === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No ranked ballots have been cast yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {result.ballotCount} ranked ballots for {result.seats} seats. Quota: {result.quota} votes
+        </p>
+        {canDownload && (
+          <Button variant="outline" size="sm" onClick={handleDownloadLog} className="w-fit">
+            <Download className="mr-2 h-4 w-4" /> Transfer log
+          </Button>
+        )}
+      </div>
+
+      {result.elected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {result.elected.map(candidateId => (
+            <Badge key={candidateId} className="flex items-center">
+              <Trophy className="h-3 w-3 mr-1" /> {nameOf(candidateId)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {result.tied.length > 0 && (
+        <p className="text-sm text-amber-700">
+          The count stopped at a tie between {result.tied.map(nameOf).join(', ')} that no earlier stage breaks.
+          Election officials must resolve it before the remaining seats are filled.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 font-medium">Stage</th>
+              {candidates.map(candidate => (
+                <th key={candidate.id} className="text-right py-3 font-medium">{candidate.name}</th>
+              ))}
+              <th className="text-right py-3 font-medium">Exhausted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.stages.map(stage => (
+              <tr key={stage.stage} className="border-b align-top">
+                <td className="py-3 pr-4">
+                  <p className="font-medium">Stage {stage.stage}</p>
+                  <p className="text-xs text-muted-foreground">{describeStage(stage)}</p>
+                  {stage.elected.length > 0 && (
+                    <p className="text-xs text-green-700">
+                      Elected: {stage.elected.map(nameOf).join(', ')}
+                    </p>
+                  )}
+                </td>
+                {candidates.map(candidate => (
+                  <td
+                    key={candidate.id}
+                    className={`py-3 text-right ${
+                      stage.totals[candidate.id] === undefined ? 'text-muted-foreground' : ''
+                    } ${stage.elected.includes(candidate.id) ? 'font-semibold text-green-700' : ''}`}
+                  >
+                    {stage.totals[candidate.id] === undefined ? '–' : formatVotes(stage.totals[candidate.id])}
+                    {stage.received[candidate.id] !== undefined && stage.kind !== 'first_preferences' && (
+                      <p className="text-xs text-muted-foreground">+{formatVotes(stage.received[candidate.id])}</p>
+                    )}
+                  </td>
+                ))}
+                <td className="py-3 text-right">{formatVotes(stage.exhausted)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StvStages;
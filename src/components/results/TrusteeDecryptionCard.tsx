@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import VotingContract, { DecryptionStatus, TrusteeKeyShare } from '@/utils/VotingContract';
+
+interface TrusteeDecryptionCardProps {
+  electionId: string;
+  status: DecryptionStatus;
+  onSubmitted: () => void;
+}
+
+const TrusteeDecryptionCard = ({ electionId, status, onSubmitted }: TrusteeDecryptionCardProps) => {
+  const { user } = useAuth();
+  const [keyShare, setKeyShare] = useState<TrusteeKeyShare | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const share = JSON.parse(await file.text()) as TrusteeKeyShare;
+
+      if (share.electionId !== electionId || !share.transportSecret) {
+        throw new Error("This file is not a trustee key file for this election");
+      }
+
+      setKeyShare(share);
+    } catch (error) {
+      console.error('Error reading trustee key file:', error);
+      setKeyShare(null);
+      toast({
+        title: "Invalid Key File",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!keyShare) return;
+
+    try {
+      setIsSubmitting(true);
+      await VotingContract.getInstance().submitDecryptionShare(keyShare);
+
+      toast({
+        title: "Decryption Share Submitted",
+        description: `Thank you, ${keyShare.trusteeName}. Your share of the tally has been published.`,
+      });
+
+      setKeyShare(null);
+      onSubmitted();
+    } catch (error) {
+      console.error('Error submitting decryption share:', error);
+      toast({
+        title: "Decryption Failed",
+        description: error instanceof Error ? error.message : "Failed to submit the decryption share.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 text-left">
+      <div className="flex items-center gap-2 mb-2">
+        <KeyRound className="h-4 w-4 text-primary" />
+        <h4 className="font-medium">Trustee Decryption</h4>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        {status.decryptedBy.length} of {status.threshold} required trustees have decrypted the tally.
+        Trustees: {status.trustees.map(trustee => (
+          status.decryptedBy.includes(trustee.index) ? `${trustee.name} (done)` : trustee.name
+        )).join(', ')}
+      </p>
+
+      {user ? (
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="keyShare">Your trustee key file</Label>
+            <Input id="keyShare" type="file" accept="application/json,.json" onChange={handleFileChange} />
+          </div>
+          <Button onClick={handleSubmit} disabled={!keyShare || isSubmitting} className="w-full">
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying ballots and decrypting
+              </>
+            ) : (
+              'Submit Decryption Share'
+            )}
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Your key file stays on this device. Only your share of the combined tally is published.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Trustees must sign in to submit their decryption share.</p>
+      )}
+    </div>
+  );
+};
+
+export default TrusteeDecryptionCard;
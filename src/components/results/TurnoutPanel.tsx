@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Users } from 'lucide-react';
+import { TurnoutAttribute, TurnoutGroup, VoteStatistics } from '@/VotingContract';
+import { electionServiceDB } from '@/utils/election/ElectionServiceDB';
+
+const ATTRIBUTE_LABELS: Record<TurnoutAttribute, string> = {
+  department: "Department",
+  year_of_study: "Year of study",
+  district: "District"
+};
+
+interface TurnoutPanelProps {
+  electionId: string;
+  // Change to reload the figures, e.g. when a new ballot arrives
+  refreshKey?: number;
+}
+
+const groupLabel = (group: TurnoutGroup) => {
+  if (group.grouped) return 'Smaller groups combined';
+  return group.value ?? 'Not set';
+};
+
+const TurnoutPanel = ({ electionId, refreshKey = 0 }: TurnoutPanelProps) => {
+  const [statistics, setStatistics] = useState<VoteStatistics | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [attribute, setAttribute] = useState<TurnoutAttribute>('department');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    electionServiceDB.getVoteStatistics(electionId)
+      .then(result => {
+        if (!cancelled) setStatistics(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [electionId, refreshKey]);
+
+  const timeline = statistics?.votesOverTime.map(point => ({
+    hour: point.time.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric' }),
+    votes: point.votes
+  })) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Turnout
+        </CardTitle>
+        <CardDescription>
+          Measured against every voter currently eligible for this election.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !statistics ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !statistics ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Turnout figures are not available for this election.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <div className="flex items-end justify-between mb-2">
+                <div className="text-3xl font-bold">{statistics.voterTurnout.toFixed(1)}%</div>
+                <div className="text-sm text-muted-foreground text-right">
+                  {statistics.totalVotes} votes cast · {statistics.eligibleVoters} eligible voters
+                </div>
+              </div>
+              <Progress value={statistics.voterTurnout} />
+            </div>
+
+            {statistics.candidateStats.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-2">Share of the vote</h4>
+                <div className="space-y-2">
+                  {statistics.candidateStats.map(candidate => (
+                    <div key={candidate.id}>
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span>{candidate.name} <span className="text-muted-foreground">({candidate.party})</span></span>
+                        <span className="text-muted-foreground">
+                          {candidate.votes} · {candidate.share.toFixed(1)}%
+                        </span>
+                      </div>
+                      <Progress value={candidate.share} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Votes over time</h4>
+              {timeline.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No votes have been cast yet.</p>
+              ) : (
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={timeline}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="hour" tick={{ fontSize: 12 }} />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="votes" name="Votes" fill="#3B82F6" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">Grouped by hour, as votes are recorded.</p>
+            </div>
+
+            {statistics.breakdowns && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium">Turnout by</h4>
+                  <Select value={attribute} onValueChange={(value) => setAttribute(value as TurnoutAttribute)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ATTRIBUTE_LABELS) as TurnoutAttribute[]).map(key => (
+                        <SelectItem key={key} value={key}>{ATTRIBUTE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{ATTRIBUTE_LABELS[attribute]}</TableHead>
+                        <TableHead className="text-right">Eligible</TableHead>
+                        <TableHead className="text-right">Voted</TableHead>
+                        <TableHead className="text-right">Turnout</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {statistics.breakdowns[attribute].length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center">No eligible voters</TableCell>
+                        </TableRow>
+                      ) : (
+                        statistics.breakdowns[attribute].map(group => (
+                          <TableRow key={`${group.grouped}-${group.value}`}>
+                            <TableCell className={group.grouped || group.value === null ? 'text-muted-foreground' : undefined}>
+                              {groupLabel(group)}
+                            </TableCell>
+                            <TableCell className="text-right">{group.eligible}</TableCell>
+                            <TableCell className="text-right">{group.voted ?? '—'}</TableCell>
+                            <TableCell className="text-right">{group.turnout === null ? '—' : `${group.turnout.toFixed(1)}%`}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Groups of fewer than five eligible voters are combined so no one's participation stands out.
+                  Counts that would show whether a group's members voted are withheld (—).
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TurnoutPanel;
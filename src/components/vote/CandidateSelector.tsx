@@ -1,17 +1,24 @@
 
 import React, { useEffect, useState } from 'react';
-import { ArrowLeft, CheckCircle2, Loader2 } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, Loader2, Lock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { Election, Candidate } from '@/utils/VotingContract';
+import RankedCandidateList from './RankedCandidateList';
+import VotingContract, { Election, Candidate, EncryptedBallot } from '@/utils/VotingContract';
 import { supabase } from '@/integrations/supabase/client';
+import { getBallotCounts } from '@/utils/vote/voteService';
+import { toast } from '@/hooks/use-toast';
 
 interface CandidateSelectorProps {
   election: Election;
   selectedCandidate: Candidate | null;
   onSelectCandidate: (candidate: Candidate) => void;
-  onVote: () => void;
+  ranking: Candidate[];
+  onRankCandidates: (ranking: Candidate[]) => void;
+  selectedCandidates: Candidate[];
+  onSelectCandidates: (candidates: Candidate[]) => void;
+  onVote: (encryptedBallot?: EncryptedBallot) => void;
   onBack: () => void;
   isLoading: boolean;
 }
@@ -20,44 +27,40 @@ const CandidateSelector = ({
   election,
   selectedCandidate,
   onSelectCandidate,
+  ranking,
+  onRankCandidates,
+  selectedCandidates,
+  onSelectCandidates,
   onVote,
   onBack,
   isLoading
 }: CandidateSelectorProps) => {
   const [candidatesWithVotes, setCandidatesWithVotes] = useState<Candidate[]>(election.candidates);
   const [loadingVotes, setLoadingVotes] = useState(true);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const isRanked = election.votingMethod === 'irv';
+  const maxSelections = election.maxSelections || 1;
+  const isMultiChoice = maxSelections > 1;
 
   // Fetch actual vote counts for candidates
   useEffect(() => {
+    // Sealed elections have no running totals to show
+    if (election.encryptedBallots) {
+      setLoadingVotes(false);
+      return;
+    }
+    
     const fetchVoteCounts = async () => {
       try {
         setLoadingVotes(true);
         
-        // For each candidate, get their vote count
-        const updatedCandidates = await Promise.all(
-          election.candidates.map(async (candidate) => {
-            const strCandidateId = String(candidate.id);
-            
-            // Get vote count from database
-            const { count, error } = await supabase
-              .from('votes')
-              .select('*', { count: 'exact', head: true })
-              .eq('candidate_id', strCandidateId);
-              
-            if (error) {
-              console.error(`Error fetching votes for candidate ${strCandidateId}:`, error);
-              return candidate; // Return original candidate if there's an error
-            }
-            
-            // Return candidate with updated vote count
-            return {
-              ...candidate,
-              voteCount: count || 0
-            };
-          })
-        );
+        // Ballots are not readable, only the count per candidate
+        const counts = await getBallotCounts(String(election.id));
         
-        setCandidatesWithVotes(updatedCandidates);
+        setCandidatesWithVotes(election.candidates.map(candidate => ({
+          ...candidate,
+          voteCount: counts[String(candidate.id)] || 0
+        })));
       } catch (error) {
         console.error('Error fetching vote counts:', error);
       } finally {
@@ -67,13 +70,13 @@ const CandidateSelector = ({
     
     fetchVoteCounts();
     
-    // Set up real-time listener for vote updates
+    // Every vote appends a ledger block, which is public where ballots are not
     const channel = supabase.channel(`election-votes-${election.id}`)
       .on('postgres_changes', 
         { 
           event: 'INSERT', 
           schema: 'public', 
-          table: 'votes',
+          table: 'vote_ledger',
           filter: `election_id=eq.${election.id}`
         }, 
         (payload) => {
@@ -89,13 +92,84 @@ const CandidateSelector = ({
     };
   }, [election]);
 
+  const isChosen = (candidate: Candidate) => isMultiChoice
+    ? selectedCandidates.some(chosen => chosen.id === candidate.id)
+    : selectedCandidate?.id === candidate.id;
+  
+  // Multi-choice ballots toggle candidates on and off, up to the election's limit
+  const handleCandidateClick = (candidate: Candidate) => {
+    if (!isMultiChoice) {
+      onSelectCandidate(candidate);
+      return;
+    }
+    
+    if (isChosen(candidate)) {
+      onSelectCandidates(selectedCandidates.filter(chosen => chosen.id !== candidate.id));
+      return;
+    }
+    
+    if (selectedCandidates.length >= maxSelections) {
+      toast({
+        title: "Selection Limit Reached",
+        description: `You can choose up to ${maxSelections} candidates. Deselect one to choose another.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    onSelectCandidates([...selectedCandidates, candidate]);
+  };
+
+  const handleVote = async () => {
+    if (!election.encryptedBallots) {
+      onVote();
+      return;
+    }
+    
+    // Encrypt on this device so the choice never reaches the server in the clear
+    try {
+      setIsEncrypting(true);
+      const encryptedBallot = await VotingContract.getInstance().encryptBallot(
+        String(election.id),
+        election.candidates.map(candidate => String(candidate.id)),
+        String(selectedCandidate.id)
+      );
+      onVote(encryptedBallot);
+    } catch (error) {
+      console.error('Error encrypting ballot:', error);
+      toast({
+        title: "Encryption Failed",
+        description: error instanceof Error ? error.message : "Your ballot could not be encrypted. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
           <div>
             <CardTitle>{election.title}</CardTitle>
-            <CardDescription className="mt-1">Select a candidate to cast your vote</CardDescription>
+            <CardDescription className="mt-1">
+              {isRanked
+                ? 'Rank the candidates in order of preference'
+                : isMultiChoice
+                  ? `Choose up to ${maxSelections} candidates to cast your vote`
+                  : 'Select a candidate to cast your vote'}
+            </CardDescription>
+            {(election.seats || 1) > 1 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {election.seats} candidates will be elected.
+              </p>
+            )}
+            {election.encryptedBallots && (
+              <p className="text-xs text-muted-foreground mt-1 flex items-center">
+                <Lock className="h-3 w-3 mr-1" /> Your ballot is encrypted on this device. Results are sealed until the election closes.
+              </p>
+            )}
           </div>
           <Button 
             variant="outline" 
@@ -109,49 +183,72 @@ const CandidateSelector = ({
       </CardHeader>
       
       <CardContent>
-        <div className="grid gap-4 md:grid-cols-2">
-          {candidatesWithVotes.map((candidate) => (
-            <div
-              key={String(candidate.id)}
-              className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                selectedCandidate?.id === candidate.id
-                  ? 'border-primary bg-primary/5'
-                  : 'hover:border-primary/50'
-              }`}
-              onClick={() => onSelectCandidate(candidate)}
-            >
-              <div className="flex items-start justify-between mb-3">
-                <div className="space-y-1">
-                  <h3 className="font-medium">{candidate.name}</h3>
-                  <p className="text-sm text-muted-foreground">{candidate.party}</p>
+        {isRanked ? (
+          <RankedCandidateList
+            candidates={election.candidates}
+            ranking={ranking}
+            onRankCandidates={onRankCandidates}
+          />
+        ) : (
+          <>
+            {isMultiChoice && (
+              <p className="text-sm text-muted-foreground mb-3">
+                {selectedCandidates.length} of {maxSelections} chosen
+              </p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              {candidatesWithVotes.map((candidate) => (
+                <div
+                  key={String(candidate.id)}
+                  className={`border rounded-lg p-4 cursor-pointer transition-colors ${
+                    isChosen(candidate)
+                      ? 'border-primary bg-primary/5'
+                      : 'hover:border-primary/50'
+                  }`}
+                  onClick={() => handleCandidateClick(candidate)}
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="space-y-1">
+                      <h3 className="font-medium">{candidate.name}</h3>
+                      <p className="text-sm text-muted-foreground">{candidate.party}</p>
+                    </div>
+                    {isChosen(candidate) && (
+                      <CheckCircle2 className="h-5 w-5 text-primary" />
+                    )}
+                  </div>
+                  
+                  <Separator className="my-3" />
+                  
+                  <div className="text-xs text-muted-foreground">
+                    {election.encryptedBallots ? (
+                      <span className="flex items-center">
+                        <Lock className="h-3 w-3 mr-1" /> Votes sealed until close
+                      </span>
+                    ) : loadingVotes ? (
+                      <span className="flex items-center">
+                        <Loader2 className="h-3 w-3 animate-spin mr-1" /> Loading votes...
+                      </span>
+                    ) : (
+                      <span>Current votes: {candidate.voteCount}</span>
+                    )}
+                  </div>
                 </div>
-                {selectedCandidate?.id === candidate.id && (
-                  <CheckCircle2 className="h-5 w-5 text-primary" />
-                )}
-              </div>
-              
-              <Separator className="my-3" />
-              
-              <div className="text-xs text-muted-foreground">
-                {loadingVotes ? (
-                  <span className="flex items-center">
-                    <Loader2 className="h-3 w-3 animate-spin mr-1" /> Loading votes...
-                  </span>
-                ) : (
-                  <span>Current votes: {candidate.voteCount}</span>
-                )}
-              </div>
+              ))}
             </div>
-          ))}
-        </div>
+          </>
+        )}
       </CardContent>
       <CardFooter>
         <Button 
-          onClick={onVote} 
-          disabled={!selectedCandidate || isLoading} 
+          onClick={handleVote} 
+          disabled={(isRanked ? ranking.length === 0 : isMultiChoice ? selectedCandidates.length === 0 : !selectedCandidate) || isLoading || isEncrypting} 
           className="w-full"
         >
-          {isLoading ? (
+          {isEncrypting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Encrypting ballot
+            </>
+          ) : isLoading ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Processing
             </>
@@ -0,0 +1,62 @@
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, MessageSquare, Smartphone } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import OTPVerification from '@/components/OTPVerification';
+import TOTPVerification from '@/components/TOTPVerification';
+import { fetchTotpStatus } from '@/utils/auth/totp';
+
+interface CodeVerificationStepProps {
+  onVerified: () => void;
+  onError: () => void;
+}
+
+/**
+ * The one-time code step. Voters with an authenticator app can use it instead
+ * of a code sent by text message.
+ */
+const CodeVerificationStep = ({ onVerified, onError }: CodeVerificationStepProps) => {
+  const [hasAuthenticator, setHasAuthenticator] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    fetchTotpStatus()
+      .then(status => setHasAuthenticator(status.enrolled))
+      .catch(() => setHasAuthenticator(false));
+  }, []);
+
+  // Wait for the status, so a text message is not sent to voters who use an app
+  if (hasAuthenticator === null) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!hasAuthenticator) {
+    return <OTPVerification onVerified={onVerified} onError={onError} />;
+  }
+
+  return (
+    <Tabs defaultValue="totp">
+      <TabsList className="grid grid-cols-2 mb-6">
+        <TabsTrigger value="totp">
+          <Smartphone className="mr-2 h-4 w-4" />
+          Authenticator app
+        </TabsTrigger>
+        <TabsTrigger value="sms">
+          <MessageSquare className="mr-2 h-4 w-4" />
+          Text message
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="totp">
+        <TOTPVerification onVerified={onVerified} onError={onError} />
+      </TabsContent>
+      <TabsContent value="sms">
+        <OTPVerification onVerified={onVerified} onError={onError} />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default CodeVerificationStep;
@@ -1,9 +1,10 @@
 
-import React from 'react';
-import { AlertTriangle, ChevronRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronRight, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Election } from '@/utils/VotingContract';
+import { formatCountdown, getElectionStatus } from '@/utils/election/lifecycle';
 
 interface ElectionSelectorProps {
   elections: Election[];
@@ -16,12 +17,27 @@ const ElectionSelector = ({
   isLoading, 
   onSelectElection 
 }: ElectionSelectorProps) => {
+  const [now, setNow] = useState(() => new Date());
+  
+  // Tick every second so countdowns stay live and elections open and close on time
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  
+  const visibleElections = elections
+    .map(election => ({
+      election,
+      status: getElectionStatus(election.status, election.startDate, election.endDate, now)
+    }))
+    .filter(({ status }) => status === 'open' || status === 'scheduled');
+  
   return (
     <Card>
       <CardHeader>
         <CardTitle>Select an Election</CardTitle>
         <CardDescription>
-          Choose an election to cast your vote.
+          Choose an election to cast your vote. Only elections you are eligible for are listed.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -35,20 +51,22 @@ const ElectionSelector = ({
           </div>
         ) : (
           <div className="grid gap-4">
-            {elections.length === 0 ? (
+            {visibleElections.length === 0 ? (
               <div className="text-center py-8">
                 <AlertTriangle className="mx-auto h-12 w-12 text-amber-500 mb-2" />
-                <p className="text-lg font-medium">No Active Elections</p>
+                <p className="text-lg font-medium">No Open Elections</p>
                 <p className="text-sm text-muted-foreground">
-                  There are no active elections available at this time.
+                  There are no open or upcoming elections you are eligible for at this time.
                 </p>
               </div>
             ) : (
-              elections.map((election) => (
+              visibleElections.map(({ election, status }) => (
                 <Card 
                   key={election.id} 
-                  className="hover:border-primary/50 cursor-pointer transition-colors" 
-                  onClick={() => onSelectElection(election)}
+                  className={status === 'open'
+                    ? "hover:border-primary/50 cursor-pointer transition-colors"
+                    : "opacity-75"}
+                  onClick={() => status === 'open' && onSelectElection(election)}
                 >
                   <CardHeader className="pb-2">
                     <CardTitle className="text-base">{election.title}</CardTitle>
@@ -60,10 +78,13 @@ const ElectionSelector = ({
                     <p className="text-sm">{election.description}</p>
                   </CardContent>
                   <CardFooter className="pt-0 border-t flex justify-between items-center text-xs text-muted-foreground">
-                    <span>
-                      {election.isActive ? 'Active' : 'Inactive'}
+                    <span className="flex items-center">
+                      <Clock className="mr-1 h-3 w-3" />
+                      {status === 'open'
+                        ? `Closes in ${formatCountdown(election.endDate, now)}`
+                        : `Opens in ${formatCountdown(election.startDate, now)}`}
                     </span>
-                    <Button variant="ghost" size="sm" className="text-xs h-7 px-2">
+                    <Button variant="ghost" size="sm" className="text-xs h-7 px-2" disabled={status !== 'open'}>
                       Select <ChevronRight className="ml-1 h-3 w-3" />
                     </Button>
                   </CardFooter>
@@ -0,0 +1,159 @@
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, GripVertical, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Candidate } from '@/utils/VotingContract';
+
+interface RankedCandidateListProps {
+  candidates: Candidate[];
+  ranking: Candidate[];
+  onRankCandidates: (ranking: Candidate[]) => void;
+}
+
+const RankedCandidateList = ({ candidates, ranking, onRankCandidates }: RankedCandidateListProps) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const rankedIds = new Set(ranking.map(candidate => String(candidate.id)));
+  const unranked = candidates.filter(candidate => !rankedIds.has(String(candidate.id)));
+
+  // Move a candidate to a position in the ranking, adding it if it was unranked
+  const moveTo = (candidateId: string, index: number) => {
+    const candidate = candidates.find(c => String(c.id) === candidateId);
+    if (!candidate) return;
+
+    const next = ranking.filter(c => String(c.id) !== candidateId);
+    next.splice(Math.min(index, next.length), 0, candidate);
+    onRankCandidates(next);
+  };
+
+  const remove = (candidateId: string) => {
+    onRankCandidates(ranking.filter(c => String(c.id) !== candidateId));
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedId) {
+      moveTo(draggedId, index);
+    }
+    setDraggedId(null);
+  };
+
+  const handleDropOnUnranked = (event: React.DragEvent) => {
+    event.preventDefault();
+    if (draggedId) {
+      remove(draggedId);
+    }
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium mb-1">Your ranking</h4>
+        <p className="text-xs text-muted-foreground mb-2">
+          Drag candidates into order of preference. You can rank as many or as few as you like.
+        </p>
+        <ol
+          className="space-y-2 min-h-[3.5rem] rounded-lg border-2 border-dashed p-2"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => handleDrop(e, ranking.length)}
+        >
+          {ranking.length === 0 && (
+            <li className="text-sm text-muted-foreground text-center py-3">
+              Drag your first choice here
+            </li>
+          )}
+          {ranking.map((candidate, index) => (
+            <li
+              key={String(candidate.id)}
+              draggable
+              onDragStart={() => setDraggedId(String(candidate.id))}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => handleDrop(e, index)}
+              className={`flex items-center gap-2 border rounded-lg p-3 bg-primary/5 border-primary cursor-move ${
+                draggedId === String(candidate.id) ? 'opacity-50' : ''
+              }`}
+            >
+              <GripVertical className="h-4 w-4 text-muted-foreground" />
+              <span className="w-6 text-sm font-semibold text-primary">{index + 1}</span>
+              <div className="flex-1">
+                <p className="font-medium">{candidate.name}</p>
+                <p className="text-xs text-muted-foreground">{candidate.party}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={index === 0}
+                onClick={() => moveTo(String(candidate.id), index - 1)}
+                aria-label={`Move ${candidate.name} up`}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={index === ranking.length - 1}
+                onClick={() => moveTo(String(candidate.id), index + 1)}
+                aria-label={`Move ${candidate.name} down`}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => remove(String(candidate.id))}
+                aria-label={`Remove ${candidate.name} from ranking`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDropOnUnranked}
+      >
+        <h4 className="text-sm font-medium mb-2">Unranked candidates</h4>
+        {unranked.length === 0 ? (
+          <p className="text-xs text-muted-foreground">You have ranked every candidate.</p>
+        ) : (
+          <div className="grid gap-2 md:grid-cols-2">
+            {unranked.map(candidate => (
+              <div
+                key={String(candidate.id)}
+                draggable
+                onDragStart={() => setDraggedId(String(candidate.id))}
+                onDragEnd={() => setDraggedId(null)}
+                className="flex items-center gap-2 border rounded-lg p-3 cursor-move hover:border-primary/50"
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground" />
+                <div className="flex-1">
+                  <p className="font-medium">{candidate.name}</p>
+                  <p className="text-xs text-muted-foreground">{candidate.party}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => moveTo(String(candidate.id), ranking.length)}
+                  aria-label={`Rank ${candidate.name} next`}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RankedCandidateList;
@@ -2,27 +2,30 @@
 import React from 'react';
 import { Check } from 'lucide-react';
 
-interface StepIndicatorProps {
-  currentStep: number;
+interface StepIndicatorProps<T extends string | number> {
+  currentStep: T;
+  // Shown in order and numbered by position, so steps can be left out
   steps: Array<{
-    id: number;
+    id: T;
     label: string;
   }>;
 }
 
-const StepIndicator = ({ currentStep, steps }: StepIndicatorProps) => {
+const StepIndicator = <T extends string | number>({ currentStep, steps }: StepIndicatorProps<T>) => {
+  const currentIndex = steps.findIndex(step => step.id === currentStep);
+
   return (
     <div className="flex justify-between mb-8">
-      {steps.map((step) => (
-        <div 
-          key={step.id} 
-          className={`step-item ${step.id === currentStep ? 'active' : ''} ${step.id < currentStep ? 'complete' : ''}`}
+      {steps.map((step, index) => (
+        <div
+          key={step.id}
+          className={`step-item ${index === currentIndex ? 'active' : ''} ${index < currentIndex ? 'complete' : ''}`}
         >
-          <div className={`step ${step.id === currentStep ? 'active' : ''} ${step.id < currentStep ? 'complete' : ''}`}>
-            {step.id < currentStep ? (
+          <div className={`step ${index === currentIndex ? 'active' : ''} ${index < currentIndex ? 'complete' : ''}`}>
+            {index < currentIndex ? (
               <Check className="w-5 h-5" />
             ) : (
-              step.id
+              index + 1
             )}
           </div>
           <p className="text-xs mt-1">
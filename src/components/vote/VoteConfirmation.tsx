@@ -4,20 +4,25 @@ import { Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Election, Candidate } from '@/utils/VotingContract';
 import { supabase } from '@/integrations/supabase/client';
+import { getBallotCounts } from '@/utils/vote/voteService';
 import { toast } from '@/hooks/use-toast';
 
 interface VoteConfirmationProps {
   election: Election | null;
   candidate: Candidate | null;
+  ranking?: Candidate[];
+  selections?: Candidate[];
   transactionHash: string | null;
 }
 
 const VoteConfirmation = ({ 
   election, 
   candidate,
+  ranking = [],
+  selections = [],
   transactionHash 
 }: VoteConfirmationProps) => {
   const navigate = useNavigate();
@@ -26,28 +31,22 @@ const VoteConfirmation = ({
   
   useEffect(() => {
     const fetchVoteCount = async () => {
-      if (!candidate) return;
+      if (!candidate || !election) return;
+      
+      // Sealed elections have no running totals to show
+      if (election?.encryptedBallots) {
+        setIsLoading(false);
+        return;
+      }
       
       try {
         setIsLoading(true);
         const candidateId = String(candidate.id);
         console.log('Fetching vote count for candidate:', candidateId);
         
-        // First try to get votes from the database
-        const { data, error } = await supabase
-          .from('votes')
-          .select('id')
-          .eq('candidate_id', candidateId);
-          
-        if (error) {
-          console.error('Error fetching vote count from database:', error);
-          // Fall back to the candidate's vote count from props
-          setVoteCount(candidate.voteCount || 0);
-          return;
-        }
-        
-        console.log('Vote count data:', data);
-        const count = data?.length || 0;
+        // Ballots are not readable, only the count per candidate
+        const counts = await getBallotCounts(String(election.id));
+        const count = counts[candidateId] || 0;
         console.log('Calculated vote count:', count);
         setVoteCount(count);
         
@@ -67,25 +66,22 @@ const VoteConfirmation = ({
     fetchVoteCount();
     
     // Set up real-time listener for vote updates
-    if (candidate) {
+    if (candidate && election && !election.encryptedBallots) {
       const candidateId = String(candidate.id);
       console.log('Setting up real-time listener for candidate:', candidateId);
       
+      // Refresh on each new ledger block in this election
       const channel = supabase.channel(`votes-${candidateId}`)
         .on('postgres_changes', 
           { 
             event: 'INSERT', 
             schema: 'public', 
-            table: 'votes',
-            filter: `candidate_id=eq.${candidateId}`
+            table: 'vote_ledger',
+            filter: `election_id=eq.${election.id}`
           }, 
           (payload) => {
             console.log('Vote change detected:', payload);
             fetchVoteCount();
-            toast({
-              title: "Vote Recorded",
-              description: "A new vote has been cast for this candidate.",
-            });
           }
         )
         .subscribe();
@@ -95,7 +91,7 @@ const VoteConfirmation = ({
         supabase.removeChannel(channel);
       };
     }
-  }, [candidate]);
+  }, [candidate, election]);
   
   return (
     <Card>
@@ -116,10 +112,36 @@ const VoteConfirmation = ({
             <p className="text-sm font-medium">Election</p>
             <p className="text-sm">{election?.title || 'N/A'}</p>
           </div>
+          {election?.votingMethod === 'irv' && ranking.length > 0 && (
+            <div className="mb-2">
+              <p className="text-sm font-medium">Your Ranking</p>
+              <ol className="text-sm list-decimal list-inside">
+                {ranking.map(ranked => (
+                  <li key={String(ranked.id)}>{ranked.name} ({ranked.party})</li>
+                ))}
+              </ol>
+            </div>
+          )}
+          {(election?.maxSelections || 1) > 1 && selections.length > 0 && (
+            <div className="mb-2">
+              <p className="text-sm font-medium">Your Choices</p>
+              <ul className="text-sm">
+                {selections.map(chosen => (
+                  <li key={String(chosen.id)}>{chosen.name} ({chosen.party})</li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="mb-2">
-            <p className="text-sm font-medium">Candidate</p>
+            <p className="text-sm font-medium">
+              {election?.votingMethod === 'irv' || (election?.maxSelections || 1) > 1 ? 'First Choice' : 'Candidate'}
+            </p>
             <p className="text-sm">{candidate?.name || 'N/A'} ({candidate?.party || 'N/A'})</p>
-            {isLoading ? (
+            {election?.encryptedBallots ? (
+              <p className="text-xs text-muted-foreground mt-1">
+                Your ballot was encrypted. Results are sealed until the election closes.
+              </p>
+            ) : isLoading ? (
               <p className="text-xs text-blue-600 mt-1">Loading vote count...</p>
             ) : voteCount !== null ? (
               <p className="text-xs text-green-600 mt-1">
@@ -133,6 +155,14 @@ const VoteConfirmation = ({
             <p className="text-xs font-mono truncate text-muted-foreground">
               {transactionHash || 'Transaction processing...'}
             </p>
+            {transactionHash && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Keep this hash as your receipt. You can check it was recorded at any time on the{' '}
+                <Link to={`/verify?hash=${transactionHash}`} className="text-primary underline">
+                  verification page
+                </Link>.
+              </p>
+            )}
           </div>
         </div>
       </CardContent>
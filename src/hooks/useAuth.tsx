@@ -3,6 +3,8 @@ import React, { createContext, useContext, useState, useEffect, ReactNode } from
 import { Session, User } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { AppRole, fetchRoles, holdsRole } from '@/utils/auth/roles';
+import { recordSignIn } from '@/utils/audit/auditLog';
 
 interface AuthContextType {
   session: Session | null;
@@ -11,6 +13,10 @@ interface AuthContextType {
   signUp: (email: string, password: string, fullName: string) => Promise<void>;
   signOut: () => Promise<void>;
   isLoading: boolean;
+  roles: AppRole[];
+  // A super admin holds every role
+  hasRole: (role: AppRole) => boolean;
+  isLoadingRoles: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -19,6 +25,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  // The user the roles were loaded for, so a new sign-in never sees the last user's roles
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -40,6 +49,33 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Reload the roles whenever a different user signs in
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetchRoles(userId)
+      .catch(() => [] as AppRole[])
+      .then(userRoles => {
+        if (cancelled) return;
+        setRoles(userRoles);
+        setRolesUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isLoadingRoles = userId !== null && rolesUserId !== userId;
+  const hasRole = (role: AppRole) => !isLoadingRoles && holdsRole(roles, role);
+
   const signIn = async (email: string, password: string) => {
     setIsLoading(true);
     try {
@@ -54,6 +90,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         } else {
           throw error;
         }
+      } else {
+        await recordSignIn();
       }
     } catch (error) {
       if (error instanceof Error) {
@@ -129,6 +167,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         signUp,
         signOut,
         isLoading,
+        roles,
+        hasRole,
+        isLoadingRoles,
       }}
     >
       {children}
@@ -6,6 +6,36 @@ interface UseCameraProps {
   onError?: () => void;
 }
 
+// Burst frames are scaled down to at most this width to keep the analysis quick
+const BURST_MAX_WIDTH = 640;
+
+/**
+ * Capture a short burst of frames from a playing video, for checks that need
+ * to see how the image changes over time
+ */
+export async function captureFrameBurst(video: HTMLVideoElement, frameCount = 8, intervalMs = 80): Promise<ImageData[]> {
+  const scale = Math.min(1, BURST_MAX_WIDTH / (video.videoWidth || BURST_MAX_WIDTH));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((video.videoWidth || 640) * scale);
+  canvas.height = Math.round((video.videoHeight || 480) * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!context) {
+    throw new Error("Could not initialize camera context");
+  }
+
+  const frames: ImageData[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    if (i > 0) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    frames.push(context.getImageData(0, 0, canvas.width, canvas.height));
+  }
+
+  return frames;
+}
+
 export function useCamera({ onError }: UseCameraProps = {}) {
   const videoRef = useRef<HTMLVideoElement>(document.createElement('video'));
   const [isCapturing, setIsCapturing] = useState(false);
@@ -108,11 +138,15 @@ export function useCamera({ onError }: UseCameraProps = {}) {
 
   // Automatic camera start is now handled by the component
 
+  const captureBurst = (frameCount?: number, intervalMs?: number) =>
+    captureFrameBurst(videoRef.current, frameCount, intervalMs);
+
   return {
     videoRef,
     isCapturing,
     cameraError,
     startWebcam,
-    stopWebcam
+    stopWebcam,
+    captureBurst
   };
 }
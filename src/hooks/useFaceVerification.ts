@@ -1,20 +1,44 @@
 import { useState, useEffect, useRef } from 'react';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { captureFrameBurst } from '@/hooks/useCamera';
+import {
+  computeFaceEmbedding,
+  computeFaceEmbeddingFromImage,
+  loadFaceModels,
+  FaceEmbedding,
+  FACE_MATCH_THRESHOLD
+} from '@/utils/biometrics/faceEmbedding';
+import { enrollFaceTemplate, fetchFaceTemplate, needsReEnrollment } from '@/utils/biometrics/faceTemplate';
+import { LIVENESS_GESTURES } from '@/utils/biometrics/liveness';
+import { analyzePresentationAttack, PresentationAttackResult } from '@/utils/biometrics/antiSpoofing';
+import {
+  BiometricLockout,
+  fetchBiometricLockout,
+  formatLockoutRemaining,
+  isLockedOut,
+  MAX_FAILED_ATTEMPTS,
+  recordFailedBiometricAttempt,
+  verifyBiometricAttempt
+} from '@/utils/biometrics/biometricAttempts';
 
 interface UseFaceVerificationProps {
   onVerified?: () => void;
   onError?: () => void;
   isRegistrationMode?: boolean;
+  // An election's minimum similarity; only ever raises the default threshold
+  minMatchConfidence?: number | null;
 }
 
-export function useFaceVerification({ onVerified, onError, isRegistrationMode = false }: UseFaceVerificationProps) {
+export function useFaceVerification({ onVerified, onError, isRegistrationMode = false, minMatchConfidence }: UseFaceVerificationProps) {
+  const matchThreshold = Math.max(FACE_MATCH_THRESHOLD, minMatchConfidence ?? 0);
   const [isCaptured, setIsCaptured] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationStatus, setVerificationStatus] = useState<'idle' | 'success' | 'error'>('idle');
-  const [referenceImage, setReferenceImage] = useState<string | null>(null);
+  const [legacyImage, setLegacyImage] = useState<string | null>(null);
   const [hasReferenceImage, setHasReferenceImage] = useState<boolean>(false);
+  const [isReEnrollmentRequired, setIsReEnrollmentRequired] = useState(false);
+  const [matchScore, setMatchScore] = useState<number | null>(null);
   const [isLivenessChecking, setIsLivenessChecking] = useState(false);
   const [livenessGestures, setLivenessGestures] = useState<string[]>([]);
   const [currentGesture, setCurrentGesture] = useState<string | null>(null);
@@ -25,53 +49,56 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
   const { user } = useAuth();
   const captureAttempts = useRef(0);
   const livenessPassedRef = useRef(false);
-  const consecutiveFailedVerifications = useRef(0);
+  const capturedFrameRef = useRef<HTMLCanvasElement | null>(null);
+  const frameBurstRef = useRef<Promise<ImageData[] | null> | null>(null);
+  // The face seen in the frame that completed each liveness gesture
+  const gestureFacesRef = useRef<FaceEmbedding[]>([]);
 
-  // Fetch the user's registered face image when component mounts
+  // Start loading the face models straight away; any failure is reported when a face is captured
+  useEffect(() => {
+    loadFaceModels().catch(() => undefined);
+  }, []);
+
+  // Fetch the user's registered face template when component mounts
   useEffect(() => {
     const fetchUserFace = async () => {
       if (!user?.id) return;
       
       try {
-        console.log("Fetching user biometrics for user ID:", user.id);
-        const { data, error } = await supabase
-          .from('user_biometrics')
-          .select('face_image_url')
-          .eq('user_id', user.id)
-          .maybeSingle();
+        const template = await fetchFaceTemplate();
         
-        if (error) {
-          console.error('Error fetching user face image:', error);
+        if (!template) {
+          setHasReferenceImage(false);
           toast({
-            title: "Error",
-            description: "Failed to fetch your registered face image. Please try again later.",
-            variant: "destructive",
+            title: "No Biometrics Found",
+            description: "Please register your facial biometrics to continue.",
           });
           return;
         }
         
-        console.log("User biometrics data:", data);
-        
-        if (data?.face_image_url) {
-          setReferenceImage(data.face_image_url);
-          setHasReferenceImage(true);
-          toast({
-            title: "Biometrics Found",
-            description: "Your facial biometric data was successfully retrieved.",
-          });
-        } else {
-          console.log("No face image found for user");
+        // Templates from another model cannot be compared, so the face has to be
+        // reset by an election officer and registered again
+        if (needsReEnrollment(template)) {
           setHasReferenceImage(false);
+          setIsReEnrollmentRequired(true);
           toast({
-            title: "No Biometrics Found",
-            description: "Please register your facial biometrics to continue.",
+            title: "Please Register Again",
+            description: "Our face recognition has been updated. Please ask an election officer to reset your registration, then register your face again.",
           });
+          return;
         }
+        
+        setLegacyImage(template.legacyImageUrl);
+        setHasReferenceImage(true);
+        toast({
+          title: "Biometrics Found",
+          description: "Your facial biometric data was successfully retrieved.",
+        });
       } catch (err) {
         console.error('Error in fetchUserFace:', err);
         toast({
           title: "Error",
-          description: "An unexpected error occurred. Please try again later.",
+          description: err instanceof Error ? err.message : "An unexpected error occurred. Please try again later.",
           variant: "destructive",
         });
       }
@@ -80,11 +107,20 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     fetchUserFace();
   }, [user]);
 
+  // Restore any lockout from the server, so reloading the page does not clear it
+  useEffect(() => {
+    if (!user?.id) return;
+    
+    fetchBiometricLockout()
+      .then(lockout => applyLockout(lockout, false))
+      .catch(() => undefined);
+  }, [user]);
+
   // Initialize liveness detection gestures - requiring more gestures for better security
   useEffect(() => {
     if (isLivenessChecking && livenessGestures.length === 0) {
       // Enhanced random selection of gestures for liveness check - requiring 4 gestures for better security
-      const availableGestures = ['blink', 'smile', 'turn_left', 'turn_right', 'nod', 'raise_eyebrows'];
+      const availableGestures = LIVENESS_GESTURES;
       const selectedGestures = [];
       
       // Randomly select 4 gestures (increased from 3)
@@ -108,7 +144,7 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
         if (new Date() >= lockoutEndTime) {
           setIsLocked(false);
           setLockoutEndTime(null);
-          consecutiveFailedVerifications.current = 0;
+          setFailedAttempts(0);
         }
       };
 
@@ -117,7 +153,25 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     }
   }, [isLocked, lockoutEndTime]);
 
-  // Register a new face image
+  // Show the lockout state the server returned after an attempt
+  const applyLockout = (lockout: BiometricLockout | null, notify: boolean = true) => {
+    if (!lockout) return;
+    
+    const locked = isLockedOut(lockout);
+    setIsLocked(locked);
+    setLockoutEndTime(locked ? lockout.lockedUntil : null);
+    setFailedAttempts(MAX_FAILED_ATTEMPTS - lockout.remainingAttempts);
+    
+    if (locked && notify) {
+      toast({
+        title: "Account Temporarily Locked",
+        description: `Too many failed verification attempts. For security reasons, biometric verification has been locked for ${formatLockoutRemaining(lockout.lockedUntil)}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Register the user's face as an encrypted template
   const registerFace = async (videoRef: React.RefObject<HTMLVideoElement>, canvasRef: React.RefObject<HTMLCanvasElement>) => {
     if (!user?.id || !videoRef.current || !canvasRef.current) {
       toast({
@@ -145,53 +199,24 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
       // Draw the current video frame on the canvas
       context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
       
-      // Convert canvas to base64 image data
-      const imageData = canvas.toDataURL('image/jpeg', 0.9);
-      
-      console.log("Registering face image for user:", user.id);
-      
-      // Check if user already has a face image
-      const { data: existingData } = await supabase
-        .from('user_biometrics')
-        .select('id')
-        .eq('user_id', user.id)
-        .maybeSingle();
-        
-      let result;
+      // Compute the embedding on this device; only one clearly visible face is accepted
+      const face = await computeFaceEmbedding(canvas);
       
-      if (existingData) {
-        // Update existing record
-        console.log("Updating existing biometrics record");
-        result = await supabase
-          .from('user_biometrics')
-          .update({
-            face_image_url: imageData,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', user.id);
-      } else {
-        // Insert new record
-        console.log("Creating new biometrics record");
-        result = await supabase
-          .from('user_biometrics')
-          .insert({
-            user_id: user.id,
-            face_image_url: imageData
-          });
+      if (!face) {
+        throw new Error("No face was found. Make sure your face is well lit and inside the frame.");
       }
       
-      if (result.error) {
-        throw result.error;
-      }
+      // Only the template is stored; the captured frame never leaves this device
+      await enrollFaceTemplate(face);
       
       toast({
         title: "Face Registered",
         description: "Your face has been successfully registered for secure voting.",
       });
       
-      // Set the reference image to the newly captured image
-      setReferenceImage(imageData);
+      setLegacyImage(null);
       setHasReferenceImage(true);
+      setIsReEnrollmentRequired(false);
       
       // If we're in registration mode and onVerified callback exists, call it
       if (isRegistrationMode && onVerified) {
@@ -202,7 +227,7 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
       console.error('Face registration error:', error);
       toast({
         title: "Registration Error",
-        description: "Failed to save your face image. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to save your face template. Please try again.",
         variant: "destructive",
       });
       
@@ -229,10 +254,9 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     
     // Check if user is locked out
     if (isLocked) {
-      const remainingTime = lockoutEndTime ? Math.ceil((lockoutEndTime.getTime() - new Date().getTime()) / 1000 / 60) : 0;
       toast({
         title: "Security Lockout",
-        description: `Too many failed verification attempts. Please try again in ${remainingTime} minutes.`,
+        description: `Too many failed verification attempts. Please try again in ${lockoutEndTime ? formatLockoutRemaining(lockoutEndTime) : 'a few minutes'}.`,
         variant: "destructive",
       });
       
@@ -261,6 +285,7 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     
     // Draw the current video frame on the canvas
     context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    capturedFrameRef.current = canvas;
     
     setIsCaptured(true);
     
@@ -286,7 +311,14 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
       return;
     }
     
+    // Record a burst of frames for the spoof check while the user is still
+    frameBurstRef.current = captureFrameBurst(video).catch(error => {
+      console.error('Error capturing frame burst:', error);
+      return null;
+    });
+    
     // Start enhanced liveness detection before verification
+    gestureFacesRef.current = [];
     setIsLivenessChecking(true);
     toast({
       title: "Enhanced Security Check",
@@ -308,7 +340,7 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
   };
 
   // Process liveness detection gesture with enhanced security
-  const processLivenessGesture = (successful: boolean = true) => {
+  const processLivenessGesture = (successful: boolean = true, face: FaceEmbedding | null = null) => {
     if (!successful) {
       toast({
         title: "Security Check Failed",
@@ -317,32 +349,23 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
       });
       captureAttempts.current += 1;
       
-      // After 3 failed attempts, reset the process and increment security counter
+      // After 3 failed gestures, count a failed attempt on the server and start over
       if (captureAttempts.current >= 3) {
-        consecutiveFailedVerifications.current += 1;
-        
-        // If too many consecutive failures, lock the account temporarily
-        if (consecutiveFailedVerifications.current >= 3) {
-          // Lock for 15 minutes
-          const lockoutEnd = new Date();
-          lockoutEnd.setMinutes(lockoutEnd.getMinutes() + 15);
-          setIsLocked(true);
-          setLockoutEndTime(lockoutEnd);
-          
-          toast({
-            title: "Account Temporarily Locked",
-            description: "Too many failed verification attempts. For security reasons, biometric verification has been locked for 15 minutes.",
-            variant: "destructive",
+        recordFailedBiometricAttempt('face', false)
+          .then(lockout => {
+            applyLockout(lockout);
+            if (isLockedOut(lockout) && onError) onError();
           });
-          
-          if (onError) onError();
-        }
         
         resetVerification();
       }
       return;
     }
     
+    if (face) {
+      gestureFacesRef.current.push(face);
+    }
+    
     // Find current gesture index
     const currentIndex = livenessGestures.findIndex(gesture => gesture === currentGesture);
     
@@ -370,8 +393,8 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
 
   // Verify facial image against the user's registered face with enhanced security
   const verifyFace = async () => {
-    // Skip verification if we don't have a reference image
-    if (!referenceImage) {
+    // Skip verification if we don't have a registered face
+    if (!hasReferenceImage) {
       toast({
         title: "Face Not Registered",
         description: "Please register your face first before attempting to vote.",
@@ -391,19 +414,20 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     setIsVerifying(true);
     
     try {
-      // In a real implementation, this would call a backend API for face comparison
-      const result = await simulateFaceComparison(referenceImage);
+      const result = await compareWithRegisteredFace();
+      setMatchScore(result.confidence);
+      
+      const lockout = result.lockout;
+      applyLockout(lockout);
       
-      if (result.verified) {
+      // A match does not count while the server has the user locked out
+      if (result.verified && !isLockedOut(lockout)) {
         setVerificationStatus('success');
         toast({
           title: "Face Verified",
-          description: `Your identity has been successfully verified with ${Math.round(result.confidence * 100)}% confidence.`,
+          description: `Your identity has been successfully verified with ${Math.round(result.confidence * 100)}% similarity.`,
         });
         
-        // Reset the consecutive failures counter on success
-        consecutiveFailedVerifications.current = 0;
-        
         // Call the onVerified callback after a short delay
         if (onVerified) {
           setTimeout(() => {
@@ -414,27 +438,14 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
         setVerificationStatus('error');
         toast({
           title: "Verification Failed",
-          description: "Face doesn't match our records. Please try again.",
+          description: isLockedOut(lockout)
+            ? "Biometric verification is locked for your account. Please try again later."
+            : result.presentationAttack.isSuspectedSpoof
+            ? "This doesn't look like a live face. Photos and screens can't be used to verify. Please try again in person."
+            : `Face doesn't match our records (${Math.round(result.confidence * 100)}% similarity, ${Math.round(result.threshold * 100)}% needed). Please try again.`,
           variant: "destructive",
         });
         
-        // Increment the consecutive failures counter
-        consecutiveFailedVerifications.current += 1;
-        
-        // Check if we need to lock the account
-        if (consecutiveFailedVerifications.current >= 3) {
-          const lockoutEnd = new Date();
-          lockoutEnd.setMinutes(lockoutEnd.getMinutes() + 15);
-          setIsLocked(true);
-          setLockoutEndTime(lockoutEnd);
-          
-          toast({
-            title: "Account Temporarily Locked",
-            description: "Too many failed verification attempts. For security reasons, biometric verification has been locked for 15 minutes.",
-            variant: "destructive",
-          });
-        }
-        
         // Reset to try again
         setTimeout(() => {
           setIsCaptured(false);
@@ -446,10 +457,12 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
       }
     } catch (error) {
       console.error('Face verification error:', error);
+      recordFailedBiometricAttempt('face', livenessPassedRef.current)
+        .then(lockout => applyLockout(lockout));
       setVerificationStatus('error');
       toast({
         title: "Verification Error",
-        description: "An error occurred during face verification. Please try again.",
+        description: error instanceof Error ? error.message : "An error occurred during face verification. Please try again.",
         variant: "destructive",
       });
       
@@ -472,47 +485,83 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     setIsLivenessChecking(false);
     setLivenessGestures([]);
     setCurrentGesture(null);
+    setMatchScore(null);
     captureAttempts.current = 0;
     livenessPassedRef.current = false;
+    frameBurstRef.current = null;
+    gestureFacesRef.current = [];
   };
   
-  // Enhanced face comparison with more sophisticated security checks
-  const simulateFaceComparison = async (referenceImage: string): Promise<{verified: boolean, confidence: number}> => {
-    return new Promise((resolve) => {
-      // Simulate API delay - longer for more thorough checking
-      setTimeout(() => {
-        // Enhanced simulation with multiple security factors
-        // 1. Random element to simulate real comparison
-        const randomFactor = Math.random();
-        
-        // 2. Current consecutive failures affect verification difficulty
-        const difficultyFactor = 0.9 - (consecutiveFailedVerifications.current * 0.1);
-        
-        // 3. Check if liveness check was actually passed
-        const livenessCheckPassed = livenessPassedRef.current;
-        
-        // 4. Require ALL security checks to pass for successful verification
-        const isSuccess = livenessCheckPassed && (randomFactor < difficultyFactor);
-        
-        resolve({ 
-          verified: isSuccess,
-          confidence: isSuccess ? 0.85 + Math.random() * 0.1 : 0.3 + Math.random() * 0.2
-        });
-      }, 2500); // Longer verification time for more thorough checking
+  // Have the server compare the captured frame and every gesture frame with the registered face
+  const compareWithRegisteredFace = async (): Promise<{
+    verified: boolean,
+    confidence: number,
+    threshold: number,
+    presentationAttack: PresentationAttackResult,
+    lockout: BiometricLockout
+  }> => {
+    if (!capturedFrameRef.current) {
+      throw new Error("No captured image to verify. Please capture your face again.");
+    }
+    
+    const probe = await computeFaceEmbedding(capturedFrameRef.current);
+    
+    if (!probe) {
+      throw new Error("No face was found in the captured image. Please try again.");
+    }
+    
+    const gestureFaces = gestureFacesRef.current;
+    if (gestureFaces.length < livenessGestures.length) {
+      throw new Error("Your face was not seen during every gesture. Please try again.");
+    }
+    
+    // Registrations made before templates only have a photo, which is converted
+    // to a template here so the server can match against it
+    if (legacyImage) {
+      const registered = await computeFaceEmbeddingFromImage(legacyImage);
+      
+      if (!registered) {
+        throw new Error("Your registered face could not be read. Please register your face again.");
+      }
+      
+      await enrollFaceTemplate(registered);
+      setLegacyImage(null);
+    }
+    
+    const frames = frameBurstRef.current ? await frameBurstRef.current : null;
+    if (!frames) {
+      throw new Error("The camera frames for the spoof check could not be captured. Please try again.");
+    }
+    
+    const frame = capturedFrameRef.current;
+    const presentationAttack = analyzePresentationAttack(frames, {
+      x: probe.box.x / frame.width,
+      y: probe.box.y / frame.height,
+      width: probe.box.width / frame.width,
+      height: probe.box.height / frame.height
     });
-  };
-  
-  // Enhanced palm verification
-  const verifyPalm = async (palmImageData: string): Promise<boolean> => {
-    return new Promise((resolve) => {
-      // Simulate API delay - longer for more thorough checking
-      setTimeout(() => {
-        // Enhanced verification logic
-        const randomFactor = Math.random();
-        const difficultyFactor = 0.95 - (consecutiveFailedVerifications.current * 0.05);
-        resolve(randomFactor < difficultyFactor);
-      }, 2000);
+    
+    if (presentationAttack.isSuspectedSpoof) {
+      console.warn('Suspected presentation attack:', presentationAttack);
+    }
+    
+    // Every frame must be the registered face, so a live stand-in cannot do the
+    // gestures for a photo of the voter held up for the capture, or the reverse
+    const result = await verifyBiometricAttempt({
+      modality: 'face',
+      probes: [probe, ...gestureFaces].map(face => face.embedding),
+      minSimilarity: minMatchConfidence,
+      livenessPassed: livenessPassedRef.current,
+      presentationAttack
     });
+    
+    return {
+      verified: result.verified,
+      confidence: result.similarity ?? 0,
+      threshold: result.threshold,
+      presentationAttack,
+      lockout: result.lockout
+    };
   };
   
   // Retry face verification
@@ -529,15 +578,17 @@ export function useFaceVerification({ onVerified, onError, isRegistrationMode =
     captureImage,
     retryCapture,
     hasReferenceImage,
+    isReEnrollmentRequired,
     isRegistering,
     registerFace,
     isRegistrationMode,
     isLivenessChecking,
     currentGesture,
     processLivenessGesture,
-    verifyPalm,
     isLocked,
     lockoutEndTime,
-    failedAttempts
+    failedAttempts,
+    matchScore,
+    matchThreshold
   };
 }
@@ -0,0 +1,103 @@
+
+import { useState, useEffect, useRef } from 'react';
+import { computeFaceEmbedding, detectFaceLandmarks, FaceEmbedding } from '@/utils/biometrics/faceEmbedding';
+import { computeFaceMetrics, LivenessChallenge, LivenessGesture, LivenessProgress } from '@/utils/biometrics/liveness';
+
+// Pause between landmark detections; detection itself takes most of a frame on the CPU
+const FRAME_INTERVAL_MS = 60;
+
+interface UseLivenessChallengeProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  gesture: string | null;
+  isActive: boolean;
+  // Called once per attempt with the face seen in the frame that completed the
+  // gesture; a failed attempt is retried with the same gesture
+  onResult: (passed: boolean, face: FaceEmbedding | null) => void;
+}
+
+/**
+ * Watch the live camera for the current liveness gesture and report the
+ * progress of each attempt. The frame that completes the gesture is kept so
+ * the face matched afterwards is the one that performed it.
+ */
+export function useLivenessChallenge({ videoRef, gesture, isActive, onResult }: UseLivenessChallengeProps) {
+  const [progress, setProgress] = useState<LivenessProgress | null>(null);
+  const onResultRef = useRef(onResult);
+
+  useEffect(() => {
+    onResultRef.current = onResult;
+  }, [onResult]);
+
+  useEffect(() => {
+    if (!isActive || !gesture) {
+      setProgress(null);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: number | undefined;
+    let challenge = new LivenessChallenge(gesture as LivenessGesture, performance.now());
+    const frame = document.createElement('canvas');
+
+    const detectFrame = async () => {
+      const video = videoRef.current;
+      let metrics = null;
+
+      try {
+        if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+          frame.width = video.videoWidth || 640;
+          frame.height = video.videoHeight || 480;
+          frame.getContext('2d')?.drawImage(video, 0, 0, frame.width, frame.height);
+
+          const points = await detectFaceLandmarks(frame);
+          metrics = points ? computeFaceMetrics(points) : null;
+        }
+      } catch (error) {
+        console.error('Error detecting face landmarks:', error);
+      }
+
+      if (cancelled) return;
+
+      const current = challenge.update(metrics, performance.now());
+      setProgress(current);
+
+      if (current.status === 'passed') {
+        let face: FaceEmbedding | null = null;
+
+        try {
+          face = await computeFaceEmbedding(frame);
+        } catch (error) {
+          console.error('Error computing the gesture face embedding:', error);
+        }
+
+        if (cancelled) return;
+
+        if (face) {
+          // The next gesture, if any, starts a new challenge
+          onResultRef.current(true, face);
+          return;
+        }
+
+        // A gesture whose face cannot be identified does not count
+        onResultRef.current(false, null);
+        challenge = new LivenessChallenge(challenge.gesture, performance.now());
+      }
+
+      if (current.status === 'failed') {
+        onResultRef.current(false, null);
+        challenge = new LivenessChallenge(challenge.gesture, performance.now());
+      }
+
+      timer = window.setTimeout(detectFrame, FRAME_INTERVAL_MS);
+    };
+
+    detectFrame();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isActive, gesture, videoRef]);
+
+  return progress;
+}
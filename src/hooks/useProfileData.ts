@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { toast } from '@/hooks/use-toast';
+import { getReceipt } from '@/utils/vote/receiptStore';
 
 export interface UserProfile {
   id: string;
@@ -18,6 +19,7 @@ export const useProfileData = () => {
   const [editedName, setEditedName] = useState('');
   const [editedEmail, setEditedEmail] = useState('');
   const [votingDetails, setVotingDetails] = useState<{
+    electionId?: string;
     electionName?: string;
     candidateName?: string;
     timestamp?: string;
@@ -53,44 +55,41 @@ export const useProfileData = () => {
     enabled: !!user,
   });
 
-  // Fetch user voting status and details - using the votes table with joined data
+  // Fetch user voting status and details - participation comes from the server,
+  // while the candidate and receipt are only known to this device
   const { data: voteData, isLoading: isLoadingVotes } = useQuery({
     queryKey: ['userVoteDetails', user?.id],
     queryFn: async () => {
       if (!user) return { hasVoted: false, details: null };
       
       try {
-        // First check if user has voted
-        const { data: voteResult, error: voteError } = await supabase
-          .from('votes')
+        const { data: participation, error: participationError } = await supabase
+          .from('voter_participation')
           .select(`
-            id, 
-            created_at, 
-            transaction_hash, 
             election_id, 
-            candidate_id, 
-            elections!inner(title), 
-            candidates!inner(name)
+            participated_at, 
+            elections!inner(title)
           `)
           .eq('voter_id', user.id)
-          .order('created_at', { ascending: false })
+          .order('participated_at', { ascending: false })
           .limit(1)
-          .single();
+          .maybeSingle();
           
-        if (voteError) {
-          if (voteError.code === 'PGRST116') {
-            // No vote found
-            return { hasVoted: false, details: null };
-          }
-          throw voteError;
+        if (participationError) throw participationError;
+        
+        if (!participation) {
+          return { hasVoted: false, details: null };
         }
         
+        const receipt = getReceipt(user.id, participation.election_id);
+        
         // Format vote details
         const details = {
-          electionName: voteResult.elections?.title,
-          candidateName: voteResult.candidates?.name,
-          timestamp: voteResult.created_at,
-          transactionHash: voteResult.transaction_hash,
+          electionId: participation.election_id,
+          electionName: participation.elections?.title,
+          candidateName: receipt?.candidateName,
+          timestamp: receipt?.timestamp || participation.participated_at,
+          transactionHash: receipt?.transactionHash,
         };
         
         return { hasVoted: true, details };
@@ -2,7 +2,10 @@
 import { useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { Election } from '@/utils/VotingContract';
+import { Election, VotingMethod } from '@/utils/VotingContract';
+import { getElectionStatus } from '@/utils/election/lifecycle';
+import { parseAuthPolicy } from '@/utils/election/authPolicy';
+import { fetchEligibleElectionIds } from '@/utils/election/eligibility';
 
 /**
  * Hook that handles side effects for the voting process
@@ -13,6 +16,7 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
     setElections,
     setIsLoading,
     setIsBiometricsRegistered,
+    setHasPasskey,
     setIsCheckingEligibility
   } = state;
 
@@ -40,6 +44,18 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
         setIsBiometricsRegistered(!!data);
         
         console.log('Biometrics registration status:', !!data);
+
+        // Voters with a passkey sign their ballot with it when casting
+        const { count, error: passkeyError } = await supabase
+          .from('webauthn_credentials')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id);
+        
+        if (passkeyError) {
+          console.error('Error checking passkeys:', passkeyError);
+        } else {
+          setHasPasskey((count ?? 0) > 0);
+        }
       } catch (error) {
         console.error('Error checking voter eligibility:', error);
       } finally {
@@ -48,7 +64,7 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
     };
     
     checkVoterEligibility();
-  }, [user, setIsBiometricsRegistered, setIsCheckingEligibility]);
+  }, [user, setIsBiometricsRegistered, setHasPasskey, setIsCheckingEligibility]);
   
   // Fetch elections from the database
   useEffect(() => {
@@ -60,7 +76,7 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
         
         console.log('Fetching elections from database...');
         
-        // Fetch active elections from the database
+        // Fetch published elections that are open or coming up
         const { data: electionData, error: electionError } = await supabase
           .from('elections')
           .select(`
@@ -69,9 +85,16 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
             description, 
             start_date, 
             end_date, 
-            is_active
+            status,
+            encrypted_ballots,
+            voting_method,
+            seats,
+            max_selections,
+            auth_factors,
+            min_face_confidence,
+            min_palm_confidence
           `)
-          .eq('is_active', true)
+          .in('status', ['scheduled', 'open'])
           .order('created_at', { ascending: false });
         
         if (electionError) {
@@ -86,15 +109,19 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
         
         console.log('Fetched elections:', electionData);
         
-        if (!electionData || electionData.length === 0) {
-          console.log('No active elections found');
+        // Only list the elections whose electorate includes this voter
+        const eligibleIds = await fetchEligibleElectionIds();
+        const eligibleElections = (electionData || []).filter(election => eligibleIds.has(election.id));
+        
+        if (eligibleElections.length === 0) {
+          console.log('No open or upcoming elections found');
           setElections([]);
           return;
         }
         
         // For each election, fetch its candidates
         const electionsWithCandidates = await Promise.all(
-          electionData.map(async (election) => {
+          eligibleElections.map(async (election) => {
             // Fetch candidates for this election
             const { data: candidatesData, error: candidatesError } = await supabase
               .from('candidates')
@@ -113,7 +140,12 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
               description: election.description || '',
               startDate: new Date(election.start_date),
               endDate: new Date(election.end_date),
-              isActive: election.is_active,
+              status: getElectionStatus(election.status, election.start_date, election.end_date),
+              encryptedBallots: election.encrypted_ballots,
+              votingMethod: election.voting_method as VotingMethod,
+              seats: election.seats,
+              maxSelections: election.max_selections,
+              authPolicy: parseAuthPolicy(election.auth_factors, election.min_face_confidence, election.min_palm_confidence),
               candidates: candidatesData.map(candidate => ({
                 id: candidate.id,
                 name: candidate.name,
@@ -124,8 +156,10 @@ export const useVotingEffects = (state: ReturnType<typeof import('./useVotingSta
           })
         );
         
-        // Filter out any null values from elections that failed to load candidates
-        const validElections = electionsWithCandidates.filter(election => election !== null) as Election[];
+        // Filter out elections that failed to load candidates or have closed since the status was stored
+        const validElections = electionsWithCandidates.filter(
+          election => election !== null && election.status !== 'closed'
+        ) as Election[];
         
         console.log('Elections with candidates:', validElections);
         setElections(validElections);
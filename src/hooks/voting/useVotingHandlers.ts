@@ -1,8 +1,9 @@
 import VotingContract from '@/utils/VotingContract';
-import { Election, Candidate } from '@/utils/VotingContract';
+import { Election, Candidate, EncryptedBallot } from '@/utils/VotingContract';
 import { toast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
-import { voteServiceDB } from '@/utils/vote/VoteServiceDB';
+import { saveReceipt } from '@/utils/vote/receiptStore';
+import { confirmVoteWithPasskey } from '@/utils/auth/passkeys';
+import { VotingStep, buildVotingSteps } from '@/utils/election/authPolicy';
 
 /**
  * Hook that provides voting-related action handlers
@@ -10,22 +11,34 @@ import { voteServiceDB } from '@/utils/vote/VoteServiceDB';
 export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingState').useVotingState>) => {
   const {
     user,
+    step,
     setStep,
+    steps,
     setIsLoading,
     selectedElection,
     selectedCandidate,
     setSelectedElection,
     setSelectedCandidate,
+    selectedRanking,
+    setSelectedRanking,
+    selectedCandidates,
+    setSelectedCandidates,
     setTransactionHash,
-    isBiometricsRegistered
+    isBiometricsRegistered,
+    hasPasskey
   } = state;
   
+  // Move to the step after the current one in the election's sequence
+  const goToNextStep = (sequence: VotingStep[] = steps, from: VotingStep = step) => {
+    setStep(sequence[sequence.indexOf(from) + 1] ?? 'vote');
+  };
+  
   const handleFaceVerificationSuccess = () => {
     toast({
       title: "Face Verification Successful",
       description: "Your identity has been verified.",
     });
-    setStep(3); // Move to palm verification step
+    goToNextStep();
   };
   
   const handleFaceVerificationError = () => {
@@ -34,7 +47,7 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       description: "We couldn't verify your identity. Please try again.",
       variant: "destructive",
     });
-    setStep(1); // Reset to step 1
+    setStep('start'); // Reset to the start
   };
   
   const handlePalmVerificationSuccess = () => {
@@ -42,7 +55,7 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       title: "Palm Verification Successful",
       description: "Your identity has been verified.",
     });
-    setStep(4); // Move to OTP verification step
+    goToNextStep();
   };
   
   const handlePalmVerificationError = () => {
@@ -51,7 +64,7 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       description: "We couldn't verify your palm. Please try again.",
       variant: "destructive",
     });
-    setStep(2); // Reset to face verification
+    setStep(steps.includes('face') ? 'face' : 'palm'); // Start the biometric checks again
   };
   
   const handleOTPVerificationSuccess = () => {
@@ -59,7 +72,7 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       title: "OTP Verification Successful",
       description: "You can now access the voting system.",
     });
-    setStep(5); // Move to election selection
+    goToNextStep();
   };
   
   const handleOTPVerificationError = () => {
@@ -71,15 +84,51 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
   };
   
   const handleSelectElection = (election: Election) => {
+    const policy = election.authPolicy;
+    
+    if (policy?.factors.includes('passkey') && !hasPasskey) {
+      toast({
+        title: "Passkey Required",
+        description: "This election requires a passkey. Add one on your profile page, then try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (policy?.factors.some(factor => factor === 'face' || factor === 'palm') && !isBiometricsRegistered) {
+      toast({
+        title: "Registration Required",
+        description: "This election requires your biometrics. Please complete the registration process.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setSelectedElection(election);
-    setStep(6); // Move to candidate selection
+    setSelectedCandidate(null);
+    setSelectedRanking([]);
+    setSelectedCandidates([]);
+    // The steps in state still belong to the previous election until the next render
+    goToNextStep(buildVotingSteps(policy ?? null), 'election');
   };
   
   const handleSelectCandidate = (candidate: Candidate) => {
     setSelectedCandidate(candidate);
   };
   
-  const handleCastVote = async () => {
+  // Ranked-choice elections vote for the first preference and carry the full ranking
+  const handleRankCandidates = (ranking: Candidate[]) => {
+    setSelectedRanking(ranking);
+    setSelectedCandidate(ranking[0] || null);
+  };
+  
+  // Multi-choice elections vote for the first candidate chosen and carry every choice
+  const handleSelectCandidates = (candidates: Candidate[]) => {
+    setSelectedCandidates(candidates);
+    setSelectedCandidate(candidates[0] || null);
+  };
+  
+  const handleCastVote = async (encryptedBallot?: EncryptedBallot) => {
     if (!selectedElection || !selectedCandidate || !user) {
       toast({
         title: "Error",
@@ -89,8 +138,10 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       return;
     }
     
-    // Check if biometrics are registered
-    if (!isBiometricsRegistered) {
+    const policy = selectedElection.authPolicy;
+    
+    // Check if biometrics are registered when the election needs them
+    if (policy?.factors.some(factor => factor === 'face' || factor === 'palm') && !isBiometricsRegistered) {
       toast({
         title: "Registration Required",
         description: "You must register your biometrics before voting. Please complete the registration process.",
@@ -102,32 +153,13 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
     try {
       setIsLoading(true);
       
-      // Log data being sent
-      console.log('Casting vote with data:', {
-        electionId: selectedElection.id,
-        candidateId: selectedCandidate.id,
-        userId: user.id
-      });
-      
-      // First, check if the user has already voted in this election
-      const { data: existingVotes, error: checkError } = await supabase
-        .from('votes')
-        .select('id')
-        .eq('election_id', String(selectedElection.id))
-        .eq('voter_id', String(user.id))
-        .limit(1);
-        
-      if (checkError) {
-        console.error('Error checking existing votes:', checkError);
-        toast({
-          title: "Error",
-          description: "Could not verify your voting status. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
+      // Catch an earlier vote before casting; the database rejects it either way
+      const alreadyVoted = await VotingContract.getInstance().hasUserVoted(
+        String(user.id),
+        String(selectedElection.id)
+      );
       
-      if (existingVotes && existingVotes.length > 0) {
+      if (alreadyVoted) {
         toast({
           title: "Already Voted",
           description: "You have already cast a vote in this election.",
@@ -135,33 +167,45 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
         return;
       }
           
-      // Cast vote in blockchain (simulation)
+      // A fresh passkey signature for this election lets the server accept the ballot
+      if (hasPasskey || policy?.factors.includes('passkey')) {
+        toast({
+          title: "Confirm With Your Passkey",
+          description: "Use your passkey to sign your vote.",
+        });
+        await confirmVoteWithPasskey(String(selectedElection.id));
+      }
+      
+      const ranking = selectedElection.votingMethod === 'irv'
+        ? selectedRanking.map(candidate => String(candidate.id))
+        : undefined;
+      const selections = (selectedElection.maxSelections || 1) > 1
+        ? selectedCandidates.map(candidate => String(candidate.id))
+        : undefined;
+      
+      // Record participation, the ballot and its ledger block in one call
       // Converting all IDs to strings to ensure consistency
-      const mockBlockchainResponse = await VotingContract.getInstance().castVote(
+      const ledgerTransaction = await VotingContract.getInstance().castVote(
         String(user.id),
         String(selectedElection.id),
-        String(selectedCandidate.id)
+        String(selectedCandidate.id),
+        { encryptedBallot, ranking, selections }
       );
       
-      console.log('Mock blockchain response:', mockBlockchainResponse);
-      
       // Store the transaction hash for the confirmation screen
-      setTransactionHash(mockBlockchainResponse.transactionHash);
+      setTransactionHash(ledgerTransaction.transactionHash);
       
-      // Now record vote in database - Ensure all IDs are passed as strings
-      const dbResult = await voteServiceDB.recordVote({
+      // The server keeps no link between voter and receipt, so the receipt lives on this device
+      saveReceipt(String(user.id), {
         electionId: String(selectedElection.id),
-        candidateId: String(selectedCandidate.id),
-        voterId: String(user.id),
-        transactionHash: mockBlockchainResponse.transactionHash
+        transactionHash: ledgerTransaction.transactionHash,
+        candidateName: selectedCandidate.name,
+        candidateParty: selectedCandidate.party,
+        ranking: ranking ? selectedRanking.map(candidate => candidate.name) : undefined,
+        selections: selections ? selectedCandidates.map(candidate => candidate.name) : undefined,
+        timestamp: ledgerTransaction.timestamp.toISOString()
       });
       
-      console.log('Database vote record result:', dbResult);
-      
-      if (dbResult.error) {
-        throw new Error(`Failed to record vote in database: ${dbResult.error.message}`);
-      }
-      
       // Update the selectedCandidate to include the new vote
       setSelectedCandidate({
         ...selectedCandidate,
@@ -169,7 +213,7 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
       });
       
       // Move to confirmation step
-      setStep(7);
+      setStep('confirm');
       
       toast({
         title: "Vote Cast Successfully",
@@ -197,6 +241,8 @@ export const useVotingHandlers = (state: ReturnType<typeof import('./useVotingSt
     handleOTPVerificationError,
     handleSelectElection,
     handleSelectCandidate,
+    handleRankCandidates,
+    handleSelectCandidates,
     handleCastVote
   };
 };
@@ -1,27 +1,38 @@
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Election, Candidate } from '@/utils/VotingContract';
 import { useAuth } from '@/hooks/useAuth';
+import { VotingStep, buildVotingSteps } from '@/utils/election/authPolicy';
 
 /**
  * Hook that manages the voting state
  */
 export const useVotingState = () => {
   const { user } = useAuth();
-  const [step, setStep] = useState(1);
+  const [step, setStep] = useState<VotingStep>('start');
   const [isLoading, setIsLoading] = useState(true);
   const [elections, setElections] = useState<Election[]>([]);
   const [selectedElection, setSelectedElection] = useState<Election | null>(null);
   const [selectedCandidate, setSelectedCandidate] = useState<Candidate | null>(null);
+  const [selectedRanking, setSelectedRanking] = useState<Candidate[]>([]);
+  const [selectedCandidates, setSelectedCandidates] = useState<Candidate[]>([]);
   const [transactionHash, setTransactionHash] = useState<string | null>(null);
   const [isBiometricsRegistered, setIsBiometricsRegistered] = useState(false);
+  const [hasPasskey, setHasPasskey] = useState(false);
   const [isCheckingEligibility, setIsCheckingEligibility] = useState(false);
   const [voteCounts, setVoteCounts] = useState<Record<string, number>>({});
+  
+  // The chosen election's policy decides which verification steps follow it
+  const steps = useMemo(
+    () => buildVotingSteps(selectedElection?.authPolicy ?? null),
+    [selectedElection]
+  );
 
   return {
     user,
     step,
     setStep,
+    steps,
     isLoading, 
     setIsLoading,
     elections,
@@ -30,10 +41,16 @@ export const useVotingState = () => {
     setSelectedElection,
     selectedCandidate,
     setSelectedCandidate,
+    selectedRanking,
+    setSelectedRanking,
+    selectedCandidates,
+    setSelectedCandidates,
     transactionHash,
     setTransactionHash,
     isBiometricsRegistered,
     setIsBiometricsRegistered,
+    hasPasskey,
+    setHasPasskey,
     isCheckingEligibility,
     setIsCheckingEligibility,
     voteCounts,
@@ -9,6 +9,167 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          details: Json
+          event_hash: string
+          event_number: number
+          event_type: string
+          previous_hash: string
+          target_id: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at: string
+          details?: Json
+          event_hash: string
+          event_number: number
+          event_type: string
+          previous_hash: string
+          target_id?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          event_hash?: string
+          event_number?: number
+          event_type?: string
+          previous_hash?: string
+          target_id?: string | null
+        }
+        Relationships: []
+      }
+      ballots: {
+        Row: {
+          ballot_id: string
+          candidate_id: string | null
+          cast_at: string
+          commitment_salt: string | null
+          election_id: string
+          encrypted_choice: Json | null
+          ranking: string[] | null
+          selections: string[] | null
+          transaction_hash: string | null
+        }
+        Insert: {
+          ballot_id?: string
+          candidate_id?: string | null
+          cast_at?: string
+          commitment_salt?: string | null
+          election_id: string
+          encrypted_choice?: Json | null
+          ranking?: string[] | null
+          selections?: string[] | null
+          transaction_hash?: string | null
+        }
+        Update: {
+          ballot_id?: string
+          candidate_id?: string | null
+          cast_at?: string
+          commitment_salt?: string | null
+          election_id?: string
+          encrypted_choice?: Json | null
+          ranking?: string[] | null
+          selections?: string[] | null
+          transaction_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ballots_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "candidates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ballots_candidate_id_fkey"
+            columns: ["candidate_id"]
+            isOneToOne: false
+            referencedRelation: "vote_results"
+            referencedColumns: ["candidate_id"]
+          },
+          {
+            foreignKeyName: "ballots_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ballots_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "vote_results"
+            referencedColumns: ["election_id"]
+          },
+        ]
+      }
+      biometric_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          liveness_passed: boolean | null
+          modality: string
+          similarity: number | null
+          spoof_score: number | null
+          spoof_signals: Json | null
+          suspected_spoof: boolean
+          user_id: string
+          verified: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          liveness_passed?: boolean | null
+          modality: string
+          similarity?: number | null
+          spoof_score?: number | null
+          spoof_signals?: Json | null
+          suspected_spoof?: boolean
+          user_id?: string
+          verified: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          liveness_passed?: boolean | null
+          modality?: string
+          similarity?: number | null
+          spoof_score?: number | null
+          spoof_signals?: Json | null
+          suspected_spoof?: boolean
+          user_id?: string
+          verified?: boolean
+        }
+        Relationships: []
+      }
+      biometric_lockouts: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          lockout_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          lockout_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          lockout_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       candidates: {
         Row: {
           bio: string | null
@@ -54,36 +215,290 @@ export type Database = {
           },
         ]
       }
+      election_decryptions: {
+        Row: {
+          aggregate: Json
+          ballot_count: number
+          election_id: string
+          id: string
+          shares: Json
+          submitted_at: string
+          submitted_by: string | null
+          trustee_index: number
+        }
+        Insert: {
+          aggregate: Json
+          ballot_count: number
+          election_id: string
+          id?: string
+          shares: Json
+          submitted_at?: string
+          submitted_by?: string | null
+          trustee_index: number
+        }
+        Update: {
+          aggregate?: Json
+          ballot_count?: number
+          election_id?: string
+          id?: string
+          shares?: Json
+          submitted_at?: string
+          submitted_by?: string | null
+          trustee_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_decryptions_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      election_key_dealings: {
+        Row: {
+          commitments: Json
+          election_id: string
+          id: string
+          proof: Json
+          sealed_shares: Json
+          submitted_at: string
+          trustee_index: number
+        }
+        Insert: {
+          commitments: Json
+          election_id: string
+          id?: string
+          proof: Json
+          sealed_shares: Json
+          submitted_at?: string
+          trustee_index: number
+        }
+        Update: {
+          commitments?: Json
+          election_id?: string
+          id?: string
+          proof?: Json
+          sealed_shares?: Json
+          submitted_at?: string
+          trustee_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_key_dealings_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      election_roster: {
+        Row: {
+          added_at: string
+          election_id: string
+          identifier: string
+        }
+        Insert: {
+          added_at?: string
+          election_id: string
+          identifier: string
+        }
+        Update: {
+          added_at?: string
+          election_id?: string
+          identifier?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_roster_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      election_tallies: {
+        Row: {
+          committed_at: string
+          committed_by: string | null
+          election_id: string
+          merkle_root: string
+          receipt_count: number
+          tally: Json
+        }
+        Insert: {
+          committed_at?: string
+          committed_by?: string | null
+          election_id: string
+          merkle_root: string
+          receipt_count: number
+          tally?: Json
+        }
+        Update: {
+          committed_at?: string
+          committed_by?: string | null
+          election_id?: string
+          merkle_root?: string
+          receipt_count?: number
+          tally?: Json
+        }
+        Relationships: []
+      }
+      election_trustees: {
+        Row: {
+          created_at: string
+          election_id: string
+          id: string
+          name: string
+          transport_key: string | null
+          trustee_index: number
+          user_id: string | null
+          verification_key: string | null
+        }
+        Insert: {
+          created_at?: string
+          election_id: string
+          id?: string
+          name: string
+          transport_key?: string | null
+          trustee_index: number
+          user_id?: string | null
+          verification_key?: string | null
+        }
+        Update: {
+          created_at?: string
+          election_id?: string
+          id?: string
+          name?: string
+          transport_key?: string | null
+          trustee_index?: number
+          user_id?: string | null
+          verification_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "election_trustees_election_id_fkey"
+            columns: ["election_id"]
+            isOneToOne: false
+            referencedRelation: "elections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       elections: {
         Row: {
+          auth_factors: string[]
+          certified_at: string | null
           created_at: string
           created_by: string | null
+          decryption_threshold: number | null
           description: string | null
+          eligibility: string
+          eligibility_rules: Json
+          encrypted_ballots: boolean
+          encryption_public_key: string | null
           end_date: string
           id: string
-          is_active: boolean | null
+          max_selections: number
+          min_face_confidence: number | null
+          min_palm_confidence: number | null
+          seats: number
           start_date: string
+          status: string
           title: string
+          voting_method: string
         }
         Insert: {
+          auth_factors?: string[]
+          certified_at?: string | null
           created_at?: string
           created_by?: string | null
+          decryption_threshold?: number | null
           description?: string | null
+          eligibility?: string
+          eligibility_rules?: Json
+          encrypted_ballots?: boolean
+          encryption_public_key?: string | null
           end_date: string
           id?: string
-          is_active?: boolean | null
+          max_selections?: number
+          min_face_confidence?: number | null
+          min_palm_confidence?: number | null
+          seats?: number
           start_date?: string
+          status?: string
           title: string
+          voting_method?: string
         }
         Update: {
+          auth_factors?: string[]
+          certified_at?: string | null
           created_at?: string
           created_by?: string | null
+          decryption_threshold?: number | null
           description?: string | null
+          eligibility?: string
+          eligibility_rules?: Json
+          encrypted_ballots?: boolean
+          encryption_public_key?: string | null
           end_date?: string
           id?: string
-          is_active?: boolean | null
+          max_selections?: number
+          min_face_confidence?: number | null
+          min_palm_confidence?: number | null
+          seats?: number
           start_date?: string
+          status?: string
           title?: string
+          voting_method?: string
+        }
+        Relationships: []
+      }
+      otp_challenges: {
+        Row: {
+          attempts: number
+          code_hash: string | null
+          consumed_at: string | null
+          counter: number
+          created_at: string
+          destination: string
+          expires_at: string
+          id: string
+          purpose: string
+          transport: string
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash?: string | null
+          consumed_at?: string | null
+          counter: number
+          created_at?: string
+          destination: string
+          expires_at: string
+          id: string
+          purpose?: string
+          transport: string
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string | null
+          consumed_at?: string | null
+          counter?: number
+          created_at?: string
+          destination?: string
+          expires_at?: string
+          id?: string
+          purpose?: string
+          transport?: string
+          user_id?: string
+          verified_at?: string | null
         }
         Relationships: []
       }
@@ -91,23 +506,89 @@ export type Database = {
         Row: {
           avatar_url: string | null
           created_at: string
+          department: string | null
+          district: string | null
           full_name: string | null
           id: string
+          phone: string | null
+          student_id: string | null
           updated_at: string
+          year_of_study: number | null
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          department?: string | null
+          district?: string | null
           full_name?: string | null
           id: string
+          phone?: string | null
+          student_id?: string | null
           updated_at?: string
+          year_of_study?: number | null
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
+          department?: string | null
+          district?: string | null
           full_name?: string | null
           id?: string
+          phone?: string | null
+          student_id?: string | null
           updated_at?: string
+          year_of_study?: number | null
+        }
+        Relationships: []
+      }
+      totp_factors: {
+        Row: {
+          confirmed_at: string | null
+          created_at: string
+          failed_attempts: number
+          last_failed_at: string | null
+          last_used_step: number | null
+          seed: string
+          user_id: string
+        }
+        Insert: {
+          confirmed_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          last_failed_at?: string | null
+          last_used_step?: number | null
+          seed: string
+          user_id: string
+        }
+        Update: {
+          confirmed_at?: string | null
+          created_at?: string
+          failed_attempts?: number
+          last_failed_at?: string | null
+          last_used_step?: number | null
+          seed?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      totp_recovery_codes: {
+        Row: {
+          code_hash: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
         }
         Relationships: []
       }
@@ -115,82 +596,226 @@ export type Database = {
         Row: {
           created_at: string
           face_image_url: string | null
+          face_template: string | null
           id: string
+          palm_enrolled_at: string | null
+          palm_template: string | null
+          palm_template_quality: number | null
+          palm_template_version: string | null
+          template_enrolled_at: string | null
+          template_quality: number | null
+          template_version: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           face_image_url?: string | null
+          face_template?: string | null
           id?: string
+          palm_enrolled_at?: string | null
+          palm_template?: string | null
+          palm_template_quality?: number | null
+          palm_template_version?: string | null
+          template_enrolled_at?: string | null
+          template_quality?: number | null
+          template_version?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           face_image_url?: string | null
+          face_template?: string | null
           id?: string
+          palm_enrolled_at?: string | null
+          palm_template?: string | null
+          palm_template_quality?: number | null
+          palm_template_version?: string | null
+          template_enrolled_at?: string | null
+          template_quality?: number | null
+          template_version?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      votes: {
+      user_roles: {
         Row: {
-          candidate_id: string | null
+          granted_at: string
+          granted_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          granted_at?: string
+          granted_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          granted_at?: string
+          granted_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      vote_ledger: {
+        Row: {
+          block_hash: string
+          block_number: number
+          candidate_commitment: string
           created_at: string
-          election_id: string | null
-          id: string
-          transaction_hash: string | null
-          voter_id: string | null
+          election_id: string
+          previous_hash: string
         }
         Insert: {
-          candidate_id?: string | null
+          block_hash: string
+          block_number: number
+          candidate_commitment: string
+          created_at: string
+          election_id: string
+          previous_hash: string
+        }
+        Update: {
+          block_hash?: string
+          block_number?: number
+          candidate_commitment?: string
           created_at?: string
-          election_id?: string | null
+          election_id?: string
+          previous_hash?: string
+        }
+        Relationships: []
+      }
+      voter_participation: {
+        Row: {
+          election_id: string
+          id: string
+          participated_at: string
+          voter_id: string
+        }
+        Insert: {
+          election_id: string
           id?: string
-          transaction_hash?: string | null
-          voter_id?: string | null
+          participated_at?: string
+          voter_id: string
         }
         Update: {
-          candidate_id?: string | null
-          created_at?: string
-          election_id?: string | null
+          election_id?: string
           id?: string
-          transaction_hash?: string | null
-          voter_id?: string | null
+          participated_at?: string
+          voter_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "votes_candidate_id_fkey"
-            columns: ["candidate_id"]
+            foreignKeyName: "voter_participation_election_id_fkey"
+            columns: ["election_id"]
             isOneToOne: false
-            referencedRelation: "candidates"
+            referencedRelation: "elections"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "votes_candidate_id_fkey"
-            columns: ["candidate_id"]
+            foreignKeyName: "voter_participation_election_id_fkey"
+            columns: ["election_id"]
             isOneToOne: false
             referencedRelation: "vote_results"
-            referencedColumns: ["candidate_id"]
+            referencedColumns: ["election_id"]
           },
+        ]
+      }
+      webauthn_challenges: {
+        Row: {
+          challenge: string
+          consumed_at: string | null
+          created_at: string
+          credential_id: string | null
+          election_id: string | null
+          expires_at: string
+          id: string
+          purpose: string
+          used_at: string | null
+          user_id: string
+          verified_at: string | null
+        }
+        Insert: {
+          challenge: string
+          consumed_at?: string | null
+          created_at?: string
+          credential_id?: string | null
+          election_id?: string | null
+          expires_at: string
+          id?: string
+          purpose: string
+          used_at?: string | null
+          user_id: string
+          verified_at?: string | null
+        }
+        Update: {
+          challenge?: string
+          consumed_at?: string | null
+          created_at?: string
+          credential_id?: string | null
+          election_id?: string | null
+          expires_at?: string
+          id?: string
+          purpose?: string
+          used_at?: string | null
+          user_id?: string
+          verified_at?: string | null
+        }
+        Relationships: [
           {
-            foreignKeyName: "votes_election_id_fkey"
+            foreignKeyName: "webauthn_challenges_election_id_fkey"
             columns: ["election_id"]
             isOneToOne: false
             referencedRelation: "elections"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "votes_election_id_fkey"
-            columns: ["election_id"]
-            isOneToOne: false
-            referencedRelation: "vote_results"
-            referencedColumns: ["election_id"]
-          },
         ]
       }
+      webauthn_credentials: {
+        Row: {
+          backed_up: boolean
+          counter: number
+          created_at: string
+          credential_id: string
+          device_type: string
+          id: string
+          last_used_at: string | null
+          name: string
+          public_key: string
+          transports: string[]
+          user_id: string
+        }
+        Insert: {
+          backed_up?: boolean
+          counter?: number
+          created_at?: string
+          credential_id: string
+          device_type: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          public_key: string
+          transports?: string[]
+          user_id: string
+        }
+        Update: {
+          backed_up?: boolean
+          counter?: number
+          created_at?: string
+          credential_id?: string
+          device_type?: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          public_key?: string
+          transports?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       vote_results: {
@@ -206,7 +831,265 @@ export type Database = {
       }
     }
     Functions: {
-      [_ in never]: never
+      begin_totp_enrollment: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      bootstrap_super_admin: {
+        Args: {
+          p_email: string
+        }
+        Returns: string
+      }
+      cast_vote: {
+        Args: {
+          p_candidate_ids?: string[]
+          p_election_id: string
+          p_encrypted_choice?: Json
+          p_ranking?: string[]
+        }
+        Returns: string
+      }
+      clear_biometric_lockout: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      commit_election_tally: {
+        Args: {
+          p_election_id: string
+        }
+        Returns: {
+          committed_at: string
+          committed_by: string | null
+          election_id: string
+          merkle_root: string
+          receipt_count: number
+          tally: Json
+        }
+      }
+      confirm_totp_enrollment: {
+        Args: {
+          p_code: string
+        }
+        Returns: string[]
+      }
+      enroll_face_template: {
+        Args: {
+          p_embedding: number[]
+          p_quality: number
+          p_template_version: string
+        }
+        Returns: undefined
+      }
+      enroll_palm_template: {
+        Args: {
+          p_descriptor: number[]
+          p_quality: number
+          p_template_version: string
+        }
+        Returns: undefined
+      }
+      get_ballot_counts: {
+        Args: {
+          p_election_id: string
+        }
+        Returns: Json
+      }
+      get_biometric_lockout: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          locked_until: string
+          remaining_attempts: number
+        }[]
+      }
+      get_biometric_template: {
+        Args: {
+          p_modality: string
+          p_user_id: string
+        }
+        Returns: {
+          template: number[]
+          template_version: string
+        }[]
+      }
+      get_eligible_elections: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_face_template: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          has_template: boolean
+          legacy_image_url: string
+          template_quality: number
+          template_version: string
+        }[]
+      }
+      get_key_ceremonies: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          dealt_count: number
+          election_id: string
+          election_title: string
+          has_dealt: boolean
+          has_joined: boolean
+          joined_count: number
+          public_key: string
+          threshold: number
+          trustee_count: number
+          trustee_index: number
+          trustee_name: string
+        }[]
+      }
+      get_palm_template: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          template_quality: number
+          template_version: string
+        }[]
+      }
+      get_ranked_ballots: {
+        Args: {
+          p_election_id: string
+        }
+        Returns: string[][]
+      }
+      get_totp_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          confirmed_at: string
+          enrolled: boolean
+          recovery_codes_remaining: number
+        }[]
+      }
+      get_turnout_statistics: {
+        Args: {
+          p_election_id: string
+        }
+        Returns: Json
+      }
+      grant_role: {
+        Args: {
+          p_email: string
+          p_role: string
+        }
+        Returns: string
+      }
+      has_role: {
+        Args: {
+          p_role: string
+        }
+        Returns: boolean
+      }
+      import_elections: {
+        Args: {
+          p_elections: Json
+        }
+        Returns: string[]
+      }
+      list_user_roles: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          email: string
+          granted_at: string
+          role: string
+          user_id: string
+        }[]
+      }
+      publish_trustee_transport_key: {
+        Args: {
+          p_election_id: string
+          p_transport_key: string
+        }
+        Returns: number
+      }
+      record_biometric_attempt: {
+        Args: {
+          p_liveness_passed?: boolean
+          p_modality: string
+          p_similarity?: number
+          p_spoof_score?: number
+          p_spoof_signals?: Json
+          p_suspected_spoof?: boolean
+          p_user_id: string
+          p_verified: boolean
+        }
+        Returns: {
+          locked_until: string
+          remaining_attempts: number
+        }[]
+      }
+      record_sign_in: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      register_election_trustees: {
+        Args: {
+          p_election_id: string
+          p_emails: string[]
+          p_threshold: number
+        }
+        Returns: undefined
+      }
+      remove_totp: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+      replace_election_roster: {
+        Args: {
+          p_election_id: string
+          p_identifiers: string[]
+        }
+        Returns: number
+      }
+      reset_biometrics: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      revoke_role: {
+        Args: {
+          p_role: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_phone_number: {
+        Args: {
+          p_phone: string
+        }
+        Returns: undefined
+      }
+      set_voter_attributes: {
+        Args: {
+          p_department: string
+          p_district: string
+          p_student_id: string
+          p_user_id: string
+          p_year_of_study: number
+        }
+        Returns: undefined
+      }
+      submit_key_dealing: {
+        Args: {
+          p_commitments: Json
+          p_election_id: string
+          p_proof: Json
+          p_sealed_shares: Json
+        }
+        Returns: undefined
+      }
+      verify_totp: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,12 +1,21 @@
 import React, { useEffect, useState } from 'react';
 import Layout from '@/components/Layout';
 import AdminDashboard from '@/components/admin/AdminDashboard';
+import AuthPolicyFields from '@/components/admin/AuthPolicyFields';
+import EligibilityFields, { EligibilityRulesInput } from '@/components/admin/EligibilityFields';
+import ElectionTransfer from '@/components/admin/ElectionTransfer';
+import RoleManagement from '@/components/admin/RoleManagement';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Shield, AlertCircle, Loader2, Lock, UserPlus, Calendar, Check, Users, Vote } from 'lucide-react';
+import { Shield, AlertCircle, Loader2, UserPlus, Calendar, Check, Users, Vote } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import VotingContract, { VotingMethod } from '@/utils/VotingContract';
+import { getElectionStatus } from '@/utils/election/lifecycle';
+import { AuthFactor, DEFAULT_AUTH_POLICY, isValidMatchConfidence, MATCH_CONFIDENCE_RANGES, parseAuthPolicy } from '@/utils/election/authPolicy';
+import { Eligibility, formatRuleList, parseEligibilityRules, parseRuleList } from '@/utils/election/eligibility';
+import ElectionStatusBadge from '@/components/ElectionStatusBadge';
 import FaceRecognition from '@/components/FaceRecognition';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
@@ -22,7 +31,14 @@ interface Election {
   description: string;
   start_date: string;
   end_date: string;
-  is_active: boolean;
+  status: string;
+  certified_at: string | null;
+  encrypted_ballots: boolean;
+  auth_factors: string[];
+  min_face_confidence: number | null;
+  min_palm_confidence: number | null;
+  eligibility: string;
+  eligibility_rules: Json;
 }
 
 interface Candidate {
@@ -33,14 +49,26 @@ interface Candidate {
   election_id: string;
 }
 
+// Format a stored timestamp for a datetime-local input, in the admin's own time zone
+const toDateTimeInput = (value: string) => {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// Match confidences are entered as percentages; blank keeps the default threshold
+const toMatchConfidenceInput = (value: number | null) => value === null ? "" : String(Math.round(value * 100));
+const fromMatchConfidenceInput = (value: string) => value.trim() === "" ? null : Number(value) / 100;
+
+const EMPTY_RULES_INPUT: EligibilityRulesInput = { departments: "", years: "", districts: "" };
+
 const Admin = () => {
-  const { user } = useAuth();
-  const navigate = useNavigate();
-  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const { user, hasRole } = useAuth();
+  // Auditors see the dashboard only; officers run elections and super admins also manage roles
+  const canManageElections = hasRole('election_officer');
+  const canManageRoles = hasRole('super_admin');
   const [isVerifying, setIsVerifying] = useState<boolean>(false);
   const [isBiometricsVerified, setIsBiometricsVerified] = useState<boolean>(false);
-  const [adminPassword, setAdminPassword] = useState<string>("");
-  const [activeTab, setActiveTab] = useState<string>("create");
+  const [activeTab, setActiveTab] = useState<string>(canManageElections ? "create" : "roles");
   const [elections, setElections] = useState<Election[]>([]);
   const [selectedElection, setSelectedElection] = useState<Election | null>(null);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
@@ -51,31 +79,24 @@ const Admin = () => {
   const [electionDescription, setElectionDescription] = useState<string>("");
   const [electionStartDate, setElectionStartDate] = useState<string>("");
   const [electionEndDate, setElectionEndDate] = useState<string>("");
-  const [isActive, setIsActive] = useState<boolean>(true);
+  const [publishOnCreate, setPublishOnCreate] = useState<boolean>(false);
+  const [votingMethod, setVotingMethod] = useState<VotingMethod>("plurality");
+  const [seats, setSeats] = useState<string>("1");
+  const [maxSelections, setMaxSelections] = useState<string>("1");
+  const [encryptBallots, setEncryptBallots] = useState<boolean>(false);
+  const [decryptionThreshold, setDecryptionThreshold] = useState<string>("2");
+  const [trusteeEmails, setTrusteeEmails] = useState<string>("");
+  const [authFactors, setAuthFactors] = useState<AuthFactor[]>(DEFAULT_AUTH_POLICY.factors);
+  const [minFaceConfidence, setMinFaceConfidence] = useState<string>("");
+  const [minPalmConfidence, setMinPalmConfidence] = useState<string>("");
+  const [eligibility, setEligibility] = useState<Eligibility>('open');
+  const [eligibilityRules, setEligibilityRules] = useState<EligibilityRulesInput>(EMPTY_RULES_INPUT);
   
   // Form states for adding candidates
   const [candidateName, setCandidateName] = useState<string>("");
   const [candidateParty, setCandidateParty] = useState<string>("");
   const [candidateBio, setCandidateBio] = useState<string>("");
 
-  // Check if user is an admin
-  useEffect(() => {
-    const checkAdminStatus = async () => {
-      if (!user) return;
-      
-      try {
-        // Check if email ends with admin.com or is in the admin list
-        const isUserAdmin = user.email?.endsWith('@dixith123.com') || false;
-        setIsAdmin(isUserAdmin);
-      } catch (error) {
-        console.error("Error checking admin status:", error);
-        setIsAdmin(false);
-      }
-    };
-
-    checkAdminStatus();
-  }, [user]);
-
   // Fetch elections
   useEffect(() => {
     if (isBiometricsVerified) {
@@ -139,13 +160,69 @@ const Admin = () => {
       setSelectedElection(election);
       setElectionTitle(election.title);
       setElectionDescription(election.description || "");
-      setElectionStartDate(new Date(election.start_date).toISOString().split('T')[0]);
-      setElectionEndDate(new Date(election.end_date).toISOString().split('T')[0]);
-      setIsActive(election.is_active);
+      setElectionStartDate(toDateTimeInput(election.start_date));
+      setElectionEndDate(toDateTimeInput(election.end_date));
+      const policy = parseAuthPolicy(election.auth_factors, election.min_face_confidence, election.min_palm_confidence);
+      setAuthFactors(policy.factors);
+      setMinFaceConfidence(toMatchConfidenceInput(policy.minFaceConfidence));
+      setMinPalmConfidence(toMatchConfidenceInput(policy.minPalmConfidence));
+      const rules = parseEligibilityRules(election.eligibility_rules);
+      setEligibility(election.eligibility as Eligibility);
+      setEligibilityRules({
+        departments: formatRuleList(rules.departments),
+        years: formatRuleList(rules.years),
+        districts: formatRuleList(rules.districts)
+      });
       setActiveTab("edit");
     }
   };
 
+  // The policy columns from the form, or null after telling the admin what is wrong
+  const readAuthPolicy = () => {
+    // A threshold only applies while its factor is required
+    const faceConfidence = authFactors.includes('face') ? fromMatchConfidenceInput(minFaceConfidence) : null;
+    const palmConfidence = authFactors.includes('palm') ? fromMatchConfidenceInput(minPalmConfidence) : null;
+    const range = MATCH_CONFIDENCE_RANGES;
+    
+    if (authFactors.length === 0
+      || !isValidMatchConfidence('face', faceConfidence)
+      || !isValidMatchConfidence('palm', palmConfidence)) {
+      toast({
+        title: "Invalid Verification",
+        description: `Choose at least one verification factor. Face match confidence must be between ${Math.round(range.face.min * 100)} and ${Math.round(range.face.max * 100)}%, and palm between ${Math.round(range.palm.min * 100)} and ${Math.round(range.palm.max * 100)}%.`,
+        variant: "destructive",
+      });
+      return null;
+    }
+    
+    return { auth_factors: authFactors, min_face_confidence: faceConfidence, min_palm_confidence: palmConfidence };
+  };
+
+  // The electorate columns from the form, or null after telling the admin what is wrong
+  const readEligibility = () => {
+    const years = parseRuleList(eligibilityRules.years).map(Number);
+    
+    if (eligibility === 'rules' && years.some(year => !(Number.isInteger(year) && year >= 1 && year <= 10))) {
+      toast({
+        title: "Invalid Eligibility",
+        description: "Years of study must be whole numbers between 1 and 10.",
+        variant: "destructive",
+      });
+      return null;
+    }
+    
+    // Rules are kept only while they apply, so switching away clears them
+    const rules = eligibility === 'rules'
+      ? {
+          departments: parseRuleList(eligibilityRules.departments),
+          years,
+          districts: parseRuleList(eligibilityRules.districts)
+        }
+      : {};
+    
+    return { eligibility, eligibility_rules: rules };
+  };
+
   const handleCreateElection = async () => {
     if (!electionTitle || !electionStartDate || !electionEndDate) {
       toast({
@@ -156,15 +233,72 @@ const Admin = () => {
       return;
     }
     
+    if (new Date(electionEndDate) <= new Date(electionStartDate)) {
+      toast({
+        title: "Invalid Dates",
+        description: "The election must end after it starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // Ranked ballots already list several candidates, so only plurality takes a selection limit
+    const seatCount = parseInt(seats, 10);
+    const selectionLimit = votingMethod === "plurality" ? parseInt(maxSelections, 10) : 1;
+    
+    if (!(seatCount >= 1) || !(selectionLimit >= 1)) {
+      toast({
+        title: "Invalid Seats",
+        description: "Seats and choices per voter must both be at least 1.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const trustees = trusteeEmails.split('\n').map(email => email.trim()).filter(email => email.length > 0);
+    const threshold = parseInt(decryptionThreshold, 10);
+    
+    if (encryptBallots && (trustees.length === 0 || !(threshold >= 1 && threshold <= trustees.length))) {
+      toast({
+        title: "Invalid Trustees",
+        description: "List at least one trustee and choose a threshold between 1 and the number of trustees.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // Trustees can only be registered on drafts, and voting needs their key first
+    if (encryptBallots && publishOnCreate) {
+      toast({
+        title: "Publish Later",
+        description: "Encrypted elections stay drafts until the trustees have generated the election key.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const authPolicy = readAuthPolicy();
+    if (!authPolicy) return;
+    
+    const electorate = readEligibility();
+    if (!electorate) return;
+    
     try {
       const { data, error } = await supabase
         .from('elections')
         .insert([{
           title: electionTitle,
           description: electionDescription,
-          start_date: electionStartDate,
-          end_date: electionEndDate,
-          is_active: isActive,
+          start_date: new Date(electionStartDate).toISOString(),
+          end_date: new Date(electionEndDate).toISOString(),
+          // Published elections are scheduled or opened by their dates in the database
+          status: publishOnCreate ? 'scheduled' : 'draft',
+          voting_method: votingMethod,
+          seats: seatCount,
+          max_selections: selectionLimit,
+          encrypted_ballots: encryptBallots && selectionLimit === 1,
+          ...authPolicy,
+          ...electorate,
           created_by: user?.id
         }])
         .select();
@@ -176,11 +310,40 @@ const Admin = () => {
         description: "The election has been successfully created.",
       });
       
+      // The trustees generate the election key between them; it never passes through this browser
+      if (encryptBallots && data && data.length > 0) {
+        try {
+          await VotingContract.getInstance().registerElectionTrustees(data[0].id, threshold, trustees);
+          toast({
+            title: "Trustees Registered",
+            description: "Each trustee now generates their part of the election key from their profile page. Publish the election once the key is ready.",
+          });
+        } catch (keyError) {
+          console.error("Error registering trustees:", keyError);
+          toast({
+            title: "Encryption Not Set Up",
+            description: keyError instanceof Error ? keyError.message : "Failed to register the trustees.",
+            variant: "destructive",
+          });
+        }
+      }
+      
       // Reset form fields
       setElectionTitle("");
       setElectionDescription("");
       setElectionStartDate("");
       setElectionEndDate("");
+      setPublishOnCreate(false);
+      setVotingMethod("plurality");
+      setSeats("1");
+      setMaxSelections("1");
+      setEncryptBallots(false);
+      setTrusteeEmails("");
+      setAuthFactors(DEFAULT_AUTH_POLICY.factors);
+      setMinFaceConfidence("");
+      setMinPalmConfidence("");
+      setEligibility('open');
+      setEligibilityRules(EMPTY_RULES_INPUT);
       
       // Update elections list
       fetchElections();
@@ -211,17 +374,43 @@ const Admin = () => {
       return;
     }
     
+    if (new Date(electionEndDate) <= new Date(electionStartDate)) {
+      toast({
+        title: "Invalid Dates",
+        description: "The election must end after it starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // The inputs drop seconds, so unchanged dates are sent back exactly as stored
+    const startDate = electionStartDate === toDateTimeInput(selectedElection.start_date)
+      ? selectedElection.start_date
+      : new Date(electionStartDate).toISOString();
+    const endDate = electionEndDate === toDateTimeInput(selectedElection.end_date)
+      ? selectedElection.end_date
+      : new Date(electionEndDate).toISOString();
+    
+    const authPolicy = readAuthPolicy();
+    if (!authPolicy) return;
+    
+    const electorate = readEligibility();
+    if (!electorate) return;
+    
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('elections')
         .update({
           title: electionTitle,
           description: electionDescription,
-          start_date: electionStartDate,
-          end_date: electionEndDate,
-          is_active: isActive
+          start_date: startDate,
+          end_date: endDate,
+          ...authPolicy,
+          ...electorate
         })
-        .eq('id', selectedElection.id);
+        .eq('id', selectedElection.id)
+        .select()
+        .single();
         
       if (error) throw error;
       
@@ -230,6 +419,8 @@ const Admin = () => {
         description: "The election details have been successfully updated.",
       });
       
+      setSelectedElection(data);
+      
       // Update elections list
       fetchElections();
       
@@ -237,12 +428,95 @@ const Admin = () => {
       console.error("Error updating election:", error);
       toast({
         title: "Error",
-        description: "Failed to update the election. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update the election. Please try again.",
         variant: "destructive",
       });
     }
   };
 
+  // Move the selected election along its lifecycle; the database rejects any step out of order
+  const changeElectionStatus = async (
+    changes: { status?: string; end_date?: string },
+    title: string,
+    description: string
+  ) => {
+    if (!selectedElection) return;
+    
+    try {
+      const { data, error } = await supabase
+        .from('elections')
+        .update(changes)
+        .eq('id', selectedElection.id)
+        .select()
+        .single();
+        
+      if (error) throw error;
+      
+      toast({ title, description });
+      
+      setSelectedElection(data);
+      setElectionEndDate(toDateTimeInput(data.end_date));
+      fetchElections();
+      
+    } catch (error) {
+      console.error("Error changing election status:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change the election status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePublishElection = () =>
+    changeElectionStatus(
+      { status: 'scheduled' },
+      "Election Published",
+      "Voting opens and closes automatically on the election dates."
+    );
+
+  const handleReturnToDraft = () =>
+    changeElectionStatus(
+      { status: 'draft' },
+      "Election Unpublished",
+      "The election is a draft again and hidden from voters."
+    );
+
+  // Closing early moves the end date to now
+  const handleCloseElection = () =>
+    changeElectionStatus(
+      { end_date: new Date().toISOString() },
+      "Voting Closed",
+      "The election has closed and no more votes will be accepted."
+    );
+
+  // Certifying publishes the Merkle root over the vote receipts first, which the database requires
+  const handleCertifyElection = async () => {
+    if (!selectedElection) return;
+    
+    try {
+      const commitment = await VotingContract.getInstance().commitTally(selectedElection.id);
+      toast({
+        title: "Tally Committed",
+        description: `Merkle root published over ${commitment.receiptCount} vote receipts.`,
+      });
+    } catch (commitError) {
+      console.error("Error committing election tally:", commitError);
+      toast({
+        title: "Tally Not Committed",
+        description: commitError instanceof Error ? commitError.message : "Failed to publish the tally commitment.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    await changeElectionStatus(
+      { status: 'certified' },
+      "Election Certified",
+      "The results are final and the election can no longer be changed."
+    );
+  };
+
   const handleAddCandidate = async () => {
     if (!selectedElection || !candidateName || !candidateParty) {
       toast({
@@ -322,73 +596,9 @@ const Admin = () => {
     setIsBiometricsVerified(true);
   };
 
-  const handleAdminPasswordLogin = () => {
-    // In a real application, this would be a more secure comparison
-    // For demo purposes, we're using a simple password check
-    if (adminPassword === "dixith123") {
-      setIsAdmin(true);
-      toast({
-        title: "Admin Access Granted",
-        description: "You have successfully logged in as an administrator.",
-      });
-    } else {
-      toast({
-        title: "Access Denied",
-        description: "Incorrect admin password.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  if (isAdmin === null) {
-    return (
-      <Layout>
-        <div className="container mx-auto py-8 flex justify-center items-center min-h-[60vh]">
-          <Loader2 className="h-12 w-12 animate-spin text-primary" />
-        </div>
-      </Layout>
-    );
-  }
-
-  if (!isAdmin) {
-    return (
-      <Layout>
-        <div className="container mx-auto py-8">
-          <Card>
-            <CardHeader>
-              <div className="flex items-center gap-2">
-                <Shield className="h-6 w-6 text-primary" />
-                <CardTitle>Admin Authentication</CardTitle>
-              </div>
-              <CardDescription>
-                Please enter the admin password to access the admin dashboard.
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center gap-2">
-                <Lock className="h-4 w-4 text-muted-foreground" />
-                <Input 
-                  type="password" 
-                  placeholder="Enter admin password" 
-                  value={adminPassword}
-                  onChange={(e) => setAdminPassword(e.target.value)}
-                />
-              </div>
-              <div className="flex flex-col sm:flex-row gap-2">
-                <Button onClick={handleAdminPasswordLogin} className="flex-1">
-                  Login as Admin
-                </Button>
-                <Button onClick={() => navigate('/')} variant="outline" className="flex-1">
-                  Return to Home
-                </Button>
-              </div>
-             
-            </CardContent>
-          </Card>
-        </div>
-      </Layout>
-    );
-  }
+  const selectedStatus = selectedElection
+    ? getElectionStatus(selectedElection.status, selectedElection.start_date, selectedElection.end_date)
+    : null;
 
   return (
     <Layout>
@@ -417,11 +627,18 @@ const Admin = () => {
               </Button>
             </div>
             
+            {(canManageElections || canManageRoles) && (
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid grid-cols-3">
-                <TabsTrigger value="create">Create Election</TabsTrigger>
-                <TabsTrigger value="edit">Edit Election</TabsTrigger>
-                <TabsTrigger value="candidates">Manage Candidates</TabsTrigger>
+              <TabsList className={`grid ${canManageElections ? (canManageRoles ? 'grid-cols-5' : 'grid-cols-4') : 'grid-cols-1'}`}>
+                {canManageElections && (
+                  <>
+                    <TabsTrigger value="create">Create Election</TabsTrigger>
+                    <TabsTrigger value="edit">Edit Election</TabsTrigger>
+                    <TabsTrigger value="candidates">Manage Candidates</TabsTrigger>
+                    <TabsTrigger value="transfer">Import / Export</TabsTrigger>
+                  </>
+                )}
+                {canManageRoles && <TabsTrigger value="roles">Roles</TabsTrigger>}
               </TabsList>
               
               <TabsContent value="create">
@@ -458,20 +675,20 @@ const Admin = () => {
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
-                        <Label htmlFor="startDate">Start Date*</Label>
+                        <Label htmlFor="startDate">Voting Opens*</Label>
                         <Input
                           id="startDate"
-                          type="date"
+                          type="datetime-local"
                           value={electionStartDate}
                           onChange={(e) => setElectionStartDate(e.target.value)}
                         />
                       </div>
                       
                       <div>
-                        <Label htmlFor="endDate">End Date*</Label>
+                        <Label htmlFor="endDate">Voting Closes*</Label>
                         <Input
                           id="endDate"
-                          type="date"
+                          type="datetime-local"
                           value={electionEndDate}
                           onChange={(e) => setElectionEndDate(e.target.value)}
                         />
@@ -480,15 +697,120 @@ const Admin = () => {
                     
                     <div className="flex items-center gap-2">
                       <input
-                        id="active"
+                        id="publish"
+                        type="checkbox"
+                        checked={publishOnCreate}
+                        onChange={(e) => setPublishOnCreate(e.target.checked)}
+                        className="h-4 w-4 text-primary rounded"
+                      />
+                      <Label htmlFor="publish">Publish now (otherwise saved as a draft)</Label>
+                    </div>
+                    
+                    <div>
+                      <Label htmlFor="votingMethod">Voting Method</Label>
+                      <Select
+                        value={votingMethod}
+                        onValueChange={(value) => {
+                          setVotingMethod(value as VotingMethod);
+                          // Encrypted ballots only carry a single choice
+                          if (value !== "plurality") setEncryptBallots(false);
+                        }}
+                      >
+                        <SelectTrigger id="votingMethod">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="plurality">Choose candidates (plurality or approval)</SelectItem>
+                          <SelectItem value="irv">Ranked choice (instant runoff, or STV for several seats)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="seats">Seats to fill</Label>
+                        <Input
+                          id="seats"
+                          type="number"
+                          min={1}
+                          value={seats}
+                          onChange={(e) => setSeats(e.target.value)}
+                        />
+                      </div>
+                      {votingMethod === "plurality" && (
+                        <div>
+                          <Label htmlFor="maxSelections">Choices per voter</Label>
+                          <Input
+                            id="maxSelections"
+                            type="number"
+                            min={1}
+                            value={maxSelections}
+                            onChange={(e) => {
+                              setMaxSelections(e.target.value);
+                              // Encrypted ballots only carry a single choice
+                              if (parseInt(e.target.value, 10) > 1) setEncryptBallots(false);
+                            }}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    
+                    <div className="flex items-center gap-2">
+                      <input
+                        id="encryptBallots"
                         type="checkbox"
-                        checked={isActive}
-                        onChange={(e) => setIsActive(e.target.checked)}
+                        checked={encryptBallots}
+                        disabled={votingMethod !== "plurality" || parseInt(maxSelections, 10) > 1}
+                        onChange={(e) => setEncryptBallots(e.target.checked)}
                         className="h-4 w-4 text-primary rounded"
                       />
-                      <Label htmlFor="active">Active</Label>
+                      <Label htmlFor="encryptBallots">
+                        Encrypted ballots (results sealed until close{votingMethod !== "plurality" || parseInt(maxSelections, 10) > 1 ? ", single choice only" : ""})
+                      </Label>
                     </div>
                     
+                    {encryptBallots && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                          <Label htmlFor="trusteeEmails">Trustee account emails* (one per line)</Label>
+                          <Textarea
+                            id="trusteeEmails"
+                            placeholder={"e.g.\npresident@example.edu\nadvisor@example.edu\nofficer@example.edu"}
+                            value={trusteeEmails}
+                            onChange={(e) => setTrusteeEmails(e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="decryptionThreshold">Trustees needed to decrypt*</Label>
+                          <Input
+                            id="decryptionThreshold"
+                            type="number"
+                            min={1}
+                            value={decryptionThreshold}
+                            onChange={(e) => setDecryptionThreshold(e.target.value)}
+                          />
+                        </div>
+                      </div>
+                    )}
+                    
+                    <AuthPolicyFields
+                      idPrefix="create"
+                      factors={authFactors}
+                      onFactorsChange={setAuthFactors}
+                      minFaceConfidence={minFaceConfidence}
+                      onMinFaceConfidenceChange={setMinFaceConfidence}
+                      minPalmConfidence={minPalmConfidence}
+                      onMinPalmConfidenceChange={setMinPalmConfidence}
+                    />
+                    
+                    <EligibilityFields
+                      idPrefix="create"
+                      eligibility={eligibility}
+                      onEligibilityChange={setEligibility}
+                      rules={eligibilityRules}
+                      onRulesChange={setEligibilityRules}
+                    />
+                    
                     <Button onClick={handleCreateElection} className="w-full">
                       Create Election
                     </Button>
@@ -555,38 +877,104 @@ const Admin = () => {
                             
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                               <div>
-                                <Label htmlFor="editStartDate">Start Date*</Label>
+                                <Label htmlFor="editStartDate">Voting Opens*</Label>
                                 <Input
                                   id="editStartDate"
-                                  type="date"
+                                  type="datetime-local"
+                                  disabled={selectedStatus !== 'draft' && selectedStatus !== 'scheduled'}
                                   value={electionStartDate}
                                   onChange={(e) => setElectionStartDate(e.target.value)}
                                 />
                               </div>
                               
                               <div>
-                                <Label htmlFor="editEndDate">End Date*</Label>
+                                <Label htmlFor="editEndDate">Voting Closes*</Label>
                                 <Input
                                   id="editEndDate"
-                                  type="date"
+                                  type="datetime-local"
+                                  disabled={selectedStatus === 'closed' || selectedStatus === 'certified'}
                                   value={electionEndDate}
                                   onChange={(e) => setElectionEndDate(e.target.value)}
                                 />
                               </div>
                             </div>
                             
-                            <div className="flex items-center gap-2">
-                              <input
-                                id="editActive"
-                                type="checkbox"
-                                checked={isActive}
-                                onChange={(e) => setIsActive(e.target.checked)}
-                                className="h-4 w-4 text-primary rounded"
-                              />
-                              <Label htmlFor="editActive">Active</Label>
+                            <AuthPolicyFields
+                              idPrefix="edit"
+                              factors={authFactors}
+                              onFactorsChange={setAuthFactors}
+                              minFaceConfidence={minFaceConfidence}
+                              onMinFaceConfidenceChange={setMinFaceConfidence}
+                              minPalmConfidence={minPalmConfidence}
+                              onMinPalmConfidenceChange={setMinPalmConfidence}
+                              disabled={selectedStatus === 'closed' || selectedStatus === 'certified'}
+                            />
+                            
+                            <EligibilityFields
+                              idPrefix="edit"
+                              eligibility={eligibility}
+                              onEligibilityChange={setEligibility}
+                              rules={eligibilityRules}
+                              onRulesChange={setEligibilityRules}
+                              electionId={selectedElection.id}
+                              disabled={selectedStatus === 'closed' || selectedStatus === 'certified'}
+                            />
+                            
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border rounded-md p-3">
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium">Status</span>
+                                {selectedStatus && <ElectionStatusBadge status={selectedStatus} />}
+                                {selectedElection.certified_at && (
+                                  <span className="text-xs text-muted-foreground">
+                                    on {new Date(selectedElection.certified_at).toLocaleString()}
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex gap-2">
+                                {selectedStatus === 'draft' && (
+                                  <Button size="sm" onClick={handlePublishElection}>
+                                    Publish
+                                  </Button>
+                                )}
+                                {selectedStatus === 'scheduled' && (
+                                  <Button size="sm" variant="outline" onClick={handleReturnToDraft}>
+                                    Return to Draft
+                                  </Button>
+                                )}
+                                {selectedStatus === 'open' && (
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button size="sm" variant="outline" className="text-destructive border-destructive hover:bg-destructive/10">
+                                        Close Voting Now
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Close voting early?</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          The election will end now and no more votes will be accepted. This cannot be undone.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction onClick={handleCloseElection}>Close Voting</AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                )}
+                                {selectedStatus === 'closed' && (
+                                  <Button size="sm" onClick={handleCertifyElection}>
+                                    <Check className="h-4 w-4 mr-2" /> Certify Results
+                                  </Button>
+                                )}
+                              </div>
                             </div>
                             
-                            <Button onClick={handleUpdateElection} className="w-full">
+                            <Button
+                              onClick={handleUpdateElection}
+                              disabled={selectedStatus === 'certified'}
+                              className="w-full"
+                            >
                               Update Election
                             </Button>
                           </div>
@@ -630,6 +1018,12 @@ const Admin = () => {
                     
                     {selectedElection && (
                       <div className="space-y-6">
+                        {selectedStatus !== 'draft' && (
+                          <p className="text-sm text-muted-foreground">
+                            Candidates can only be changed while the election is a draft. Return a scheduled election to draft to change them.
+                          </p>
+                        )}
+                        
                         <div className="space-y-4">
                           <h3 className="text-lg font-medium">Add New Candidate</h3>
                           
@@ -663,7 +1057,7 @@ const Admin = () => {
                             />
                           </div>
                           
-                          <Button onClick={handleAddCandidate}>
+                          <Button onClick={handleAddCandidate} disabled={selectedStatus !== 'draft'}>
                             <UserPlus className="h-4 w-4 mr-2" />
                             Add Candidate
                           </Button>
@@ -687,6 +1081,7 @@ const Admin = () => {
                                       <Button 
                                         variant="outline" 
                                         size="sm"
+                                        disabled={selectedStatus !== 'draft'}
                                         className="text-destructive border-destructive hover:bg-destructive/10"
                                       >
                                         Remove
@@ -697,7 +1092,6 @@ const Admin = () => {
                                         <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                                         <AlertDialogDescription>
                                           This action will permanently remove this candidate from the election.
-                                          Any votes already cast for this candidate will remain in the system.
                                         </AlertDialogDescription>
                                       </AlertDialogHeader>
                                       <AlertDialogFooter>
@@ -721,7 +1115,16 @@ const Admin = () => {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="transfer">
+                <ElectionTransfer elections={elections} onImported={fetchElections} />
+              </TabsContent>
+              
+              <TabsContent value="roles">
+                <RoleManagement />
+              </TabsContent>
             </Tabs>
+            )}
             
             <AdminDashboard />
           </div>
@@ -6,9 +6,13 @@ import { Loader2, CheckCircle, AlertCircle, Vote } from 'lucide-react';
 import { useProfileData } from '@/hooks/useProfileData';
 import ProfileSummaryCard from '@/components/profile/ProfileSummaryCard';
 import VotingInformationCard from '@/components/profile/VotingInformationCard';
+import TotpEnrollmentCard from '@/components/profile/TotpEnrollmentCard';
+import PasskeysCard from '@/components/profile/PasskeysCard';
+import TrusteeKeyCeremonyCard from '@/components/profile/TrusteeKeyCeremonyCard';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { getReceipt } from '@/utils/vote/receiptStore';
 
 const Profile = () => {
   const {
@@ -40,13 +44,14 @@ const Profile = () => {
         setIsCheckingBiometrics(true);
         const { data, error } = await supabase
           .from('user_biometrics')
-          .select('face_image_url')
+          .select('template_version, face_image_url')
           .eq('user_id', user.id)
           .maybeSingle();
           
         if (error) throw error;
         
-        setIsBiometricsRegistered(!!data?.face_image_url);
+        // Photos from before templates still count until they are converted
+        setIsBiometricsRegistered(!!(data?.template_version || data?.face_image_url));
       } catch (error) {
         console.error('Error checking biometrics:', error);
       } finally {
@@ -65,22 +70,24 @@ const Profile = () => {
       try {
         setIsLoadingVotes(true);
         
-        // Get user's voting history
+        // Get the elections the user took part in; ballots are not linked to voters
         const { data, error } = await supabase
-          .from('votes')
+          .from('voter_participation')
           .select(`
             election_id,
-            candidate_id,
-            created_at,
-            elections:election_id (title),
-            candidates:candidate_id (name, party)
+            participated_at,
+            elections:election_id (title)
           `)
           .eq('voter_id', user.id)
-          .order('created_at', { ascending: false });
+          .order('participated_at', { ascending: false });
           
         if (error) throw error;
         
-        setUserVotes(data || []);
+        // Fill in the candidate from receipts saved on this device, where available
+        setUserVotes((data || []).map(vote => ({
+          ...vote,
+          receipt: getReceipt(user.id, vote.election_id)
+        })));
       } catch (error) {
         console.error('Error fetching voting history:', error);
       } finally {
@@ -164,6 +171,19 @@ const Profile = () => {
             )}
           </CardContent>
         </Card>
+
+        {/* Authenticator App */}
+        <Card className="mt-6">
+          <TotpEnrollmentCard accountName={user?.email ?? 'voter'} />
+        </Card>
+
+        {/* Passkeys */}
+        <Card className="mt-6">
+          <PasskeysCard />
+        </Card>
+
+        {/* Trustee key ceremonies */}
+        <TrusteeKeyCeremonyCard />
         
         {/* Voting History */}
         <Card className="mt-6">
@@ -187,12 +207,18 @@ const Profile = () => {
                       <div>
                         <h4 className="font-medium">{vote.elections?.title || "Unknown Election"}</h4>
                         <p className="text-sm text-muted-foreground">
-                          You voted for: <span className="font-medium">{vote.candidates?.name || "Unknown Candidate"}</span>
-                          {vote.candidates?.party && <span className="ml-1">({vote.candidates.party})</span>}
+                          {vote.receipt ? (
+                            <>
+                              You voted for: <span className="font-medium">{vote.receipt.candidateName}</span>
+                              {vote.receipt.candidateParty && <span className="ml-1">({vote.receipt.candidateParty})</span>}
+                            </>
+                          ) : (
+                            "Secret ballot - your choice is not stored with your account"
+                          )}
                         </p>
                       </div>
                       <div className="text-xs text-muted-foreground">
-                        {new Date(vote.created_at).toLocaleDateString()}
+                        {new Date(vote.participated_at).toLocaleDateString()}
                       </div>
                     </div>
                     <div className="mt-2 bg-green-50 text-green-700 rounded px-2 py-1 text-xs inline-flex items-center">
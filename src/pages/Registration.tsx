@@ -11,9 +11,12 @@ import Layout from '@/components/Layout';
 import StepIndicator from '@/components/vote/StepIndicator';
 import PalmRecognition from '@/components/PalmRecognition';
 import FaceRecognition from '@/components/FaceRecognition';
+import { useAuth } from '@/hooks/useAuth';
+import { isValidPhoneNumber, normalisePhoneNumber, savePhoneNumber } from '@/utils/auth/otp';
 
 const Registration = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [step, setStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -94,12 +97,11 @@ const Registration = () => {
         return false;
       }
       
-      // Simple phone validation
-      const phoneRegex = /^\d{10}$/;
-      if (!phoneRegex.test(formData.phone.replace(/[^0-9]/g, ''))) {
+      // Verification codes are sent by SMS, so the number needs its country code
+      if (!isValidPhoneNumber(normalisePhoneNumber(formData.phone))) {
         toast({
           title: "Invalid Phone Number",
-          description: "Please enter a valid 10-digit phone number.",
+          description: "Please enter your phone number with its country code, e.g. +1 555 123 4567.",
           variant: "destructive",
         });
         return false;
@@ -166,17 +168,35 @@ const Registration = () => {
   const handleSubmit = async () => {
     if (!validateCurrentStep()) return;
     
+    if (!user) {
+      toast({
+        title: "Sign In Required",
+        description: "Please sign in to complete your registration.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsLoading(true);
     
-    // Simulate API call to register user
-    setTimeout(() => {
-      setIsLoading(false);
+    try {
+      // Verification codes for voting are sent to this number
+      await savePhoneNumber(formData.phone);
+      
       toast({
         title: "Registration Successful",
         description: "Your voter registration has been completed. You can now access the voting system.",
       });
       navigate('/vote');
-    }, 2000);
+    } catch (error) {
+      toast({
+        title: "Registration Failed",
+        description: error instanceof Error ? error.message : "Failed to complete your registration.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
   
   const renderPersonalInfoStep = () => {
@@ -230,7 +250,7 @@ const Registration = () => {
               type="tel"
               value={formData.phone}
               onChange={(e) => updateFormData('phone', e.target.value)}
-              placeholder="Enter your phone number"
+              placeholder="+1 555 123 4567"
               className="pl-10"
               required
             />
@@ -348,6 +368,7 @@ const Registration = () => {
               ) : (
                 <PalmRecognition 
                   onVerified={handlePalmVerified}
+                  isRegistrationMode={true}
                 />
               )}
             </div>
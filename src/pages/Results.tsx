@@ -5,9 +5,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { toast } from '@/hooks/use-toast';
-import { BarChart2, PieChart as PieChartIcon, Activity, AlertCircle, Loader2 } from 'lucide-react';
+import { BarChart2, PieChart as PieChartIcon, Activity, AlertCircle, ListOrdered, Loader2, Lock } from 'lucide-react';
 import Layout from '@/components/Layout';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import VotingContract, { ChainVerification, DecryptionStatus, RunoffResult, StvResult, TallyCommitment } from '@/utils/VotingContract';
+import TrusteeDecryptionCard from '@/components/results/TrusteeDecryptionCard';
+import RunoffRounds from '@/components/results/RunoffRounds';
+import StvStages from '@/components/results/StvStages';
+import TurnoutPanel from '@/components/results/TurnoutPanel';
+import ElectionStatusBadge from '@/components/ElectionStatusBadge';
+import { useAuth } from '@/hooks/useAuth';
+import { allocateSeats } from '@/utils/tally/plurality';
+import { getBallotCounts } from '@/utils/vote/voteService';
+import { getElectionStatus, hasElectionClosed } from '@/utils/election/lifecycle';
 
 const COLORS = ['#3B82F6', '#6366F1', '#8B5CF6', '#D946EF', '#14B8A6', '#F97316', '#F43F5E'];
 
@@ -16,12 +27,21 @@ interface ElectionResult {
   party: string;
   votes: number;
   percentage: number;
+  // Set when the candidate wins a seat, or is level with others for the last one
+  seatStatus?: 'elected' | 'tied';
 }
 
 interface Election {
   id: string;
   title: string;
   description: string;
+  start_date: string;
+  end_date: string;
+  status: string;
+  encrypted_ballots: boolean;
+  voting_method: string;
+  seats: number;
+  max_selections: number;
   candidates: Candidate[];
 }
 
@@ -32,26 +52,166 @@ interface Candidate {
   voteCount: number;
 }
 
+// Rank candidates by votes, work out their share of the total and mark the top candidates elected.
+// Ranked-choice winners come from the runoff, not from first preferences.
+const buildResults = (election: Election): ElectionResult[] => {
+  const totalVotes = election.candidates.reduce((sum, candidate) => sum + candidate.voteCount, 0);
+  
+  const { elected, tied } = election.voting_method === 'irv'
+    ? { elected: [], tied: [] }
+    : allocateSeats(
+        Object.fromEntries(election.candidates.map(candidate => [candidate.id, candidate.voteCount])),
+        election.seats || 1
+      );
+  
+  const processedResults: ElectionResult[] = election.candidates.map(candidate => ({
+    candidateName: candidate.name,
+    party: candidate.party,
+    votes: candidate.voteCount,
+    percentage: totalVotes > 0 ? (candidate.voteCount / totalVotes) * 100 : 0,
+    seatStatus: elected.includes(candidate.id) ? 'elected' : tied.includes(candidate.id) ? 'tied' : undefined
+  }));
+  
+  // Sort by votes in descending order
+  processedResults.sort((a, b) => b.votes - a.votes);
+  
+  return processedResults;
+};
+
 const Results = () => {
+  const { hasRole } = useAuth();
   const [elections, setElections] = useState<Election[]>([]);
   const [selectedElection, setSelectedElection] = useState<Election | null>(null);
   const [results, setResults] = useState<ElectionResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [chainStatus, setChainStatus] = useState<ChainVerification | null>(null);
+  const [isVerifyingChain, setIsVerifyingChain] = useState(true);
+  const [tallyCommitment, setTallyCommitment] = useState<TallyCommitment | null>(null);
+  const [recomputedRoot, setRecomputedRoot] = useState<string | null>(null);
+  const [isLoadingTally, setIsLoadingTally] = useState(false);
+  const [decryptionStatus, setDecryptionStatus] = useState<DecryptionStatus | null>(null);
+  const [decryptionRefresh, setDecryptionRefresh] = useState(0);
+  const [runoffResult, setRunoffResult] = useState<RunoffResult | null>(null);
+  const [stvResult, setStvResult] = useState<StvResult | null>(null);
+  
+  // Recompute the vote ledger hash chain
+  useEffect(() => {
+    const verifyLedger = async () => {
+      try {
+        setIsVerifyingChain(true);
+        const verification = await VotingContract.getInstance().verifyChain();
+        setChainStatus(verification);
+      } catch (err) {
+        console.error('Error verifying vote ledger:', err);
+        setChainStatus(null);
+      } finally {
+        setIsVerifyingChain(false);
+      }
+    };
+    
+    verifyLedger();
+  }, []);
+  
+  const tallyElectionId = selectedElection?.id;
+  const isTallyElectionClosed = !!selectedElection &&
+    hasElectionClosed(selectedElection.status, selectedElection.start_date, selectedElection.end_date);
+  const isSealedElection = !!selectedElection?.encrypted_ballots;
+  const decryptedTally = decryptionStatus?.electionId === tallyElectionId ? decryptionStatus?.tally : null;
+  const isRankedElection = selectedElection?.voting_method === 'irv';
+  const isMultiSeatRanked = isRankedElection && (selectedElection?.seats || 1) > 1;
+  // Round-by-round counts are published for officers and auditors to check
+  const canDownloadStages = hasRole('election_officer') || hasRole('auditor');
+  
+  // Ranked-choice elections are recounted round by round whenever the ballots change:
+  // by instant runoff for one seat and by single transferable vote for several
+  useEffect(() => {
+    setRunoffResult(null);
+    setStvResult(null);
+    if (!tallyElectionId || !isRankedElection) return;
+    
+    const loadRankedResult = async () => {
+      const contract = VotingContract.getInstance();
+      
+      try {
+        if (isMultiSeatRanked) {
+          setStvResult(await contract.getStvResult(tallyElectionId));
+        } else {
+          setRunoffResult(await contract.getRunoffResult(tallyElectionId));
+        }
+      } catch (err) {
+        console.error('Error running ranked-choice count:', err);
+      }
+    };
+    
+    loadRankedResult();
+  }, [tallyElectionId, isRankedElection, isMultiSeatRanked, results]);
+  
+  // Sealed elections are tallied by the trustees once they close
+  useEffect(() => {
+    setDecryptionStatus(null);
+    if (!tallyElectionId || !isSealedElection || !isTallyElectionClosed) return;
+    
+    const loadDecryptionStatus = async () => {
+      try {
+        setDecryptionStatus(await VotingContract.getInstance().getDecryptionStatus(tallyElectionId));
+      } catch (err) {
+        console.error('Error loading decryption status:', err);
+      }
+    };
+    
+    loadDecryptionStatus();
+  }, [tallyElectionId, isSealedElection, isTallyElectionClosed, decryptionRefresh]);
+  
+  // Load the published tally commitment; election officers commit it when they certify the election
+  useEffect(() => {
+    if (!tallyElectionId) return;
+    
+    const loadTallyCommitment = async () => {
+      const contract = VotingContract.getInstance();
+      
+      try {
+        setIsLoadingTally(true);
+        setRecomputedRoot(null);
+        
+        const commitment = await contract.getTallyCommitment(tallyElectionId);
+        setTallyCommitment(commitment);
+        
+        if (commitment) {
+          setRecomputedRoot(await contract.computeMerkleRoot(tallyElectionId));
+        }
+      } catch (err) {
+        console.error('Error loading tally commitment:', err);
+        setTallyCommitment(null);
+      } finally {
+        setIsLoadingTally(false);
+      }
+    };
+    
+    loadTallyCommitment();
+  }, [tallyElectionId, isTallyElectionClosed]);
   
   useEffect(() => {
     const fetchElections = async () => {
       try {
         setLoading(true);
         
-        // Fetch elections from database
+        // Fetch published elections from database
         const { data: electionData, error: electionError } = await supabase
           .from('elections')
           .select(`
             id,
             title,
-            description
+            description,
+            start_date,
+            end_date,
+            status,
+            encrypted_ballots,
+            voting_method,
+            seats,
+            max_selections
           `)
+          .neq('status', 'draft')
           .order('created_at', { ascending: false });
           
         if (electionError) {
@@ -91,29 +251,12 @@ const Results = () => {
                 return null;
               }
               
-              // For each candidate, get their vote count
-              const candidatesWithVotes = await Promise.all(
-                candidatesData.map(async (candidate) => {
-                  // Get vote count
-                  const { count, error: voteError } = await supabase
-                    .from('votes')
-                    .select('*', { count: 'exact', head: true })
-                    .eq('candidate_id', candidate.id);
-                    
-                  if (voteError) {
-                    console.error(`Error fetching votes for candidate ${candidate.id}:`, voteError);
-                    return {
-                      ...candidate,
-                      voteCount: 0
-                    };
-                  }
-                  
-                  return {
-                    ...candidate,
-                    voteCount: count || 0
-                  };
-                })
-              );
+              // Ballots are not readable, only the count per candidate
+              const voteCounts = await getBallotCounts(election.id).catch(() => ({} as Record<string, number>));
+              const candidatesWithVotes = candidatesData.map(candidate => ({
+                ...candidate,
+                voteCount: voteCounts[candidate.id] || 0
+              }));
               
               return {
                 ...election,
@@ -164,28 +307,8 @@ const Results = () => {
       const strElectionId = String(election.id);
       console.log('Fetching votes for election ID:', strElectionId);
       
-      const { data: votes, error } = await supabase
-        .from('votes')
-        .select('candidate_id')
-        .eq('election_id', strElectionId);
-        
-      if (error) {
-        console.error('Error fetching votes:', error);
-        // Fall back to existing data
-        processResults(election);
-        return;
-      }
-      
-      console.log('Fetched votes:', votes);
-      
-      // Count votes per candidate
-      const voteCounts: Record<string, number> = {};
-      votes?.forEach(vote => {
-        const candidateId = vote.candidate_id;
-        if (candidateId) {
-          voteCounts[candidateId] = (voteCounts[candidateId] || 0) + 1;
-        }
-      });
+      // Count votes per candidate, including every choice on multi-choice ballots
+      const voteCounts = await getBallotCounts(strElectionId);
       
       // Update candidates with real vote counts
       const updatedCandidates = election.candidates.map(candidate => ({
@@ -206,9 +329,9 @@ const Results = () => {
       const channel = supabase.channel(`election-votes-${strElectionId}`)
         .on('postgres_changes', 
           { 
-            event: '*', 
+            event: 'INSERT', 
             schema: 'public', 
-            table: 'votes',
+            table: 'vote_ledger',
             filter: `election_id=eq.${strElectionId}`
           }, 
           (payload) => {
@@ -233,21 +356,24 @@ const Results = () => {
   const processResults = (election: Election) => {
     if (!election || !election.candidates) return;
     
-    const totalVotes = election.candidates.reduce((sum, candidate) => sum + candidate.voteCount, 0);
-    
-    const processedResults = election.candidates.map(candidate => ({
-      candidateName: candidate.name,
-      party: candidate.party,
-      votes: candidate.voteCount,
-      percentage: totalVotes > 0 ? (candidate.voteCount / totalVotes) * 100 : 0
-    }));
-    
-    // Sort by votes in descending order
-    processedResults.sort((a, b) => b.votes - a.votes);
-    
-    setResults(processedResults);
+    setResults(buildResults(election));
   };
   
+  // Sealed elections show the trustees' decrypted tally instead of counting ballots
+  const displayedResults = isSealedElection
+    ? (decryptedTally
+      ? buildResults({
+          ...selectedElection,
+          candidates: selectedElection.candidates.map(candidate => ({
+            ...candidate,
+            voteCount: decryptedTally[candidate.id] || 0
+          }))
+        })
+      : [])
+    : results;
+  
+  const electedResults = displayedResults.filter(result => result.seatStatus === 'elected');
+  
   const handleElectionChange = (value: string) => {
     const election = elections.find(e => e.id === value);
     if (election) {
@@ -269,30 +395,82 @@ const Results = () => {
         <div className="grid gap-4 md:grid-cols-2">
           <div className="blockchain-block">
             <div className="flex items-center justify-between mb-2">
-              <h4 className="font-medium">Election Smart Contract</h4>
-              <Badge variant="outline">Verified</Badge>
-            </div>
-            <p className="text-sm text-muted-foreground mb-2">
-              All votes are securely recorded on the blockchain
-            </p>
-            <div>
-              <p className="text-xs font-medium">Contract Address</p>
-              <p className="blockchain-hash">0x7EF2e0048f5bAeDe046f6BF797943daF4ED8CB47</p>
+              <h4 className="font-medium">Tally Commitment</h4>
+              {tallyCommitment ? (
+                recomputedRoot === tallyCommitment.merkleRoot ? (
+                  <Badge variant="outline" className="text-green-700 border-green-300">Root recomputed</Badge>
+                ) : recomputedRoot ? (
+                  <Badge variant="destructive">Root mismatch</Badge>
+                ) : null
+              ) : (
+                <Badge variant="outline">Open</Badge>
+              )}
             </div>
+            {isLoadingTally ? (
+              <p className="text-sm text-muted-foreground flex items-center">
+                <Loader2 className="h-3 w-3 animate-spin mr-1" /> Loading tally commitment...
+              </p>
+            ) : tallyCommitment ? (
+              <>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Merkle root over {tallyCommitment.receiptCount} vote receipts, committed {tallyCommitment.committedAt.toLocaleString()}
+                </p>
+                <div>
+                  <p className="text-xs font-medium">Merkle Root</p>
+                  <p className="blockchain-hash">{tallyCommitment.merkleRoot}</p>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The Merkle root over all vote receipts is published when this election is certified
+              </p>
+            )}
           </div>
           
           <div className="blockchain-block">
             <div className="flex items-center justify-between mb-2">
               <h4 className="font-medium">Latest Block</h4>
-              <Badge variant="outline">#{Math.floor(Math.random() * 9000000) + 1000000}</Badge>
-            </div>
-            <p className="text-sm text-muted-foreground mb-2">
-              Last vote recorded {Math.floor(Math.random() * 30) + 1} minutes ago
-            </p>
-            <div>
-              <p className="text-xs font-medium">Block Hash</p>
-              <p className="blockchain-hash">0x{Array(64).fill(0).map(() => "0123456789ABCDEF"[Math.floor(Math.random() * 16)]).join('')}</p>
+              {chainStatus?.latestBlock && (
+                <Badge variant="outline">#{chainStatus.latestBlock.blockNumber}</Badge>
+              )}
             </div>
+            {isVerifyingChain ? (
+              <p className="text-sm text-muted-foreground flex items-center">
+                <Loader2 className="h-3 w-3 animate-spin mr-1" /> Verifying vote ledger...
+              </p>
+            ) : !chainStatus ? (
+              <p className="text-sm text-muted-foreground">
+                The vote ledger could not be loaded
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm text-muted-foreground">
+                    {chainStatus.latestBlock
+                      ? `Last vote recorded ${formatDistanceToNow(chainStatus.latestBlock.timestamp, { addSuffix: true })}`
+                      : 'No votes recorded yet'}
+                  </p>
+                  {chainStatus.valid ? (
+                    <Badge variant="outline" className="text-green-700 border-green-300">
+                      Chain verified ({chainStatus.blockCount} blocks)
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive">
+                      Broken at block #{chainStatus.brokenAtBlock}
+                    </Badge>
+                  )}
+                </div>
+                {!chainStatus.valid && (
+                  <p className="text-xs text-red-600 mb-2">{chainStatus.reason}</p>
+                )}
+                {chainStatus.latestBlock && (
+                  <div>
+                    <p className="text-xs font-medium">Block Hash</p>
+                    <p className="blockchain-hash">{chainStatus.latestBlock.blockHash}</p>
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -357,97 +535,177 @@ const Results = () => {
           <>
             <Card className="mb-6">
               <CardHeader>
-                <CardTitle>{selectedElection.title}</CardTitle>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle>{selectedElection.title}</CardTitle>
+                  <ElectionStatusBadge
+                    status={getElectionStatus(selectedElection.status, selectedElection.start_date, selectedElection.end_date)}
+                  />
+                </div>
                 <CardDescription>{selectedElection.description}</CardDescription>
               </CardHeader>
               <CardContent>
-                <Tabs defaultValue="bar">
-                  <TabsList className="mb-4">
-                    <TabsTrigger value="bar" className="flex items-center">
-                      <BarChart2 className="h-4 w-4 mr-2" />
-                      Bar Chart
-                    </TabsTrigger>
-                    <TabsTrigger value="pie" className="flex items-center">
-                      <PieChartIcon className="h-4 w-4 mr-2" />
-                      Pie Chart
-                    </TabsTrigger>
-                    <TabsTrigger value="table" className="flex items-center">
-                      <Activity className="h-4 w-4 mr-2" />
-                      Table
-                    </TabsTrigger>
-                  </TabsList>
+                {isSealedElection && !decryptedTally ? (
+                  <div className="text-center py-8">
+                    <Lock className="h-10 w-10 text-primary mx-auto mb-3" />
+                    <h3 className="text-lg font-semibold mb-1">
+                      {isTallyElectionClosed ? 'Awaiting trustee decryption' : 'Sealed until close'}
+                    </h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      {isTallyElectionClosed
+                        ? 'Ballots in this election are encrypted. The results appear once enough trustees have decrypted the combined tally.'
+                        : `Ballots in this election are encrypted. No results are available until voting closes on ${new Date(selectedElection.end_date).toLocaleDateString()}.`}
+                    </p>
+                    {isTallyElectionClosed && decryptionStatus && (
+                      <TrusteeDecryptionCard
+                        electionId={selectedElection.id}
+                        status={decryptionStatus}
+                        onSubmitted={() => setDecryptionRefresh(refresh => refresh + 1)}
+                      />
+                    )}
+                  </div>
+                ) : (
+                  <Tabs key={selectedElection.id} defaultValue={isRankedElection ? 'rounds' : 'bar'}>
+                    {electedResults.length > 0 && (
+                      <p className="text-sm mb-2">
+                        <span className="font-medium">
+                          {isTallyElectionClosed ? 'Elected' : 'Leading'}
+                          {(selectedElection.seats || 1) > 1 && ` (${selectedElection.seats} seats)`}:
+                        </span>{' '}
+                        {electedResults.map(result => result.candidateName).join(', ')}
+                      </p>
+                    )}
+                    {isRankedElection && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Charts and table show first preferences. The rounds view shows the full count, stage by stage.
+                      </p>
+                    )}
+                    <TabsList className="mb-4">
+                      {isRankedElection && (
+                        <TabsTrigger value="rounds" className="flex items-center">
+                          <ListOrdered className="h-4 w-4 mr-2" />
+                          Rounds
+                        </TabsTrigger>
+                      )}
+                      <TabsTrigger value="bar" className="flex items-center">
+                        <BarChart2 className="h-4 w-4 mr-2" />
+                        Bar Chart
+                      </TabsTrigger>
+                      <TabsTrigger value="pie" className="flex items-center">
+                        <PieChartIcon className="h-4 w-4 mr-2" />
+                        Pie Chart
+                      </TabsTrigger>
+                      <TabsTrigger value="table" className="flex items-center">
+                        <Activity className="h-4 w-4 mr-2" />
+                        Table
+                      </TabsTrigger>
+                    </TabsList>
                   
-                  <TabsContent value="bar">
-                    <div className="h-64">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <BarChart data={results}>
-                          <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="candidateName" />
-                          <YAxis />
-                          <Tooltip formatter={(value, name) => [value, 'Votes']} />
-                          <Bar dataKey="votes" fill="#3B82F6">
-                            {results.map((_, index) => (
-                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                          </Bar>
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </TabsContent>
+                    {isRankedElection && (
+                      <TabsContent value="rounds">
+                        {stvResult ? (
+                          <StvStages
+                            electionId={selectedElection.id}
+                            result={stvResult}
+                            candidates={selectedElection.candidates}
+                            canDownload={canDownloadStages}
+                          />
+                        ) : runoffResult ? (
+                          <RunoffRounds result={runoffResult} candidates={selectedElection.candidates} />
+                        ) : (
+                          <p className="text-sm text-muted-foreground flex items-center justify-center py-8">
+                            <Loader2 className="h-4 w-4 animate-spin mr-2" /> Counting rounds...
+                          </p>
+                        )}
+                      </TabsContent>
+                    )}
                   
-                  <TabsContent value="pie">
-                    <div className="h-64">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                          <Pie
-                            data={results}
-                            dataKey="votes"
-                            nameKey="candidateName"
-                            cx="50%"
-                            cy="50%"
-                            outerRadius={80}
-                            label={({ candidateName, percentage }) => `${candidateName}: ${percentage.toFixed(1)}%`}
-                          >
-                            {results.map((_, index) => (
-                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                          </Pie>
-                          <Tooltip formatter={(value, name, props) => [value, props.payload.candidateName]} />
-                        </PieChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </TabsContent>
+                    <TabsContent value="bar">
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={displayedResults}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="candidateName" />
+                            <YAxis />
+                            <Tooltip formatter={(value, name) => [value, 'Votes']} />
+                            <Bar dataKey="votes" fill="#3B82F6">
+                              {displayedResults.map((_, index) => (
+                                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                              ))}
+                            </Bar>
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </TabsContent>
                   
-                  <TabsContent value="table">
-                    <div className="overflow-x-auto">
-                      <table className="w-full text-sm">
-                        <thead>
-                          <tr className="border-b">
-                            <th className="text-left py-3 font-medium">Rank</th>
-                            <th className="text-left py-3 font-medium">Candidate</th>
-                            <th className="text-left py-3 font-medium">Party</th>
-                            <th className="text-right py-3 font-medium">Votes</th>
-                            <th className="text-right py-3 font-medium">Percentage</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {results.map((result, index) => (
-                            <tr key={index} className="border-b">
-                              <td className="py-3">{index + 1}</td>
-                              <td className="py-3 font-medium">{result.candidateName}</td>
-                              <td className="py-3">{result.party}</td>
-                              <td className="py-3 text-right">{result.votes}</td>
-                              <td className="py-3 text-right">{formatPercentage(result.percentage)}</td>
+                    <TabsContent value="pie">
+                      <div className="h-64">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <PieChart>
+                            <Pie
+                              data={displayedResults}
+                              dataKey="votes"
+                              nameKey="candidateName"
+                              cx="50%"
+                              cy="50%"
+                              outerRadius={80}
+                              label={({ candidateName, percentage }) => `${candidateName}: ${percentage.toFixed(1)}%`}
+                            >
+                              {displayedResults.map((_, index) => (
+                                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                              ))}
+                            </Pie>
+                            <Tooltip formatter={(value, name, props) => [value, props.payload.candidateName]} />
+                          </PieChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </TabsContent>
+                  
+                    <TabsContent value="table">
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="text-left py-3 font-medium">Rank</th>
+                              <th className="text-left py-3 font-medium">Candidate</th>
+                              <th className="text-left py-3 font-medium">Party</th>
+                              <th className="text-right py-3 font-medium">Votes</th>
+                              <th className="text-right py-3 font-medium">Percentage</th>
                             </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    </div>
-                  </TabsContent>
-                </Tabs>
+                          </thead>
+                          <tbody>
+                            {displayedResults.map((result, index) => (
+                              <tr key={index} className="border-b">
+                                <td className="py-3">{index + 1}</td>
+                                <td className="py-3 font-medium">
+                                  {result.candidateName}
+                                  {result.seatStatus === 'elected' && (
+                                    <Badge variant="outline" className="ml-2 text-green-700 border-green-300">Elected</Badge>
+                                  )}
+                                  {result.seatStatus === 'tied' && (
+                                    <Badge variant="outline" className="ml-2 text-amber-700 border-amber-300">Tied for last seat</Badge>
+                                  )}
+                                </td>
+                                <td className="py-3">{result.party}</td>
+                                <td className="py-3 text-right">{result.votes}</td>
+                                <td className="py-3 text-right">{formatPercentage(result.percentage)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </TabsContent>
+                  </Tabs>
+                )}
               </CardContent>
             </Card>
             
+            <div className="mb-6">
+              <TurnoutPanel
+                electionId={selectedElection.id}
+                refreshKey={results.reduce((sum, result) => sum + result.votes, 0)}
+              />
+            </div>
+            
             {/* Keep blockchain info section */}
             {renderBlockchainInfo()}
           </>
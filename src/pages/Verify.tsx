@@ -0,0 +1,222 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { SearchCheck, ShieldCheck, ShieldAlert, AlertCircle, Loader2 } from 'lucide-react';
+import Layout from '@/components/Layout';
+import { supabase } from '@/integrations/supabase/client';
+import VotingContract, { InclusionProof } from '@/utils/VotingContract';
+
+const Verify = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [receiptHash, setReceiptHash] = useState(searchParams.get('hash') || '');
+  const [proof, setProof] = useState<InclusionProof | null>(null);
+  const [electionTitle, setElectionTitle] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookupReceipt = useCallback(async (hash: string) => {
+    const trimmedHash = hash.trim();
+    if (!trimmedHash) return;
+
+    try {
+      setIsSearching(true);
+      setError(null);
+      setNotFound(false);
+      setProof(null);
+      setElectionTitle(null);
+
+      const inclusionProof = await VotingContract.getInstance().getInclusionProof(trimmedHash);
+
+      if (!inclusionProof) {
+        setNotFound(true);
+        return;
+      }
+
+      setProof(inclusionProof);
+
+      // Only the election title is shown; the candidate stays hidden behind its commitment
+      const { data: election } = await supabase
+        .from('elections')
+        .select('title')
+        .eq('id', inclusionProof.block.electionId)
+        .maybeSingle();
+
+      setElectionTitle(election?.title || null);
+    } catch (err) {
+      console.error('Error verifying receipt:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify the receipt');
+    } finally {
+      setIsSearching(false);
+    }
+  }, []);
+
+  // Look up a receipt passed in the URL, e.g. from the vote confirmation screen
+  useEffect(() => {
+    const hash = searchParams.get('hash');
+    if (hash) {
+      lookupReceipt(hash);
+    }
+  }, [searchParams, lookupReceipt]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchParams(receiptHash.trim() ? { hash: receiptHash.trim() } : {});
+  };
+
+  const renderProof = () => {
+    if (!proof) return null;
+
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              {proof.valid ? (
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+              ) : (
+                <ShieldAlert className="h-5 w-5 text-red-600" />
+              )}
+              Block #{proof.block.blockNumber}
+            </CardTitle>
+            {proof.valid ? (
+              <Badge variant="outline" className="text-green-700 border-green-300">Included</Badge>
+            ) : (
+              <Badge variant="destructive">Proof failed</Badge>
+            )}
+          </div>
+          <CardDescription>
+            {proof.valid
+              ? 'Your vote is recorded in the ledger and every later block still links back to it.'
+              : proof.reason}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <p className="text-xs font-medium">Election</p>
+              <p className="text-sm">{electionTitle || proof.block.electionId}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium">Recorded</p>
+              <p className="text-sm">{proof.block.timestamp.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium">Position in chain</p>
+              <p className="text-sm">
+                Block {proof.position} of {proof.chainLength}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs font-medium">Confirmations</p>
+              <p className="text-sm">{proof.path.length}</p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div>
+              <p className="text-xs font-medium">Block Hash</p>
+              <p className="blockchain-hash">{proof.block.blockHash}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium">Previous Hash</p>
+              <p className="blockchain-hash">{proof.block.previousHash}</p>
+            </div>
+            <div>
+              <p className="text-xs font-medium">Candidate Commitment</p>
+              <p className="blockchain-hash">{proof.block.candidateCommitment}</p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Inclusion Proof</h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Each later block commits to the hash of the one before it, up to the current head of the chain.
+            </p>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {[proof.block, ...proof.path].map(block => (
+                <div key={block.blockHash} className="blockchain-block">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium">Block #{block.blockNumber}</span>
+                    <span className="text-xs text-muted-foreground">{block.timestamp.toLocaleString()}</span>
+                  </div>
+                  <p className="blockchain-hash">{block.blockHash}</p>
+                </div>
+              ))}
+            </div>
+            <div className="mt-3">
+              <p className="text-xs font-medium">Current Head</p>
+              <p className="blockchain-hash">{proof.headHash}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Verify Your Vote</h1>
+          <p className="text-muted-foreground">
+            Paste the transaction hash from your vote receipt to check that it was recorded in the ledger.
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Receipt transaction hash"
+                value={receiptHash}
+                onChange={(e) => setReceiptHash(e.target.value)}
+                className="font-mono text-xs"
+              />
+              <Button type="submit" disabled={!receiptHash.trim() || isSearching}>
+                {isSearching ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <SearchCheck className="h-4 w-4 mr-2" />
+                )}
+                Verify
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {notFound && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Receipt Not Found</AlertTitle>
+            <AlertDescription>
+              No ledger block matches this transaction hash. Check that you copied the full receipt.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Verification Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {renderProof()}
+      </div>
+    </Layout>
+  );
+};
+
+export default Verify;
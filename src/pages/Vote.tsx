@@ -3,15 +3,17 @@ import React from 'react';
 import Layout from '@/components/Layout';
 import FaceRecognition from '@/components/FaceRecognition';
 import PalmRecognition from '@/components/PalmRecognition';
-import OTPVerification from '@/components/OTPVerification';
 import StepIndicator from '@/components/vote/StepIndicator';
 import VoteWelcome from '@/components/vote/VoteWelcome';
 import ElectionSelector from '@/components/vote/ElectionSelector';
 import CandidateSelector from '@/components/vote/CandidateSelector';
 import VoteConfirmation from '@/components/vote/VoteConfirmation';
+import CodeVerificationStep from '@/components/vote/CodeVerificationStep';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { useNavigate } from 'react-router-dom';
 import { useVoting } from '@/hooks/useVoting';
+import { AUTH_FACTOR_LABELS, VOTING_STEP_LABELS } from '@/utils/election/authPolicy';
 import { UserCheck, UserX, AlertTriangle, Loader2 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
@@ -19,10 +21,13 @@ const Vote = () => {
   const {
     step,
     setStep,
+    steps,
     isLoading,
     elections,
     selectedElection,
     selectedCandidate,
+    selectedRanking,
+    selectedCandidates,
     transactionHash,
     isBiometricsRegistered,
     isCheckingEligibility,
@@ -34,18 +39,13 @@ const Vote = () => {
     handleOTPVerificationError,
     handleSelectElection,
     handleSelectCandidate,
+    handleRankCandidates,
+    handleSelectCandidates,
     handleCastVote
   } = useVoting();
   
-  const steps = [
-    { id: 1, label: "Start" },
-    { id: 2, label: "Face Scan" },
-    { id: 3, label: "Palm Scan" },
-    { id: 4, label: "OTP" },
-    { id: 5, label: "Election" },
-    { id: 6, label: "Vote" },
-    { id: 7, label: "Confirm" }
-  ];
+  const navigate = useNavigate();
+  const authPolicy = selectedElection?.authPolicy;
   
   const renderEligibilityCheck = () => {
     if (isCheckingEligibility) {
@@ -67,12 +67,12 @@ const Vote = () => {
           <AlertTriangle className="h-4 w-4" />
           <AlertTitle>Registration Required</AlertTitle>
           <AlertDescription>
-            <p className="mb-2">You must register your biometrics before you can vote.</p>
-            <p>Please complete the biometric registration process to continue.</p>
+            <p className="mb-2">Elections that require a face or palm scan need your biometrics registered.</p>
+            <p>Please complete the biometric registration process to vote in them.</p>
             <Button 
               variant="outline" 
               className="mt-4"
-              onClick={() => setStep(2)}
+              onClick={() => navigate('/registration')}
             >
               Register Biometrics
             </Button>
@@ -94,15 +94,24 @@ const Vote = () => {
   
   const renderStep = () => {
     switch (step) {
-      case 1:
+      case 'start':
         return (
           <>
             {renderEligibilityCheck()}
-            <VoteWelcome onNext={() => setStep(2)} />
+            <VoteWelcome onNext={() => setStep('election')} />
           </>
         );
       
-      case 2:
+      case 'election':
+        return (
+          <ElectionSelector 
+            elections={elections}
+            isLoading={isLoading}
+            onSelectElection={handleSelectElection}
+          />
+        );
+      
+      case 'face':
         return (
           <Card>
             <CardHeader>
@@ -115,12 +124,13 @@ const Vote = () => {
               <FaceRecognition 
                 onVerified={handleFaceVerificationSuccess} 
                 onError={handleFaceVerificationError} 
+                minMatchConfidence={authPolicy?.minFaceConfidence}
               />
             </CardContent>
           </Card>
         );
       
-      case 3:
+      case 'palm':
         return (
           <Card>
             <CardHeader>
@@ -133,22 +143,23 @@ const Vote = () => {
               <PalmRecognition
                 onVerified={handlePalmVerificationSuccess}
                 onError={handlePalmVerificationError}
+                minMatchConfidence={authPolicy?.minPalmConfidence}
               />
             </CardContent>
           </Card>
         );
       
-      case 4:
+      case 'otp':
         return (
           <Card>
             <CardHeader>
-              <CardTitle>OTP Verification</CardTitle>
+              <CardTitle>One-Time Code</CardTitle>
               <CardDescription>
-                Enter the one-time password sent to your registered mobile device.
+                Enter a code from your authenticator app or the code sent to your registered mobile device.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <OTPVerification
+              <CodeVerificationStep
                 onVerified={handleOTPVerificationSuccess}
                 onError={handleOTPVerificationError}
               />
@@ -156,32 +167,29 @@ const Vote = () => {
           </Card>
         );
       
-      case 5:
-        return (
-          <ElectionSelector 
-            elections={elections}
-            isLoading={isLoading}
-            onSelectElection={handleSelectElection}
-          />
-        );
-      
-      case 6:
+      case 'vote':
         return selectedElection ? (
           <CandidateSelector
             election={selectedElection}
             selectedCandidate={selectedCandidate}
             onSelectCandidate={handleSelectCandidate}
+            ranking={selectedRanking}
+            onRankCandidates={handleRankCandidates}
+            selectedCandidates={selectedCandidates}
+            onSelectCandidates={handleSelectCandidates}
             onVote={handleCastVote}
-            onBack={() => setStep(5)}
+            onBack={() => setStep('election')}
             isLoading={isLoading}
           />
         ) : null;
       
-      case 7:
+      case 'confirm':
         return (
           <VoteConfirmation
             election={selectedElection}
             candidate={selectedCandidate}
+            ranking={selectedRanking}
+            selections={selectedCandidates}
             transactionHash={transactionHash}
           />
         );
@@ -194,7 +202,15 @@ const Vote = () => {
   return (
     <Layout>
       <div className="max-w-lg mx-auto">
-        <StepIndicator currentStep={step} steps={steps} />
+        <StepIndicator
+          currentStep={step}
+          steps={steps.map(id => ({ id, label: VOTING_STEP_LABELS[id] }))}
+        />
+        {authPolicy && step !== 'confirm' && (
+          <p className="text-xs text-muted-foreground text-center -mt-4 mb-6">
+            This election requires: {authPolicy.factors.map(factor => AUTH_FACTOR_LABELS[factor]).join(', ')}
+          </p>
+        )}
         {renderStep()}
       </div>
     </Layout>
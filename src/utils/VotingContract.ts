@@ -1,8 +1,11 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { storeVotingHistory } from "./supabaseStorage";
 import ElectionService from "./voting/ElectionService";
 import VotingService from "./voting/VotingService";
+import VoteLedger from "./ledger/VoteLedger";
+import TallyService from "./ledger/TallyService";
+import EncryptedBallotService from "./voting/EncryptedBallotService";
+import type { AuthPolicy } from "./election/authPolicy";
 
 export interface Candidate {
   id: string;
@@ -11,6 +14,13 @@ export interface Candidate {
   voteCount: number;
 }
 
+// How ballots are cast and counted: a single choice, or a ranking counted by instant runoff
+export type VotingMethod = 'plurality' | 'irv';
+
+// Where an election is in its lifecycle. Published elections are scheduled,
+// open or closed by their dates; draft and certified are set by an administrator
+export type ElectionStatus = 'draft' | 'scheduled' | 'open' | 'closed' | 'certified';
+
 export interface Election {
   id: string;
   title: string;
@@ -18,16 +28,210 @@ export interface Election {
   startDate: Date;
   endDate: Date;
   candidates: Candidate[];
-  isActive: boolean;
+  status: ElectionStatus;
+  // Ballots are encrypted on the client and results stay sealed until close
+  encryptedBallots?: boolean;
+  votingMethod?: VotingMethod;
+  // Number of candidates elected
+  seats?: number;
+  // Number of candidates a voter may choose; more than one makes a multi-choice ballot
+  maxSelections?: number;
+  // Factors a voter must verify before the vote is accepted
+  authPolicy?: AuthPolicy;
 }
 
 export interface VoteTransaction {
   transactionHash: string;
   blockNumber: number;
   timestamp: Date;
-  voter: string;
+  // Only known to the voter who cast it; ballots are not linked to voters
+  voter?: string;
+  electionId: string;
+  // Empty except on the voter's own receipt; ballots do not publish their choice
+  candidateId: string;
+  candidateCommitment: string;
+  // Candidate IDs in order of preference, for ranked-choice elections
+  ranking?: string[];
+  // Every candidate chosen, for multi-choice elections
+  selections?: string[];
+}
+
+export interface CastVoteOptions {
+  // Required for elections with encrypted ballots
+  encryptedBallot?: EncryptedBallot;
+  // Required for ranked-choice elections; the first entry must be the candidate voted for
+  ranking?: string[];
+  // Required for multi-choice elections; the first entry must be the candidate voted for
+  selections?: string[];
+}
+
+export interface LedgerBlock {
+  blockNumber: number;
+  blockHash: string;
+  previousHash: string;
+  electionId: string;
+  candidateCommitment: string;
+  timestamp: Date;
+}
+
+export interface InclusionProof {
+  block: LedgerBlock;
+  position: number;
+  chainLength: number;
+  headHash: string;
+  // Blocks that follow the receipt block, each linking back to its predecessor
+  path: LedgerBlock[];
+  valid: boolean;
+  reason?: string;
+}
+
+export interface MerkleProofStep {
+  // Which side the sibling hash sits on when recomputing the parent
+  position: 'left' | 'right';
+  hash: string;
+}
+
+export interface TallyCommitment {
+  electionId: string;
+  merkleRoot: string;
+  receiptCount: number;
+  tally: Record<string, number>;
+  committedAt: Date;
+}
+
+export interface ReceiptProof {
   electionId: string;
+  receiptHash: string;
+  leafIndex: number;
+  receiptCount: number;
+  merkleRoot: string;
+  proof: MerkleProofStep[];
+}
+
+export interface SerializedEqualityProof {
+  challenge: string;
+  response: string;
+}
+
+export interface EncryptedChoice {
   candidateId: string;
+  alpha: string;
+  beta: string;
+  // Proves the ciphertext encrypts either 0 or 1
+  proof: {
+    c0: string;
+    c1: string;
+    s0: string;
+    s1: string;
+  };
+}
+
+export interface EncryptedBallot {
+  // Chosen by the voter's device and used as the ballot's ID, so the proofs
+  // cannot be copied onto another ballot
+  ballotId: string;
+  choices: EncryptedChoice[];
+  // Proves the choices add up to exactly one vote
+  sumProof: SerializedEqualityProof;
+}
+
+export interface ElectionTrustee {
+  index: number;
+  name: string;
+  // Derived from the key dealings once every trustee has dealt
+  verificationKey: string | null;
+}
+
+// Saved by a trustee when they join the key ceremony; never stored on the server.
+// The transport secret opens the values the other trustees dealt to them, which
+// add up to the trustee's share of the election key.
+export interface TrusteeKeyShare {
+  electionId: string;
+  electionTitle: string;
+  trusteeIndex: number;
+  trusteeName: string;
+  transportKey: string;
+  transportSecret: string;
+}
+
+// One of the signed-in user's trustee seats and how far its key ceremony has got
+export interface KeyCeremony {
+  electionId: string;
+  electionTitle: string;
+  trusteeIndex: number;
+  trusteeName: string;
+  threshold: number;
+  trusteeCount: number;
+  joinedCount: number;
+  dealtCount: number;
+  hasJoined: boolean;
+  hasDealt: boolean;
+  publicKey: string | null;
+}
+
+export interface DecryptionStatus {
+  electionId: string;
+  threshold: number;
+  trustees: ElectionTrustee[];
+  // Trustees whose decryption shares verified against the agreed aggregate
+  decryptedBy: number[];
+  ballotCount: number;
+  tally: Record<string, number> | null;
+}
+
+export interface RunoffRound {
+  round: number;
+  // Votes held by each continuing candidate at the start of the round
+  counts: Record<string, number>;
+  // Ballots with no continuing candidate left in their ranking
+  exhausted: number;
+  eliminated: string | null;
+  winner: string | null;
+}
+
+export interface RunoffResult {
+  ballotCount: number;
+  rounds: RunoffRound[];
+  winner: string | null;
+  // Candidates level for last place that no earlier round separates; the count stopped there
+  tied: string[];
+}
+
+export interface StvStage {
+  stage: number;
+  // Stage 1 counts first preferences; later stages transfer a surplus or exclude a candidate
+  kind: 'first_preferences' | 'surplus' | 'exclusion';
+  // Candidate whose ballots were transferred
+  from: string | null;
+  // Fraction of each ballot's weight passed on; null for first preferences
+  transferValue: number | null;
+  // Votes each candidate received at this stage
+  received: Record<string, number>;
+  // Total votes exhausted so far
+  exhausted: number;
+  // Votes held by each hopeful or elected candidate after the stage
+  totals: Record<string, number>;
+  // Candidates elected at this stage, in order
+  elected: string[];
+}
+
+export interface StvResult {
+  seats: number;
+  ballotCount: number;
+  quota: number;
+  stages: StvStage[];
+  // Candidates in the order they were elected
+  elected: string[];
+  // Candidates level for a seat or for exclusion that no earlier stage separates; the count stopped there
+  tied: string[];
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  blockCount: number;
+  latestBlock: LedgerBlock | null;
+  brokenAtBlock?: number;
+  reason?: string;
 }
 
 // Main class that integrates all voting functionality
@@ -35,10 +239,16 @@ class VotingContract {
   private static instance: VotingContract;
   private electionService: ElectionService;
   private votingService: VotingService;
+  private ledger: VoteLedger;
+  private tallyService: TallyService;
+  private encryptedBallotService: EncryptedBallotService;
   
   private constructor() {
+    this.ledger = new VoteLedger();
+    this.encryptedBallotService = new EncryptedBallotService();
+    this.tallyService = new TallyService(this.ledger);
     this.electionService = new ElectionService();
-    this.votingService = new VotingService();
+    this.votingService = new VotingService(this.ledger);
   }
   
   public static getInstance(): VotingContract {
@@ -57,16 +267,88 @@ class VotingContract {
     return this.electionService.getElection(id);
   }
   
+  public async getRunoffResult(electionId: string): Promise<RunoffResult> {
+    return this.electionService.getRunoffResult(electionId);
+  }
+  
+  public async getStvResult(electionId: string): Promise<StvResult> {
+    return this.electionService.getStvResult(electionId);
+  }
+  
   // Delegate to VotingService
-  public async castVote(userId: string, electionId: string, candidateId: string): Promise<VoteTransaction> {
+  public async castVote(
+    userId: string,
+    electionId: string,
+    candidateId: string,
+    options: CastVoteOptions = {}
+  ): Promise<VoteTransaction> {
     // Always use string IDs for consistency
-    return this.votingService.castVote(userId, electionId, candidateId);
+    return this.votingService.castVote(userId, electionId, candidateId, options);
   }
   
   public async getVoteTransactions(): Promise<VoteTransaction[]> {
     return this.votingService.getVoteTransactions();
   }
   
+  // Delegate to VoteLedger
+  public async getLedgerBlocks(electionId?: string): Promise<LedgerBlock[]> {
+    return this.ledger.getBlocks(electionId);
+  }
+  
+  public async verifyChain(): Promise<ChainVerification> {
+    return this.ledger.verifyChain();
+  }
+  
+  public async getInclusionProof(transactionHash: string): Promise<InclusionProof | null> {
+    return this.ledger.getInclusionProof(transactionHash);
+  }
+  
+  // Delegate to TallyService
+  public async getTallyCommitment(electionId: string): Promise<TallyCommitment | null> {
+    return this.tallyService.getCommitment(electionId);
+  }
+  
+  public async commitTally(electionId: string): Promise<TallyCommitment> {
+    return this.tallyService.commitTally(electionId);
+  }
+  
+  public async computeMerkleRoot(electionId: string): Promise<string> {
+    return this.tallyService.computeRoot(electionId);
+  }
+  
+  public async getReceiptProof(electionId: string, receiptHash: string): Promise<ReceiptProof> {
+    return this.tallyService.getReceiptProof(electionId, receiptHash);
+  }
+  
+  // Delegate to EncryptedBallotService
+  public async registerElectionTrustees(electionId: string, threshold: number, trusteeEmails: string[]): Promise<void> {
+    return this.encryptedBallotService.registerTrustees(electionId, threshold, trusteeEmails);
+  }
+  
+  public async getKeyCeremonies(): Promise<KeyCeremony[]> {
+    return this.encryptedBallotService.getKeyCeremonies();
+  }
+  
+  public async joinKeyCeremony(electionId: string): Promise<TrusteeKeyShare> {
+    return this.encryptedBallotService.joinKeyCeremony(electionId);
+  }
+  
+  public async submitKeyDealing(electionId: string): Promise<void> {
+    return this.encryptedBallotService.submitKeyDealing(electionId);
+  }
+  
+  public async encryptBallot(electionId: string, candidateIds: string[], candidateId: string): Promise<EncryptedBallot> {
+    return this.encryptedBallotService.encryptBallot(electionId, candidateIds, candidateId);
+  }
+  
+  public async submitDecryptionShare(keyShare: TrusteeKeyShare): Promise<void> {
+    return this.encryptedBallotService.submitDecryptionShare(keyShare);
+  }
+  
+  public async getDecryptionStatus(electionId: string): Promise<DecryptionStatus> {
+    return this.encryptedBallotService.getDecryptionStatus(electionId);
+  }
+  
   // Check if a user has voted in a specific election
   public async hasUserVoted(userId: string, electionId: string): Promise<boolean> {
     return this.electionService.hasUserVoted(userId, electionId);
@@ -0,0 +1,262 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { sha256Hex } from "../crypto/hash";
+import { GENESIS_HASH } from "../ledger/VoteLedger";
+
+// Matches the event type check constraint on audit_events
+export type AuditEventType =
+  | 'sign_in'
+  | 'biometric_enrolled'
+  | 'biometric_reset'
+  | 'verification_attempt'
+  | 'election_created'
+  | 'election_updated'
+  | 'election_deleted'
+  | 'candidate_added'
+  | 'candidate_removed'
+  | 'vote_cast'
+  | 'role_granted'
+  | 'role_revoked'
+  | 'roster_updated'
+  | 'voter_attributes_updated';
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  sign_in: "Sign in",
+  biometric_enrolled: "Biometric enrolled",
+  biometric_reset: "Biometrics reset",
+  verification_attempt: "Verification attempt",
+  election_created: "Election created",
+  election_updated: "Election updated",
+  election_deleted: "Election deleted",
+  candidate_added: "Candidate added",
+  candidate_removed: "Candidate removed",
+  vote_cast: "Vote cast",
+  role_granted: "Role granted",
+  role_revoked: "Role revoked",
+  roster_updated: "Roster updated",
+  voter_attributes_updated: "Voter details updated"
+};
+
+export const AUDIT_EVENT_TYPES = Object.keys(AUDIT_EVENT_LABELS) as AuditEventType[];
+
+export interface AuditEvent {
+  eventNumber: number;
+  eventHash: string;
+  previousHash: string;
+  type: AuditEventType;
+  actorId: string | null;
+  targetId: string | null;
+  details: Json;
+  // The details exactly as the database hashed them
+  detailsText: string;
+  timestamp: Date;
+}
+
+export interface AuditEventFilters {
+  type?: AuditEventType;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  eventCount: number;
+  brokenAtEvent?: number;
+  reason?: string;
+}
+
+// Number of rows fetched per request when walking the whole log
+const BATCH_SIZE = 1000;
+
+const AUDIT_EVENT_COLUMNS = 'event_number, event_hash, previous_hash, event_type, actor_id, target_id, details, details_text:details::text, created_at';
+
+interface AuditEventRow {
+  event_number: number;
+  event_hash: string;
+  previous_hash: string;
+  event_type: string;
+  actor_id: string | null;
+  target_id: string | null;
+  details: Json;
+  details_text: string;
+  created_at: string;
+}
+
+function mapRow(row: AuditEventRow): AuditEvent {
+  return {
+    eventNumber: row.event_number,
+    eventHash: row.event_hash,
+    previousHash: row.previous_hash,
+    type: row.event_type as AuditEventType,
+    actorId: row.actor_id,
+    targetId: row.target_id,
+    details: row.details,
+    detailsText: row.details_text,
+    timestamp: new Date(row.created_at)
+  };
+}
+
+function queryEvents(filters: AuditEventFilters, count?: 'exact') {
+  let query = supabase
+    .from('audit_events')
+    .select(AUDIT_EVENT_COLUMNS, count ? { count } : undefined);
+
+  if (filters.type) {
+    query = query.eq('event_type', filters.type);
+  }
+  if (filters.actorId) {
+    query = query.eq('actor_id', filters.actorId.trim());
+  }
+  if (filters.from) {
+    query = query.gte('created_at', filters.from.toISOString());
+  }
+  if (filters.to) {
+    query = query.lte('created_at', filters.to.toISOString());
+  }
+
+  return query;
+}
+
+/**
+ * Compute an event hash from its contents. Must stay in sync with the
+ * `append_audit_event` function in the database.
+ */
+export async function computeAuditEventHash(
+  previousHash: string,
+  type: string,
+  actorId: string | null,
+  targetId: string | null,
+  detailsText: string,
+  timestamp: Date
+): Promise<string> {
+  return sha256Hex(`${previousHash}|${type}|${actorId ?? ''}|${targetId ?? ''}|${detailsText}|${timestamp.toISOString()}`);
+}
+
+/**
+ * One page of audit events matching the filters, newest first
+ */
+export async function fetchAuditEvents(
+  filters: AuditEventFilters,
+  page: number,
+  pageSize: number
+): Promise<AuditEventPage> {
+  const from = page * pageSize;
+  const { data, error, count } = await queryEvents(filters, 'exact')
+    .order('event_number', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error('Error fetching audit events:', error);
+    throw new Error("Failed to load the audit log");
+  }
+
+  return {
+    events: data.map(mapRow),
+    total: count ?? 0
+  };
+}
+
+/**
+ * Every audit event matching the filters, oldest first
+ */
+export async function fetchAllAuditEvents(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+  const events: AuditEvent[] = [];
+
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await queryEvents(filters)
+      .order('event_number', { ascending: true })
+      .range(from, from + BATCH_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching audit events:', error);
+      throw new Error("Failed to load the audit log");
+    }
+
+    events.push(...data.map(mapRow));
+
+    if (data.length < BATCH_SIZE) {
+      return events;
+    }
+  }
+}
+
+/**
+ * Walk the whole log and recompute every link and event hash
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  const events = await fetchAllAuditEvents();
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    const broken = (reason: string): AuditChainVerification => {
+      console.error(`Audit log verification failed at event #${event.eventNumber}: ${reason}`);
+      return { valid: false, eventCount: events.length, brokenAtEvent: event.eventNumber, reason };
+    };
+
+    if (event.eventNumber !== i + 1) {
+      return broken(`Expected event #${i + 1} but found #${event.eventNumber}`);
+    }
+
+    if (event.previousHash !== previousHash) {
+      return broken('Previous hash does not match the preceding event');
+    }
+
+    const expectedHash = await computeAuditEventHash(
+      event.previousHash,
+      event.type,
+      event.actorId,
+      event.targetId,
+      event.detailsText,
+      event.timestamp
+    );
+
+    if (event.eventHash !== expectedHash) {
+      return broken('Event hash does not match its contents');
+    }
+
+    previousHash = event.eventHash;
+  }
+
+  return { valid: true, eventCount: events.length };
+}
+
+/**
+ * Turn audit events into CSV, one row per event with the hashes that chain them
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const escape = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const header = ['event_number', 'timestamp', 'event_type', 'actor_id', 'target_id', 'details', 'previous_hash', 'event_hash'];
+
+  const rows = events.map(event => [
+    String(event.eventNumber),
+    event.timestamp.toISOString(),
+    event.type,
+    event.actorId ?? '',
+    event.targetId ?? '',
+    event.detailsText,
+    event.previousHash,
+    event.eventHash
+  ].map(escape).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
+
+/**
+ * Add a sign-in by the current user to the audit log
+ */
+export async function recordSignIn(): Promise<void> {
+  const { error } = await supabase.rpc('record_sign_in');
+
+  if (error) {
+    // A missing audit entry must never stop someone signing in
+    console.error('Error recording sign-in:', error);
+  }
+}
@@ -0,0 +1,84 @@
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Length of the codes the otp function sends
+export const OTP_LENGTH = 6;
+
+export interface OtpChallenge {
+  challengeId: string;
+  // How the code was sent, e.g. 'sms', and the masked phone number or email
+  transport: string;
+  destination: string;
+  expiresAt: Date;
+  // Seconds before another code can be requested
+  resendAfter: number;
+}
+
+export interface OtpVerification {
+  verified: boolean;
+  remainingAttempts: number;
+}
+
+// Call the otp Edge Function, turning its error responses into errors with its message
+async function invokeOtp<T>(body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('otp', { body });
+
+  if (error) {
+    console.error('Error calling the otp function:', error);
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(details?.error ?? fallbackMessage);
+  }
+
+  return data as T;
+}
+
+/**
+ * Send a new one-time code to the signed-in user. Earlier codes stop working.
+ */
+export async function requestOtp(): Promise<OtpChallenge> {
+  const data = await invokeOtp<Omit<OtpChallenge, 'expiresAt'> & { expiresAt: string }>(
+    { action: 'send' },
+    "Failed to send your verification code"
+  );
+
+  return { ...data, expiresAt: new Date(data.expiresAt) };
+}
+
+/**
+ * Check a code on the server. A verified code lets the user cast one vote.
+ */
+export function verifyOtp(challengeId: string, code: string): Promise<OtpVerification> {
+  return invokeOtp<OtpVerification>(
+    { action: 'verify', challengeId, code },
+    "Failed to verify your code"
+  );
+}
+
+/**
+ * Strip spaces and punctuation from a phone number, keeping the leading +
+ */
+export function normalisePhoneNumber(phone: string): string {
+  return phone.trim().replace(/(?!^\+)[^0-9]/g, '');
+}
+
+/**
+ * Whether a normalised phone number is in E.164 form, e.g. +15551234567
+ */
+export function isValidPhoneNumber(phone: string): boolean {
+  return /^\+[1-9][0-9]{7,14}$/.test(phone);
+}
+
+/**
+ * Save the number that SMS codes are sent to for the signed-in user
+ */
+export async function savePhoneNumber(phone: string): Promise<void> {
+  const { error } = await supabase.rpc('set_phone_number', { p_phone: normalisePhoneNumber(phone) });
+
+  if (error) {
+    console.error('Error saving phone number:', error);
+    throw new Error(error.message || "Failed to save your phone number");
+  }
+}
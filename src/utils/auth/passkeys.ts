@@ -0,0 +1,155 @@
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import {
+  browserSupportsWebAuthn,
+  startAuthentication,
+  startRegistration,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON
+} from "@simplewebauthn/browser";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Passkey {
+  id: string;
+  name: string;
+  // Synced passkeys ('multiDevice') survive losing one device
+  deviceType: string;
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+interface CeremonyOptions<T> {
+  challengeId: string;
+  options: T;
+}
+
+// Call the webauthn Edge Function, turning its error responses into errors with its message
+async function invokeWebAuthn<T>(body: Record<string, unknown>, fallbackMessage: string): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('webauthn', { body });
+
+  if (error) {
+    console.error('Error calling the webauthn function:', error);
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(details?.error ?? fallbackMessage);
+  }
+
+  return data as T;
+}
+
+// The browser rejects with NotAllowedError when the prompt is dismissed or times out
+function describeCeremonyError(error: unknown, fallbackMessage: string): Error {
+  console.error('Passkey prompt failed:', error);
+  const name = error instanceof Error ? error.name : '';
+
+  if (name === 'NotAllowedError') {
+    return new Error("The passkey prompt was cancelled or timed out");
+  }
+  if (name === 'InvalidStateError') {
+    return new Error("This device already has a passkey for your account");
+  }
+  return new Error(fallbackMessage);
+}
+
+/**
+ * Whether this browser can create and use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return browserSupportsWebAuthn();
+}
+
+/**
+ * List the passkeys registered to the signed-in user
+ */
+export async function fetchPasskeys(): Promise<Passkey[]> {
+  const { data, error } = await supabase
+    .from('webauthn_credentials')
+    .select('id, name, device_type, backed_up, created_at, last_used_at')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching passkeys:', error);
+    throw new Error("Failed to load your passkeys");
+  }
+
+  return data.map(row => ({
+    id: row.id,
+    name: row.name,
+    deviceType: row.device_type,
+    backedUp: row.backed_up,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null
+  }));
+}
+
+/**
+ * Create a passkey on this device and register it to the signed-in user.
+ * Resolves to false, without prompting, when the account has had a passkey
+ * before and the user must first verify a one-time or authenticator code.
+ */
+export async function registerPasskey(name: string): Promise<boolean> {
+  const ceremony = await invokeWebAuthn<CeremonyOptions<PublicKeyCredentialCreationOptionsJSON> | { stepUpRequired: true }>(
+    { action: 'registration-options' },
+    "Failed to start adding a passkey"
+  );
+
+  if ('stepUpRequired' in ceremony) {
+    return false;
+  }
+
+  const { challengeId, options } = ceremony;
+
+  let response;
+  try {
+    response = await startRegistration({ optionsJSON: options });
+  } catch (error) {
+    throw describeCeremonyError(error, "Failed to create a passkey on this device");
+  }
+
+  await invokeWebAuthn(
+    { action: 'registration-verify', challengeId, response, name },
+    "Failed to register your passkey"
+  );
+
+  return true;
+}
+
+/**
+ * Remove one of the signed-in user's passkeys
+ */
+export async function removePasskey(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('webauthn_credentials')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error removing passkey:', error);
+    throw new Error("Failed to remove the passkey");
+  }
+}
+
+/**
+ * Sign a fresh challenge for an election with a passkey. The server then
+ * accepts one ballot for that election in the next couple of minutes.
+ */
+export async function confirmVoteWithPasskey(electionId: string): Promise<void> {
+  const { challengeId, options } = await invokeWebAuthn<CeremonyOptions<PublicKeyCredentialRequestOptionsJSON>>(
+    { action: 'authentication-options', electionId },
+    "Failed to start passkey verification"
+  );
+
+  let response;
+  try {
+    response = await startAuthentication({ optionsJSON: options });
+  } catch (error) {
+    throw describeCeremonyError(error, "Failed to use your passkey");
+  }
+
+  await invokeWebAuthn(
+    { action: 'authentication-verify', challengeId, response },
+    "Your passkey could not be verified"
+  );
+}
@@ -0,0 +1,94 @@
+
+import { supabase } from "@/integrations/supabase/client";
+
+// Matches the role check constraint on user_roles
+export type AppRole = 'voter' | 'election_officer' | 'auditor' | 'super_admin';
+
+export const APP_ROLES: AppRole[] = ['voter', 'election_officer', 'auditor', 'super_admin'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  voter: "Voter",
+  election_officer: "Election officer",
+  auditor: "Auditor",
+  super_admin: "Super admin"
+};
+
+// The roles that open the admin area
+export const STAFF_ROLES: AppRole[] = ['election_officer', 'auditor', 'super_admin'];
+
+export interface RoleAssignment {
+  userId: string;
+  email: string;
+  role: AppRole;
+  grantedAt: Date;
+}
+
+/**
+ * Whether a set of roles includes a role. A super admin holds every role,
+ * the same as has_role in the database.
+ */
+export function holdsRole(roles: AppRole[], role: AppRole): boolean {
+  return roles.includes(role) || roles.includes('super_admin');
+}
+
+/**
+ * The roles granted to the signed-in user
+ */
+export async function fetchRoles(userId: string): Promise<AppRole[]> {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error fetching roles:', error);
+    throw new Error("Failed to load your roles");
+  }
+
+  return data
+    .map(row => row.role)
+    .filter((role): role is AppRole => APP_ROLES.includes(role as AppRole));
+}
+
+/**
+ * Every role other than voter, with the holder's email. Super admins only.
+ */
+export async function fetchRoleAssignments(): Promise<RoleAssignment[]> {
+  const { data, error } = await supabase.rpc('list_user_roles');
+
+  if (error) {
+    console.error('Error fetching role assignments:', error);
+    throw new Error("Failed to load role assignments");
+  }
+
+  return data.map(row => ({
+    userId: row.user_id,
+    email: row.email,
+    role: row.role as AppRole,
+    grantedAt: new Date(row.granted_at)
+  }));
+}
+
+/**
+ * Grant a role to the account with this email. Super admins only.
+ */
+export async function grantRole(email: string, role: AppRole): Promise<void> {
+  const { error } = await supabase.rpc('grant_role', { p_email: email, p_role: role });
+
+  if (error) {
+    console.error('Error granting role:', error);
+    throw new Error(error.message || "Failed to grant the role");
+  }
+}
+
+/**
+ * Take a role away from a user. Super admins only.
+ */
+export async function revokeRole(userId: string, role: AppRole): Promise<void> {
+  const { error } = await supabase.rpc('revoke_role', { p_user_id: userId, p_role: role });
+
+  if (error) {
+    console.error('Error revoking role:', error);
+    throw new Error(error.message || "Failed to revoke the role");
+  }
+}
@@ -0,0 +1,128 @@
+
+import { supabase } from "@/integrations/supabase/client";
+
+// Shown as the account's issuer in authenticator apps
+const TOTP_ISSUER = 'SecureVote';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpStatus {
+  enrolled: boolean;
+  confirmedAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  // Base32 seed, for typing into an app that cannot scan the QR code
+  secret: string;
+  // otpauth:// URI encoded in the QR code
+  uri: string;
+}
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32, the form authenticator apps expect
+ */
+export function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Fetch whether the signed-in user has an authenticator app set up
+ */
+export async function fetchTotpStatus(): Promise<TotpStatus> {
+  const { data, error } = await supabase.rpc('get_totp_status');
+
+  if (error) {
+    console.error('Error fetching authenticator status:', error);
+    throw new Error("Failed to check your authenticator app");
+  }
+
+  const row = data?.[0];
+  return {
+    enrolled: !!row?.enrolled,
+    confirmedAt: row?.confirmed_at ? new Date(row.confirmed_at) : null,
+    recoveryCodesRemaining: row?.recovery_codes_remaining ?? 0
+  };
+}
+
+/**
+ * Start setting up an authenticator app. The seed is generated on the server
+ * and only returned this once.
+ */
+export async function beginTotpEnrollment(accountName: string): Promise<TotpEnrollment> {
+  const { data, error } = await supabase.rpc('begin_totp_enrollment');
+
+  if (error) {
+    console.error('Error starting authenticator setup:', error);
+    throw new Error(error.message || "Failed to set up your authenticator app");
+  }
+
+  const seed = new Uint8Array(data.match(/../g).map(byte => parseInt(byte, 16)));
+  const secret = toBase32(seed);
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const uri = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=6&period=30`;
+
+  return { secret, uri };
+}
+
+/**
+ * Finish setting up with a code from the app. Returns the recovery codes,
+ * which cannot be shown again.
+ */
+export async function confirmTotpEnrollment(code: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('confirm_totp_enrollment', { p_code: code });
+
+  if (error) {
+    console.error('Error confirming authenticator setup:', error);
+    throw new Error(error.message || "Failed to confirm your authenticator app");
+  }
+
+  return data;
+}
+
+/**
+ * Check a code from the authenticator app, or a recovery code. A correct code
+ * lets the user cast one vote.
+ */
+export async function verifyTotp(code: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('verify_totp', { p_code: code });
+
+  if (error) {
+    console.error('Error verifying authenticator code:', error);
+    throw new Error(error.message || "Failed to verify your code");
+  }
+
+  return data;
+}
+
+/**
+ * Remove the authenticator app, confirmed with a current code or a recovery
+ * code. Returns false when the code is wrong.
+ */
+export async function removeTotp(code: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('remove_totp', { p_code: code });
+
+  if (error) {
+    console.error('Error removing authenticator:', error);
+    throw new Error(error.message || "Failed to remove your authenticator app");
+  }
+
+  return data;
+}
@@ -0,0 +1,232 @@
+
+// Spoof score at or above which an attempt is treated as a presentation attack
+export const SPOOF_SCORE_THRESHOLD = Number(import.meta.env.VITE_SPOOF_SCORE_THRESHOLD) || 0.6;
+
+// The face region is sampled onto a grid no larger than this on each side
+const MAX_GRID_SIZE = 128;
+
+// Near-white, colourless pixels; glare on a screen or glossy print
+const SPECULAR_LUMINANCE = 240;
+const SPECULAR_MAX_CHROMA = 20;
+
+// Share of specular face pixels that is normal for skin, and that is clearly glare
+const SPECULAR_NORMAL = 0.01;
+const SPECULAR_SUSPICIOUS = 0.05;
+
+// Periodicity of frame differences along rows or columns; screens refresh in bands
+const BANDING_NORMAL = 0.3;
+const BANDING_SUSPICIOUS = 0.7;
+
+// Face motion relative to the background; a live face moves slightly more than the room
+const MOTION_RATIO_LIVE = 1.6;
+const MOTION_RATIO_STATIC = 1.1;
+
+// How strongly each signal on its own counts towards a spoof. A still face alone
+// is not enough, since some people hold very still for the camera.
+const SIGNAL_WEIGHTS = { banding: 0.8, specular: 0.6, staticFace: 0.5 };
+
+// Face box as a share of the frame size, so it applies at any resolution
+export interface RelativeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PresentationAttackSignals {
+  // Each from 0 (looks live) to 1 (looks like a spoof)
+  banding: number;
+  specular: number;
+  staticFace: number;
+}
+
+export interface PresentationAttackResult {
+  // From 0 (live) to 1 (spoof)
+  score: number;
+  isSuspectedSpoof: boolean;
+  signals: PresentationAttackSignals;
+}
+
+interface GrayRegion {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Where a value sits between a normal and a clearly suspicious level
+const suspicion = (value: number, normal: number, suspicious: number) =>
+  clamp01((value - normal) / (suspicious - normal));
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Sample a region of the frame onto a grayscale grid
+function sampleRegion(frame: ImageData, box: RelativeBox): GrayRegion {
+  const left = Math.min(frame.width - 1, Math.max(0, Math.floor(box.x * frame.width)));
+  const top = Math.min(frame.height - 1, Math.max(0, Math.floor(box.y * frame.height)));
+  const right = Math.min(frame.width, Math.ceil((box.x + box.width) * frame.width));
+  const bottom = Math.min(frame.height, Math.ceil((box.y + box.height) * frame.height));
+  const step = Math.max(1, Math.ceil(Math.max(right - left, bottom - top) / MAX_GRID_SIZE));
+  const width = Math.max(1, Math.floor((right - left) / step));
+  const height = Math.max(1, Math.floor((bottom - top) / step));
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = ((top + y * step) * frame.width + left + x * step) * 4;
+      data[y * width + x] = luminance(frame.data[offset], frame.data[offset + 1], frame.data[offset + 2]);
+    }
+  }
+
+  return { data, width, height };
+}
+
+// Share of glare pixels in the face region
+function specularRatio(frame: ImageData, box: RelativeBox): number {
+  const left = Math.floor(box.x * frame.width);
+  const top = Math.floor(box.y * frame.height);
+  const right = Math.min(frame.width, Math.ceil((box.x + box.width) * frame.width));
+  const bottom = Math.min(frame.height, Math.ceil((box.y + box.height) * frame.height));
+  let specular = 0;
+  let total = 0;
+
+  for (let y = Math.max(0, top); y < bottom; y++) {
+    for (let x = Math.max(0, left); x < right; x++) {
+      const offset = (y * frame.width + x) * 4;
+      const r = frame.data[offset];
+      const g = frame.data[offset + 1];
+      const b = frame.data[offset + 2];
+
+      if (luminance(r, g, b) >= SPECULAR_LUMINANCE && Math.max(r, g, b) - Math.min(r, g, b) <= SPECULAR_MAX_CHROMA) {
+        specular++;
+      }
+      total++;
+    }
+  }
+
+  return total === 0 ? 0 : specular / total;
+}
+
+// Window of the moving average removed from a profile, so smooth changes such as
+// a moving face edge do not look periodic
+const DETREND_WINDOW = 9;
+
+function detrend(profile: number[]): number[] {
+  const half = Math.floor(DETREND_WINDOW / 2);
+
+  return profile.map((value, index) => {
+    const window = profile.slice(Math.max(0, index - half), index + half + 1);
+    return value - window.reduce((sum, item) => sum + item, 0) / window.length;
+  });
+}
+
+// Strength of the strongest repeating period in a profile, from 0 to 1. Only
+// autocorrelation peaks after the first dip below zero count, so noise and
+// single bumps score low and stripes score high.
+function periodicity(profile: number[]): number {
+  const centred = detrend(profile);
+  const variance = centred.reduce((sum, value) => sum + value * value, 0);
+
+  if (variance === 0) {
+    return 0;
+  }
+
+  let peak = 0;
+  let dipped = false;
+  for (let lag = 1; lag <= Math.floor(centred.length / 3); lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < centred.length; i++) {
+      sum += centred[i] * centred[i + lag];
+    }
+    const correlation = sum / variance;
+
+    if (correlation < 0) {
+      dipped = true;
+    } else if (dipped) {
+      peak = Math.max(peak, correlation);
+    }
+  }
+
+  return peak;
+}
+
+// Periodic stripes in the difference between two frames, along rows or columns
+function bandingStrength(a: GrayRegion, b: GrayRegion): number {
+  const rows = new Array(a.height).fill(0);
+  const columns = new Array(a.width).fill(0);
+
+  for (let y = 0; y < a.height; y++) {
+    for (let x = 0; x < a.width; x++) {
+      const difference = Math.abs(a.data[y * a.width + x] - b.data[y * a.width + x]);
+      rows[y] += difference / a.width;
+      columns[x] += difference / a.height;
+    }
+  }
+
+  return Math.max(periodicity(rows), periodicity(columns));
+}
+
+function meanAbsoluteDifference(a: GrayRegion, b: GrayRegion): number {
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    sum += Math.abs(a.data[i] - b.data[i]);
+  }
+  return sum / a.data.length;
+}
+
+/**
+ * Look for signs that the face is a screen replay or a printed photo, using a
+ * short burst of frames: periodic banding in frame differences (screen refresh
+ * and moiré), glare, and whether the face moves any more than the background.
+ * These are heuristics; the thresholds are tuned to flag attempts for review
+ * and are not proof on their own.
+ */
+export function analyzePresentationAttack(frames: ImageData[], faceBox: RelativeBox): PresentationAttackResult {
+  if (frames.length < 2) {
+    throw new Error("At least two frames are needed to check for a spoof");
+  }
+
+  // Background strips above the face on each side, clear of hair and shoulders
+  const backgroundBoxes: RelativeBox[] = [
+    { x: 0, y: 0, width: Math.max(0.05, faceBox.x - 0.05), height: 0.5 },
+    { x: Math.min(0.95, faceBox.x + faceBox.width + 0.05), y: 0, width: 1, height: 0.5 }
+  ];
+
+  const faces = frames.map(frame => sampleRegion(frame, faceBox));
+  const backgrounds = frames.map(frame => backgroundBoxes.map(box => sampleRegion(frame, box)));
+
+  let banding = 0;
+  let faceMotion = 0;
+  let backgroundMotion = 0;
+
+  for (let i = 1; i < frames.length; i++) {
+    banding += bandingStrength(faces[i - 1], faces[i]);
+    faceMotion += meanAbsoluteDifference(faces[i - 1], faces[i]);
+    backgroundMotion += backgrounds[i].reduce(
+      (sum, region, index) => sum + meanAbsoluteDifference(backgrounds[i - 1][index], region),
+      0
+    ) / backgroundBoxes.length;
+  }
+
+  const pairs = frames.length - 1;
+  const specular = frames.reduce((sum, frame) => sum + specularRatio(frame, faceBox), 0) / frames.length;
+  // Sensor noise alone moves both regions equally, so the ratio stays near 1 for a still photo
+  const motionRatio = (faceMotion / pairs) / Math.max(backgroundMotion / pairs, 0.5);
+
+  const signals: PresentationAttackSignals = {
+    banding: suspicion(banding / pairs, BANDING_NORMAL, BANDING_SUSPICIOUS),
+    specular: suspicion(specular, SPECULAR_NORMAL, SPECULAR_SUSPICIOUS),
+    staticFace: suspicion(MOTION_RATIO_LIVE - motionRatio, 0, MOTION_RATIO_LIVE - MOTION_RATIO_STATIC)
+  };
+
+  // Any strong signal is enough, and weaker ones add up
+  const score = 1 - (Object.keys(signals) as (keyof PresentationAttackSignals)[])
+    .reduce((live, signal) => live * (1 - SIGNAL_WEIGHTS[signal] * signals[signal]), 1);
+
+  return {
+    score,
+    isSuspectedSpoof: score >= SPOOF_SCORE_THRESHOLD,
+    signals
+  };
+}
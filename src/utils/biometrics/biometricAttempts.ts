@@ -0,0 +1,147 @@
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { PresentationAttackResult } from "./antiSpoofing";
+
+// Failures in a row before a lockout; matches biometric_max_failed_attempts() on the server
+export const MAX_FAILED_ATTEMPTS = 3;
+
+export interface BiometricAttempt {
+  modality: 'face' | 'palm';
+  // Face embeddings or palm descriptors from this device, each of which must
+  // match the registered template; none records a failed attempt
+  probes?: number[][];
+  // An election's minimum similarity; only ever raises the server's threshold
+  minSimilarity?: number | null;
+  livenessPassed?: boolean | null;
+  presentationAttack?: PresentationAttackResult | null;
+}
+
+export interface BiometricAttemptResult {
+  verified: boolean;
+  // Lowest similarity of the probes to the template, or null without probes
+  similarity: number | null;
+  threshold: number;
+  lockout: BiometricLockout;
+}
+
+export interface BiometricLockout {
+  // Set while the user is locked out of biometric verification
+  lockedUntil: Date | null;
+  // Failures left before the next lockout
+  remainingAttempts: number;
+}
+
+const toLockout = (row: { locked_until: string | null; remaining_attempts: number } | undefined): BiometricLockout => ({
+  lockedUntil: row?.locked_until ? new Date(row.locked_until) : null,
+  remainingAttempts: row?.remaining_attempts ?? 0
+});
+
+/**
+ * Whether a lockout is still in force
+ */
+export function isLockedOut(lockout: BiometricLockout | null): boolean {
+  return !!lockout?.lockedUntil && lockout.lockedUntil.getTime() > Date.now();
+}
+
+/**
+ * Time left on a lockout, for messages such as "try again in 15 minutes"
+ */
+export function formatLockoutRemaining(lockedUntil: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  if (minutes < 90) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hours`;
+}
+
+/**
+ * Fetch the signed-in user's lockout state from the server
+ */
+export async function fetchBiometricLockout(): Promise<BiometricLockout> {
+  const { data, error } = await supabase.rpc('get_biometric_lockout');
+
+  if (error) {
+    console.error('Error fetching biometric lockout:', error);
+    throw new Error("Failed to check your verification status");
+  }
+
+  return toLockout(data?.[0]);
+}
+
+/**
+ * Match the probes against the signed-in user's template on the server, which
+ * records the attempt and returns the lockout state after it. While the user
+ * is locked out nothing is matched and the lockout is returned.
+ */
+export async function verifyBiometricAttempt(attempt: BiometricAttempt): Promise<BiometricAttemptResult> {
+  const { data, error } = await supabase.functions.invoke('biometric-verify', {
+    body: {
+      modality: attempt.modality,
+      probes: attempt.probes ?? [],
+      minSimilarity: attempt.minSimilarity ?? null,
+      livenessPassed: attempt.livenessPassed ?? null,
+      presentationAttack: attempt.presentationAttack
+        ? { ...attempt.presentationAttack, signals: { ...attempt.presentationAttack.signals } }
+        : null
+    }
+  });
+
+  if (error) {
+    console.error('Error calling the biometric-verify function:', error);
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(details?.error ?? "Failed to verify your identity");
+  }
+
+  return {
+    verified: data.verified,
+    similarity: data.similarity,
+    threshold: data.threshold,
+    lockout: toLockout({ locked_until: data.lockedUntil, remaining_attempts: data.remainingAttempts })
+  };
+}
+
+/**
+ * Count a failed attempt, e.g. after a failed liveness check, and return the
+ * lockout state after it. Failures to record are only logged, and null is
+ * returned, so a recording problem never blocks the user.
+ */
+export async function recordFailedBiometricAttempt(
+  modality: BiometricAttempt['modality'],
+  livenessPassed: boolean | null = null
+): Promise<BiometricLockout | null> {
+  try {
+    const result = await verifyBiometricAttempt({ modality, livenessPassed });
+    return result.lockout;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Unlock a user and reset their escalating lockout. Admins only.
+ */
+export async function clearBiometricLockout(userId: string): Promise<void> {
+  const { error } = await supabase.rpc('clear_biometric_lockout', { p_user_id: userId });
+
+  if (error) {
+    console.error('Error clearing biometric lockout:', error);
+    throw new Error("Failed to clear the lockout");
+  }
+}
+
+/**
+ * Remove a user's face and palm templates so they can register again, e.g.
+ * when they can no longer match them. Election officers only.
+ */
+export async function resetBiometrics(userId: string): Promise<void> {
+  const { error } = await supabase.rpc('reset_biometrics', { p_user_id: userId });
+
+  if (error) {
+    console.error('Error resetting biometrics:', error);
+    throw new Error(error.message || "Failed to reset the biometrics");
+  }
+}
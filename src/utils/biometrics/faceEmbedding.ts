@@ -0,0 +1,154 @@
+
+import * as faceapi from "@vladmandic/face-api";
+import detectorManifestUrl from "@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url";
+import detectorWeightsUrl from "@vladmandic/face-api/model/tiny_face_detector_model.bin?url";
+import landmarksManifestUrl from "@vladmandic/face-api/model/face_landmark_68_model-weights_manifest.json?url";
+import landmarksWeightsUrl from "@vladmandic/face-api/model/face_landmark_68_model.bin?url";
+import recognitionManifestUrl from "@vladmandic/face-api/model/face_recognition_model-weights_manifest.json?url";
+import recognitionWeightsUrl from "@vladmandic/face-api/model/face_recognition_model.bin?url";
+import { initialiseBackend } from "./tfRuntime";
+
+// Identifies the model behind an embedding; embeddings from different models cannot be compared
+export const FACE_MODEL_VERSION = 'face-api-resnet-128d-1.7.15';
+
+// Minimum cosine similarity for a face to match the registered one, as shown
+// to the user; the biometric-verify function's FACE_MATCH_THRESHOLD decides
+export const FACE_MATCH_THRESHOLD = Number(import.meta.env.VITE_FACE_MATCH_THRESHOLD) || 0.85;
+
+// Input size for the face detector; larger finds smaller faces but is slower on the CPU
+const DETECTOR_INPUT_SIZE = 320;
+
+// Minimum detector confidence for a face to be used
+const DETECTOR_SCORE_THRESHOLD = 0.5;
+
+// Faces narrower than this share of the frame lose quality in proportion
+const FULL_QUALITY_FACE_WIDTH = 0.25;
+
+export interface FaceEmbedding {
+  // 128 values describing the face, compared with cosine similarity
+  embedding: number[];
+  // How sure the detector was that it found a face
+  detectionScore: number;
+  // From 0 to 1, combining detector confidence with how much of the frame the face fills
+  quality: number;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export type FaceInput = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export interface LandmarkPoint {
+  x: number;
+  y: number;
+}
+
+let modelsReady: Promise<void> | null = null;
+
+/**
+ * Load the face detector, landmark and embedding models on the WASM backend,
+ * falling back to plain JavaScript on the CPU. The weights are bundled with
+ * the app, so nothing about the face ever leaves the device.
+ */
+export function loadFaceModels(): Promise<void> {
+  if (!modelsReady) {
+    modelsReady = initialiseModels().catch(error => {
+      modelsReady = null;
+      console.error('Error loading face models:', error);
+      throw new Error("Failed to load the face recognition model");
+    });
+  }
+
+  return modelsReady;
+}
+
+async function initialiseModels(): Promise<void> {
+  await initialiseBackend();
+
+  await Promise.all([
+    loadWeights(faceapi.nets.tinyFaceDetector, detectorManifestUrl, detectorWeightsUrl),
+    loadWeights(faceapi.nets.faceLandmark68Net, landmarksManifestUrl, landmarksWeightsUrl),
+    loadWeights(faceapi.nets.faceRecognitionNet, recognitionManifestUrl, recognitionWeightsUrl)
+  ]);
+}
+
+async function loadWeights(
+  net: { loadFromWeightMap(weightMap: faceapi.tf.NamedTensorMap): void },
+  manifestUrl: string,
+  weightsUrl: string
+): Promise<void> {
+  const [manifestResponse, weightsResponse] = await Promise.all([fetch(manifestUrl), fetch(weightsUrl)]);
+
+  if (!manifestResponse.ok || !weightsResponse.ok) {
+    throw new Error(`Failed to fetch model weights from ${weightsUrl}`);
+  }
+
+  // Each bundled model is a single weights file
+  const [group] = await manifestResponse.json();
+  net.loadFromWeightMap(faceapi.tf.io.decodeWeights(await weightsResponse.arrayBuffer(), group.weights));
+}
+
+/**
+ * Find the one face in the input and compute its embedding. Returns null when
+ * there is no face, and throws when there is more than one so that nobody
+ * else in the frame can be matched by mistake.
+ */
+export async function computeFaceEmbedding(input: FaceInput): Promise<FaceEmbedding | null> {
+  await loadFaceModels();
+
+  const faces = await faceapi
+    .detectAllFaces(input, detectorOptions())
+    .withFaceLandmarks()
+    .withFaceDescriptors();
+
+  if (faces.length === 0) {
+    return null;
+  }
+
+  if (faces.length > 1) {
+    throw new Error("More than one face is in view. Make sure only you are in the frame.");
+  }
+
+  const { detection, descriptor } = faces[0];
+  const sizeFactor = Math.min(1, detection.box.width / (detection.imageWidth * FULL_QUALITY_FACE_WIDTH));
+
+  return {
+    embedding: Array.from(descriptor),
+    detectionScore: detection.score,
+    quality: detection.score * sizeFactor,
+    box: {
+      x: detection.box.x,
+      y: detection.box.y,
+      width: detection.box.width,
+      height: detection.box.height
+    }
+  };
+}
+
+/**
+ * Find the most prominent face and return its 68 landmark points, in the
+ * standard order (jaw, brows, nose, eyes, mouth). Skips the embedding, so it is
+ * quick enough to run on every video frame.
+ */
+export async function detectFaceLandmarks(input: FaceInput): Promise<LandmarkPoint[] | null> {
+  await loadFaceModels();
+
+  const face = await faceapi.detectSingleFace(input, detectorOptions()).withFaceLandmarks();
+
+  return face ? face.landmarks.positions.map(({ x, y }) => ({ x, y })) : null;
+}
+
+function detectorOptions(): faceapi.TinyFaceDetectorOptions {
+  return new faceapi.TinyFaceDetectorOptions({
+    inputSize: DETECTOR_INPUT_SIZE,
+    scoreThreshold: DETECTOR_SCORE_THRESHOLD
+  });
+}
+
+/**
+ * Compute the embedding of the face in a stored image, such as a data URL
+ */
+export async function computeFaceEmbeddingFromImage(imageUrl: string): Promise<FaceEmbedding | null> {
+  const image = new Image();
+  image.src = imageUrl;
+  await image.decode();
+  return computeFaceEmbedding(image);
+}
@@ -0,0 +1,71 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { FaceEmbedding, FACE_MODEL_VERSION } from "./faceEmbedding";
+
+// Faces below this quality are not enrolled, since they match unreliably later
+export const MIN_TEMPLATE_QUALITY = 0.5;
+
+// The template itself stays on the server, which does the matching
+export interface FaceTemplate {
+  // False when the user registered before templates and only a photo is stored
+  hasTemplate: boolean;
+  templateVersion: string | null;
+  quality: number | null;
+  // Photo from a registration that predates templates, converted on next use
+  legacyImageUrl: string | null;
+}
+
+/**
+ * Fetch the signed-in user's face template details. Returns null when the
+ * user has not registered their face.
+ */
+export async function fetchFaceTemplate(): Promise<FaceTemplate | null> {
+  const { data, error } = await supabase.rpc('get_face_template');
+
+  if (error) {
+    console.error('Error fetching face template:', error);
+    throw new Error("Failed to fetch your registered face");
+  }
+
+  const row = data?.[0];
+  if (!row || (!row.has_template && !row.legacy_image_url)) {
+    return null;
+  }
+
+  return {
+    hasTemplate: row.has_template,
+    templateVersion: row.template_version,
+    quality: row.template_quality,
+    legacyImageUrl: row.legacy_image_url
+  };
+}
+
+/**
+ * Whether a template was made by another model and has to be enrolled again,
+ * which takes an election officer's reset since it can no longer be matched
+ */
+export function needsReEnrollment(template: FaceTemplate): boolean {
+  return template.hasTemplate && template.templateVersion !== FACE_MODEL_VERSION;
+}
+
+/**
+ * Store a face as the signed-in user's encrypted template. Any earlier photo
+ * is replaced; an earlier template only after the user has matched it on the
+ * server. The photo itself is never uploaded.
+ */
+export async function enrollFaceTemplate(face: FaceEmbedding): Promise<void> {
+  if (face.quality < MIN_TEMPLATE_QUALITY) {
+    throw new Error("The face image is not clear enough. Move closer to the camera and make sure your face is well lit.");
+  }
+
+  const { error } = await supabase.rpc('enroll_face_template', {
+    p_embedding: face.embedding,
+    p_template_version: FACE_MODEL_VERSION,
+    p_quality: face.quality
+  });
+
+  if (error) {
+    console.error('Error enrolling face template:', error);
+    throw new Error(error.message || "Failed to save your face template");
+  }
+}
@@ -0,0 +1,156 @@
+
+import detectorModelUrl from "@vladmandic/human/models/handtrack.json?url";
+import detectorWeightsUrl from "@vladmandic/human/models/handtrack.bin?url";
+import landmarksModelUrl from "@vladmandic/human/models/handlandmark-lite.json?url";
+import landmarksWeightsUrl from "@vladmandic/human/models/handlandmark-lite.bin?url";
+import type { LandmarkPoint } from "./faceEmbedding";
+import { GraphModel, initialiseBackend, loadBundledGraphModel, Tensor, Tensor4D, tf } from "./tfRuntime";
+
+// Minimum detector and landmark confidence for a hand to be used
+const HAND_SCORE_THRESHOLD = 0.5;
+
+// Height the detector works at; the width follows the frame's aspect ratio
+const DETECTOR_HEIGHT = 256;
+
+// Side of the square crop the landmark model takes
+const LANDMARK_INPUT_SIZE = 224;
+
+// The detector's box is tight around the hand, but the landmark model expects some margin
+const BOX_EXPAND_FACTOR = 1.4;
+
+// Detector output nodes for class scores and boxes, before its own post-processing
+const DETECTOR_OUTPUTS = ['StatefulPartitionedCall/Postprocessor/Slice', 'StatefulPartitionedCall/Postprocessor/ExpandDims_1'];
+
+// Detector classes; faces are found too and have to be ignored
+const DETECTOR_CLASSES = ['hand', 'fist', 'pinch', 'point', 'face', 'tip', 'pinchtip'];
+const FACE_CLASS = 4;
+
+export type HandInput = HTMLVideoElement | HTMLCanvasElement;
+
+/**
+ * The 21 hand landmarks in MediaPipe order: the wrist (0), then four points
+ * per finger from the base to the tip, for the thumb (1-4), index (5-8),
+ * middle (9-12), ring (13-16) and little (17-20) fingers. Coordinates are
+ * pixels of the input.
+ */
+export interface HandDetection {
+  keypoints: LandmarkPoint[];
+  // Detector confidence multiplied by the landmark model's confidence
+  score: number;
+  // Pose the detector saw, e.g. 'hand' for an open hand or 'fist'
+  label: string;
+}
+
+let modelsReady: Promise<[GraphModel, GraphModel]> | null = null;
+
+/**
+ * Load the hand detector and landmark models, which run on the same
+ * TensorFlow.js backend as the face models
+ */
+export function loadHandModels(): Promise<[GraphModel, GraphModel]> {
+  if (!modelsReady) {
+    modelsReady = initialiseBackend()
+      .then(() => Promise.all([
+        loadBundledGraphModel(detectorModelUrl, detectorWeightsUrl),
+        loadBundledGraphModel(landmarksModelUrl, landmarksWeightsUrl)
+      ]))
+      .catch(error => {
+        modelsReady = null;
+        console.error('Error loading hand models:', error);
+        throw new Error("Failed to load the hand recognition model");
+      });
+  }
+
+  return modelsReady;
+}
+
+/**
+ * Find the most prominent hand in the input and locate its 21 landmarks.
+ * Returns null when no hand is found.
+ */
+export async function detectHand(input: HandInput): Promise<HandDetection | null> {
+  const [detector, landmarker] = await loadHandModels();
+  const width = input instanceof HTMLVideoElement ? input.videoWidth : input.width;
+  const height = input instanceof HTMLVideoElement ? input.videoHeight : input.height;
+
+  if (!width || !height) {
+    return null;
+  }
+
+  const frame = tf.browser.fromPixels(input);
+  const tensors: Tensor[] = [frame];
+
+  try {
+    const detectorWidth = Math.round(DETECTOR_HEIGHT * width / height / 8) * 8;
+    const resized = tf.image.resizeBilinear(frame, [DETECTOR_HEIGHT, detectorWidth]);
+    const rounded = tf.cast(resized, 'int32');
+    const detectorInput = tf.expandDims(rounded, 0);
+    tensors.push(resized, rounded, detectorInput);
+
+    const outputs = await detector.executeAsync(detectorInput, DETECTOR_OUTPUTS);
+    tensors.push(...outputs);
+
+    const [scores, boxes] = await Promise.all(outputs.map(output => output.data()));
+    const classCount = DETECTOR_CLASSES.length;
+
+    // Only one hand is needed, so the best candidate is taken without suppression
+    let best = -1;
+    let bestScore = HAND_SCORE_THRESHOLD;
+    let bestClass = 0;
+    for (let i = 0; i < scores.length / classCount; i++) {
+      for (let c = 0; c < classCount; c++) {
+        if (c !== FACE_CLASS && scores[i * classCount + c] > bestScore) {
+          best = i;
+          bestScore = scores[i * classCount + c];
+          bestClass = c;
+        }
+      }
+    }
+
+    if (best < 0) {
+      return null;
+    }
+
+    // Boxes are [top, left, bottom, right] as a share of the frame
+    const [top, left, bottom, right] = Array.from(boxes.slice(best * 4, best * 4 + 4));
+    const boxWidth = (right - left) * BOX_EXPAND_FACTOR;
+    const boxHeight = (bottom - top) * BOX_EXPAND_FACTOR;
+    const boxLeft = (left + right - boxWidth) / 2;
+    const boxTop = (top + bottom - boxHeight) / 2;
+
+    const batch = tf.expandDims(frame, 0);
+    const normalised = tf.div(batch, 255);
+    const crop = tf.image.cropAndResize(
+      normalised as Tensor4D,
+      [[boxTop, boxLeft, boxTop + boxHeight, boxLeft + boxWidth]],
+      [0],
+      [LANDMARK_INPUT_SIZE, LANDMARK_INPUT_SIZE]
+    );
+    tensors.push(batch, normalised, crop);
+
+    const [landmarkScore, landmarks] = landmarker.execute(crop, ['Identity_1', 'Identity']);
+    tensors.push(landmarkScore, landmarks);
+
+    const handScore = 1 / (1 + Math.exp(-(await landmarkScore.data())[0]));
+    if (handScore < HAND_SCORE_THRESHOLD) {
+      return null;
+    }
+
+    const coordinates = await landmarks.data();
+    const keypoints: LandmarkPoint[] = [];
+    for (let i = 0; i < 21; i++) {
+      keypoints.push({
+        x: (boxLeft + coordinates[i * 3] / LANDMARK_INPUT_SIZE * boxWidth) * width,
+        y: (boxTop + coordinates[i * 3 + 1] / LANDMARK_INPUT_SIZE * boxHeight) * height
+      });
+    }
+
+    return {
+      keypoints,
+      score: bestScore * handScore,
+      label: DETECTOR_CLASSES[bestClass]
+    };
+  } finally {
+    tensors.forEach(tensor => tensor.dispose());
+  }
+}
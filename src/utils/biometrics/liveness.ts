@@ -0,0 +1,218 @@
+
+import type { LandmarkPoint } from "./faceEmbedding";
+
+export type LivenessGesture = 'blink' | 'smile' | 'turn_left' | 'turn_right' | 'nod' | 'raise_eyebrows';
+
+export const LIVENESS_GESTURES: LivenessGesture[] = ['blink', 'smile', 'turn_left', 'turn_right', 'nod', 'raise_eyebrows'];
+
+// Time allowed for each gesture before the attempt fails
+export const CHALLENGE_TIMEOUT_MS = 10000;
+
+// Frames of a neutral face averaged before the gesture is looked for
+const BASELINE_FRAMES = 4;
+
+// How long a held gesture (smile, head turn, raised eyebrows) must be seen
+const HOLD_MS = 600;
+
+// A blink or nod must return to neutral within this time to count
+const MOTION_RETURN_MS = 1500;
+
+// Eyes this far below their open size count as closed
+const EYES_CLOSED_RATIO = 0.7;
+
+// Below this the eyes are not open enough at the start to see a blink
+const MIN_OPEN_EYE_ASPECT_RATIO = 0.2;
+
+// Head turn, as a share of the face width the nose moves off centre
+const TURN_THRESHOLD = 0.12;
+
+// Nod, as a share of the eyes-to-chin height the nose drops by
+const NOD_THRESHOLD = 0.08;
+
+// Relative growth in mouth width for a smile, and in brow height for raised eyebrows
+const SMILE_RATIO = 1.12;
+const BROW_RAISE_RATIO = 1.15;
+
+/**
+ * Measurements of a face that change with each gesture, normalised by the face
+ * size so they do not depend on the distance from the camera
+ */
+export interface FaceMetrics {
+  // Eye aspect ratio averaged over both eyes; drops towards 0 as the eyes close
+  eyeAspectRatio: number;
+  // Nose offset from the face centre, positive towards the right of the image
+  yaw: number;
+  // Nose height between the eyes (0) and the chin (1); grows as the head tilts down
+  pitch: number;
+  // Mouth width over face width
+  mouthWidth: number;
+  // Brow-to-eye distance over the eyes-to-chin height
+  browHeight: number;
+}
+
+export interface LivenessProgress {
+  status: 'calibrating' | 'detecting' | 'passed' | 'failed';
+  // Share of the current gesture completed, from 0 to 1
+  progress: number;
+  message: string;
+  // Milliseconds left before the attempt fails
+  timeRemaining: number;
+}
+
+const distance = (a: LandmarkPoint, b: LandmarkPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Eye aspect ratio (Soukupová and Čech, 2016) of the six points around one eye
+function eyeAspectRatio(eye: LandmarkPoint[]): number {
+  return (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]));
+}
+
+/**
+ * Compute gesture measurements from the 68 landmark points of a face
+ */
+export function computeFaceMetrics(points: LandmarkPoint[]): FaceMetrics {
+  if (points.length !== 68) {
+    throw new Error("Expected the 68 face landmark points");
+  }
+
+  const jawLeft = points[0];
+  const jawRight = points[16];
+  const chin = points[8];
+  const noseTip = points[30];
+  const brows = points.slice(17, 27);
+  const rightEye = points.slice(36, 42);
+  const leftEye = points.slice(42, 48);
+
+  const eyeLevel = mean([...rightEye, ...leftEye].map(point => point.y));
+  const faceWidth = distance(jawLeft, jawRight);
+  const faceHeight = chin.y - eyeLevel;
+
+  return {
+    eyeAspectRatio: (eyeAspectRatio(rightEye) + eyeAspectRatio(leftEye)) / 2,
+    yaw: (noseTip.x - jawLeft.x) / (jawRight.x - jawLeft.x) - 0.5,
+    pitch: (noseTip.y - eyeLevel) / faceHeight,
+    mouthWidth: distance(points[48], points[54]) / faceWidth,
+    browHeight: (eyeLevel - mean(brows.map(point => point.y))) / faceHeight
+  };
+}
+
+/**
+ * One gesture of the liveness check. It first learns the user's neutral face,
+ * then waits for the gesture relative to it, so a still photo never passes.
+ * Held gestures must be seen for HOLD_MS; a blink or nod must go and come back.
+ */
+export class LivenessChallenge {
+  private baselineSamples: FaceMetrics[] = [];
+  private baseline: FaceMetrics | null = null;
+  private heldSince: number | null = null;
+  private motionStartedAt: number | null = null;
+
+  constructor(public readonly gesture: LivenessGesture, private readonly startedAt: number) {}
+
+  update(metrics: FaceMetrics | null, at: number): LivenessProgress {
+    const timeRemaining = Math.max(0, this.startedAt + CHALLENGE_TIMEOUT_MS - at);
+
+    if (timeRemaining === 0) {
+      return { status: 'failed', progress: 0, message: "Time ran out", timeRemaining };
+    }
+
+    if (!metrics) {
+      this.heldSince = null;
+      this.motionStartedAt = null;
+      return { status: this.baseline ? 'detecting' : 'calibrating', progress: 0, message: "Keep your face inside the frame", timeRemaining };
+    }
+
+    if (!this.baseline) {
+      this.baselineSamples.push(metrics);
+
+      if (this.baselineSamples.length < BASELINE_FRAMES) {
+        return {
+          status: 'calibrating',
+          progress: 0,
+          message: "Look straight at the camera",
+          timeRemaining
+        };
+      }
+
+      this.baseline = {
+        eyeAspectRatio: mean(this.baselineSamples.map(sample => sample.eyeAspectRatio)),
+        yaw: mean(this.baselineSamples.map(sample => sample.yaw)),
+        pitch: mean(this.baselineSamples.map(sample => sample.pitch)),
+        mouthWidth: mean(this.baselineSamples.map(sample => sample.mouthWidth)),
+        browHeight: mean(this.baselineSamples.map(sample => sample.browHeight))
+      };
+    }
+
+    if (this.gesture === 'blink' || this.gesture === 'nod') {
+      return this.updateMotion(metrics, this.baseline, at, timeRemaining);
+    }
+
+    return this.updateHold(metrics, this.baseline, at, timeRemaining);
+  }
+
+  // Blink and nod: reach the extreme, then return to neutral
+  private updateMotion(metrics: FaceMetrics, baseline: FaceMetrics, at: number, timeRemaining: number): LivenessProgress {
+    if (this.gesture === 'blink' && baseline.eyeAspectRatio < MIN_OPEN_EYE_ASPECT_RATIO) {
+      return { status: 'detecting', progress: 0, message: "Open your eyes fully, then blink", timeRemaining };
+    }
+
+    const atExtreme = this.gesture === 'blink'
+      ? metrics.eyeAspectRatio < baseline.eyeAspectRatio * EYES_CLOSED_RATIO
+      : metrics.pitch - baseline.pitch > NOD_THRESHOLD;
+    const atNeutral = this.gesture === 'blink'
+      ? metrics.eyeAspectRatio > baseline.eyeAspectRatio * (1 + EYES_CLOSED_RATIO) / 2
+      : metrics.pitch - baseline.pitch < NOD_THRESHOLD / 2;
+    const returnMessage = this.gesture === 'blink' ? "Now open your eyes" : "Now lift your head back up";
+
+    if (this.motionStartedAt !== null && at - this.motionStartedAt > MOTION_RETURN_MS) {
+      this.motionStartedAt = null;
+    }
+
+    if (this.motionStartedAt === null) {
+      if (atExtreme) {
+        this.motionStartedAt = at;
+        return { status: 'detecting', progress: 0.5, message: returnMessage, timeRemaining };
+      }
+
+      return { status: 'detecting', progress: 0, message: "Waiting for the gesture", timeRemaining };
+    }
+
+    if (atNeutral) {
+      return { status: 'passed', progress: 1, message: "Gesture detected", timeRemaining };
+    }
+
+    return { status: 'detecting', progress: 0.5, message: returnMessage, timeRemaining };
+  }
+
+  // Smile, head turns and raised eyebrows: hold the pose
+  private updateHold(metrics: FaceMetrics, baseline: FaceMetrics, at: number, timeRemaining: number): LivenessProgress {
+    if (!this.isHolding(metrics, baseline)) {
+      this.heldSince = null;
+      return { status: 'detecting', progress: 0, message: "Waiting for the gesture", timeRemaining };
+    }
+
+    if (this.heldSince === null) {
+      this.heldSince = at;
+    }
+
+    const progress = Math.min(1, (at - this.heldSince) / HOLD_MS);
+
+    if (progress === 1) {
+      return { status: 'passed', progress, message: "Gesture detected", timeRemaining };
+    }
+
+    return { status: 'detecting', progress, message: "Hold it...", timeRemaining };
+  }
+
+  private isHolding(metrics: FaceMetrics, baseline: FaceMetrics): boolean {
+    switch (this.gesture) {
+      // The camera image is not mirrored, so turning to the user's left moves the nose right in the image
+      case 'turn_left': return metrics.yaw - baseline.yaw > TURN_THRESHOLD;
+      case 'turn_right': return baseline.yaw - metrics.yaw > TURN_THRESHOLD;
+      case 'smile': return metrics.mouthWidth > baseline.mouthWidth * SMILE_RATIO;
+      case 'raise_eyebrows': return metrics.browHeight > baseline.browHeight * BROW_RAISE_RATIO;
+      default: return false;
+    }
+  }
+}
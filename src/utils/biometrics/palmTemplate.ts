@@ -0,0 +1,64 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { PalmAnalysis, PALM_TEMPLATE_VERSION } from "./palmprint";
+
+// Palms below this quality are not enrolled, since they match unreliably later
+export const MIN_PALM_TEMPLATE_QUALITY = 0.4;
+
+// The template itself stays on the server, which does the matching
+export interface PalmTemplate {
+  templateVersion: string;
+  quality: number;
+}
+
+/**
+ * Fetch the signed-in user's palm template details. Returns null when the
+ * user has not registered their palm.
+ */
+export async function fetchPalmTemplate(): Promise<PalmTemplate | null> {
+  const { data, error } = await supabase.rpc('get_palm_template');
+
+  if (error) {
+    console.error('Error fetching palm template:', error);
+    throw new Error("Failed to fetch your registered palm");
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    templateVersion: row.template_version,
+    quality: row.template_quality
+  };
+}
+
+/**
+ * Whether a template was made by another descriptor and has to be enrolled again
+ */
+export function needsPalmReEnrollment(template: PalmTemplate): boolean {
+  return template.templateVersion !== PALM_TEMPLATE_VERSION;
+}
+
+/**
+ * Store a palm as the signed-in user's encrypted template. An earlier one is
+ * only replaced after the palm has matched it in the last ten minutes. The
+ * palm image itself is never uploaded.
+ */
+export async function enrollPalmTemplate(palm: PalmAnalysis): Promise<void> {
+  if (palm.quality < MIN_PALM_TEMPLATE_QUALITY) {
+    throw new Error("The palm image is not clear enough. Hold your open palm closer to the camera in good light.");
+  }
+
+  const { error } = await supabase.rpc('enroll_palm_template', {
+    p_descriptor: palm.descriptor,
+    p_template_version: PALM_TEMPLATE_VERSION,
+    p_quality: palm.quality
+  });
+
+  if (error) {
+    console.error('Error enrolling palm template:', error);
+    throw new Error(error.message || "Failed to save your palm template");
+  }
+}
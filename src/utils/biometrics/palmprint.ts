@@ -0,0 +1,358 @@
+
+import type { LandmarkPoint } from "./faceEmbedding";
+import type { HandDetection } from "./handLandmarks";
+
+// Stored with each palm template; templates from another descriptor cannot be compared
+export const PALM_TEMPLATE_VERSION = 'palm-competitive-code-v1';
+
+// Side of the square palm region the descriptor is computed on, in pixels
+const ROI_SIZE = 64;
+
+// The filters need this many pixels around the region, so a slightly larger area is sampled
+const FILTER_RADIUS = 4;
+
+// Line orientations tested at every pixel, and the grid of cells they are counted in
+const ORIENTATIONS = 6;
+const GRID_SIZE = 8;
+
+// Gabor filter shape, in region pixels; palm lines are a few pixels wide
+const GABOR_SIGMA = 2;
+const GABOR_WAVELENGTH = 8;
+
+// Palm width, as a share of the frame width, from which the palm is sampled at full detail
+const FULL_QUALITY_PALM_WIDTH = 0.2;
+
+// Mean line response below which the palm is too blurred or dark for its lines to show
+const MIN_LINE_ENERGY = 0.15;
+
+// A region of the palm shows a principal line when its line response is this much above the palm's average
+const PRINCIPAL_LINE_RATIO = 1.15;
+
+const TEXTURE_LENGTH = GRID_SIZE * GRID_SIZE * ORIENTATIONS;
+const GEOMETRY_LENGTH = 6;
+
+// Length of a palm descriptor: the texture histograms followed by the hand proportions
+export const PALM_DESCRIPTOR_LENGTH = TEXTURE_LENGTH + GEOMETRY_LENGTH;
+
+// Landmark indices, see HandDetection
+const WRIST = 0;
+const THUMB = [1, 2, 3, 4];
+const FINGERS = [[5, 6, 7, 8], [9, 10, 11, 12], [13, 14, 15, 16], [17, 18, 19, 20]];
+const INDEX_BASE = 5;
+const MIDDLE_BASE = 9;
+const LITTLE_BASE = 17;
+
+export interface PalmPosition {
+  // Every finger is straight rather than curled towards the palm
+  isOpen: boolean;
+  // The palm is large enough in the frame for its lines to be sampled
+  isLargeEnough: boolean;
+  // The palm centre is in the middle half of the frame
+  isCentred: boolean;
+  // From 0 to 1, combining the detector's confidence with the checks above
+  confidence: number;
+}
+
+export interface PalmAnalysis {
+  descriptor: number[];
+  // From 0 to 1; how reliably the descriptor can be matched
+  quality: number;
+  // Palm features that were found, for showing to the user
+  features: string[];
+}
+
+interface PalmRegion {
+  centre: LandmarkPoint;
+  // Unit vectors of the region's x axis and of the direction towards the fingers
+  across: LandmarkPoint;
+  up: LandmarkPoint;
+  side: number;
+}
+
+const distance = (a: LandmarkPoint, b: LandmarkPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const average = (points: LandmarkPoint[]): LandmarkPoint => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+});
+
+const chainLength = (points: LandmarkPoint[]) =>
+  points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+
+/**
+ * Locate the square palm region from the landmarks: centred between the wrist
+ * and the finger bases, turned so the fingers point up, and as wide as the
+ * span of the knuckles.
+ */
+function locatePalm(keypoints: LandmarkPoint[]): PalmRegion {
+  const knuckles = average(FINGERS.map(finger => keypoints[finger[0]]));
+  const centre = average([keypoints[WRIST], knuckles]);
+  const length = distance(keypoints[WRIST], keypoints[MIDDLE_BASE]) || 1;
+  const up = {
+    x: (keypoints[MIDDLE_BASE].x - keypoints[WRIST].x) / length,
+    y: (keypoints[MIDDLE_BASE].y - keypoints[WRIST].y) / length
+  };
+
+  // Mirror the region for one hand, so the thumb is always on the same side
+  const thumbSide = Math.sign((keypoints[THUMB[0]].x - centre.x) * -up.y + (keypoints[THUMB[0]].y - centre.y) * up.x) || 1;
+
+  return {
+    centre,
+    across: { x: -up.y * thumbSide, y: up.x * thumbSide },
+    up,
+    side: distance(keypoints[INDEX_BASE], keypoints[LITTLE_BASE])
+  };
+}
+
+// Sample the palm region, plus the filter margin, onto a contrast-normalised grayscale grid
+function samplePalm(frame: ImageData, region: PalmRegion): Float32Array {
+  const size = ROI_SIZE + 2 * FILTER_RADIUS;
+  const scale = region.side / ROI_SIZE;
+  const pixels = new Float32Array(size * size);
+
+  const luminanceAt = (x: number, y: number) => {
+    const px = Math.min(frame.width - 1, Math.max(0, x));
+    const py = Math.min(frame.height - 1, Math.max(0, y));
+    const offset = (py * frame.width + px) * 4;
+    return 0.299 * frame.data[offset] + 0.587 * frame.data[offset + 1] + 0.114 * frame.data[offset + 2];
+  };
+
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      // Row 0 is towards the fingers and column 0 is on the thumb side
+      const u = (column - size / 2 + 0.5) * scale;
+      const v = (size / 2 - row - 0.5) * scale;
+      const x = region.centre.x - u * region.across.x + v * region.up.x;
+      const y = region.centre.y - u * region.across.y + v * region.up.y;
+
+      // Bilinear interpolation between the four nearest pixels
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+      pixels[row * size + column] =
+        luminanceAt(x0, y0) * (1 - fx) * (1 - fy) +
+        luminanceAt(x0 + 1, y0) * fx * (1 - fy) +
+        luminanceAt(x0, y0 + 1) * (1 - fx) * fy +
+        luminanceAt(x0 + 1, y0 + 1) * fx * fy;
+    }
+  }
+
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+  const deviation = Math.sqrt(pixels.reduce((sum, value) => sum + (value - mean) ** 2, 0) / pixels.length) || 1;
+
+  return pixels.map(value => (value - mean) / deviation);
+}
+
+// Even Gabor filters that respond most strongly, and negatively, to a dark line
+// running in the filter's direction
+let gaborBank: Float32Array[] | null = null;
+
+function gaborFilters(): Float32Array[] {
+  if (!gaborBank) {
+    const width = 2 * FILTER_RADIUS + 1;
+    gaborBank = Array.from({ length: ORIENTATIONS }, (_, index) => {
+      const angle = index * Math.PI / ORIENTATIONS;
+      const kernel = new Float32Array(width * width);
+
+      for (let y = -FILTER_RADIUS; y <= FILTER_RADIUS; y++) {
+        for (let x = -FILTER_RADIUS; x <= FILTER_RADIUS; x++) {
+          // Distance across the line and along it
+          const across = -x * Math.sin(angle) + y * Math.cos(angle);
+          const along = x * Math.cos(angle) + y * Math.sin(angle);
+          kernel[(y + FILTER_RADIUS) * width + x + FILTER_RADIUS] =
+            Math.exp(-(across * across + along * along) / (2 * GABOR_SIGMA * GABOR_SIGMA)) *
+            Math.cos(2 * Math.PI * across / GABOR_WAVELENGTH);
+        }
+      }
+
+      // No response to flat areas
+      const mean = kernel.reduce((sum, value) => sum + value, 0) / kernel.length;
+      return kernel.map(value => value - mean);
+    });
+  }
+
+  return gaborBank;
+}
+
+/**
+ * Competitive code: at every pixel, the orientation whose filter responds most
+ * strongly to a dark line, and how strong that response is.
+ */
+function competitiveCode(pixels: Float32Array): { orientation: Uint8Array; energy: Float32Array } {
+  const size = ROI_SIZE + 2 * FILTER_RADIUS;
+  const width = 2 * FILTER_RADIUS + 1;
+  const filters = gaborFilters();
+  const orientation = new Uint8Array(ROI_SIZE * ROI_SIZE);
+  const energy = new Float32Array(ROI_SIZE * ROI_SIZE);
+
+  for (let row = 0; row < ROI_SIZE; row++) {
+    for (let column = 0; column < ROI_SIZE; column++) {
+      let winner = 0;
+      let strongest = 0;
+
+      filters.forEach((kernel, index) => {
+        let response = 0;
+        for (let y = 0; y < width; y++) {
+          const offset = (row + y) * size + column;
+          for (let x = 0; x < width; x++) {
+            response += kernel[y * width + x] * pixels[offset + x];
+          }
+        }
+
+        if (-response > strongest) {
+          strongest = -response;
+          winner = index;
+        }
+      });
+
+      orientation[row * ROI_SIZE + column] = winner;
+      energy[row * ROI_SIZE + column] = strongest / width;
+    }
+  }
+
+  return { orientation, energy };
+}
+
+// Mean line energy in a part of the region, given as shares of its size
+function regionEnergy(
+  code: { orientation: Uint8Array; energy: Float32Array },
+  area: { top: number; bottom: number; left: number; right: number },
+  orientations: number[]
+): number {
+  let sum = 0;
+  let count = 0;
+
+  for (let row = Math.floor(area.top * ROI_SIZE); row < Math.ceil(area.bottom * ROI_SIZE); row++) {
+    for (let column = Math.floor(area.left * ROI_SIZE); column < Math.ceil(area.right * ROI_SIZE); column++) {
+      const index = row * ROI_SIZE + column;
+      if (orientations.includes(code.orientation[index])) {
+        sum += code.energy[index];
+      }
+      count++;
+    }
+  }
+
+  return count === 0 ? 0 : sum / count;
+}
+
+// Finger and palm proportions, relative to the palm width so they do not depend on distance
+function handGeometry(keypoints: LandmarkPoint[]): number[] {
+  const width = distance(keypoints[INDEX_BASE], keypoints[LITTLE_BASE]) || 1;
+
+  return [
+    ...FINGERS.map(finger => chainLength(finger.map(index => keypoints[index])) / width),
+    chainLength(THUMB.map(index => keypoints[index])) / width,
+    distance(keypoints[WRIST], keypoints[MIDDLE_BASE]) / width
+  ];
+}
+
+/**
+ * Check how well the hand is presented: an open palm, close enough to the
+ * camera and near the middle of the frame
+ */
+export function assessPalmPosition(hand: HandDetection, frameWidth: number, frameHeight: number): PalmPosition {
+  const { keypoints } = hand;
+  const wrist = keypoints[WRIST];
+
+  // A straight finger's tip is further from the wrist than its middle joint
+  const isOpen = FINGERS.every(finger => distance(keypoints[finger[3]], wrist) > distance(keypoints[finger[1]], wrist));
+  const palmWidth = distance(keypoints[INDEX_BASE], keypoints[LITTLE_BASE]) / frameWidth;
+  const isLargeEnough = palmWidth >= FULL_QUALITY_PALM_WIDTH / 2;
+  const { centre } = locatePalm(keypoints);
+  const isCentred =
+    Math.abs(centre.x / frameWidth - 0.5) < 0.25 &&
+    Math.abs(centre.y / frameHeight - 0.5) < 0.25;
+
+  const confidence = hand.score *
+    Math.min(1, palmWidth / FULL_QUALITY_PALM_WIDTH) *
+    (isOpen ? 1 : 0.6) *
+    (isCentred ? 1 : 0.8);
+
+  return { isOpen, isLargeEnough, isCentred, confidence };
+}
+
+/**
+ * Extract the palm region from a frame and describe it: a competitive-code
+ * histogram of its line orientations on a grid of cells, followed by the
+ * hand's proportions. Also reports which principal lines are visible.
+ */
+export function analyzePalm(frame: ImageData, hand: HandDetection): PalmAnalysis {
+  const region = locatePalm(hand.keypoints);
+
+  if (region.side < ROI_SIZE / 4) {
+    throw new Error("Your palm is too small in the frame. Move your hand closer to the camera.");
+  }
+
+  const code = competitiveCode(samplePalm(frame, region));
+  const cell = ROI_SIZE / GRID_SIZE;
+  const texture = new Array(TEXTURE_LENGTH).fill(0);
+
+  for (let row = 0; row < ROI_SIZE; row++) {
+    for (let column = 0; column < ROI_SIZE; column++) {
+      const index = row * ROI_SIZE + column;
+      const bin = (Math.floor(row / cell) * GRID_SIZE + Math.floor(column / cell)) * ORIENTATIONS + code.orientation[index];
+      texture[bin] += code.energy[index];
+    }
+  }
+
+  // Remove each cell's average so only its preferred orientations remain,
+  // rather than how much texture it has
+  for (let start = 0; start < TEXTURE_LENGTH; start += ORIENTATIONS) {
+    const mean = texture.slice(start, start + ORIENTATIONS).reduce((sum, value) => sum + value, 0) / ORIENTATIONS;
+    for (let bin = start; bin < start + ORIENTATIONS; bin++) {
+      texture[bin] -= mean;
+    }
+  }
+
+  const norm = Math.sqrt(texture.reduce((sum, value) => sum + value * value, 0)) || 1;
+  const lineEnergy = code.energy.reduce((sum, value) => sum + value, 0) / code.energy.length;
+
+  // Horizontal and near-horizontal lines, and steeper ones
+  const across = [0, 1, ORIENTATIONS - 1];
+  const steep = [2, 3, 4];
+  const hasLine = (area: { top: number; bottom: number; left: number; right: number }, orientations: number[]) =>
+    regionEnergy(code, area, orientations) >= lineEnergy * PRINCIPAL_LINE_RATIO * orientations.length / ORIENTATIONS;
+
+  const features = ['21 hand landmarks'];
+  if (lineEnergy >= MIN_LINE_ENERGY) {
+    features.push('palm texture');
+  }
+  if (hasLine({ top: 0.05, bottom: 0.35, left: 0.2, right: 1 }, across)) {
+    features.push('heart line');
+  }
+  if (hasLine({ top: 0.3, bottom: 0.6, left: 0.1, right: 0.9 }, across)) {
+    features.push('head line');
+  }
+  if (hasLine({ top: 0.3, bottom: 1, left: 0, right: 0.45 }, steep)) {
+    features.push('life line');
+  }
+
+  const palmWidth = region.side / frame.width;
+  const quality = hand.score *
+    Math.min(1, palmWidth / FULL_QUALITY_PALM_WIDTH) *
+    Math.min(1, lineEnergy / MIN_LINE_ENERGY);
+
+  return {
+    descriptor: [...texture.map(value => value / norm), ...handGeometry(hand.keypoints)],
+    quality,
+    features
+  };
+}
+
+/**
+ * Average several descriptors of the same palm, which evens out noise between
+ * frames
+ */
+export function averagePalmDescriptors(descriptors: number[][]): number[] {
+  const sum = new Array(PALM_DESCRIPTOR_LENGTH).fill(0);
+  descriptors.forEach(descriptor => descriptor.forEach((value, index) => { sum[index] += value; }));
+
+  const texture = sum.slice(0, TEXTURE_LENGTH);
+  const norm = Math.sqrt(texture.reduce((total, value) => total + value * value, 0)) || 1;
+
+  return [
+    ...texture.map(value => value / norm),
+    ...sum.slice(TEXTURE_LENGTH).map(value => value / descriptors.length)
+  ];
+}
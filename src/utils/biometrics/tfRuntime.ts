@@ -0,0 +1,76 @@
+
+import * as faceapi from "@vladmandic/face-api";
+import wasmUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url";
+import wasmSimdUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url";
+import wasmThreadedSimdUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url";
+
+export type Tensor = faceapi.tf.Tensor;
+export type Tensor4D = faceapi.tf.Tensor4D;
+
+export interface GraphModel {
+  execute(input: Tensor, outputs: string[]): Tensor[];
+  executeAsync(input: Tensor, outputs: string[]): Promise<Tensor[]>;
+}
+
+// The bundled TensorFlow.js has its full API at runtime, but face-api only types part of it
+export const tf = faceapi.tf as typeof faceapi.tf & {
+  setWasmPaths(paths: Record<string, string>): void;
+  setBackend(backendName: string): Promise<boolean>;
+  ready(): Promise<void>;
+  loadGraphModel(handler: faceapi.tf.io.IOHandler): Promise<GraphModel>;
+};
+
+let backendReady: Promise<void> | null = null;
+
+/**
+ * Select the WASM backend, falling back to plain JavaScript on the CPU. The face
+ * and hand models share this one TensorFlow.js runtime.
+ */
+export function initialiseBackend(): Promise<void> {
+  if (!backendReady) {
+    backendReady = selectBackend().catch(error => {
+      backendReady = null;
+      throw error;
+    });
+  }
+
+  return backendReady;
+}
+
+async function selectBackend(): Promise<void> {
+  tf.setWasmPaths({
+    'tfjs-backend-wasm.wasm': wasmUrl,
+    'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+    'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl
+  });
+
+  const usingWasm = await tf.setBackend('wasm').catch(() => false);
+  if (!usingWasm) {
+    console.warn('WASM backend unavailable, running models on the CPU backend');
+    await tf.setBackend('cpu');
+  }
+  await tf.ready();
+}
+
+/**
+ * Load a converted graph model from its bundled model.json and weights file
+ */
+export async function loadBundledGraphModel(modelUrl: string, weightsUrl: string): Promise<GraphModel> {
+  const [modelResponse, weightsResponse] = await Promise.all([fetch(modelUrl), fetch(weightsUrl)]);
+
+  if (!modelResponse.ok || !weightsResponse.ok) {
+    throw new Error(`Failed to fetch model weights from ${weightsUrl}`);
+  }
+
+  // Each bundled model has a single weights file, so its path in the manifest is ignored
+  const model = await modelResponse.json();
+  return tf.loadGraphModel(tf.io.fromMemory({
+    modelTopology: model.modelTopology,
+    format: model.format,
+    generatedBy: model.generatedBy,
+    convertedBy: model.convertedBy,
+    signature: model.signature,
+    weightSpecs: model.weightsManifest[0].weights,
+    weightData: await weightsResponse.arrayBuffer()
+  }));
+}
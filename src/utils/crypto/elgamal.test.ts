@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  G,
+  IDENTITY_CIPHERTEXT,
+  P,
+  Q,
+  KeyShare,
+  combineDecryptionShares,
+  createDecryptionShare,
+  createPolynomial,
+  encrypt,
+  evaluatePolynomial,
+  modPow,
+  multiplyCiphertexts,
+  proveBit,
+  proveEncryptsOne,
+  randomScalar,
+  verifyBit,
+  verifyDecryptionShare,
+  verifyEncryptsOne
+} from "./elgamal";
+
+// A 2-of-3 election key, dealt by one polynomial for brevity
+const coefficients = createPolynomial(2);
+const publicKey = modPow(G, coefficients[0], P);
+const trustees: KeyShare[] = [1, 2, 3].map(index => {
+  const secret = evaluatePolynomial(coefficients, index);
+  return { index, secret, verificationKey: modPow(G, secret, P) };
+});
+
+const context = [1n, 2n];
+
+async function decrypt(ciphertext: ReturnType<typeof encrypt>, keyShares: KeyShare[], maxMessage: number) {
+  const shares = await Promise.all(keyShares.map(async keyShare => {
+    const { share, proof } = await createDecryptionShare(ciphertext, keyShare);
+    expect(await verifyDecryptionShare(ciphertext, keyShare.verificationKey, share, proof)).toBe(true);
+    return { index: keyShare.index, share };
+  }));
+
+  return combineDecryptionShares(ciphertext, shares, maxMessage);
+}
+
+describe("elgamal", () => {
+  it("decrypts a vote with any threshold of trustees", async () => {
+    const ciphertext = encrypt(publicKey, 1, randomScalar());
+
+    expect(await decrypt(ciphertext, [trustees[0], trustees[1]], 1)).toBe(1);
+    expect(await decrypt(ciphertext, [trustees[2], trustees[0]], 1)).toBe(1);
+    expect(await decrypt(encrypt(publicKey, 0, randomScalar()), [trustees[1], trustees[2]], 1)).toBe(0);
+  });
+
+  it("cannot decrypt with fewer trustees than the threshold", async () => {
+    const ciphertext = encrypt(publicKey, 1, randomScalar());
+
+    expect(await decrypt(ciphertext, [trustees[0]], 1)).toBeNull();
+  });
+
+  it("adds votes by multiplying ciphertexts", async () => {
+    const total = [1, 0, 1, 1, 0]
+      .map(vote => encrypt(publicKey, vote, randomScalar()))
+      .reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+
+    expect(await decrypt(total, [trustees[0], trustees[2]], 5)).toBe(3);
+  });
+
+  it("accepts honest bit proofs and rejects tampered ones", async () => {
+    const randomness = randomScalar();
+    const ciphertext = encrypt(publicKey, 1, randomness);
+    const proof = await proveBit(publicKey, ciphertext, 1, randomness, context);
+
+    expect(await verifyBit(publicKey, ciphertext, proof, context)).toBe(true);
+    expect(await verifyBit(publicKey, ciphertext, { ...proof, s1: (proof.s1 + 1n) % Q }, context)).toBe(false);
+    expect(await verifyBit(publicKey, ciphertext, { ...proof, c0: (proof.c0 + 1n) % Q }, context)).toBe(false);
+    // Bound to the election and ballot it was made for
+    expect(await verifyBit(publicKey, ciphertext, proof, [1n, 3n])).toBe(false);
+  });
+
+  it("rejects a bit proof for a ciphertext of anything but 0 or 1", async () => {
+    const randomness = randomScalar();
+    const ciphertext = encrypt(publicKey, 2, randomness);
+    const proof = await proveBit(publicKey, ciphertext, 1, randomness, context);
+
+    expect(await verifyBit(publicKey, ciphertext, proof, context)).toBe(false);
+  });
+
+  it("accepts a proof that a ballot holds one vote and rejects a tampered one", async () => {
+    const randomness = [randomScalar(), randomScalar()];
+    const total = multiplyCiphertexts(encrypt(publicKey, 0, randomness[0]), encrypt(publicKey, 1, randomness[1]));
+    const proof = await proveEncryptsOne(publicKey, total, (randomness[0] + randomness[1]) % Q);
+
+    expect(await verifyEncryptsOne(publicKey, total, proof)).toBe(true);
+    expect(await verifyEncryptsOne(publicKey, total, { ...proof, response: (proof.response + 1n) % Q })).toBe(false);
+    expect(await verifyEncryptsOne(publicKey, multiplyCiphertexts(total, encrypt(publicKey, 1, 0n)), proof)).toBe(false);
+  });
+});
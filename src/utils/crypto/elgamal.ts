@@ -0,0 +1,382 @@
+
+import { randomHex, sha256Hex } from "./hash";
+
+/**
+ * Exponential ElGamal over a 2048-bit Schnorr group with a 256-bit prime-order
+ * subgroup. Votes are encrypted as g^m so ciphertexts can be multiplied to add
+ * up votes without decrypting any single ballot.
+ *
+ * The group was generated as p = k * q + 1 for a random 256-bit prime q, with
+ * g = 2^k mod p. Anyone can check that p and q are prime, q divides p - 1 and
+ * g^q = 1 mod p.
+ */
+export const P = BigInt(
+  '0x' +
+  'f33c5969b69ddba5aa31b9a8ad45129e52fabd5cc0a2ffc9994a68d3ab1d117e' +
+  '873e46081802ddc809d63e308b50243811b578927b5651766bfab6e2a60f2627' +
+  '3bc629c6499bb75420c197a63eda020ce89daafcf001207d104d790ec324881a' +
+  'e01350f82c9d0acea99bf868610ed0c740118610306d7fa5966d293f41a5a3e4' +
+  '35badb4e5b5d25ec98734b790cbb5ee734970b168fd36c521cc1cae4d9e06380' +
+  '4b53af45e8a3f63d15cbd0f70fc1e851bd11e3d1f2ee90689791f4570b38d9cc' +
+  '5cc2b547cf9c2c21844b0ba7c5e0af9b862807397c83a72b1f3edd48c33677bd' +
+  'b4d6cbf8b1b3636a6357f14577b8095760edd9bc650438e582b61c85ad4ef159'
+);
+
+export const Q = BigInt('0xe7ab2cdcbc5aff5fc7e423b3e4bd7c95aa44789a6c3b6bdebca44e1da890c70d');
+
+export const G = BigInt(
+  '0x' +
+  'c8ef7a9ba6ec8d501c4d0ba1e8f3c05c32583ec35792ca80a5b7b7dc72ac5f62' +
+  'b6d909927c609148750c6af92fd0d9863334c36f2e89ca0d1f088db92eb347f8' +
+  '05aa7ee1bd5da5994b990690e0097c66f1269ce73cb4a7e89e1227f9811e70c2' +
+  '02ab1d1d777ab9d9f3aa9c4b0d254245d423e210ebee51448c7aed561c1f9338' +
+  'ce607dbe95cb9301b30b3d548b247533be3c8f250658f7839a8a1c5ff4633a8e' +
+  '5d5d1d2f0766f95eba431cac4e1e4a9323aa804322f2a46d282291e947c3102e' +
+  '6a113ea61e806e2c89372661ba7a4a2690ce00951546dbfb0cdda09cba970594' +
+  'a239fc8f4fef290748aa30a31fee047777fd76c8e723722e5029e04ffb098341'
+);
+
+export interface Ciphertext {
+  alpha: bigint;
+  beta: bigint;
+}
+
+export interface EqualityProof {
+  challenge: bigint;
+  response: bigint;
+}
+
+// Disjunctive proof that a ciphertext encrypts either 0 or 1
+export interface BitProof {
+  c0: bigint;
+  c1: bigint;
+  s0: bigint;
+  s1: bigint;
+}
+
+export interface KeyShare {
+  index: number;
+  secret: bigint;
+  verificationKey: bigint;
+}
+
+export interface SealedShare {
+  ephemeral: bigint;
+  masked: bigint;
+}
+
+export interface DecryptionShare {
+  index: number;
+  share: bigint;
+}
+
+// Encryption of zero with no randomness; the neutral element for multiplyCiphertexts
+export const IDENTITY_CIPHERTEXT: Ciphertext = { alpha: 1n, beta: 1n };
+
+// g^-1, used to strip a candidate vote out of beta when checking proofs
+const G_INVERSE = modPow(G, Q - 1n, P);
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+
+  while (exponent > 0n) {
+    if (exponent & 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+
+  return result;
+}
+
+// Subgroup elements have order q, so x^(q - c) is x^-c without a modular inverse
+function negate(exponent: bigint): bigint {
+  return (Q - (exponent % Q)) % Q;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  return ((value % modulus) + modulus) % modulus;
+}
+
+export function randomScalar(): bigint {
+  // 64 bits wider than q so the reduction bias is negligible
+  return BigInt(`0x${randomHex(40)}`) % Q;
+}
+
+export function toHex(value: bigint): string {
+  return value.toString(16);
+}
+
+export function fromHex(hex: string): bigint {
+  if (typeof hex !== 'string' || !/^[0-9a-f]+$/i.test(hex)) {
+    throw new Error("Invalid encrypted value");
+  }
+  return BigInt(`0x${hex}`);
+}
+
+// A UUID as a number, to bind a proof to one election or ballot
+export function uuidToScalar(id: string): bigint {
+  return fromHex(String(id).replace(/-/g, ''));
+}
+
+export function isGroupElement(value: bigint): boolean {
+  return value > 0n && value < P && modPow(value, Q, P) === 1n;
+}
+
+// Fiat-Shamir challenge over the public values of a proof
+async function hashToScalar(...values: bigint[]): Promise<bigint> {
+  return BigInt(`0x${await sha256Hex(values.map(toHex).join('|'))}`) % Q;
+}
+
+export function encrypt(publicKey: bigint, message: number, randomness: bigint): Ciphertext {
+  return {
+    alpha: modPow(G, randomness, P),
+    beta: (modPow(G, BigInt(message), P) * modPow(publicKey, randomness, P)) % P
+  };
+}
+
+export function multiplyCiphertexts(a: Ciphertext, b: Ciphertext): Ciphertext {
+  return {
+    alpha: (a.alpha * b.alpha) % P,
+    beta: (a.beta * b.beta) % P
+  };
+}
+
+/**
+ * Chaum-Pedersen proof that log_base1(value1) = log_base2(value2) = secret
+ */
+export async function proveEquality(
+  base1: bigint,
+  value1: bigint,
+  base2: bigint,
+  value2: bigint,
+  secret: bigint
+): Promise<EqualityProof> {
+  const nonce = randomScalar();
+  const challenge = await hashToScalar(base1, value1, base2, value2, modPow(base1, nonce, P), modPow(base2, nonce, P));
+
+  return {
+    challenge,
+    response: mod(nonce + challenge * secret, Q)
+  };
+}
+
+export async function verifyEquality(
+  base1: bigint,
+  value1: bigint,
+  base2: bigint,
+  value2: bigint,
+  proof: EqualityProof
+): Promise<boolean> {
+  const commitment1 = (modPow(base1, proof.response, P) * modPow(value1, negate(proof.challenge), P)) % P;
+  const commitment2 = (modPow(base2, proof.response, P) * modPow(value2, negate(proof.challenge), P)) % P;
+
+  return proof.challenge === await hashToScalar(base1, value1, base2, value2, commitment1, commitment2);
+}
+
+// beta / g^bit, which equals h^r when the ciphertext encrypts that bit
+function stripBit(beta: bigint, bit: number): bigint {
+  return bit === 0 ? beta : (beta * G_INVERSE) % P;
+}
+
+/**
+ * Prove a ciphertext encrypts 0 or 1 without revealing which. The real branch
+ * is proven honestly and the other is simulated from a chosen challenge. The
+ * context (election and ballot) is hashed into the challenge so the proof is
+ * only valid on the ballot it was made for.
+ */
+export async function proveBit(
+  publicKey: bigint,
+  ciphertext: Ciphertext,
+  bit: number,
+  randomness: bigint,
+  context: bigint[]
+): Promise<BitProof> {
+  const fake = 1 - bit;
+  const fakeChallenge = randomScalar();
+  const fakeResponse = randomScalar();
+  const nonce = randomScalar();
+
+  const commitments: bigint[] = [];
+  commitments[bit * 2] = modPow(G, nonce, P);
+  commitments[bit * 2 + 1] = modPow(publicKey, nonce, P);
+  commitments[fake * 2] = (modPow(G, fakeResponse, P) * modPow(ciphertext.alpha, negate(fakeChallenge), P)) % P;
+  commitments[fake * 2 + 1] = (modPow(publicKey, fakeResponse, P) *
+    modPow(stripBit(ciphertext.beta, fake), negate(fakeChallenge), P)) % P;
+
+  const challenge = await hashToScalar(...context, publicKey, ciphertext.alpha, ciphertext.beta, ...commitments);
+  const realChallenge = mod(challenge - fakeChallenge, Q);
+  const realResponse = mod(nonce + realChallenge * randomness, Q);
+
+  return bit === 0
+    ? { c0: realChallenge, c1: fakeChallenge, s0: realResponse, s1: fakeResponse }
+    : { c0: fakeChallenge, c1: realChallenge, s0: fakeResponse, s1: realResponse };
+}
+
+export async function verifyBit(publicKey: bigint, ciphertext: Ciphertext, proof: BitProof, context: bigint[]): Promise<boolean> {
+  const branches: [bigint, bigint][] = [[proof.c0, proof.s0], [proof.c1, proof.s1]];
+  const commitments = branches.flatMap(([challenge, response], bit) => [
+    (modPow(G, response, P) * modPow(ciphertext.alpha, negate(challenge), P)) % P,
+    (modPow(publicKey, response, P) * modPow(stripBit(ciphertext.beta, bit), negate(challenge), P)) % P
+  ]);
+
+  const challenge = await hashToScalar(...context, publicKey, ciphertext.alpha, ciphertext.beta, ...commitments);
+  return mod(proof.c0 + proof.c1, Q) === challenge;
+}
+
+/**
+ * Prove a ciphertext encrypts exactly 1, given the randomness used to build it
+ */
+export async function proveEncryptsOne(publicKey: bigint, ciphertext: Ciphertext, randomness: bigint): Promise<EqualityProof> {
+  return proveEquality(G, ciphertext.alpha, publicKey, stripBit(ciphertext.beta, 1), randomness);
+}
+
+export async function verifyEncryptsOne(publicKey: bigint, ciphertext: Ciphertext, proof: EqualityProof): Promise<boolean> {
+  return verifyEquality(G, ciphertext.alpha, publicKey, stripBit(ciphertext.beta, 1), proof);
+}
+
+/**
+ * One trustee's contribution to the election key: a random polynomial of
+ * degree threshold - 1, committed to as g^a for each coefficient. The election
+ * secret is the sum of every dealer's constant term, so no one ever knows it.
+ */
+export function createPolynomial(threshold: number): bigint[] {
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error("The threshold must be at least 1");
+  }
+
+  return Array.from({ length: threshold }, () => randomScalar());
+}
+
+export function evaluatePolynomial(coefficients: bigint[], index: number): bigint {
+  let value = 0n;
+
+  // Horner's rule, highest coefficient first
+  for (let j = coefficients.length - 1; j >= 0; j--) {
+    value = mod(value * BigInt(index) + coefficients[j], Q);
+  }
+
+  return value;
+}
+
+export function commitPolynomial(coefficients: bigint[]): bigint[] {
+  return coefficients.map(coefficient => modPow(G, coefficient, P));
+}
+
+/**
+ * g^f(index) computed from the commitments alone, which is how anyone checks a
+ * dealt value or derives a trustee's verification key
+ */
+export function evaluateCommitments(commitments: bigint[], index: number): bigint {
+  let result = 1n;
+  let power = 1n;
+
+  for (const commitment of commitments) {
+    result = (result * modPow(commitment, power, P)) % P;
+    power = mod(power * BigInt(index), Q);
+  }
+
+  return result;
+}
+
+/**
+ * Schnorr proof of knowledge of log_g(value), bound to a context so it cannot
+ * be replayed for another election or trustee
+ */
+export async function proveKnowledge(value: bigint, secret: bigint, context: bigint[]): Promise<EqualityProof> {
+  const nonce = randomScalar();
+  const challenge = await hashToScalar(...context, G, value, modPow(G, nonce, P));
+
+  return {
+    challenge,
+    response: mod(nonce + challenge * secret, Q)
+  };
+}
+
+export async function verifyKnowledge(value: bigint, proof: EqualityProof, context: bigint[]): Promise<boolean> {
+  const commitment = (modPow(G, proof.response, P) * modPow(value, negate(proof.challenge), P)) % P;
+  return proof.challenge === await hashToScalar(...context, G, value, commitment);
+}
+
+/**
+ * Seal a dealt value to a trustee's transport key g^y: a fresh g^r, and the
+ * value masked with a hash of the shared secret g^(ry)
+ */
+export async function sealShare(transportKey: bigint, share: bigint, context: bigint[]): Promise<SealedShare> {
+  const randomness = randomScalar();
+  const mask = await hashToScalar(...context, modPow(transportKey, randomness, P));
+
+  return {
+    ephemeral: modPow(G, randomness, P),
+    masked: mod(share + mask, Q)
+  };
+}
+
+export async function openShare(transportSecret: bigint, sealed: SealedShare, context: bigint[]): Promise<bigint> {
+  const mask = await hashToScalar(...context, modPow(sealed.ephemeral, transportSecret, P));
+  return mod(sealed.masked - mask, Q);
+}
+
+// Lagrange coefficient at zero for one trustee within the set that decrypted
+function lagrangeCoefficient(index: number, indices: number[]): bigint {
+  let numerator = 1n;
+  let denominator = 1n;
+
+  for (const other of indices) {
+    if (other !== index) {
+      numerator = mod(numerator * BigInt(other), Q);
+      denominator = mod(denominator * BigInt(other - index), Q);
+    }
+  }
+
+  return mod(numerator * modPow(denominator, Q - 2n, Q), Q);
+}
+
+/**
+ * A trustee's share of the decryption: alpha^secret, with a proof that it used
+ * the same secret as its published verification key
+ */
+export async function createDecryptionShare(
+  ciphertext: Ciphertext,
+  keyShare: KeyShare
+): Promise<{ share: bigint; proof: EqualityProof }> {
+  const share = modPow(ciphertext.alpha, keyShare.secret, P);
+  const proof = await proveEquality(G, keyShare.verificationKey, ciphertext.alpha, share, keyShare.secret);
+  return { share, proof };
+}
+
+export async function verifyDecryptionShare(
+  ciphertext: Ciphertext,
+  verificationKey: bigint,
+  share: bigint,
+  proof: EqualityProof
+): Promise<boolean> {
+  return isGroupElement(share) && verifyEquality(G, verificationKey, ciphertext.alpha, share, proof);
+}
+
+/**
+ * Combine at least `threshold` decryption shares and recover the plaintext
+ * count, searching exponents up to maxMessage. Returns null if none match.
+ */
+export function combineDecryptionShares(ciphertext: Ciphertext, shares: DecryptionShare[], maxMessage: number): number | null {
+  const indices = shares.map(share => share.index);
+  let combined = 1n;
+
+  for (const { index, share } of shares) {
+    combined = (combined * modPow(share, lagrangeCoefficient(index, indices), P)) % P;
+  }
+
+  const target = (ciphertext.beta * modPow(combined, Q - 1n, P)) % P;
+
+  let candidate = 1n;
+  for (let message = 0; message <= maxMessage; message++) {
+    if (candidate === target) {
+      return message;
+    }
+    candidate = (candidate * G) % P;
+  }
+
+  return null;
+}
@@ -1,10 +1,29 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { Election, Candidate, VoteStatistics } from "@/VotingContract";
+import { Election, Candidate, TurnoutAttribute, TurnoutGroup, VoteStatistics } from "@/VotingContract";
+import { getBallotCounts } from "@/utils/vote/voteService";
+import { getElectionStatus } from "./lifecycle";
+
+// The JSON returned by get_turnout_statistics
+interface TurnoutStatisticsRow {
+  eligible_voters: number;
+  eligible_voted: number;
+  votes_cast: number;
+  votes_over_time: Array<{ hour: string; votes: number }>;
+  breakdowns: Partial<Record<TurnoutAttribute, Array<{
+    value: string | null;
+    grouped: boolean;
+    eligible: number;
+    voted: number | null;
+  }>>> | null;
+}
+
+const turnoutPercentage = (voted: number, eligible: number) => eligible > 0 ? (voted / eligible) * 100 : 0;
 
 export class ElectionServiceDB {
-  private getVoteCount(votes: any[], candidateId: string): number {
-    return votes.filter(vote => vote.candidate_id === String(candidateId)).length;
+  // Ballots are not readable, so counts come from the database; none are shown if that fails
+  private async getVoteCounts(electionId: string): Promise<Record<string, number>> {
+    return getBallotCounts(electionId).catch(() => ({}));
   }
 
   private async getElection(electionId: string): Promise<Election | null> {
@@ -17,14 +36,11 @@ export class ElectionServiceDB {
           description,
           start_date,
           end_date,
-          is_active,
+          status,
           candidates (
             id,
             name,
             party
-          ),
-          votes (
-            candidate_id
           )
         `)
         .eq('id', String(electionId))
@@ -32,18 +48,20 @@ export class ElectionServiceDB {
 
       if (error) throw error;
 
+      const counts = await this.getVoteCounts(data.id);
+
       return {
         id: data.id,
         title: data.title,
         description: data.description,
         startDate: new Date(data.start_date),
         endDate: new Date(data.end_date),
-        isActive: data.is_active,
+        status: getElectionStatus(data.status, data.start_date, data.end_date),
         candidates: data.candidates.map((candidate: any) => ({
           id: candidate.id,
           name: candidate.name,
           party: candidate.party,
-          voteCount: this.getVoteCount(data.votes, candidate.id)
+          voteCount: counts[candidate.id] || 0
         }))
       };
     } catch (error) {
@@ -66,32 +84,33 @@ export class ElectionServiceDB {
           description,
           start_date,
           end_date,
-          is_active,
+          status,
           candidates (
             id,
             name,
             party
-          ),
-          votes (
-            candidate_id
           )
         `);
 
       if (error) throw error;
 
-      return elections.map((election: any) => ({
-        id: election.id,
-        title: election.title,
-        description: election.description,
-        startDate: new Date(election.start_date),
-        endDate: new Date(election.end_date),
-        isActive: election.is_active,
-        candidates: election.candidates.map((candidate: any) => ({
-          id: candidate.id,
-          name: candidate.name,
-          party: candidate.party,
-          voteCount: this.getVoteCount(election.votes, candidate.id)
-        }))
+      return Promise.all(elections.map(async (election: any) => {
+        const counts = await this.getVoteCounts(election.id);
+
+        return {
+          id: election.id,
+          title: election.title,
+          description: election.description,
+          startDate: new Date(election.start_date),
+          endDate: new Date(election.end_date),
+          status: getElectionStatus(election.status, election.start_date, election.end_date),
+          candidates: election.candidates.map((candidate: any) => ({
+            id: candidate.id,
+            name: candidate.name,
+            party: candidate.party,
+            voteCount: counts[candidate.id] || 0
+          }))
+        };
       }));
     } catch (error) {
       console.error('Error fetching elections:', error);
@@ -100,25 +119,70 @@ export class ElectionServiceDB {
   }
 
   /**
-   * Get vote statistics
+   * Get turnout against the eligible electorate, candidate shares, votes over
+   * time and turnout by registration attributes
    */
   public async getVoteStatistics(electionId: string): Promise<VoteStatistics | null> {
     try {
-      const { data, error } = await supabase
-        .from('vote_results')
-        .select('*')
-        .eq('election_id', String(electionId))
+      const { data: turnout, error: turnoutError } = await supabase
+        .rpc('get_turnout_statistics', { p_election_id: String(electionId) });
+
+      if (turnoutError) throw turnoutError;
+
+      const { data: election, error: electionError } = await supabase
+        .from('elections')
+        .select(`
+          encrypted_ballots,
+          candidates (
+            id,
+            name,
+            party
+          )
+        `)
+        .eq('id', String(electionId))
         .single();
 
-      if (error) throw error;
+      if (electionError) throw electionError;
+
+      const stats = turnout as unknown as TurnoutStatisticsRow;
+      const counts = election.encrypted_ballots ? {} : await getBallotCounts(String(electionId));
+      const totalCounted = Object.values(counts).reduce((sum, votes) => sum + votes, 0);
+
+      // Sealed ballots carry no readable choice until the trustees decrypt the tally
+      const candidateStats = election.encrypted_ballots
+        ? []
+        : election.candidates
+            .map(candidate => ({
+              id: candidate.id,
+              name: candidate.name,
+              party: candidate.party,
+              votes: counts[candidate.id] || 0,
+              share: totalCounted > 0 ? ((counts[candidate.id] || 0) / totalCounted) * 100 : 0
+            }))
+            .sort((a, b) => b.votes - a.votes);
+
+      const toGroups = (rows: TurnoutStatisticsRow['breakdowns'][TurnoutAttribute]): TurnoutGroup[] =>
+        (rows || []).map(row => ({
+          value: row.value,
+          grouped: row.grouped,
+          eligible: row.eligible,
+          voted: row.voted,
+          turnout: row.voted === null ? null : turnoutPercentage(row.voted, row.eligible)
+        }));
 
       return {
-        totalVotes: data.vote_count,
-        voterTurnout: data.vote_count, // You might want to calculate this based on total registered voters
-        candidateStats: {
-          name: data.candidate_name,
-          party: data.party,
-          votes: data.vote_count
+        totalVotes: stats.votes_cast,
+        eligibleVoters: stats.eligible_voters,
+        voterTurnout: turnoutPercentage(stats.eligible_voted, stats.eligible_voters),
+        candidateStats,
+        votesOverTime: stats.votes_over_time.map(point => ({
+          time: new Date(point.hour),
+          votes: point.votes
+        })),
+        breakdowns: stats.breakdowns && {
+          department: toGroups(stats.breakdowns.department),
+          year_of_study: toGroups(stats.breakdowns.year_of_study),
+          district: toGroups(stats.breakdowns.district)
         }
       };
     } catch (error) {
@@ -0,0 +1,86 @@
+
+// Factors an election can require before a vote is accepted
+export type AuthFactor = 'face' | 'palm' | 'otp' | 'passkey';
+
+export const AUTH_FACTORS: AuthFactor[] = ['face', 'palm', 'otp', 'passkey'];
+
+export type BiometricFactor = 'face' | 'palm';
+
+export interface AuthPolicy {
+  factors: AuthFactor[];
+  // Raise the face and palm match thresholds for this election; null keeps the default
+  minFaceConfidence: number | null;
+  minPalmConfidence: number | null;
+}
+
+// Matches the column defaults in the database
+export const DEFAULT_AUTH_POLICY: AuthPolicy = {
+  factors: ['face', 'palm', 'otp'],
+  minFaceConfidence: null,
+  minPalmConfidence: null
+};
+
+// The similarity each factor can be required to reach, from its default match
+// threshold up; the same ranges are checked by the database
+export const MATCH_CONFIDENCE_RANGES: Record<BiometricFactor, { min: number; max: number }> = {
+  face: { min: 0.85, max: 0.99 },
+  palm: { min: 0.65, max: 0.95 }
+};
+
+export const AUTH_FACTOR_LABELS: Record<AuthFactor, string> = {
+  face: "Face scan",
+  palm: "Palm scan",
+  otp: "One-time code",
+  passkey: "Passkey"
+};
+
+export type VotingStep = 'start' | 'election' | 'face' | 'palm' | 'otp' | 'vote' | 'confirm';
+
+export const VOTING_STEP_LABELS: Record<VotingStep, string> = {
+  start: "Start",
+  election: "Election",
+  face: "Face Scan",
+  palm: "Palm Scan",
+  otp: "Code",
+  vote: "Vote",
+  confirm: "Confirm"
+};
+
+/**
+ * Read an election's policy from its database columns, keeping only known factors
+ */
+export function parseAuthPolicy(
+  factors: string[] | null | undefined,
+  minFaceConfidence: number | null | undefined,
+  minPalmConfidence: number | null | undefined
+): AuthPolicy {
+  const known = (factors ?? []).filter((factor): factor is AuthFactor => AUTH_FACTORS.includes(factor as AuthFactor));
+
+  return {
+    factors: known.length > 0 ? known : DEFAULT_AUTH_POLICY.factors,
+    minFaceConfidence: minFaceConfidence ?? null,
+    minPalmConfidence: minPalmConfidence ?? null
+  };
+}
+
+/**
+ * Whether a required match confidence is blank or within the factor's range
+ */
+export function isValidMatchConfidence(factor: BiometricFactor, confidence: number | null): boolean {
+  const range = MATCH_CONFIDENCE_RANGES[factor];
+  return confidence === null || (confidence >= range.min && confidence <= range.max);
+}
+
+/**
+ * The steps a voter goes through for an election. The election is chosen first
+ * so its policy decides which verification steps follow. A passkey has no step
+ * of its own: the ballot is signed with it when the vote is cast.
+ */
+export function buildVotingSteps(policy: AuthPolicy | null): VotingStep[] {
+  if (!policy) {
+    return ['start', 'election', 'vote', 'confirm'];
+  }
+
+  const verification = (['face', 'palm', 'otp'] as const).filter(factor => policy.factors.includes(factor));
+  return ['start', 'election', ...verification, 'vote', 'confirm'];
+}
@@ -0,0 +1,577 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { VotingMethod } from "@/utils/VotingContract";
+import { AUTH_FACTORS, AuthFactor, BiometricFactor, DEFAULT_AUTH_POLICY, isValidMatchConfidence, MATCH_CONFIDENCE_RANGES, parseAuthPolicy } from "./authPolicy";
+import { ELIGIBILITY_LABELS, Eligibility, EligibilityRules, parseEligibilityRules } from "./eligibility";
+
+// Bump when the file layout changes so older files can still be recognised
+export const ELECTION_FILE_VERSION = 2;
+
+export interface CandidateDefinition {
+  name: string;
+  party: string;
+  bio: string;
+  photo_url: string;
+}
+
+// One election as it appears in an import or export file. Field names match
+// the database columns; ballot encryption, rosters and status are left out.
+export interface ElectionDefinition {
+  title: string;
+  description: string;
+  start_date: string;
+  end_date: string;
+  voting_method: VotingMethod;
+  seats: number;
+  max_selections: number;
+  auth_factors: AuthFactor[];
+  min_face_confidence: number | null;
+  min_palm_confidence: number | null;
+  eligibility: Eligibility;
+  eligibility_rules: EligibilityRules;
+  candidates: CandidateDefinition[];
+}
+
+export interface ElectionImportPreview {
+  election: ElectionDefinition;
+  errors: string[];
+  // The latest existing election with the same title, if any
+  previous: ElectionDefinition | null;
+  // How the election differs from the previous one
+  changes: string[];
+}
+
+// One row per candidate; the election columns are read from each election's first row
+const CSV_COLUMNS = [
+  'title',
+  'description',
+  'start_date',
+  'end_date',
+  'voting_method',
+  'seats',
+  'max_selections',
+  'auth_factors',
+  'min_face_confidence',
+  'min_palm_confidence',
+  'eligibility',
+  'departments',
+  'years',
+  'districts',
+  'candidate_name',
+  'candidate_party',
+  'candidate_bio',
+  'candidate_photo_url'
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const REQUIRED_CSV_COLUMNS: CsvColumn[] = ['title', 'start_date', 'end_date'];
+
+const VOTING_METHODS: VotingMethod[] = ['plurality', 'irv'];
+
+const FIELD_LABELS: Record<Exclude<keyof ElectionDefinition, 'title' | 'candidates'>, string> = {
+  description: "Description",
+  start_date: "Voting opens",
+  end_date: "Voting closes",
+  voting_method: "Voting method",
+  seats: "Seats",
+  max_selections: "Choices per voter",
+  auth_factors: "Verification",
+  min_face_confidence: "Face match confidence",
+  min_palm_confidence: "Palm match confidence",
+  eligibility: "Electorate",
+  eligibility_rules: "Eligibility rules"
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RawRecord = Record<string, unknown>;
+
+const text = (value: unknown) => value === undefined || value === null ? '' : String(value).trim();
+
+// Lists are arrays in JSON and semicolon-separated in CSV
+const list = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(text) : text(value).split(';').map(item => item.trim())).filter(Boolean);
+
+const numberOr = (value: unknown, fallback: number) => text(value) === '' ? fallback : Number(text(value));
+
+const numberOrNull = (value: unknown) => text(value) === '' ? null : Number(text(value));
+
+// Dates are stored as ISO timestamps; anything unreadable is kept so validation can report it
+const toIsoDate = (value: unknown) => {
+  const raw = text(value);
+  const date = new Date(raw);
+  return raw && !isNaN(date.getTime()) ? date.toISOString() : raw;
+};
+
+function toDefinition(raw: RawRecord, candidates: RawRecord[]): ElectionDefinition {
+  const rules = (raw.eligibility_rules && typeof raw.eligibility_rules === 'object' ? raw.eligibility_rules : raw) as RawRecord;
+  const factors = list(raw.auth_factors);
+
+  return {
+    title: text(raw.title),
+    description: text(raw.description),
+    start_date: toIsoDate(raw.start_date),
+    end_date: toIsoDate(raw.end_date),
+    voting_method: (text(raw.voting_method) || 'plurality') as VotingMethod,
+    seats: numberOr(raw.seats, 1),
+    max_selections: numberOr(raw.max_selections, 1),
+    auth_factors: factors.length > 0 ? factors as AuthFactor[] : DEFAULT_AUTH_POLICY.factors,
+    // Version 1 files had one confidence for both factors
+    min_face_confidence: numberOrNull(raw.min_face_confidence ?? raw.min_match_confidence),
+    min_palm_confidence: numberOrNull(raw.min_palm_confidence ?? raw.min_match_confidence),
+    eligibility: (text(raw.eligibility) || 'open') as Eligibility,
+    eligibility_rules: {
+      departments: list(rules.departments),
+      years: list(rules.years).map(Number),
+      districts: list(rules.districts)
+    },
+    candidates: candidates.map(candidate => ({
+      name: text(candidate.name),
+      party: text(candidate.party),
+      bio: text(candidate.bio),
+      photo_url: text(candidate.photo_url)
+    }))
+  };
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells that contain
+ * commas, quotes or line breaks
+ */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function parseElectionsCsv(csv: string): ElectionDefinition[] {
+  const [header, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`The CSV is missing the ${missing.join(', ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+
+  // Rows belong to the same election when they share a title and start date
+  const groups = new Map<string, { election: RawRecord; candidates: RawRecord[] }>();
+
+  rows.forEach((cells, index) => {
+    const record: RawRecord = Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? '']));
+    if (!text(record.title)) {
+      throw new Error(`Row ${index + 2} has no title`);
+    }
+
+    const key = `${text(record.title)}|${toIsoDate(record.start_date)}`;
+    if (!groups.has(key)) {
+      groups.set(key, { election: record, candidates: [] });
+    }
+
+    if (text(record.candidate_name) || text(record.candidate_party) || text(record.candidate_bio)) {
+      groups.get(key).candidates.push({
+        name: record.candidate_name,
+        party: record.candidate_party,
+        bio: record.candidate_bio,
+        photo_url: record.candidate_photo_url
+      });
+    }
+  });
+
+  return Array.from(groups.values()).map(group => toDefinition(group.election, group.candidates));
+}
+
+function parseElectionsJson(json: string): ElectionDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  // Accept an exported file, a bare list of elections or a single election
+  const file = parsed as RawRecord;
+  if (file && typeof file === 'object' && !Array.isArray(file) && 'version' in file
+    && Number(file.version) > ELECTION_FILE_VERSION) {
+    throw new Error(`The file is version ${file.version}, but only version ${ELECTION_FILE_VERSION} can be imported`);
+  }
+
+  const elections = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(file?.elections) ? file.elections : [parsed];
+
+  return elections.map((election, index) => {
+    if (!election || typeof election !== 'object' || Array.isArray(election)) {
+      throw new Error(`Election ${index + 1} is not an object`);
+    }
+    const candidates = (election as RawRecord).candidates;
+    if (candidates !== undefined && !Array.isArray(candidates)) {
+      throw new Error(`The candidates of election ${index + 1} must be a list`);
+    }
+    return toDefinition(election as RawRecord, (candidates ?? []) as RawRecord[]);
+  });
+}
+
+/**
+ * Read the elections in an import file, choosing JSON or CSV by its extension
+ */
+export function parseElectionFile(fileName: string, contents: string): ElectionDefinition[] {
+  const elections = fileName.toLowerCase().endsWith('.csv')
+    ? parseElectionsCsv(contents)
+    : parseElectionsJson(contents);
+
+  if (elections.length === 0) {
+    throw new Error("The file has no elections in it");
+  }
+
+  return elections;
+}
+
+/**
+ * Everything wrong with an election definition, in the order a person would fix it
+ */
+export function validateElectionDefinition(election: ElectionDefinition): string[] {
+  const errors: string[] = [];
+  const start = new Date(election.start_date);
+  const end = new Date(election.end_date);
+
+  if (!election.title) errors.push("Title is required");
+  if (isNaN(start.getTime())) errors.push(`"${election.start_date}" is not a valid opening date`);
+  if (isNaN(end.getTime())) errors.push(`"${election.end_date}" is not a valid closing date`);
+  if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
+    errors.push("The election must close after it opens");
+  }
+
+  if (!VOTING_METHODS.includes(election.voting_method)) {
+    errors.push(`Voting method must be one of ${VOTING_METHODS.join(', ')}`);
+  }
+  if (!(Number.isInteger(election.seats) && election.seats >= 1)) {
+    errors.push("Seats must be a whole number of at least 1");
+  }
+  if (!(Number.isInteger(election.max_selections) && election.max_selections >= 1)) {
+    errors.push("Choices per voter must be a whole number of at least 1");
+  } else if (election.voting_method !== 'plurality' && election.max_selections !== 1) {
+    errors.push("Ranked elections allow one ballot choice per voter");
+  }
+
+  const unknownFactors = election.auth_factors.filter(factor => !AUTH_FACTORS.includes(factor));
+  if (unknownFactors.length > 0) {
+    errors.push(`Unknown verification factors: ${unknownFactors.join(', ')}`);
+  }
+  (['face', 'palm'] as BiometricFactor[]).forEach(factor => {
+    const range = MATCH_CONFIDENCE_RANGES[factor];
+    if (!isValidMatchConfidence(factor, election[`min_${factor}_confidence`])) {
+      errors.push(`${factor === 'face' ? 'Face' : 'Palm'} match confidence must be between ${range.min} and ${range.max}`);
+    }
+  });
+
+  if (!(election.eligibility in ELIGIBILITY_LABELS)) {
+    errors.push(`Electorate must be one of ${Object.keys(ELIGIBILITY_LABELS).join(', ')}`);
+  }
+  if (election.eligibility_rules.years.some(year => !(Number.isInteger(year) && year >= 1 && year <= 10))) {
+    errors.push("Years of study must be whole numbers between 1 and 10");
+  }
+
+  const names = new Set<string>();
+  election.candidates.forEach((candidate, index) => {
+    if (!candidate.name) {
+      errors.push(`Candidate ${index + 1} has no name`);
+      return;
+    }
+    if (names.has(candidate.name.toLowerCase())) {
+      errors.push(`${candidate.name} is listed more than once`);
+    }
+    names.add(candidate.name.toLowerCase());
+    if (candidate.photo_url && !/^https?:\/\/\S+$/i.test(candidate.photo_url)) {
+      errors.push(`${candidate.name}'s photo must be an http or https link`);
+    }
+  });
+
+  return errors;
+}
+
+const formatValue = (field: keyof typeof FIELD_LABELS, election: ElectionDefinition): string => {
+  switch (field) {
+    case 'start_date':
+    case 'end_date':
+      return new Date(election[field]).toLocaleString();
+    case 'auth_factors':
+      return election.auth_factors.join(', ');
+    case 'min_face_confidence':
+    case 'min_palm_confidence':
+      return election[field] === null ? 'default' : `${Math.round(election[field] * 100)}%`;
+    case 'eligibility_rules': {
+      const rules = election.eligibility_rules;
+      return [
+        rules.departments.length > 0 && `departments ${rules.departments.join(', ')}`,
+        rules.years.length > 0 && `years ${rules.years.join(', ')}`,
+        rules.districts.length > 0 && `districts ${rules.districts.join(', ')}`
+      ].filter(Boolean).join('; ') || 'none';
+    }
+    default:
+      return String(election[field]) || 'none';
+  }
+};
+
+/**
+ * Describe how an election differs from an earlier one, field by field and
+ * candidate by candidate
+ */
+export function describeElectionChanges(previous: ElectionDefinition, next: ElectionDefinition): string[] {
+  const changes: string[] = [];
+
+  (Object.keys(FIELD_LABELS) as Array<keyof typeof FIELD_LABELS>).forEach(field => {
+    const from = formatValue(field, previous);
+    const to = formatValue(field, next);
+    if (from !== to) {
+      changes.push(`${FIELD_LABELS[field]}: ${from} → ${to}`);
+    }
+  });
+
+  const byName = (candidates: CandidateDefinition[]) =>
+    new Map(candidates.map(candidate => [candidate.name.toLowerCase(), candidate]));
+  const before = byName(previous.candidates);
+  const after = byName(next.candidates);
+
+  after.forEach((candidate, key) => {
+    const earlier = before.get(key);
+    if (!earlier) {
+      changes.push(`Candidate added: ${candidate.name}`);
+      return;
+    }
+    const updated = (['party', 'bio', 'photo_url'] as const).filter(field => earlier[field] !== candidate[field]);
+    if (updated.length > 0) {
+      changes.push(`Candidate updated: ${candidate.name} (${updated.join(', ').replace('photo_url', 'photo')})`);
+    }
+  });
+  before.forEach((candidate, key) => {
+    if (!after.has(key)) {
+      changes.push(`Candidate removed: ${candidate.name}`);
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Move every election's dates by a number of days, e.g. to reuse last term's elections
+ */
+export function shiftElectionDates(elections: ElectionDefinition[], days: number): ElectionDefinition[] {
+  if (!days) return elections;
+
+  const shift = (value: string) => {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : new Date(date.getTime() + days * DAY_MS).toISOString();
+  };
+
+  return elections.map(election => ({
+    ...election,
+    start_date: shift(election.start_date),
+    end_date: shift(election.end_date)
+  }));
+}
+
+async function fetchDefinitions(column: 'id' | 'title', values: string[]): Promise<ElectionDefinition[]> {
+  if (values.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('elections')
+    .select(`
+      title,
+      description,
+      start_date,
+      end_date,
+      voting_method,
+      seats,
+      max_selections,
+      auth_factors,
+      min_face_confidence,
+      min_palm_confidence,
+      eligibility,
+      eligibility_rules,
+      candidates (
+        name,
+        party,
+        bio,
+        photo_url
+      )
+    `)
+    .in(column, values)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching elections for export:', error);
+    throw new Error("Failed to load the elections");
+  }
+
+  return data.map(election => {
+    const policy = parseAuthPolicy(election.auth_factors, election.min_face_confidence, election.min_palm_confidence);
+    return {
+      title: election.title,
+      description: election.description ?? '',
+      start_date: new Date(election.start_date).toISOString(),
+      end_date: new Date(election.end_date).toISOString(),
+      voting_method: election.voting_method as VotingMethod,
+      seats: election.seats,
+      max_selections: election.max_selections,
+      auth_factors: policy.factors,
+      min_face_confidence: policy.minFaceConfidence,
+      min_palm_confidence: policy.minPalmConfidence,
+      eligibility: election.eligibility as Eligibility,
+      eligibility_rules: parseEligibilityRules(election.eligibility_rules),
+      candidates: election.candidates
+        .map(candidate => ({
+          name: candidate.name,
+          party: candidate.party ?? '',
+          bio: candidate.bio ?? '',
+          photo_url: candidate.photo_url ?? ''
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    };
+  });
+}
+
+/**
+ * The definitions of the given elections, ready to export
+ */
+export async function fetchElectionDefinitions(electionIds: string[]): Promise<ElectionDefinition[]> {
+  return fetchDefinitions('id', electionIds);
+}
+
+/**
+ * Validate imported elections and compare each with the latest existing
+ * election of the same title
+ */
+export async function previewElectionImport(elections: ElectionDefinition[]): Promise<ElectionImportPreview[]> {
+  const existing = await fetchDefinitions('title', Array.from(new Set(elections.map(election => election.title).filter(Boolean))));
+  const seen = new Set<string>();
+
+  return elections.map(election => {
+    const errors = validateElectionDefinition(election);
+    const key = `${election.title}|${election.start_date}`;
+
+    if (seen.has(key)) {
+      errors.push("The file lists this election more than once");
+    }
+    seen.add(key);
+
+    if (existing.some(other => other.title === election.title && other.start_date === election.start_date)) {
+      errors.push("An election with this title and opening date already exists");
+    }
+
+    // Sorted newest first, so this is the most recent run of the election
+    const previous = existing.find(other => other.title === election.title) ?? null;
+
+    return {
+      election,
+      errors,
+      previous,
+      changes: previous ? describeElectionChanges(previous, election) : []
+    };
+  });
+}
+
+/**
+ * Create the elections and their candidates as drafts, all or none
+ */
+export async function importElections(elections: ElectionDefinition[]): Promise<string[]> {
+  const { data, error } = await supabase.rpc('import_elections', {
+    p_elections: elections as unknown as Json
+  });
+
+  if (error) {
+    console.error('Error importing elections:', error);
+    throw new Error(error.message || "Failed to import the elections");
+  }
+
+  return data;
+}
+
+/**
+ * Elections as a JSON file that can be imported again
+ */
+export function electionsToJson(elections: ElectionDefinition[]): string {
+  return JSON.stringify({ version: ELECTION_FILE_VERSION, elections }, null, 2);
+}
+
+/**
+ * Elections as CSV, one row per candidate
+ */
+export function electionsToCsv(elections: ElectionDefinition[]): string {
+  const escape = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const rows = elections.flatMap(election => {
+    const electionCells: Partial<Record<CsvColumn, string>> = {
+      title: election.title,
+      description: election.description,
+      start_date: election.start_date,
+      end_date: election.end_date,
+      voting_method: election.voting_method,
+      seats: String(election.seats),
+      max_selections: String(election.max_selections),
+      auth_factors: election.auth_factors.join('; '),
+      min_face_confidence: election.min_face_confidence === null ? '' : String(election.min_face_confidence),
+      min_palm_confidence: election.min_palm_confidence === null ? '' : String(election.min_palm_confidence),
+      eligibility: election.eligibility,
+      departments: election.eligibility_rules.departments.join('; '),
+      years: election.eligibility_rules.years.join('; '),
+      districts: election.eligibility_rules.districts.join('; ')
+    };
+
+    // An election without candidates still needs a row of its own
+    const candidates: Array<CandidateDefinition | null> = election.candidates.length > 0 ? election.candidates : [null];
+
+    return candidates.map(candidate => {
+      const cells: Partial<Record<CsvColumn, string>> = {
+        ...electionCells,
+        candidate_name: candidate?.name,
+        candidate_party: candidate?.party,
+        candidate_bio: candidate?.bio,
+        candidate_photo_url: candidate?.photo_url
+      };
+      return CSV_COLUMNS.map(column => escape(cells[column] ?? '')).join(',');
+    });
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,150 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+// Who can vote in an election; matches the eligibility check constraint
+export type Eligibility = 'open' | 'roster' | 'rules';
+
+export const ELIGIBILITY_LABELS: Record<Eligibility, string> = {
+  open: "Every registered voter",
+  roster: "Voters on an uploaded roster",
+  rules: "Voters matching rules"
+};
+
+// Allowed values for each profile attribute; an empty list allows any value
+export interface EligibilityRules {
+  departments: string[];
+  years: number[];
+  districts: string[];
+}
+
+export const EMPTY_ELIGIBILITY_RULES: EligibilityRules = {
+  departments: [],
+  years: [],
+  districts: []
+};
+
+// Profile attributes that election officers set and rules match against
+export interface VoterAttributes {
+  studentId: string;
+  department: string;
+  yearOfStudy: number | null;
+  district: string;
+}
+
+/**
+ * Read an election's rules from its JSON column, dropping anything malformed
+ */
+export function parseEligibilityRules(rules: Json | null | undefined): EligibilityRules {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return EMPTY_ELIGIBILITY_RULES;
+  }
+
+  const strings = (value: Json | undefined) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const numbers = (value: Json | undefined) =>
+    Array.isArray(value) ? value.filter((item): item is number => typeof item === 'number') : [];
+
+  return {
+    departments: strings(rules.departments),
+    years: numbers(rules.years),
+    districts: strings(rules.districts)
+  };
+}
+
+/**
+ * Show a rule's allowed values as a comma-separated list for editing
+ */
+export function formatRuleList(values: Array<string | number>): string {
+  return values.join(', ');
+}
+
+/**
+ * Split a comma-separated list of allowed values, dropping blanks and repeats
+ */
+export function parseRuleList(text: string): string[] {
+  return Array.from(new Set(text.split(',').map(value => value.trim()).filter(Boolean)));
+}
+
+/**
+ * Read the identifiers from a roster CSV: the first column of each row,
+ * lower-cased, skipping blank rows and a header row
+ */
+export function parseRosterCsv(text: string): string[] {
+  const identifiers = text
+    .split(/\r?\n/)
+    .map(line => line.split(',')[0].trim().replace(/^"(.*)"$/, '$1').trim().toLowerCase())
+    .filter(Boolean);
+
+  if (identifiers.length > 0 && ['email', 'student_id', 'student id', 'id', 'identifier'].includes(identifiers[0])) {
+    identifiers.shift();
+  }
+
+  return Array.from(new Set(identifiers));
+}
+
+/**
+ * IDs of the published elections the signed-in voter may vote in
+ */
+export async function fetchEligibleElectionIds(): Promise<Set<string>> {
+  const { data, error } = await supabase.rpc('get_eligible_elections');
+
+  if (error) {
+    console.error('Error checking election eligibility:', error);
+    throw new Error("Failed to check which elections you can vote in");
+  }
+
+  return new Set(data);
+}
+
+/**
+ * How many identifiers are on an election's roster
+ */
+export async function fetchRosterSize(electionId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('election_roster')
+    .select('identifier', { count: 'exact', head: true })
+    .eq('election_id', electionId);
+
+  if (error) {
+    console.error('Error fetching roster:', error);
+    throw new Error("Failed to load the election roster");
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Replace an election's roster and return how many entries it now has
+ */
+export async function replaceRoster(electionId: string, identifiers: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('replace_election_roster', {
+    p_election_id: electionId,
+    p_identifiers: identifiers
+  });
+
+  if (error) {
+    console.error('Error replacing roster:', error);
+    throw new Error(error.message || "Failed to save the roster");
+  }
+
+  return data;
+}
+
+/**
+ * Set the attributes eligibility rules are matched against. Election officers only.
+ */
+export async function setVoterAttributes(userId: string, attributes: VoterAttributes): Promise<void> {
+  const { error } = await supabase.rpc('set_voter_attributes', {
+    p_user_id: userId,
+    p_student_id: attributes.studentId,
+    p_department: attributes.department,
+    p_year_of_study: attributes.yearOfStudy,
+    p_district: attributes.district
+  });
+
+  if (error) {
+    console.error('Error setting voter attributes:', error);
+    throw new Error(error.message || "Failed to save the voter's details");
+  }
+}
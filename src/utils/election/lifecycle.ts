@@ -0,0 +1,58 @@
+
+import type { ElectionStatus } from "../VotingContract";
+
+/**
+ * Work out where an election stands at the given moment. Published elections
+ * follow their dates, so this is right even before the database job has moved
+ * the stored status on. Must stay in sync with `election_phase` in the database.
+ */
+export function getElectionStatus(
+  status: string,
+  startDate: Date | string,
+  endDate: Date | string,
+  now: Date = new Date()
+): ElectionStatus {
+  if (status === 'draft' || status === 'certified') {
+    return status;
+  }
+
+  if (now < new Date(startDate)) {
+    return 'scheduled';
+  }
+
+  return now < new Date(endDate) ? 'open' : 'closed';
+}
+
+/**
+ * Whether voting has finished, so the tally can be committed and decrypted
+ */
+export function hasElectionClosed(
+  status: string,
+  startDate: Date | string,
+  endDate: Date | string,
+  now: Date = new Date()
+): boolean {
+  const current = getElectionStatus(status, startDate, endDate, now);
+  return current === 'closed' || current === 'certified';
+}
+
+/**
+ * Format the time left until a date, e.g. "2d 4h 10m" or "9m 05s"
+ */
+export function formatCountdown(until: Date | string, now: Date = new Date()): string {
+  const totalSeconds = Math.max(0, Math.floor((new Date(until).getTime() - now.getTime()) / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
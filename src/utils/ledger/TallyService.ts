@@ -0,0 +1,115 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { TallyCommitment, ReceiptProof } from "../VotingContract";
+import VoteLedger from "./VoteLedger";
+import { computeMerkleRoot, getMerkleProof, verifyMerkleProof } from "./merkle";
+
+interface TallyRow {
+  election_id: string;
+  merkle_root: string;
+  receipt_count: number;
+  tally: unknown;
+  committed_at: string;
+}
+
+/**
+ * Publishes a Merkle root over every vote receipt of a closed election,
+ * alongside the final tally, and issues per-receipt inclusion proofs
+ */
+class TallyService {
+  constructor(private ledger: VoteLedger) {}
+
+  /**
+   * Get the published commitment for an election, if it has been closed
+   */
+  public async getCommitment(electionId: string): Promise<TallyCommitment | null> {
+    const { data, error } = await supabase
+      .from('election_tallies')
+      .select('*')
+      .eq('election_id', String(electionId))
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching tally commitment:', error);
+      throw new Error("Failed to load the tally commitment");
+    }
+
+    return data ? this.mapRow(data) : null;
+  }
+
+  /**
+   * Compute the Merkle root over the election's receipts as they stand in the ledger now
+   */
+  public async computeRoot(electionId: string): Promise<string> {
+    const receipts = await this.getReceiptHashes(electionId);
+    return computeMerkleRoot(receipts);
+  }
+
+  /**
+   * Publish the Merkle root and tally for a closed election. The database
+   * computes both from the ledger and ballots, and only election officers may
+   * commit. Commitments are write-once; an existing commitment is returned unchanged.
+   */
+  public async commitTally(electionId: string): Promise<TallyCommitment> {
+    const { data, error } = await supabase.rpc('commit_election_tally', {
+      p_election_id: String(electionId)
+    });
+
+    if (error) {
+      console.error('Error committing tally:', error);
+      throw new Error(error.message || "Failed to commit the election tally");
+    }
+
+    return this.mapRow(data);
+  }
+
+  /**
+   * Build an inclusion proof for one receipt against the published root
+   */
+  public async getReceiptProof(electionId: string, receiptHash: string): Promise<ReceiptProof> {
+    const commitment = await this.getCommitment(electionId);
+    if (!commitment) {
+      throw new Error("The tally for this election has not been committed yet");
+    }
+
+    // Only the receipts that existed at commit time are covered by the root
+    const receipts = (await this.getReceiptHashes(electionId)).slice(0, commitment.receiptCount);
+    const leafIndex = receipts.indexOf(receiptHash);
+
+    if (leafIndex === -1) {
+      throw new Error("This receipt is not covered by the published tally");
+    }
+
+    const proof = await getMerkleProof(receipts, leafIndex);
+
+    if (!(await verifyMerkleProof(receiptHash, proof, commitment.merkleRoot))) {
+      throw new Error("The ledger no longer matches the published Merkle root");
+    }
+
+    return {
+      electionId: commitment.electionId,
+      receiptHash,
+      leafIndex,
+      receiptCount: commitment.receiptCount,
+      merkleRoot: commitment.merkleRoot,
+      proof
+    };
+  }
+
+  private async getReceiptHashes(electionId: string): Promise<string[]> {
+    const blocks = await this.ledger.getBlocks(electionId);
+    return blocks.map(block => block.blockHash);
+  }
+
+  private mapRow(row: TallyRow): TallyCommitment {
+    return {
+      electionId: row.election_id,
+      merkleRoot: row.merkle_root,
+      receiptCount: row.receipt_count,
+      tally: (row.tally || {}) as Record<string, number>,
+      committedAt: new Date(row.committed_at)
+    };
+  }
+}
+
+export default TallyService;
@@ -0,0 +1,250 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { LedgerBlock, ChainVerification, InclusionProof } from "../VotingContract";
+import { sha256Hex } from "../crypto/hash";
+
+// Previous hash used by the first block in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Number of rows fetched per request when walking the chain
+const PAGE_SIZE = 1000;
+
+interface LedgerRow {
+  block_number: number;
+  block_hash: string;
+  previous_hash: string;
+  election_id: string;
+  candidate_commitment: string;
+  created_at: string;
+}
+
+/**
+ * Append-only, hash-chained ledger of cast votes.
+ *
+ * Every block hash covers the previous block hash, the election, a salted
+ * commitment to the candidate and the block timestamp, so anyone can walk
+ * the `vote_ledger` table and recompute the chain. Blocks are appended by the
+ * `cast_vote` database function in the same transaction as the ballot.
+ */
+class VoteLedger {
+  /**
+   * Compute the commitment that hides the candidate behind a random salt.
+   * Must stay in sync with the `cast_vote` function in the database.
+   */
+  public async computeCommitment(electionId: string, candidateId: string, salt: string): Promise<string> {
+    return sha256Hex(`${electionId}|${candidateId}|${salt}`);
+  }
+
+  /**
+   * Compute a block hash from its contents. Must stay in sync with the
+   * `vote_ledger_validate_block` trigger and `append_ledger_block` function
+   * in the database.
+   */
+  public async computeBlockHash(
+    previousHash: string,
+    electionId: string,
+    candidateCommitment: string,
+    timestamp: Date
+  ): Promise<string> {
+    return sha256Hex(`${previousHash}|${electionId}|${candidateCommitment}|${timestamp.toISOString()}`);
+  }
+
+  /**
+   * Get the most recent block in the chain, or null if the chain is empty
+   */
+  public async getLatestBlock(): Promise<LedgerBlock | null> {
+    const { data, error } = await supabase
+      .from('vote_ledger')
+      .select('*')
+      .order('block_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching latest ledger block:', error);
+      throw new Error("Failed to read the vote ledger");
+    }
+
+    return data ? this.mapRow(data) : null;
+  }
+
+  /**
+   * Get the block with the given hash
+   */
+  public async getBlockByHash(blockHash: string): Promise<LedgerBlock | null> {
+    const { data, error } = await supabase
+      .from('vote_ledger')
+      .select('*')
+      .eq('block_hash', blockHash)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching ledger block:', error);
+      throw new Error("Failed to read the vote ledger");
+    }
+
+    return data ? this.mapRow(data) : null;
+  }
+
+  /**
+   * Get all blocks in chain order, optionally limited to one election
+   */
+  public async getBlocks(electionId?: string): Promise<LedgerBlock[]> {
+    const blocks: LedgerBlock[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('vote_ledger')
+        .select('*')
+        .order('block_number', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (electionId) {
+        query = query.eq('election_id', String(electionId));
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching ledger blocks:', error);
+        throw new Error("Failed to read the vote ledger");
+      }
+
+      blocks.push(...data.map(row => this.mapRow(row)));
+
+      if (data.length < PAGE_SIZE) {
+        return blocks;
+      }
+    }
+  }
+
+  /**
+   * Walk the whole chain and recompute every link and block hash
+   */
+  public async verifyChain(): Promise<ChainVerification> {
+    const blocks = await this.getBlocks();
+    let previousHash = GENESIS_HASH;
+
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i];
+
+      if (block.blockNumber !== i + 1) {
+        return this.brokenChain(blocks, block.blockNumber, `Expected block #${i + 1} but found #${block.blockNumber}`);
+      }
+
+      if (block.previousHash !== previousHash) {
+        return this.brokenChain(blocks, block.blockNumber, 'Previous hash does not match the preceding block');
+      }
+
+      const expectedHash = await this.computeBlockHash(
+        block.previousHash,
+        block.electionId,
+        block.candidateCommitment,
+        block.timestamp
+      );
+
+      if (block.blockHash !== expectedHash) {
+        return this.brokenChain(blocks, block.blockNumber, 'Block hash does not match its contents');
+      }
+
+      previousHash = block.blockHash;
+    }
+
+    return {
+      valid: true,
+      blockCount: blocks.length,
+      latestBlock: blocks.length > 0 ? blocks[blocks.length - 1] : null
+    };
+  }
+
+  /**
+   * Build a proof that the block with the given hash is part of the chain:
+   * the block itself plus every later block up to the head, each of which
+   * is re-hashed and checked to link to its predecessor
+   */
+  public async getInclusionProof(blockHash: string): Promise<InclusionProof | null> {
+    const block = await this.getBlockByHash(blockHash.trim().toLowerCase());
+
+    if (!block) {
+      return null;
+    }
+
+    const path: LedgerBlock[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('vote_ledger')
+        .select('*')
+        .gt('block_number', block.blockNumber)
+        .order('block_number', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching ledger blocks for inclusion proof:', error);
+        throw new Error("Failed to read the vote ledger");
+      }
+
+      path.push(...data.map(row => this.mapRow(row)));
+
+      if (data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const head = path.length > 0 ? path[path.length - 1] : block;
+    const proof: InclusionProof = {
+      block,
+      position: block.blockNumber,
+      chainLength: head.blockNumber,
+      headHash: head.blockHash,
+      path,
+      valid: true
+    };
+
+    let previous = block;
+    for (const current of [block, ...path]) {
+      const expectedHash = await this.computeBlockHash(
+        current.previousHash,
+        current.electionId,
+        current.candidateCommitment,
+        current.timestamp
+      );
+
+      if (current.blockHash !== expectedHash) {
+        return { ...proof, valid: false, reason: `Block #${current.blockNumber} hash does not match its contents` };
+      }
+
+      if (current !== block && current.previousHash !== previous.blockHash) {
+        return { ...proof, valid: false, reason: `Block #${current.blockNumber} does not link to block #${previous.blockNumber}` };
+      }
+
+      previous = current;
+    }
+
+    return proof;
+  }
+
+  private brokenChain(blocks: LedgerBlock[], blockNumber: number, reason: string): ChainVerification {
+    console.error(`Vote ledger verification failed at block #${blockNumber}: ${reason}`);
+    return {
+      valid: false,
+      blockCount: blocks.length,
+      latestBlock: blocks.length > 0 ? blocks[blocks.length - 1] : null,
+      brokenAtBlock: blockNumber,
+      reason
+    };
+  }
+
+  private mapRow(row: LedgerRow): LedgerBlock {
+    return {
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      previousHash: row.previous_hash,
+      electionId: row.election_id,
+      candidateCommitment: row.candidate_commitment,
+      timestamp: new Date(row.created_at)
+    };
+  }
+}
+
+export default VoteLedger;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_MERKLE_ROOT,
+  computeMerkleRoot,
+  getMerkleProof,
+  hashLeaf,
+  hashNode,
+  verifyMerkleProof
+} from "./merkle";
+
+const receipts = ["aa", "bb", "cc", "dd", "ee"];
+
+describe("computeMerkleRoot", () => {
+  it("uses the empty root when there are no receipts", async () => {
+    expect(await computeMerkleRoot([])).toBe(EMPTY_MERKLE_ROOT);
+  });
+
+  it("uses the leaf hash as the root of a single receipt", async () => {
+    expect(await computeMerkleRoot(["aa"])).toBe(await hashLeaf("aa"));
+  });
+
+  it("promotes an unpaired node instead of duplicating it", async () => {
+    const [a, b, c] = await Promise.all(receipts.slice(0, 3).map(hashLeaf));
+
+    expect(await computeMerkleRoot(receipts.slice(0, 3))).toBe(await hashNode(await hashNode(a, b), c));
+  });
+
+  it("depends on the order of the receipts", async () => {
+    expect(await computeMerkleRoot(["aa", "bb"])).not.toBe(await computeMerkleRoot(["bb", "aa"]));
+  });
+});
+
+describe("getMerkleProof", () => {
+  it("proves every receipt of an odd-sized tree against its root", async () => {
+    const root = await computeMerkleRoot(receipts);
+
+    for (let index = 0; index < receipts.length; index++) {
+      const proof = await getMerkleProof(receipts, index);
+      expect(await verifyMerkleProof(receipts[index], proof, root)).toBe(true);
+    }
+  });
+
+  it("rejects a receipt that is not in the tree", async () => {
+    const root = await computeMerkleRoot(receipts);
+    const proof = await getMerkleProof(receipts, 1);
+
+    expect(await verifyMerkleProof("ff", proof, root)).toBe(false);
+    await expect(getMerkleProof(receipts, receipts.length)).rejects.toThrow("Receipt is not part of this tree");
+  });
+});
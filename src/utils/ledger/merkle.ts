@@ -0,0 +1,97 @@
+
+import { sha256Hex } from "../crypto/hash";
+import { MerkleProofStep } from "../VotingContract";
+
+// Domain-separation prefixes so a leaf can never be passed off as an interior node
+const LEAF_PREFIX = '00';
+const NODE_PREFIX = '01';
+
+// Root of a tree with no leaves
+export const EMPTY_MERKLE_ROOT = '0'.repeat(64);
+
+export async function hashLeaf(receiptHash: string): Promise<string> {
+  return sha256Hex(`${LEAF_PREFIX}${receiptHash}`);
+}
+
+export async function hashNode(left: string, right: string): Promise<string> {
+  return sha256Hex(`${NODE_PREFIX}${left}${right}`);
+}
+
+/**
+ * Build every level of the tree, leaves first. An unpaired node at the end
+ * of a level is promoted unchanged rather than duplicated.
+ */
+async function buildLevels(receiptHashes: string[]): Promise<string[][]> {
+  const levels: string[][] = [await Promise.all(receiptHashes.map(hashLeaf))];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await hashNode(level[i], level[i + 1]) : level[i]);
+    }
+
+    levels.push(next);
+  }
+
+  return levels;
+}
+
+/**
+ * Compute the Merkle root over a list of receipt hashes, in ledger order
+ */
+export async function computeMerkleRoot(receiptHashes: string[]): Promise<string> {
+  if (receiptHashes.length === 0) {
+    return EMPTY_MERKLE_ROOT;
+  }
+
+  const levels = await buildLevels(receiptHashes);
+  return levels[levels.length - 1][0];
+}
+
+/**
+ * Get the sibling hashes needed to recompute the root from one receipt
+ */
+export async function getMerkleProof(receiptHashes: string[], index: number): Promise<MerkleProofStep[]> {
+  if (index < 0 || index >= receiptHashes.length) {
+    throw new Error("Receipt is not part of this tree");
+  }
+
+  const levels = await buildLevels(receiptHashes);
+  const proof: MerkleProofStep[] = [];
+  let position = index;
+
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const level = levels[depth];
+    const isRightChild = position % 2 === 1;
+    const siblingIndex = isRightChild ? position - 1 : position + 1;
+
+    // Promoted nodes have no sibling at this level
+    if (siblingIndex < level.length) {
+      proof.push({
+        position: isRightChild ? 'left' : 'right',
+        hash: level[siblingIndex]
+      });
+    }
+
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+/**
+ * Recompute the root from a receipt and its proof and compare it to the expected root
+ */
+export async function verifyMerkleProof(receiptHash: string, proof: MerkleProofStep[], root: string): Promise<boolean> {
+  let current = await hashLeaf(receiptHash);
+
+  for (const step of proof) {
+    current = step.position === 'left'
+      ? await hashNode(step.hash, current)
+      : await hashNode(current, step.hash);
+  }
+
+  return current === root;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { tabulateInstantRunoff } from "./instantRunoff";
+
+const repeat = (ranking: string[], times: number) => Array.from({ length: times }, () => ranking);
+
+describe("tabulateInstantRunoff", () => {
+  it("elects a first-round majority", () => {
+    const result = tabulateInstantRunoff(["a", "b"], [["a"], ["a"], ["b"]]);
+
+    expect(result.rounds).toHaveLength(1);
+    expect(result.winner).toBe("a");
+    expect(result.tied).toEqual([]);
+  });
+
+  it("leaves exhausted ballots out of the majority", () => {
+    const result = tabulateInstantRunoff(["a", "b", "c"], [
+      ...repeat(["a"], 3),
+      ...repeat(["b"], 2),
+      ["c"]
+    ]);
+
+    expect(result.rounds[0].eliminated).toBe("c");
+    expect(result.rounds[1]).toMatchObject({ counts: { a: 3, b: 2 }, exhausted: 1, winner: "a" });
+    expect(result.winner).toBe("a");
+  });
+
+  it("ignores unknown candidates and repeated rankings", () => {
+    const result = tabulateInstantRunoff(["a", "b"], [["x", "a", "a"], ["b", "b"], ["a"]]);
+
+    expect(result.rounds[0].counts).toEqual({ a: 2, b: 1 });
+    expect(result.winner).toBe("a");
+  });
+
+  it("breaks a tie for last place by the most recent round where they differed", () => {
+    const result = tabulateInstantRunoff(["a", "b", "c", "d"], [
+      ...repeat(["a"], 4),
+      ...repeat(["b"], 3),
+      ...repeat(["c"], 2),
+      ["d", "c"]
+    ]);
+
+    expect(result.rounds[1].counts).toEqual({ a: 4, b: 3, c: 3 });
+    expect(result.rounds[1].eliminated).toBe("c");
+    expect(result.rounds[2]).toMatchObject({ exhausted: 3, winner: "a" });
+  });
+
+  it("reports a tie no earlier round breaks and stops the count", () => {
+    const result = tabulateInstantRunoff(["a", "b", "c"], [["a"], ["b"], ["a", "c"], ["b", "c"]]);
+
+    expect(result.rounds.map(round => round.eliminated)).toEqual(["c", null]);
+    expect(result.rounds[1].counts).toEqual({ a: 2, b: 2 });
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(["a", "b"]);
+  });
+
+  it("eliminates candidates without votes without reporting a tie", () => {
+    const result = tabulateInstantRunoff(["a", "b", "c", "d", "e"], [
+      ...repeat(["a"], 2),
+      ...repeat(["b"], 2),
+      ["c", "a"]
+    ]);
+
+    expect(result.rounds.map(round => round.eliminated)).toEqual(["d", "e", "c", null]);
+    expect(result.winner).toBe("a");
+    expect(result.tied).toEqual([]);
+  });
+
+  it("has no winner without ballots", () => {
+    const result = tabulateInstantRunoff(["a", "b"], []);
+
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+
+import { RunoffResult, RunoffRound } from "../VotingContract";
+import { rankCandidates } from "./ties";
+
+/**
+ * Instant-runoff tabulation. Each round counts every ballot for its highest
+ * ranked continuing candidate. A candidate with a majority of the ballots still
+ * in play wins; otherwise the last-placed candidate is eliminated and their
+ * ballots move to the next preference. Ballots with no continuing preference
+ * are exhausted.
+ *
+ * Ties for last place follow the shared rule in ./ties: the most recent round
+ * where the tied candidates differed decides, and a tie no round breaks stops
+ * the count and is reported, so the same ballots always give the same result.
+ */
+export function tabulateInstantRunoff(candidateIds: string[], ballots: string[][]): RunoffResult {
+  const candidates = Array.from(new Set(candidateIds.map(String))).sort();
+  const known = new Set(candidates);
+
+  // Drop unknown candidates and repeated rankings rather than rejecting the ballot
+  const rankings = ballots.map(ranking =>
+    Array.from(new Set((ranking || []).map(String))).filter(id => known.has(id))
+  );
+
+  const continuing = new Set(candidates);
+  const rounds: RunoffRound[] = [];
+  let tied: string[] = [];
+
+  while (continuing.size > 0) {
+    const counts: Record<string, number> = {};
+    continuing.forEach(id => {
+      counts[id] = 0;
+    });
+
+    let exhausted = 0;
+    rankings.forEach(ranking => {
+      const preference = ranking.find(id => continuing.has(id));
+      if (preference) {
+        counts[preference]++;
+      } else {
+        exhausted++;
+      }
+    });
+
+    const round: RunoffRound = {
+      round: rounds.length + 1,
+      counts,
+      exhausted,
+      eliminated: null,
+      winner: null
+    };
+    rounds.push(round);
+
+    const active = rankings.length - exhausted;
+    if (active === 0) break;
+
+    const leader = Array.from(continuing).sort((a, b) => counts[b] - counts[a])[0];
+
+    if (continuing.size === 1 || counts[leader] * 2 > active) {
+      round.winner = leader;
+      break;
+    }
+
+    const earlierCounts = rounds.slice(0, -1).map(earlier => earlier.counts);
+    const [last] = rankCandidates(Array.from(continuing), counts, earlierCounts, 'lowest');
+
+    // Eliminating candidates with no votes moves no ballots, so their order cannot matter
+    if (last.length > 1 && counts[last[0]] > 0) {
+      tied = last;
+      break;
+    }
+
+    round.eliminated = last[0];
+    continuing.delete(round.eliminated);
+  }
+
+  const lastRound = rounds[rounds.length - 1];
+
+  return {
+    ballotCount: rankings.length,
+    rounds,
+    winner: lastRound ? lastRound.winner : null,
+    tied
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { allocateSeats, tallyChoices } from "./plurality";
+
+describe("tallyChoices", () => {
+  it("counts every selection on multi-choice ballots", () => {
+    expect(tallyChoices([
+      { candidate_id: "a" },
+      { candidate_id: null, selections: ["a", "b"] },
+      { candidate_id: null }
+    ])).toEqual({ a: 2, b: 1 });
+  });
+});
+
+describe("allocateSeats", () => {
+  it("fills seats with the candidates holding the most votes", () => {
+    expect(allocateSeats({ a: 3, b: 2, c: 1 }, 2)).toEqual({ elected: ["a", "b"], tied: [] });
+  });
+
+  it("reports candidates level for the last seat instead of electing one", () => {
+    expect(allocateSeats({ a: 3, b: 2, c: 2 }, 2)).toEqual({ elected: ["a"], tied: ["b", "c"] });
+  });
+
+  it("elects everyone level at the cutoff when they fit in the seats", () => {
+    expect(allocateSeats({ a: 3, b: 2, c: 2 }, 3)).toEqual({ elected: ["a", "b", "c"], tied: [] });
+  });
+
+  it("does not elect candidates without votes", () => {
+    expect(allocateSeats({ a: 1, b: 0 }, 2)).toEqual({ elected: ["a"], tied: [] });
+  });
+});
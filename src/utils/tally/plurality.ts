@@ -0,0 +1,59 @@
+import { rankCandidates } from "./ties";
+
+export interface CountableBallot {
+  candidate_id: string | null;
+  // Every candidate chosen on a multi-choice ballot
+  selections?: string[] | null;
+}
+
+export interface SeatAllocation {
+  elected: string[];
+  // Candidates level on votes for the last seat; none of them is marked elected
+  tied: string[];
+}
+
+/**
+ * Every candidate a ballot votes for: all of its selections on multi-choice
+ * ballots, otherwise its single choice.
+ */
+export function ballotChoices(ballot: CountableBallot): string[] {
+  if (ballot.selections && ballot.selections.length > 0) {
+    return ballot.selections;
+  }
+  return ballot.candidate_id ? [ballot.candidate_id] : [];
+}
+
+/**
+ * Count one vote for each candidate chosen on each ballot.
+ */
+export function tallyChoices(ballots: CountableBallot[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  ballots.forEach(ballot => {
+    ballotChoices(ballot).forEach(candidateId => {
+      counts[candidateId] = (counts[candidateId] || 0) + 1;
+    });
+  });
+
+  return counts;
+}
+
+/**
+ * Fill seats with the candidates holding the most votes. There are no earlier
+ * rounds to break ties with, so under the shared rule in ./ties candidates
+ * level for the last seat are never guessed in: they are returned as tied and
+ * the seat is left for the election officials to resolve.
+ */
+export function allocateSeats(counts: Record<string, number>, seats: number): SeatAllocation {
+  const candidates = Object.keys(counts).filter(candidateId => counts[candidateId] > 0);
+  const elected: string[] = [];
+
+  for (const group of rankCandidates(candidates, counts, [], 'highest')) {
+    if (elected.length + group.length > seats) {
+      return { elected, tied: elected.length < seats ? group : [] };
+    }
+    elected.push(...group);
+  }
+
+  return { elected, tied: [] };
+}
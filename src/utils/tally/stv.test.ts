@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { tabulateStv } from "./stv";
+
+const repeat = (ranking: string[], times: number) => Array.from({ length: times }, () => ranking);
+
+describe("tabulateStv", () => {
+  it("transfers a surplus at its fractional value", () => {
+    const result = tabulateStv(["a", "b", "c"], [
+      ...repeat(["a", "b"], 6),
+      ...repeat(["c"], 2),
+      ["b"]
+    ], 2);
+
+    expect(result.quota).toBe(4);
+    expect(result.stages[0].elected).toEqual(["a"]);
+    expect(result.stages[1]).toMatchObject({
+      kind: "surplus",
+      from: "a",
+      transferValue: 2 / 6,
+      received: { b: 1.99998 },
+      totals: { a: 4, b: 2.99998, c: 2 }
+    });
+    expect(result.stages[2]).toMatchObject({ kind: "exclusion", from: "c", exhausted: 2, elected: ["b"] });
+    expect(result.elected).toEqual(["a", "b"]);
+    expect(result.tied).toEqual([]);
+  });
+
+  it("exhausts surplus and excluded ballots with no hopeful preference left", () => {
+    const result = tabulateStv(["a", "b", "c"], [
+      ...repeat(["a"], 6),
+      ...repeat(["b"], 2),
+      ["c"]
+    ], 2);
+
+    expect(result.stages[1]).toMatchObject({ kind: "surplus", received: {}, exhausted: 1.99998 });
+    expect(result.stages[2]).toMatchObject({ kind: "exclusion", from: "c", exhausted: 2.99998 });
+    expect(result.elected).toEqual(["a", "b"]);
+  });
+
+  it("transfers equal surpluses of candidates tied at the quota before electing anyone else", () => {
+    const result = tabulateStv(["a", "b", "c", "d"], [
+      ...repeat(["a", "d"], 4),
+      ...repeat(["b", "c"], 4),
+      ["c"],
+      ...repeat(["d"], 2)
+    ], 3);
+
+    expect(result.quota).toBe(3);
+    expect(result.stages[0].elected).toEqual(["a", "b"]);
+    expect(result.stages[1]).toMatchObject({ kind: "surplus", from: "a", totals: { d: 3 }, elected: [] });
+    expect(result.stages[2]).toMatchObject({ kind: "surplus", from: "b", totals: { c: 2 }, elected: ["d"] });
+    expect(result.elected).toEqual(["a", "b", "d"]);
+    expect(result.tied).toEqual([]);
+  });
+
+  it("breaks a tie for exclusion by the most recent stage where they differed", () => {
+    const result = tabulateStv(["a", "b", "c", "d"], [
+      ...repeat(["a"], 4),
+      ...repeat(["b"], 3),
+      ...repeat(["c"], 2),
+      ["d", "c"]
+    ], 1);
+
+    expect(result.stages[1].totals).toMatchObject({ b: 3, c: 3 });
+    expect(result.stages[2].from).toBe("c");
+    expect(result.elected).toEqual(["a"]);
+  });
+
+  it("reports a tie for exclusion no earlier stage breaks and stops the count", () => {
+    const result = tabulateStv(["a", "b"], [["a"], ["b"]], 1);
+
+    expect(result.stages).toHaveLength(1);
+    expect(result.elected).toEqual([]);
+    expect(result.tied).toEqual(["a", "b"]);
+  });
+
+  it("reports candidates without votes when one of them would fill a seat", () => {
+    const result = tabulateStv(["a", "b", "c"], repeat(["c"], 5), 2);
+
+    expect(result.elected).toEqual(["c"]);
+    expect(result.tied).toEqual(["a", "b"]);
+  });
+
+  it("excludes candidates without votes when their order cannot matter", () => {
+    const result = tabulateStv(["a", "b", "c", "d", "e"], [
+      ...repeat(["a"], 2),
+      ...repeat(["b"], 2),
+      ["c", "a"]
+    ], 1);
+
+    expect(result.stages.slice(1).map(stage => stage.from)).toEqual(["d", "e", "c"]);
+    expect(result.elected).toEqual(["a"]);
+    expect(result.tied).toEqual([]);
+  });
+
+  it("gives the same result whatever order the ballots arrive in", () => {
+    const ballots = [
+      ...repeat(["a", "b", "c"], 5),
+      ...repeat(["b", "c"], 3),
+      ...repeat(["c", "a"], 4),
+      ...repeat(["d", "b"], 2)
+    ];
+
+    expect(tabulateStv(["d", "c", "b", "a"], [...ballots].reverse(), 2)).toEqual(tabulateStv(["a", "b", "c", "d"], ballots, 2));
+  });
+});
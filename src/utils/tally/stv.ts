@@ -0,0 +1,221 @@
+import type { StvResult, StvStage } from "../VotingContract";
+import { rankCandidates } from "./ties";
+
+// Ballot weights are whole numbers of 1/100000ths of a vote, so transfers are
+// exact integer arithmetic and truncate the same way on every machine
+const SCALE = 100000;
+
+interface WeightedBallot {
+  ranking: string[];
+  weight: number;
+}
+
+/**
+ * Single transferable vote with a Droop quota and fractional surplus transfer.
+ *
+ * Each stage either transfers the largest undistributed surplus of an elected
+ * candidate or, when there is none, excludes the candidate with the fewest
+ * votes. Surpluses move every ballot the candidate holds, each at its current
+ * weight multiplied by surplus / total and truncated to five decimal places.
+ * Ballots whose remaining preferences are all elected or excluded are exhausted.
+ *
+ * Ties follow the shared rule in ./ties: the most recent stage where the tied
+ * candidates differed decides, and a tie for a seat or for exclusion that no
+ * stage breaks stops the count and is reported, so the same ballots always
+ * give the same result. Has no dependencies beyond its input.
+ */
+export function tabulateStv(candidateIds: string[], ballots: string[][], seats: number): StvResult {
+  const candidates = Array.from(new Set(candidateIds.map(String))).sort();
+  const known = new Set(candidates);
+  const seatCount = Math.max(1, Math.floor(seats));
+
+  // Drop unknown candidates and repeated rankings rather than rejecting the ballot
+  const rankings = ballots
+    .map(ranking => Array.from(new Set((ranking || []).map(String))).filter(id => known.has(id)))
+    .filter(ranking => ranking.length > 0);
+
+  const quota = (Math.floor(rankings.length / (seatCount + 1)) + 1) * SCALE;
+
+  const piles: Record<string, WeightedBallot[]> = {};
+  candidates.forEach(id => {
+    piles[id] = [];
+  });
+
+  const hopeful = new Set(candidates);
+  const elected: string[] = [];
+  const pendingSurplus: string[] = [];
+  const stages: StvStage[] = [];
+  let tied: string[] = [];
+  let exhausted = 0;
+
+  // Hand a ballot to its next hopeful preference, or exhaust it
+  const place = (ballot: WeightedBallot, received: Record<string, number>) => {
+    const next = ballot.ranking.find(id => hopeful.has(id));
+    if (next) {
+      piles[next].push(ballot);
+      received[next] = (received[next] || 0) + ballot.weight;
+    } else {
+      exhausted += ballot.weight;
+    }
+  };
+
+  const totalOf = (id: string) => piles[id].reduce((sum, ballot) => sum + ballot.weight, 0);
+
+  const snapshot = (): Record<string, number> => {
+    const totals: Record<string, number> = {};
+    candidates.forEach(id => {
+      if (hopeful.has(id) || elected.includes(id)) {
+        totals[id] = totalOf(id);
+      }
+    });
+    return totals;
+  };
+
+  const earlierTotals = () => stages.map(stage => stage.totals);
+
+  // Elect everyone who has reached the quota, most votes first, unless they are
+  // tied for the last seats left
+  const electReachingQuota = (totals: Record<string, number>): string[] => {
+    const remainingSeats = seatCount - elected.length;
+    const reaching: string[] = [];
+
+    const groups = rankCandidates(
+      Array.from(hopeful).filter(id => totals[id] >= quota),
+      totals,
+      earlierTotals(),
+      'highest'
+    );
+    for (const group of groups) {
+      if (reaching.length + group.length > remainingSeats) {
+        if (reaching.length < remainingSeats) {
+          tied = group;
+        }
+        break;
+      }
+      reaching.push(...group);
+    }
+
+    reaching.forEach(id => {
+      hopeful.delete(id);
+      elected.push(id);
+      if (totals[id] > quota) {
+        pendingSurplus.push(id);
+      }
+    });
+
+    return reaching;
+  };
+
+  // Once the hopefuls just fill the remaining seats they are all elected
+  const electRemaining = (totals: Record<string, number>): string[] => {
+    const remainingSeats = seatCount - elected.length;
+    if (hopeful.size === 0 || hopeful.size > remainingSeats) {
+      return [];
+    }
+
+    const remaining = rankCandidates(Array.from(hopeful), totals, earlierTotals(), 'highest').flat();
+    remaining.forEach(id => {
+      hopeful.delete(id);
+      elected.push(id);
+    });
+    return remaining;
+  };
+
+  const recordStage = (
+    kind: StvStage['kind'],
+    from: string | null,
+    transferValue: number | null,
+    received: Record<string, number>,
+    elect = true
+  ) => {
+    const totals = snapshot();
+    const newlyElected = elect ? [...electReachingQuota(totals), ...electRemaining(totals)] : [];
+
+    stages.push({
+      stage: stages.length + 1,
+      kind,
+      from,
+      transferValue,
+      received: toVotes(received),
+      exhausted: exhausted / SCALE,
+      totals: toVotes(totals),
+      elected: newlyElected
+    });
+  };
+
+  // Stage 1: first preferences
+  const firstPreferences: Record<string, number> = {};
+  rankings.forEach(ranking => place({ ranking, weight: SCALE }, firstPreferences));
+  recordStage('first_preferences', null, null, firstPreferences);
+
+  while (elected.length < seatCount && tied.length === 0 && (hopeful.size > 0 || pendingSurplus.length > 0)) {
+    if (pendingSurplus.length > 0) {
+      // Transfer the largest surplus first. Equal surpluses that no stage separates
+      // are all transferred before anyone else is elected, so their order cannot matter.
+      const totals = snapshot();
+      const [largest] = rankCandidates(pendingSurplus, totals, earlierTotals(), 'highest');
+
+      largest.forEach((from, index) => {
+        pendingSurplus.splice(pendingSurplus.indexOf(from), 1);
+
+        const received: Record<string, number> = {};
+        const total = totals[from];
+        const surplus = total - quota;
+        const pile = piles[from];
+        piles[from] = [];
+
+        pile.forEach(ballot => {
+          const weight = Number((BigInt(ballot.weight) * BigInt(surplus)) / BigInt(total));
+          if (weight > 0) {
+            place({ ranking: ballot.ranking, weight }, received);
+          }
+        });
+
+        // The elected candidate keeps exactly a quota
+        piles[from] = [{ ranking: [], weight: quota }];
+
+        recordStage('surplus', from, surplus / total, received, index === largest.length - 1);
+      });
+    } else {
+      if (hopeful.size === 0) break;
+
+      // Exclude the candidate with the fewest votes and transfer every ballot at its current weight
+      const totals = snapshot();
+      const [fewest] = rankCandidates(Array.from(hopeful), totals, earlierTotals(), 'lowest');
+
+      // Excluding candidates with no votes moves no ballots, so their order only
+      // matters if one of them would be left to fill a seat
+      if (fewest.length > 1 && (totals[fewest[0]] > 0 || hopeful.size - fewest.length < seatCount - elected.length)) {
+        tied = fewest;
+        break;
+      }
+
+      const from = fewest[0];
+      hopeful.delete(from);
+
+      const received: Record<string, number> = {};
+      const pile = piles[from];
+      piles[from] = [];
+      pile.forEach(ballot => place(ballot, received));
+
+      recordStage('exclusion', from, 1, received);
+    }
+  }
+
+  return {
+    seats: seatCount,
+    ballotCount: rankings.length,
+    quota: quota / SCALE,
+    stages,
+    elected,
+    tied
+  };
+}
+
+function toVotes(values: Record<string, number>): Record<string, number> {
+  const votes: Record<string, number> = {};
+  Object.keys(values).sort().forEach(id => {
+    votes[id] = values[id] / SCALE;
+  });
+  return votes;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { rankCandidates } from "./ties";
+
+describe("rankCandidates", () => {
+  it("orders candidates by their totals", () => {
+    expect(rankCandidates(["a", "b", "c"], { a: 1, b: 3, c: 2 }, [], "highest")).toEqual([["b"], ["c"], ["a"]]);
+    expect(rankCandidates(["a", "b", "c"], { a: 1, b: 3, c: 2 }, [], "lowest")).toEqual([["a"], ["c"], ["b"]]);
+  });
+
+  it("separates level candidates by the most recent round where they differed", () => {
+    const history = [
+      { a: 5, b: 3, c: 4 },
+      { a: 0, b: 2, c: 2 }
+    ];
+
+    expect(rankCandidates(["a", "b", "c"], { a: 1, b: 1, c: 1 }, history, "lowest")).toEqual([["a"], ["b"], ["c"]]);
+  });
+
+  it("keeps candidates no round separates together", () => {
+    expect(rankCandidates(["b", "a"], { a: 2, b: 2 }, [{ a: 1, b: 1 }], "lowest")).toEqual([["a", "b"]]);
+  });
+});
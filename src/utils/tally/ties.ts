@@ -0,0 +1,56 @@
+/**
+ * The tie-break rule shared by every count.
+ *
+ * Candidates level on votes are separated by the most recent earlier round (an
+ * STV stage) in which their totals differed. The level candidates are compared
+ * as a group: each earlier round, latest first, splits them by their totals in
+ * that round, until every group holds one candidate or the rounds run out.
+ *
+ * Candidates that no earlier round separates are tied. When such a tie decides
+ * who wins a seat or who is eliminated, the count does not guess: it stops and
+ * reports the tied candidates for the election officials to resolve, as
+ * plurality seat allocation does for the last seat. Candidate IDs only order
+ * candidates where the order cannot change the outcome.
+ */
+export type TiePreference = 'highest' | 'lowest';
+
+/**
+ * Group candidates by their totals, most or fewest votes first. Each group holds
+ * candidates the current totals and the earlier rounds in `history` (oldest
+ * first) cannot separate, ordered by candidate ID.
+ */
+export function rankCandidates(
+  candidateIds: string[],
+  totals: Record<string, number>,
+  history: Record<string, number>[],
+  prefer: TiePreference
+): string[][] {
+  return splitByTotals(candidateIds, totals, prefer)
+    .flatMap(group => separateByHistory(group, history, prefer));
+}
+
+function separateByHistory(
+  group: string[],
+  history: Record<string, number>[],
+  prefer: TiePreference
+): string[][] {
+  if (group.length < 2 || history.length === 0) {
+    return [group];
+  }
+
+  const earlier = history[history.length - 1];
+  return splitByTotals(group, earlier, prefer)
+    .flatMap(subgroup => separateByHistory(subgroup, history.slice(0, -1), prefer));
+}
+
+function splitByTotals(
+  candidateIds: string[],
+  totals: Record<string, number>,
+  prefer: TiePreference
+): string[][] {
+  const votesOf = (id: string) => totals[id] ?? 0;
+  const levels = Array.from(new Set(candidateIds.map(votesOf)))
+    .sort((a, b) => prefer === 'highest' ? b - a : a - b);
+
+  return levels.map(level => candidateIds.filter(id => votesOf(id) === level).sort());
+}
@@ -0,0 +1,43 @@
+
+// Vote receipts are kept only on the voter's own device: the server no longer
+// stores anything that links a voter to their ballot or its transaction hash.
+
+export interface StoredReceipt {
+  electionId: string;
+  transactionHash: string;
+  candidateName: string;
+  candidateParty: string;
+  // Candidate names in order of preference, for ranked-choice elections
+  ranking?: string[];
+  // Every candidate name chosen, for multi-choice elections
+  selections?: string[];
+  timestamp: string;
+}
+
+const storageKey = (userId: string) => `securevote-receipts-${userId}`;
+
+// Function to get all receipts saved on this device for a user
+export function getReceipts(userId: string): StoredReceipt[] {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Failed to read stored vote receipts:', error);
+    return [];
+  }
+}
+
+// Function to get the receipt for one election, if this device has it
+export function getReceipt(userId: string, electionId: string): StoredReceipt | null {
+  return getReceipts(userId).find(receipt => receipt.electionId === String(electionId)) || null;
+}
+
+// Function to save a receipt on this device
+export function saveReceipt(userId: string, receipt: StoredReceipt) {
+  try {
+    const receipts = getReceipts(userId).filter(r => r.electionId !== receipt.electionId);
+    localStorage.setItem(storageKey(userId), JSON.stringify([receipt, ...receipts]));
+  } catch (error) {
+    console.error('Failed to store vote receipt:', error);
+  }
+}
@@ -1,19 +1,17 @@
 
 import { supabase } from "@/integrations/supabase/client";
 
-// Function to get voting history by user
+// Function to get the elections a user has taken part in
 export async function getUserVotingHistory(userId: string) {
   try {
     const { data, error } = await supabase
-      .from('votes')
+      .from('voter_participation')
       .select(`
         election_id,
-        candidate_id,
-        transaction_hash,
-        created_at
+        participated_at
       `)
       .eq('voter_id', userId)
-      .order('created_at', { ascending: false });
+      .order('participated_at', { ascending: false });
     
     if (error) {
       throw error;
@@ -26,28 +24,26 @@ export async function getUserVotingHistory(userId: string) {
   }
 }
 
-// Function to get all votes for analysis (admin only)
-export async function getAllVotes() {
-  try {
-    const { data, error } = await supabase
-      .from('votes')
-      .select(`
-        id,
-        voter_id,
-        election_id,
-        candidate_id,
-        created_at,
-        transaction_hash
-      `)
-      .order('created_at', { ascending: false });
-    
-    if (error) {
-      throw error;
-    }
-    
-    return data;
-  } catch (error) {
-    console.error('Failed to get all votes:', error);
-    return [];
+// Votes per candidate in an election; ballots themselves are not readable
+export async function getBallotCounts(electionId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('get_ballot_counts', { p_election_id: String(electionId) });
+
+  if (error) {
+    console.error('Error fetching ballot counts:', error);
+    throw new Error(error.message || "Failed to count votes");
+  }
+
+  return (data || {}) as Record<string, number>;
+}
+
+// Every ranking cast in a ranked-choice election, with nothing that identifies its ballot
+export async function getRankedBallots(electionId: string): Promise<string[][]> {
+  const { data, error } = await supabase.rpc('get_ranked_ballots', { p_election_id: String(electionId) });
+
+  if (error) {
+    console.error('Error fetching ranked ballots:', error);
+    throw new Error(error.message || "Failed to load the ranked ballots");
   }
+
+  return data || [];
 }
@@ -1,10 +1,14 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { Election, Candidate } from "../VotingContract";
+import { Election, Candidate, RunoffResult, StvResult, VotingMethod } from "../VotingContract";
+import { getElectionStatus } from "../election/lifecycle";
+import { tabulateInstantRunoff } from "../tally/instantRunoff";
+import { getBallotCounts, getRankedBallots } from "../vote/voteService";
+import { tabulateStv } from "../tally/stv";
 
 class ElectionService {
   /**
-   * Get all elections
+   * Get every published election that has not closed yet, upcoming ones included
    */
   public async getElections(): Promise<Election[]> {
     try {
@@ -17,9 +21,12 @@ class ElectionService {
           description, 
           start_date, 
           end_date, 
-          is_active
+          status,
+          voting_method,
+          seats,
+          max_selections
         `)
-        .eq('is_active', true);
+        .in('status', ['scheduled', 'open']);
       
       if (electionError) {
         console.error('Error fetching elections:', electionError);
@@ -50,7 +57,10 @@ class ElectionService {
             description: election.description || '',
             startDate: new Date(election.start_date),
             endDate: new Date(election.end_date),
-            isActive: election.is_active,
+            status: getElectionStatus(election.status, election.start_date, election.end_date),
+            votingMethod: election.voting_method as VotingMethod,
+            seats: election.seats,
+            maxSelections: election.max_selections,
             candidates: candidatesData.map(candidate => ({
               id: candidate.id,
               name: candidate.name,
@@ -61,7 +71,8 @@ class ElectionService {
         })
       );
       
-      const validElections = mappedElections.filter(election => election !== null);
+      // The stored status can trail the clock by up to a minute, so go by the dates
+      const validElections = mappedElections.filter(election => election !== null && election.status !== 'closed');
       return validElections.length > 0 ? validElections : this.elections;
     } catch (error) {
       console.error('Error in getElections:', error);
@@ -85,7 +96,10 @@ class ElectionService {
           description,
           start_date,
           end_date,
-          is_active
+          status,
+          voting_method,
+          seats,
+          max_selections
         `)
         .eq('id', strId)
         .maybeSingle();
@@ -112,24 +126,8 @@ class ElectionService {
         return undefined;
       }
       
-      // Get vote counts for each candidate
-      const { data: votes, error: votesError } = await supabase
-        .from('votes')
-        .select('candidate_id')
-        .eq('election_id', strId);
-        
-      if (votesError) {
-        console.error(`Error fetching votes for election ${strId}:`, votesError);
-      }
-      
-      // Count votes per candidate
-      const voteCounts: Record<string, number> = {};
-      if (votes && votes.length > 0) {
-        votes.forEach(vote => {
-          const candidateId = vote.candidate_id;
-          voteCounts[candidateId] = (voteCounts[candidateId] || 0) + 1;
-        });
-      }
+      // Count votes per candidate, including every choice on multi-choice ballots
+      const voteCounts = await getBallotCounts(strId).catch(() => ({} as Record<string, number>));
       
       return {
         id: election.id,
@@ -137,7 +135,10 @@ class ElectionService {
         description: election.description || '',
         startDate: new Date(election.start_date),
         endDate: new Date(election.end_date),
-        isActive: election.is_active,
+        status: getElectionStatus(election.status, election.start_date, election.end_date),
+        votingMethod: election.voting_method as VotingMethod,
+        seats: election.seats,
+        maxSelections: election.max_selections,
         candidates: candidatesData.map(candidate => ({
           id: candidate.id,
           name: candidate.name,
@@ -152,6 +153,56 @@ class ElectionService {
     }
   }
   
+  /**
+   * Run the instant-runoff count for a ranked-choice election
+   */
+  public async getRunoffResult(electionId: string): Promise<RunoffResult> {
+    const { candidateIds, rankings } = await this.getRankedBallots(String(electionId));
+    return tabulateInstantRunoff(candidateIds, rankings);
+  }
+  
+  /**
+   * Run the single transferable vote count for a multi-seat ranked-choice election
+   */
+  public async getStvResult(electionId: string): Promise<StvResult> {
+    const strElectionId = String(electionId);
+    
+    const { data: election, error: electionError } = await supabase
+      .from('elections')
+      .select('seats')
+      .eq('id', strElectionId)
+      .maybeSingle();
+      
+    if (electionError) {
+      console.error(`Error fetching election ${strElectionId}:`, electionError);
+      throw new Error("Failed to fetch election data");
+    }
+    
+    if (!election) {
+      throw new Error("Election not found");
+    }
+    
+    const { candidateIds, rankings } = await this.getRankedBallots(strElectionId);
+    return tabulateStv(candidateIds, rankings, election.seats);
+  }
+  
+  private async getRankedBallots(electionId: string): Promise<{ candidateIds: string[]; rankings: string[][] }> {
+    const { data: candidatesData, error: candidatesError } = await supabase
+      .from('candidates')
+      .select('id')
+      .eq('election_id', electionId);
+      
+    if (candidatesError) {
+      console.error(`Error fetching candidates for election ${electionId}:`, candidatesError);
+      throw new Error("Failed to fetch candidate data");
+    }
+    
+    return {
+      candidateIds: candidatesData.map(candidate => candidate.id),
+      rankings: await getRankedBallots(electionId)
+    };
+  }
+  
   /**
    * Check if a user has voted in a specific election
    */
@@ -162,9 +213,9 @@ class ElectionService {
       
       console.log(`Checking if user ${userId} has voted in election ${strElectionId}`);
       
-      // Check in Supabase if the user has voted
+      // Check in Supabase if the user has taken part in this election
       const { count, error } = await supabase
-        .from('votes')
+        .from('voter_participation')
         .select('*', { count: 'exact', head: true })
         .eq('voter_id', userId)
         .eq('election_id', strElectionId);
@@ -197,7 +248,7 @@ class ElectionService {
         { id: "2", name: "Candidate 2", party: "Party 2", voteCount: 20},
         { id: "3", name: "Candidate 3", party: "Party 3", voteCount: 30}
       ],
-      isActive: true
+      status: 'open'
     },
     {
       id: "2",
@@ -209,7 +260,7 @@ class ElectionService {
         { id: "1", name: "Candidate 1", party: "Party 1", voteCount: 30 },
         { id: "2", name: "Candidate 2", party: "Party 2", voteCount: 40}
       ],
-      isActive: true
+      status: 'open'
     }
   ];
   
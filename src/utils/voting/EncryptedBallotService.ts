@@ -0,0 +1,710 @@
+
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import {
+  DecryptionStatus,
+  ElectionTrustee,
+  EncryptedBallot,
+  KeyCeremony,
+  SerializedEqualityProof,
+  TrusteeKeyShare
+} from "../VotingContract";
+import { hasElectionClosed } from "../election/lifecycle";
+import {
+  Ciphertext,
+  EqualityProof,
+  G,
+  IDENTITY_CIPHERTEXT,
+  P,
+  Q,
+  combineDecryptionShares,
+  commitPolynomial,
+  createDecryptionShare,
+  createPolynomial,
+  encrypt,
+  evaluateCommitments,
+  evaluatePolynomial,
+  fromHex,
+  isGroupElement,
+  modPow,
+  multiplyCiphertexts,
+  openShare,
+  proveBit,
+  proveEncryptsOne,
+  proveKnowledge,
+  randomScalar,
+  sealShare,
+  toHex,
+  uuidToScalar,
+  verifyBit,
+  verifyDecryptionShare,
+  verifyEncryptsOne
+} from "../crypto/elgamal";
+
+// Number of ballots fetched per request when aggregating
+const PAGE_SIZE = 1000;
+
+interface ElectionKey {
+  publicKey: bigint;
+  threshold: number;
+  trustees: ElectionTrustee[];
+}
+
+interface SerializedCiphertext {
+  alpha: string;
+  beta: string;
+}
+
+interface DecryptionShareRow {
+  candidateId: string;
+  share: string;
+  proof: SerializedEqualityProof;
+}
+
+// A dealt value sealed to one trustee's transport key
+interface SerializedSealedShare {
+  trusteeIndex: number;
+  ephemeral: string;
+  masked: string;
+}
+
+interface Aggregate {
+  ciphertexts: Record<string, Ciphertext>;
+  ballotCount: number;
+}
+
+/**
+ * Encrypted ballot mode. Voters encrypt a 0/1 vote per candidate under the
+ * election public key, ballots are multiplied together into one ciphertext per
+ * candidate, and only the aggregate is ever decrypted, by a threshold of
+ * trustees once the election has closed. The trustees generate the election
+ * key between them, so no one ever holds the whole secret.
+ */
+class EncryptedBallotService {
+  /**
+   * Name the trustees of a draft election by account email. They then generate
+   * the election key between them from their profile pages.
+   */
+  public async registerTrustees(electionId: string, threshold: number, trusteeEmails: string[]): Promise<void> {
+    const emails = trusteeEmails.map(email => email.trim()).filter(email => email.length > 0);
+
+    if (emails.length === 0) {
+      throw new Error("At least one trustee is required");
+    }
+
+    const { error } = await supabase.rpc('register_election_trustees', {
+      p_election_id: String(electionId),
+      p_threshold: threshold,
+      p_emails: emails
+    });
+
+    if (error) {
+      console.error('Error registering trustees:', error);
+      throw new Error(error.message || "Failed to register the election trustees");
+    }
+  }
+
+  /**
+   * The signed-in user's trustee seats and the state of each key ceremony
+   */
+  public async getKeyCeremonies(): Promise<KeyCeremony[]> {
+    const { data, error } = await supabase.rpc('get_key_ceremonies');
+
+    if (error) {
+      console.error('Error fetching key ceremonies:', error);
+      throw new Error(error.message || "Failed to load your trustee duties");
+    }
+
+    return (data || []).map(row => ({
+      electionId: row.election_id,
+      electionTitle: row.election_title,
+      trusteeIndex: row.trustee_index,
+      trusteeName: row.trustee_name,
+      threshold: row.threshold,
+      trusteeCount: row.trustee_count,
+      joinedCount: row.joined_count,
+      dealtCount: row.dealt_count,
+      hasJoined: row.has_joined,
+      hasDealt: row.has_dealt,
+      publicKey: row.public_key
+    }));
+  }
+
+  /**
+   * Publish a fresh transport key for the signed-in trustee. Returns the key
+   * file holding its secret, which the trustee must keep to decrypt the tally.
+   */
+  public async joinKeyCeremony(electionId: string): Promise<TrusteeKeyShare> {
+    const strElectionId = String(electionId);
+    const ceremony = await this.getKeyCeremony(strElectionId);
+
+    if (ceremony.hasJoined) {
+      throw new Error("You have already joined the key ceremony for this election");
+    }
+
+    const transportSecret = randomScalar();
+    const transportKey = modPow(G, transportSecret, P);
+
+    const { error } = await supabase.rpc('publish_trustee_transport_key', {
+      p_election_id: strElectionId,
+      p_transport_key: toHex(transportKey)
+    });
+
+    if (error) {
+      console.error('Error publishing transport key:', error);
+      throw new Error(error.message || "Failed to join the key ceremony");
+    }
+
+    return {
+      electionId: strElectionId,
+      electionTitle: ceremony.electionTitle,
+      trusteeIndex: ceremony.trusteeIndex,
+      trusteeName: ceremony.trusteeName,
+      transportKey: toHex(transportKey),
+      transportSecret: toHex(transportSecret)
+    };
+  }
+
+  /**
+   * Deal the signed-in trustee's contribution to the election key: commit to a
+   * random polynomial and seal its value at each trustee's index to them. The
+   * polynomial is discarded once the dealing is published.
+   */
+  public async submitKeyDealing(electionId: string): Promise<void> {
+    const strElectionId = String(electionId);
+    const ceremony = await this.getKeyCeremony(strElectionId);
+
+    if (ceremony.hasDealt) {
+      throw new Error("You have already dealt for this election");
+    }
+
+    if (ceremony.joinedCount < ceremony.trusteeCount) {
+      throw new Error("Every trustee must join the key ceremony before anyone deals");
+    }
+
+    const { data: trustees, error: trusteesError } = await supabase
+      .from('election_trustees')
+      .select('trustee_index, transport_key')
+      .eq('election_id', strElectionId)
+      .order('trustee_index', { ascending: true });
+
+    if (trusteesError) {
+      console.error('Error fetching election trustees:', trusteesError);
+      throw new Error("Failed to load the election trustees");
+    }
+
+    const context = uuidToScalar(strElectionId);
+    const coefficients = createPolynomial(ceremony.threshold);
+    const commitments = commitPolynomial(coefficients);
+    const proof = await proveKnowledge(commitments[0], coefficients[0], [context, BigInt(ceremony.trusteeIndex)]);
+
+    const sealedShares: SerializedSealedShare[] = [];
+    for (const trustee of trustees) {
+      const transportKey = fromHex(trustee.transport_key);
+      if (!isGroupElement(transportKey)) {
+        throw new Error(`Trustee ${trustee.trustee_index} has an invalid transport key`);
+      }
+
+      const sealed = await sealShare(
+        transportKey,
+        evaluatePolynomial(coefficients, trustee.trustee_index),
+        [context, BigInt(ceremony.trusteeIndex), BigInt(trustee.trustee_index)]
+      );
+
+      sealedShares.push({
+        trusteeIndex: trustee.trustee_index,
+        ephemeral: toHex(sealed.ephemeral),
+        masked: toHex(sealed.masked)
+      });
+    }
+
+    const { error } = await supabase.rpc('submit_key_dealing', {
+      p_election_id: strElectionId,
+      p_commitments: commitments.map(toHex) as unknown as Json,
+      p_proof: this.serializeProof(proof) as unknown as Json,
+      p_sealed_shares: sealedShares as unknown as Json
+    });
+
+    if (error) {
+      console.error('Error submitting key dealing:', error);
+      throw new Error(error.message || "Failed to submit your key dealing");
+    }
+  }
+
+  /**
+   * Encrypt a vote for one candidate as a 0/1 ciphertext per candidate, with
+   * proofs that each is 0 or 1 and that exactly one is 1
+   */
+  public async encryptBallot(electionId: string, candidateIds: string[], candidateId: string): Promise<EncryptedBallot> {
+    const { publicKey } = await this.getElectionKey(electionId);
+    const strCandidateIds = candidateIds.map(String);
+
+    if (!strCandidateIds.includes(String(candidateId))) {
+      throw new Error("Candidate not found");
+    }
+
+    const ballotId = crypto.randomUUID();
+    const context = this.ballotContext(electionId, ballotId);
+    const choices: EncryptedBallot['choices'] = [];
+    let total = IDENTITY_CIPHERTEXT;
+    let totalRandomness = 0n;
+
+    for (const id of strCandidateIds) {
+      const bit = id === String(candidateId) ? 1 : 0;
+      const randomness = randomScalar();
+      const ciphertext = encrypt(publicKey, bit, randomness);
+      const proof = await proveBit(publicKey, ciphertext, bit, randomness, context);
+
+      choices.push({
+        candidateId: id,
+        alpha: toHex(ciphertext.alpha),
+        beta: toHex(ciphertext.beta),
+        proof: {
+          c0: toHex(proof.c0),
+          c1: toHex(proof.c1),
+          s0: toHex(proof.s0),
+          s1: toHex(proof.s1)
+        }
+      });
+
+      total = multiplyCiphertexts(total, ciphertext);
+      totalRandomness = (totalRandomness + randomness) % Q;
+    }
+
+    const sumProof = await proveEncryptsOne(publicKey, total, totalRandomness);
+
+    return {
+      ballotId,
+      choices,
+      sumProof: this.serializeProof(sumProof)
+    };
+  }
+
+  /**
+   * Check every proof on a ballot. Malformed ballots are invalid rather than errors.
+   */
+  public async verifyBallot(electionId: string, publicKey: bigint, ballot: EncryptedBallot): Promise<boolean> {
+    try {
+      if (!ballot || !Array.isArray(ballot.choices) || ballot.choices.length === 0) {
+        return false;
+      }
+
+      const context = this.ballotContext(electionId, ballot.ballotId);
+
+      const candidateIds = new Set(ballot.choices.map(choice => choice.candidateId));
+      if (candidateIds.size !== ballot.choices.length) {
+        return false;
+      }
+
+      let total = IDENTITY_CIPHERTEXT;
+
+      for (const choice of ballot.choices) {
+        const ciphertext = this.parseCiphertext(choice);
+        if (!isGroupElement(ciphertext.alpha) || !isGroupElement(ciphertext.beta)) {
+          return false;
+        }
+
+        const proof = {
+          c0: fromHex(choice.proof.c0),
+          c1: fromHex(choice.proof.c1),
+          s0: fromHex(choice.proof.s0),
+          s1: fromHex(choice.proof.s1)
+        };
+
+        if (!(await verifyBit(publicKey, ciphertext, proof, context))) {
+          return false;
+        }
+
+        total = multiplyCiphertexts(total, ciphertext);
+      }
+
+      return verifyEncryptsOne(publicKey, total, this.parseProof(ballot.sumProof));
+    } catch (error) {
+      console.warn('Rejecting malformed encrypted ballot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Decrypt a trustee's share of the aggregate and publish it with proofs
+   */
+  public async submitDecryptionShare(keyShare: TrusteeKeyShare): Promise<void> {
+    const strElectionId = String(keyShare.electionId);
+    const { publicKey, trustees } = await this.getElectionKey(strElectionId);
+
+    const trustee = trustees.find(t => t.index === keyShare.trusteeIndex);
+    const secret = await this.deriveSecretShare(keyShare);
+    const verificationKey = modPow(G, secret, P);
+
+    if (!trustee || toHex(verificationKey) !== trustee.verificationKey) {
+      throw new Error("This key file does not belong to a trustee of this election");
+    }
+
+    if (!(await this.isElectionClosed(strElectionId))) {
+      throw new Error("Ballots stay sealed until the election closes");
+    }
+
+    const candidateIds = await this.getCandidateIds(strElectionId);
+    const aggregate = await this.aggregateBallots(strElectionId, publicKey, candidateIds);
+
+    const shares: DecryptionShareRow[] = [];
+    for (const candidateId of candidateIds) {
+      const { share, proof } = await createDecryptionShare(aggregate.ciphertexts[candidateId], {
+        index: trustee.index,
+        secret,
+        verificationKey
+      });
+
+      shares.push({ candidateId, share: toHex(share), proof: this.serializeProof(proof) });
+    }
+
+    const { error } = await supabase
+      .from('election_decryptions')
+      .insert({
+        election_id: strElectionId,
+        trustee_index: trustee.index,
+        ballot_count: aggregate.ballotCount,
+        aggregate: this.serializeAggregate(aggregate.ciphertexts) as unknown as Json,
+        shares: shares as unknown as Json
+      });
+
+    if (error) {
+      console.error('Error submitting decryption share:', error);
+      throw new Error("Failed to submit the decryption share");
+    }
+  }
+
+  /**
+   * Check the published decryption shares and, once a threshold of trustees
+   * agree on the same aggregate, combine them into the final tally
+   */
+  public async getDecryptionStatus(electionId: string): Promise<DecryptionStatus> {
+    const strElectionId = String(electionId);
+    const { threshold, trustees } = await this.getElectionKey(strElectionId);
+
+    const { data: rows, error } = await supabase
+      .from('election_decryptions')
+      .select('trustee_index, ballot_count, aggregate, shares')
+      .eq('election_id', strElectionId)
+      .order('submitted_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching decryption shares:', error);
+      throw new Error("Failed to load the decryption shares");
+    }
+
+    // Group verified submissions by the aggregate they decrypt, one per trustee
+    const groups = new Map<string, { row: typeof rows[number]; shares: Map<number, DecryptionShareRow[]> }>();
+
+    for (const row of rows) {
+      const trustee = trustees.find(t => t.index === row.trustee_index);
+      const shares = row.shares as unknown as DecryptionShareRow[];
+
+      if (!trustee || !(await this.verifyShares(row.aggregate as unknown as Record<string, SerializedCiphertext>, trustee, shares))) {
+        console.warn(`Ignoring invalid decryption share from trustee ${row.trustee_index}`);
+        continue;
+      }
+
+      const key = `${row.ballot_count}|${JSON.stringify(row.aggregate)}`;
+      if (!groups.has(key)) {
+        groups.set(key, { row, shares: new Map() });
+      }
+
+      const group = groups.get(key);
+      if (!group.shares.has(trustee.index)) {
+        group.shares.set(trustee.index, shares);
+      }
+    }
+
+    const best = Array.from(groups.values()).sort((a, b) => b.shares.size - a.shares.size)[0];
+
+    const status: DecryptionStatus = {
+      electionId: strElectionId,
+      threshold,
+      trustees,
+      decryptedBy: best ? Array.from(best.shares.keys()) : [],
+      ballotCount: best ? best.row.ballot_count : 0,
+      tally: null
+    };
+
+    if (!best || best.shares.size < threshold) {
+      return status;
+    }
+
+    const aggregate = best.row.aggregate as unknown as Record<string, SerializedCiphertext>;
+    const tally: Record<string, number> = {};
+
+    for (const candidateId of Object.keys(aggregate)) {
+      const count = combineDecryptionShares(
+        this.parseCiphertext(aggregate[candidateId]),
+        Array.from(best.shares.entries()).map(([index, shares]) => ({
+          index,
+          share: fromHex(shares.find(share => share.candidateId === candidateId).share)
+        })),
+        status.ballotCount
+      );
+
+      if (count === null) {
+        console.error(`Decrypted count for candidate ${candidateId} is out of range`);
+        return status;
+      }
+
+      tally[candidateId] = count;
+    }
+
+    return { ...status, tally };
+  }
+
+  private async getElectionKey(electionId: string): Promise<ElectionKey> {
+    const { data: election, error: electionError } = await supabase
+      .from('elections')
+      .select('encryption_public_key, decryption_threshold')
+      .eq('id', String(electionId))
+      .maybeSingle();
+
+    if (electionError) {
+      console.error('Error fetching election key:', electionError);
+      throw new Error("Failed to fetch election data");
+    }
+
+    if (!election?.encryption_public_key) {
+      throw new Error("This election has no encryption key");
+    }
+
+    const { data: trustees, error: trusteesError } = await supabase
+      .from('election_trustees')
+      .select('trustee_index, name, verification_key')
+      .eq('election_id', String(electionId))
+      .order('trustee_index', { ascending: true });
+
+    if (trusteesError) {
+      console.error('Error fetching election trustees:', trusteesError);
+      throw new Error("Failed to load the election trustees");
+    }
+
+    return {
+      publicKey: fromHex(election.encryption_public_key),
+      threshold: election.decryption_threshold,
+      trustees: trustees.map(trustee => ({
+        index: trustee.trustee_index,
+        name: trustee.name,
+        verificationKey: trustee.verification_key
+      }))
+    };
+  }
+
+  private async getKeyCeremony(electionId: string): Promise<KeyCeremony> {
+    const ceremony = (await this.getKeyCeremonies()).find(c => c.electionId === electionId);
+
+    if (!ceremony) {
+      throw new Error("You are not a trustee of this election");
+    }
+
+    if (ceremony.publicKey) {
+      throw new Error("The key ceremony for this election is over");
+    }
+
+    return ceremony;
+  }
+
+  /**
+   * A trustee's secret share: the sum of the values every trustee dealt to
+   * them, each opened with their transport secret and checked against the
+   * dealer's commitments
+   */
+  private async deriveSecretShare(keyShare: TrusteeKeyShare): Promise<bigint> {
+    const strElectionId = String(keyShare.electionId);
+
+    const { data: dealings, error } = await supabase
+      .from('election_key_dealings')
+      .select('trustee_index, commitments, sealed_shares')
+      .eq('election_id', strElectionId)
+      .order('trustee_index', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching key dealings:', error);
+      throw new Error("Failed to load the key dealings");
+    }
+
+    const transportSecret = fromHex(keyShare.transportSecret);
+    const context = uuidToScalar(strElectionId);
+    let secret = 0n;
+
+    for (const dealing of dealings) {
+      const sealed = (dealing.sealed_shares as unknown as SerializedSealedShare[])
+        .find(share => share.trusteeIndex === keyShare.trusteeIndex);
+      const commitments = (dealing.commitments as unknown as string[]).map(fromHex);
+
+      const value = sealed ? await openShare(
+        transportSecret,
+        { ephemeral: fromHex(sealed.ephemeral), masked: fromHex(sealed.masked) },
+        [context, BigInt(dealing.trustee_index), BigInt(keyShare.trusteeIndex)]
+      ) : null;
+
+      if (value === null || modPow(G, value, P) !== evaluateCommitments(commitments, keyShare.trusteeIndex)) {
+        throw new Error(`Trustee ${dealing.trustee_index} did not deal you a valid share of the election key`);
+      }
+
+      secret = (secret + value) % Q;
+    }
+
+    return secret;
+  }
+
+  private ballotContext(electionId: string, ballotId: string): bigint[] {
+    return [uuidToScalar(electionId), uuidToScalar(ballotId)];
+  }
+
+  // Every ciphertext on the ballot. Honest ballots never share one, so a
+  // ballot reusing any ciphertext from an earlier one is a copy.
+  private ballotFingerprints(ballot: EncryptedBallot): string[] {
+    if (!Array.isArray(ballot?.choices)) {
+      return [];
+    }
+
+    return ballot.choices.map(choice => `${choice.alpha}:${choice.beta}`);
+  }
+
+  private async isElectionClosed(electionId: string): Promise<boolean> {
+    const { data: election, error } = await supabase
+      .from('elections')
+      .select('status, start_date, end_date')
+      .eq('id', electionId)
+      .maybeSingle();
+
+    if (error || !election) {
+      console.error('Error fetching election:', error);
+      throw new Error("Failed to fetch election data");
+    }
+
+    return hasElectionClosed(election.status, election.start_date, election.end_date);
+  }
+
+  private async getCandidateIds(electionId: string): Promise<string[]> {
+    const { data: candidates, error } = await supabase
+      .from('candidates')
+      .select('id')
+      .eq('election_id', electionId)
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching candidates:', error);
+      throw new Error("Failed to fetch candidate data");
+    }
+
+    return candidates.map(candidate => candidate.id);
+  }
+
+  /**
+   * Multiply every valid ballot into one ciphertext per candidate. Ballots with
+   * bad proofs, proofs made for another ballot, and copies of earlier ballots
+   * are left out.
+   */
+  private async aggregateBallots(electionId: string, publicKey: bigint, candidateIds: string[]): Promise<Aggregate> {
+    const ciphertexts: Record<string, Ciphertext> = {};
+    candidateIds.forEach(id => {
+      ciphertexts[id] = IDENTITY_CIPHERTEXT;
+    });
+
+    const seen = new Set<string>();
+    let ballotCount = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: ballots, error } = await supabase
+        .from('ballots')
+        .select('ballot_id, encrypted_choice')
+        .eq('election_id', electionId)
+        .not('encrypted_choice', 'is', null)
+        .order('ballot_id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching encrypted ballots:', error);
+        throw new Error("Failed to load the encrypted ballots");
+      }
+
+      for (const { ballot_id, encrypted_choice } of ballots) {
+        const ballot = encrypted_choice as unknown as EncryptedBallot;
+        const fingerprints = this.ballotFingerprints(ballot);
+
+        if (
+          fingerprints.length === 0
+          || fingerprints.some(fingerprint => seen.has(fingerprint))
+          || ballot.ballotId !== ballot_id
+          || !(await this.verifyBallot(electionId, publicKey, ballot))
+        ) {
+          console.warn(`Skipping invalid or duplicate encrypted ballot ${ballot_id}`);
+          continue;
+        }
+
+        fingerprints.forEach(fingerprint => seen.add(fingerprint));
+        ballotCount++;
+
+        for (const choice of ballot.choices) {
+          if (ciphertexts[choice.candidateId]) {
+            ciphertexts[choice.candidateId] = multiplyCiphertexts(ciphertexts[choice.candidateId], this.parseCiphertext(choice));
+          }
+        }
+      }
+
+      if (ballots.length < PAGE_SIZE) {
+        return { ciphertexts, ballotCount };
+      }
+    }
+  }
+
+  private async verifyShares(
+    aggregate: Record<string, SerializedCiphertext>,
+    trustee: ElectionTrustee,
+    shares: DecryptionShareRow[]
+  ): Promise<boolean> {
+    try {
+      const verificationKey = fromHex(trustee.verificationKey);
+
+      for (const candidateId of Object.keys(aggregate)) {
+        const share = shares.find(s => s.candidateId === candidateId);
+        if (!share) {
+          return false;
+        }
+
+        const valid = await verifyDecryptionShare(
+          this.parseCiphertext(aggregate[candidateId]),
+          verificationKey,
+          fromHex(share.share),
+          this.parseProof(share.proof)
+        );
+
+        if (!valid) {
+          return false;
+        }
+      }
+
+      return true;
+    } catch (error) {
+      console.warn('Rejecting malformed decryption share:', error);
+      return false;
+    }
+  }
+
+  private parseCiphertext(value: SerializedCiphertext): Ciphertext {
+    return { alpha: fromHex(value.alpha), beta: fromHex(value.beta) };
+  }
+
+  private parseProof(proof: SerializedEqualityProof): EqualityProof {
+    return { challenge: fromHex(proof.challenge), response: fromHex(proof.response) };
+  }
+
+  private serializeProof(proof: EqualityProof): SerializedEqualityProof {
+    return { challenge: toHex(proof.challenge), response: toHex(proof.response) };
+  }
+
+  private serializeAggregate(ciphertexts: Record<string, Ciphertext>): Record<string, SerializedCiphertext> {
+    const serialized: Record<string, SerializedCiphertext> = {};
+    Object.keys(ciphertexts).sort().forEach(id => {
+      serialized[id] = { alpha: toHex(ciphertexts[id].alpha), beta: toHex(ciphertexts[id].beta) };
+    });
+    return serialized;
+  }
+}
+
+export default EncryptedBallotService;
@@ -1,171 +1,84 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { VoteTransaction } from "../VotingContract";
-import { storeVotingHistory } from "../storage/supabaseStorageService";
+import { CastVoteOptions, VoteTransaction } from "../VotingContract";
+import { Json } from "@/integrations/supabase/types";
+import VoteLedger from "../ledger/VoteLedger";
 
 class VotingService {
-  private transactions: VoteTransaction[] = [];
-  private hasVoted: Record<string, Set<string>> = {}; // userId -> set of electionIds (changed to strings for UUIDs)
+  constructor(private ledger: VoteLedger) {}
   
   /**
-   * Cast a vote in a specific election
+   * Cast a vote through the cast_vote database function, which checks the
+   * election window, the candidates and that the voter has not voted before,
+   * then records participation, the ballot and its ledger block in one
+   * transaction. Elections with encrypted ballots take the ballot encrypted on
+   * this device, ranked-choice elections the voter's ranking and multi-choice
+   * elections every candidate chosen.
    */
-  public async castVote(userId: string, electionId: string, candidateId: string): Promise<VoteTransaction> {
-    return new Promise((resolve, reject) => {
-      setTimeout(async () => {
-        try {
-          // Convert any IDs to strings to ensure consistent comparison with UUIDs
-          const strElectionId = String(electionId);
-          const strCandidateId = String(candidateId);
-          
-          console.log(`Casting vote: User ${userId}, Election ${strElectionId}, Candidate ${strCandidateId}`);
-          
-          // Find the election
-          const { data: electionData, error: electionError } = await supabase
-            .from('elections')
-            .select('id, title, is_active')
-            .eq('id', strElectionId)
-            .maybeSingle();
-          
-          if (electionError) {
-            console.error('Error fetching election:', electionError);
-            reject(new Error("Failed to fetch election data"));
-            return;
-          }
-          
-          if (!electionData) {
-            console.error('Election not found:', strElectionId);
-            reject(new Error("Election not found"));
-            return;
-          }
-          
-          if (!electionData.is_active) {
-            console.error('Election is not active:', strElectionId);
-            reject(new Error("Election is not active"));
-            return;
-          }
-          
-          // Find the candidate
-          const { data: candidateData, error: candidateError } = await supabase
-            .from('candidates')
-            .select('id, name, party')
-            .eq('id', strCandidateId)
-            .eq('election_id', strElectionId)
-            .maybeSingle();
-          
-          if (candidateError) {
-            console.error('Error fetching candidate:', candidateError);
-            reject(new Error("Failed to fetch candidate data"));
-            return;
-          }
-          
-          if (!candidateData) {
-            console.error('Candidate not found:', strCandidateId, 'for election:', strElectionId);
-            reject(new Error("Candidate not found"));
-            return;
-          }
-          
-          // Check if user has already voted in this election
-          if (!this.hasVoted[userId]) {
-            this.hasVoted[userId] = new Set();
-          }
-          
-          if (this.hasVoted[userId].has(strElectionId)) {
-            reject(new Error("You have already cast your vote in this election"));
-            return;
-          }
-          
-          // Check if user has already voted in the database
-          const { count, error: voteCheckError } = await supabase
-            .from('votes')
-            .select('*', { count: 'exact', head: true })
-            .eq('voter_id', userId)
-            .eq('election_id', strElectionId);
-            
-          if (voteCheckError) {
-            console.error('Error checking previous votes:', voteCheckError);
-            reject(new Error("Failed to verify voting status"));
-            return;
-          }
-          
-          if (count && count > 0) {
-            reject(new Error("You have already cast your vote in this election"));
-            return;
-          }
-          
-          // Record the vote in memory
-          this.hasVoted[userId].add(strElectionId);
-          
-          // Create transaction record
-          const transactionHash = `tx-${Math.random().toString(16).substring(2, 42)}`;
-          const transaction: VoteTransaction = {
-            transactionHash,
-            blockNumber: Math.floor(Math.random() * 1000000),
-            timestamp: new Date(),
-            voter: userId,
-            electionId: strElectionId,
-            candidateId: strCandidateId
-          };
-          
-          this.transactions.push(transaction);
-          
-          // Store voting history in Supabase
-          try {
-            // Store vote in database
-            await supabase.from('votes').insert({
-              voter_id: userId,
-              election_id: strElectionId,
-              candidate_id: strCandidateId,
-              transaction_hash: transaction.transactionHash
-            });
-
-            // Store voting history in Supabase storage
-            const votingHistoryData = {
-              election: {
-                id: strElectionId,
-                title: electionData.title
-              },
-              candidate: {
-                id: strCandidateId,
-                name: candidateData.name,
-                party: candidateData.party || 'Independent',
-              },
-              timestamp: new Date().toISOString(),
-              transaction: {
-                hash: transaction.transactionHash,
-                blockNumber: transaction.blockNumber
-              },
-              voter: {
-                id: userId
-              }
-            };
-            
-            // Store the voting history asynchronously (don't await)
-            // Fix the type error by converting strCandidateId to a string explicitly
-            storeVotingHistory(strCandidateId, strElectionId, votingHistoryData)
-              .then(() => console.log('Voting history stored successfully'))
-              .catch(err => console.error('Failed to store voting history:', err));
-          } catch (error) {
-            console.error('Error storing vote or voting history:', error);
-            // Don't reject the promise, just log the error as this is a non-critical operation
-          }
-          
-          resolve(transaction);
-        } catch (error) {
-          console.error('Error in castVote:', error);
-          reject(error);
-        }
-      }, 1000); // Shorter delay to simulate faster blockchain confirmation
+  public async castVote(
+    userId: string,
+    electionId: string,
+    candidateId: string,
+    options: CastVoteOptions = {}
+  ): Promise<VoteTransaction> {
+    const { encryptedBallot, ranking, selections } = options;
+    // Convert any IDs to strings to ensure consistent comparison with UUIDs
+    const strElectionId = String(electionId);
+    const strCandidateId = String(candidateId);
+    
+    console.log(`Casting vote: Election ${strElectionId}`);
+    
+    // Sealed ballots send only the ciphertext so the choice never leaves this device
+    const { data: receiptHash, error } = await supabase.rpc('cast_vote', {
+      p_election_id: strElectionId,
+      p_candidate_ids: encryptedBallot || ranking ? null : (selections || [strCandidateId]).map(String),
+      p_ranking: encryptedBallot ? null : ranking ? ranking.map(String) : null,
+      p_encrypted_choice: encryptedBallot ? (encryptedBallot as unknown as Json) : null
     });
+    
+    if (error) {
+      console.error('Error casting vote:', error);
+      throw new Error(error.message || "Failed to cast your vote");
+    }
+    
+    // The receipt hash is the hash of the ledger block written with the ballot
+    const block = await this.ledger.getBlockByHash(receiptHash);
+    
+    if (!block) {
+      console.error('Ledger block not found for receipt:', receiptHash);
+      throw new Error("Your vote was recorded but its receipt could not be loaded");
+    }
+    
+    const transaction: VoteTransaction = {
+      transactionHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      timestamp: block.timestamp,
+      voter: userId,
+      electionId: strElectionId,
+      candidateId: strCandidateId,
+      candidateCommitment: block.candidateCommitment,
+      ranking,
+      selections
+    };
+    
+    return transaction;
   }
   
   /**
-   * Get all vote transactions
+   * Get all vote transactions recorded in the ledger
    */
   public async getVoteTransactions(): Promise<VoteTransaction[]> {
-    return new Promise((resolve) => {
-      setTimeout(() => resolve(this.transactions), 300);
-    });
+    const blocks = await this.ledger.getBlocks();
+    
+    // Only the commitment is public; the choice behind it is known to the voter alone
+    return blocks.map(block => ({
+      transactionHash: block.blockHash,
+      blockNumber: block.blockNumber,
+      timestamp: block.timestamp,
+      electionId: block.electionId,
+      candidateId: '',
+      candidateCommitment: block.candidateCommitment
+    }));
   }
 }
 
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  comparePalmDescriptors,
+  isValidPalmDescriptor,
+  PALM_DESCRIPTOR_LENGTH,
+  palmMatchThreshold,
+} from "./matching.ts";
+
+const TEXTURE_LENGTH = PALM_DESCRIPTOR_LENGTH - 6;
+const GEOMETRY = [1.1, 1.3, 1.2, 0.9, 1.0, 1.4];
+
+// A palm descriptor as palmprint.ts makes them: each cell of six orientations
+// mean-centred, the texture at unit length, then the hand proportions
+function palmDescriptor(seed: number, geometry = GEOMETRY): number[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+
+  const texture = Array.from({ length: TEXTURE_LENGTH }, random);
+  for (let start = 0; start < TEXTURE_LENGTH; start += 6) {
+    const mean = texture.slice(start, start + 6).reduce((sum, value) => sum + value, 0) / 6;
+    for (let i = start; i < start + 6; i++) {
+      texture[i] -= mean;
+    }
+  }
+
+  const norm = Math.sqrt(texture.reduce((sum, value) => sum + value * value, 0));
+  return [...texture.map(value => value / norm), ...geometry];
+}
+
+// A descriptor between two others, still laid out as a device would send it
+function blend(a: number[], b: number[], share: number): number[] {
+  const texture = a.slice(0, TEXTURE_LENGTH).map((value, i) => share * value + (1 - share) * b[i]);
+  const norm = Math.sqrt(texture.reduce((sum, value) => sum + value * value, 0));
+  return [...texture.map(value => value / norm), ...a.slice(TEXTURE_LENGTH)];
+}
+
+describe("palm matching", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Deno", { env: { get: () => undefined } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("matches the same palm", () => {
+    const template = palmDescriptor(1);
+
+    expect(isValidPalmDescriptor(template)).toBe(true);
+    expect(comparePalmDescriptors(template, template)).toBeCloseTo(1);
+  });
+
+  it("does not match a different palm", () => {
+    expect(comparePalmDescriptors(palmDescriptor(2), palmDescriptor(1))).toBeLessThan(palmMatchThreshold());
+  });
+
+  it("does not match a scaled probe", () => {
+    const template = palmDescriptor(1);
+    const probe = blend(template, palmDescriptor(2), 0.2);
+    const scaled = [...probe.slice(0, TEXTURE_LENGTH).map(value => value * 1000), ...probe.slice(TEXTURE_LENGTH)];
+
+    expect(isValidPalmDescriptor(scaled)).toBe(false);
+    expect(comparePalmDescriptors(scaled, template)).toBeCloseTo(comparePalmDescriptors(probe, template));
+    expect(comparePalmDescriptors(scaled, template)).toBeLessThan(palmMatchThreshold());
+  });
+
+  it("rejects textures that are not mean-centred", () => {
+    const descriptor = palmDescriptor(1);
+    descriptor[0] += 0.01;
+
+    expect(isValidPalmDescriptor(descriptor)).toBe(false);
+  });
+
+  it("rejects hand proportions out of range", () => {
+    expect(isValidPalmDescriptor(palmDescriptor(1, [...GEOMETRY.slice(1), 0]))).toBe(false);
+    expect(isValidPalmDescriptor(palmDescriptor(1, [...GEOMETRY.slice(1), 100]))).toBe(false);
+  });
+
+  it("keeps the score between 0 and 1", () => {
+    const template = palmDescriptor(1);
+    const opposite = [...template.slice(0, TEXTURE_LENGTH).map(value => -value), ...template.slice(TEXTURE_LENGTH)];
+
+    expect(comparePalmDescriptors(opposite, template)).toBeGreaterThanOrEqual(0);
+    expect(comparePalmDescriptors(template, template)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,100 @@
+// Template matching for the biometric-verify function. Face embeddings come
+// from src/utils/biometrics/faceEmbedding.ts and palm descriptors, in the same
+// layout, from src/utils/biometrics/palmprint.ts.
+
+export const FACE_MODEL_VERSION = 'face-api-resnet-128d-1.7.15';
+export const PALM_TEMPLATE_VERSION = 'palm-competitive-code-v1';
+
+export const FACE_EMBEDDING_LENGTH = 128;
+
+// Texture histograms (8 x 8 cells, 6 orientations) followed by the hand proportions
+const ORIENTATIONS = 6;
+const TEXTURE_LENGTH = 8 * 8 * ORIENTATIONS;
+const GEOMETRY_LENGTH = 6;
+export const PALM_DESCRIPTOR_LENGTH = TEXTURE_LENGTH + GEOMETRY_LENGTH;
+
+// How much the texture and the hand's shape each count towards the similarity
+const TEXTURE_WEIGHT = 0.75;
+const GEOMETRY_WEIGHT = 0.25;
+
+// Mean relative difference in hand proportions at which they no longer count as a match
+const GEOMETRY_TOLERANCE = 0.25;
+
+// Devices send each texture cell with its mean removed and the texture scaled
+// to unit length. Allow for rounding, but nothing more.
+const TEXTURE_TOLERANCE = 1e-4;
+
+// Hand proportions are finger and palm lengths relative to the palm width
+const MAX_HAND_PROPORTION = 5;
+
+// Defaults for the similarity at or above which a probe matches the template.
+// They match public.default_match_confidence, which cast_vote checks, so the
+// secrets can raise them but not lower them.
+const DEFAULT_FACE_MATCH_THRESHOLD = 0.85;
+const DEFAULT_PALM_MATCH_THRESHOLD = 0.65;
+
+export function faceMatchThreshold(): number {
+  return Math.max(DEFAULT_FACE_MATCH_THRESHOLD, Number(Deno.env.get('FACE_MATCH_THRESHOLD')) || 0);
+}
+
+export function palmMatchThreshold(): number {
+  return Math.max(DEFAULT_PALM_MATCH_THRESHOLD, Number(Deno.env.get('PALM_MATCH_THRESHOLD')) || 0);
+}
+
+// 1 for the same direction, 0 for unrelated
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Whether a palm descriptor is laid out as palmprint.ts makes them, so a probe
+// cannot be scaled or shifted to inflate its score
+export function isValidPalmDescriptor(descriptor: number[]): boolean {
+  let norm = 0;
+  for (let start = 0; start < TEXTURE_LENGTH; start += ORIENTATIONS) {
+    let sum = 0;
+    for (let i = start; i < start + ORIENTATIONS; i++) {
+      sum += descriptor[i];
+      norm += descriptor[i] * descriptor[i];
+    }
+    if (Math.abs(sum) > TEXTURE_TOLERANCE) {
+      return false;
+    }
+  }
+
+  if (Math.abs(Math.sqrt(norm) - 1) > TEXTURE_TOLERANCE) {
+    return false;
+  }
+
+  return descriptor
+    .slice(TEXTURE_LENGTH, PALM_DESCRIPTOR_LENGTH)
+    .every(value => value > 0 && value <= MAX_HAND_PROPORTION);
+}
+
+// From 0 to 1: the correlation of the line textures, combined with how
+// closely the hand proportions agree
+export function comparePalmDescriptors(a: number[], b: number[]): number {
+  // Normalised here as well, so neither side's scale counts
+  const texture = Math.min(1, Math.max(0, cosineSimilarity(a.slice(0, TEXTURE_LENGTH), b.slice(0, TEXTURE_LENGTH))));
+
+  let geometryDifference = 0;
+  for (let i = TEXTURE_LENGTH; i < PALM_DESCRIPTOR_LENGTH; i++) {
+    geometryDifference += Math.abs(a[i] - b[i]) / Math.max((a[i] + b[i]) / 2, 1e-6);
+  }
+  const geometry = Math.max(0, 1 - geometryDifference / GEOMETRY_LENGTH / GEOMETRY_TOLERANCE);
+
+  return TEXTURE_WEIGHT * texture + GEOMETRY_WEIGHT * geometry;
+}
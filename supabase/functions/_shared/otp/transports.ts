@@ -0,0 +1,128 @@
+// Delivery of one-time codes. Each transport sends to one kind of destination;
+// OTP_TRANSPORT picks the one in use. Local development can use the console or
+// a file instead of a real SMS or email provider, but only with
+// OTP_DEVELOPMENT=true, so a deployment never logs codes by accident.
+
+export type TransportName = 'sms' | 'email' | 'console' | 'file';
+
+export interface OtpMessage {
+  // Phone number in E.164 form for SMS, otherwise an email address
+  to: string;
+  code: string;
+  expiresInMinutes: number;
+}
+
+export interface OtpTransport {
+  name: TransportName;
+  // Which contact detail of the user the transport sends to
+  destination: 'phone' | 'email';
+  send(message: OtpMessage): Promise<void>;
+}
+
+const messageText = ({ code, expiresInMinutes }: OtpMessage) =>
+  `Your SecureVote verification code is ${code}. It expires in ${expiresInMinutes} minutes. Never share this code.`;
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+// SMS through the Twilio Messages API
+const smsTransport: OtpTransport = {
+  name: 'sms',
+  destination: 'phone',
+  async send(message) {
+    const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${requireEnv('TWILIO_AUTH_TOKEN')}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        From: requireEnv('TWILIO_FROM_NUMBER'),
+        Body: messageText(message),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS delivery failed with status ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+// Email through the Resend API
+const emailTransport: OtpTransport = {
+  name: 'email',
+  destination: 'email',
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${requireEnv('RESEND_API_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: requireEnv('OTP_EMAIL_FROM'),
+        to: message.to,
+        subject: 'Your SecureVote verification code',
+        text: messageText(message),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email delivery failed with status ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+// Prints the code to the function logs; for local development only
+const consoleTransport: OtpTransport = {
+  name: 'console',
+  destination: 'phone',
+  async send(message) {
+    console.log(`[otp] to ${message.to}: ${messageText(message)}`);
+  },
+};
+
+// Appends the code to a file; for local development and end-to-end tests
+const fileTransport: OtpTransport = {
+  name: 'file',
+  destination: 'phone',
+  async send(message) {
+    const path = Deno.env.get('OTP_FILE_SINK') ?? '/tmp/otp-outbox.log';
+    const line = JSON.stringify({ to: message.to, code: message.code, sentAt: new Date().toISOString() });
+    await Deno.writeTextFile(path, `${line}\n`, { append: true });
+  },
+};
+
+// Transports that expose codes to anyone who can read the logs or the file
+const DEVELOPMENT_TRANSPORTS: TransportName[] = ['console', 'file'];
+
+const transports: Record<TransportName, OtpTransport> = {
+  sms: smsTransport,
+  email: emailTransport,
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+/**
+ * The transport named by OTP_TRANSPORT. There is no default, and the
+ * development transports need OTP_DEVELOPMENT=true as well.
+ */
+export function getTransport(): OtpTransport {
+  const name = requireEnv('OTP_TRANSPORT') as TransportName;
+  const transport = transports[name];
+
+  if (!transport) {
+    throw new Error(`Unknown OTP transport "${name}"`);
+  }
+  if (DEVELOPMENT_TRANSPORTS.includes(name) && Deno.env.get('OTP_DEVELOPMENT') !== 'true') {
+    throw new Error(`The "${name}" OTP transport is for development only; set OTP_DEVELOPMENT=true to use it`);
+  }
+  return transport;
+}
@@ -0,0 +1,179 @@
+// Face and palm verification.
+//
+//   POST { modality: 'face', probes, minSimilarity?, livenessPassed, presentationAttack }
+//   POST { modality: 'palm', probes, minSimilarity? }
+//
+// The probes are face embeddings or palm descriptors computed on the user's
+// device. They are matched here against the user's encrypted template, which
+// never leaves the database and this function, and the attempt is recorded
+// from here, so cast_vote only trusts matches the server made. A request with
+// no probes records a failed attempt, e.g. after a failed liveness check.
+// Every probe must match: for faces, the capture and each liveness gesture.
+
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import {
+  comparePalmDescriptors,
+  cosineSimilarity,
+  FACE_EMBEDDING_LENGTH,
+  FACE_MODEL_VERSION,
+  faceMatchThreshold,
+  isValidPalmDescriptor,
+  PALM_DESCRIPTOR_LENGTH,
+  PALM_TEMPLATE_VERSION,
+  palmMatchThreshold,
+} from '../_shared/biometrics/matching.ts';
+
+type Modality = 'face' | 'palm';
+
+// The capture plus one frame per liveness gesture, with room to spare
+const MAX_PROBES = 8;
+
+interface PresentationAttack {
+  score: number;
+  isSuspectedSpoof: boolean;
+  signals: Record<string, unknown>;
+}
+
+interface ModalitySettings {
+  length: number;
+  version: string;
+  threshold: () => number;
+  compare: (a: number[], b: number[]) => number;
+  // Rejects probes the device could not have computed
+  isValid: (probe: number[]) => boolean;
+}
+
+const MODALITIES: Record<Modality, ModalitySettings> = {
+  face: { length: FACE_EMBEDDING_LENGTH, version: FACE_MODEL_VERSION, threshold: faceMatchThreshold, compare: cosineSimilarity, isValid: () => true },
+  palm: { length: PALM_DESCRIPTOR_LENGTH, version: PALM_TEMPLATE_VERSION, threshold: palmMatchThreshold, compare: comparePalmDescriptors, isValid: isValidPalmDescriptor },
+};
+
+function parseProbes(value: unknown, settings: ModalitySettings): number[][] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value) || value.length > MAX_PROBES) {
+    return null;
+  }
+
+  const valid = value.every(probe =>
+    Array.isArray(probe)
+    && probe.length === settings.length
+    && probe.every(entry => typeof entry === 'number' && Number.isFinite(entry))
+    && settings.isValid(probe)
+  );
+
+  return valid ? value : null;
+}
+
+async function currentLockout(admin: SupabaseClient, user: User) {
+  const { data, error } = await admin
+    .from('biometric_lockouts')
+    .select('locked_until, failed_attempts')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function verify(admin: SupabaseClient, user: User, body: Record<string, unknown>): Promise<Response> {
+  const modality = body.modality as Modality;
+  const settings = MODALITIES[modality];
+  if (!settings) {
+    return jsonResponse({ error: 'Unknown biometric modality' }, 400);
+  }
+
+  const probes = parseProbes(body.probes, settings);
+  if (!probes) {
+    return jsonResponse({ error: 'The captured biometric data is malformed.' }, 400);
+  }
+
+  // An election may ask for a closer match than the default, never a looser one
+  const minSimilarity = typeof body.minSimilarity === 'number' ? body.minSimilarity : 0;
+  const threshold = Math.max(settings.threshold(), minSimilarity);
+
+  const presentationAttack = modality === 'face' ? body.presentationAttack as PresentationAttack | null : null;
+  const livenessPassed = modality === 'face' ? body.livenessPassed === true : null;
+
+  let similarity: number | null = null;
+  if (probes.length > 0) {
+    const { data: templates, error } = await admin.rpc('get_biometric_template', {
+      p_user_id: user.id,
+      p_modality: modality,
+    });
+
+    if (error) throw error;
+
+    const template = templates?.[0];
+    if (!template) {
+      return jsonResponse({ error: `No registered ${modality} was found for your account.` }, 404);
+    }
+    if (template.template_version !== settings.version) {
+      return jsonResponse({ error: `Your registered ${modality} was made by an older version. Ask an election officer to reset it, then register again.` }, 409);
+    }
+
+    similarity = Math.min(...probes.map(probe => settings.compare(probe, template.template)));
+  }
+
+  const verified = similarity !== null
+    && similarity >= threshold
+    && (modality !== 'face' || (livenessPassed && presentationAttack?.isSuspectedSpoof === false));
+
+  const { data, error } = await admin.rpc('record_biometric_attempt', {
+    p_user_id: user.id,
+    p_modality: modality,
+    p_verified: verified,
+    p_similarity: similarity,
+    p_liveness_passed: livenessPassed,
+    p_spoof_score: typeof presentationAttack?.score === 'number' ? presentationAttack.score : null,
+    p_suspected_spoof: presentationAttack?.isSuspectedSpoof === true,
+    p_spoof_signals: presentationAttack?.signals ?? null,
+  });
+
+  // Locked out: nothing was recorded, and the match does not count
+  if (error?.hint === 'biometric_locked') {
+    const lockout = await currentLockout(admin, user);
+    return jsonResponse({ verified: false, similarity, threshold, lockedUntil: lockout?.locked_until ?? null, remainingAttempts: 0 });
+  }
+  if (error) throw error;
+
+  return jsonResponse({
+    verified,
+    similarity,
+    threshold,
+    lockedUntil: data?.[0]?.locked_until ?? null,
+    remainingAttempts: data?.[0]?.remaining_attempts ?? 0,
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'You must be signed in to verify your identity.' }, 401);
+  }
+
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    return await verify(admin, user, body);
+  } catch (error) {
+    console.error('Error verifying biometrics:', error);
+    return jsonResponse({ error: 'Verification failed. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,223 @@
+// One-time codes for the vote step-up.
+//
+//   POST { action: 'send' }                      -> a new code is sent to the user
+//   POST { action: 'verify', challengeId, code } -> the code is checked
+//
+// Only an HMAC of each code is stored. Codes expire after a few minutes, can be
+// resent only after a pause and a few times an hour, and each one allows a
+// limited number of guesses. A verified code lets the user cast one vote.
+
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { CodeMode, CODE_DIGITS, generateCode, hashCode, timingSafeEqual } from '../_shared/otp/codes.ts';
+import { getTransport } from '../_shared/otp/transports.ts';
+
+const CODE_TTL_MINUTES = 5;
+const RESEND_INTERVAL_SECONDS = 30;
+const MAX_SENDS_PER_HOUR = 5;
+const MAX_VERIFY_ATTEMPTS = 5;
+
+const maskPhone = (phone: string) => `${'•'.repeat(Math.max(0, phone.length - 4))}${phone.slice(-4)}`;
+
+const maskEmail = (email: string) => {
+  const [name, domain] = email.split('@');
+  return `${name.slice(0, 1)}${'•'.repeat(Math.max(1, name.length - 1))}@${domain}`;
+};
+
+function serverSecret(): string {
+  const secret = Deno.env.get('OTP_SECRET');
+  if (!secret) {
+    throw new Error('OTP_SECRET is not configured');
+  }
+  return secret;
+}
+
+async function sendCode(admin: SupabaseClient, user: User): Promise<Response> {
+  const now = Date.now();
+
+  const { data: recent, error: recentError } = await admin
+    .from('otp_challenges')
+    .select('created_at, counter')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(MAX_SENDS_PER_HOUR);
+
+  if (recentError) throw recentError;
+
+  const sentAt = recent.map(row => new Date(row.created_at).getTime());
+  if (sentAt.length > 0 && now - sentAt[0] < RESEND_INTERVAL_SECONDS * 1000) {
+    const retryAfter = Math.ceil((sentAt[0] + RESEND_INTERVAL_SECONDS * 1000 - now) / 1000);
+    return jsonResponse({ error: `Please wait ${retryAfter} seconds before requesting another code.`, retryAfter }, 429);
+  }
+
+  const oldest = sentAt[sentAt.length - 1];
+  if (sentAt.length >= MAX_SENDS_PER_HOUR && now - oldest < 60 * 60 * 1000) {
+    const retryAfter = Math.ceil((oldest + 60 * 60 * 1000 - now) / 1000);
+    return jsonResponse({ error: 'Too many codes requested. Please try again later.', retryAfter }, 429);
+  }
+
+  const transport = getTransport();
+  let recipient = user.email ?? null;
+  let destination = recipient ? maskEmail(recipient) : '';
+
+  if (transport.destination === 'phone') {
+    const { data: profile, error: profileError } = await admin
+      .from('profiles')
+      .select('phone')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    // The development sinks fall back to the email address
+    if (profile?.phone || transport.name === 'sms') {
+      recipient = profile?.phone ?? null;
+      destination = recipient ? maskPhone(recipient) : '';
+    }
+  }
+
+  if (!recipient) {
+    return jsonResponse({ error: 'Add a phone number to your profile to receive verification codes.' }, 400);
+  }
+
+  // Earlier codes stop working once a new one is sent
+  const { error: expireError } = await admin
+    .from('otp_challenges')
+    .update({ expires_at: new Date(now).toISOString() })
+    .eq('user_id', user.id)
+    .is('verified_at', null)
+    .gt('expires_at', new Date(now).toISOString());
+
+  if (expireError) throw expireError;
+
+  const secret = serverSecret();
+  const mode = (Deno.env.get('OTP_CODE_MODE') ?? 'random') as CodeMode;
+  const challengeId = crypto.randomUUID();
+  const counter = (recent[0]?.counter ?? 0) + 1;
+  const code = await generateCode(mode, secret, user.id, counter);
+  const expiresAt = new Date(now + CODE_TTL_MINUTES * 60 * 1000);
+
+  const { error: insertError } = await admin
+    .from('otp_challenges')
+    .insert({
+      id: challengeId,
+      user_id: user.id,
+      purpose: 'vote',
+      transport: transport.name,
+      destination,
+      code_hash: await hashCode(secret, challengeId, code),
+      counter,
+      expires_at: expiresAt.toISOString(),
+    });
+
+  if (insertError) throw insertError;
+
+  try {
+    await transport.send({ to: recipient, code, expiresInMinutes: CODE_TTL_MINUTES });
+  } catch (error) {
+    console.error('Error delivering code:', error);
+    await admin.from('otp_challenges').delete().eq('id', challengeId);
+    return jsonResponse({ error: 'The verification code could not be delivered. Please try again.' }, 502);
+  }
+
+  return jsonResponse({
+    challengeId,
+    transport: transport.name,
+    destination,
+    expiresAt: expiresAt.toISOString(),
+    resendAfter: RESEND_INTERVAL_SECONDS,
+  });
+}
+
+async function verifyCode(admin: SupabaseClient, user: User, challengeId: unknown, code: unknown): Promise<Response> {
+  if (typeof challengeId !== 'string' || typeof code !== 'string' || !new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code)) {
+    return jsonResponse({ error: `Enter the ${CODE_DIGITS}-digit code.` }, 400);
+  }
+
+  const { data: challenge, error } = await admin
+    .from('otp_challenges')
+    .select('id, code_hash, attempts, expires_at, verified_at')
+    .eq('id', challengeId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!challenge) {
+    return jsonResponse({ error: 'Verification code not found. Please request a new code.' }, 404);
+  }
+  if (challenge.verified_at) {
+    return jsonResponse({ error: 'This code has already been used.' }, 409);
+  }
+  if (new Date(challenge.expires_at).getTime() <= Date.now()) {
+    return jsonResponse({ error: 'This code has expired. Please request a new code.' }, 410);
+  }
+
+  // Count the guess before checking it, so parallel guesses cannot exceed the limit
+  const { data: counted, error: countError } = await admin
+    .from('otp_challenges')
+    .update({ attempts: challenge.attempts + 1 })
+    .eq('id', challenge.id)
+    .eq('attempts', challenge.attempts)
+    .lt('attempts', MAX_VERIFY_ATTEMPTS)
+    .select('attempts');
+
+  if (countError) throw countError;
+
+  if (!counted || counted.length === 0) {
+    return jsonResponse({ error: 'Too many incorrect codes. Please request a new code.', remainingAttempts: 0 }, 429);
+  }
+
+  const remainingAttempts = MAX_VERIFY_ATTEMPTS - counted[0].attempts;
+  const expected = await hashCode(serverSecret(), challenge.id, code);
+
+  if (!timingSafeEqual(expected, challenge.code_hash)) {
+    return jsonResponse({ verified: false, remainingAttempts });
+  }
+
+  const { error: verifyError } = await admin
+    .from('otp_challenges')
+    .update({ verified_at: new Date().toISOString() })
+    .eq('id', challenge.id)
+    .is('verified_at', null);
+
+  if (verifyError) throw verifyError;
+
+  return jsonResponse({ verified: true, remainingAttempts });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'You must be signed in to request a verification code.' }, 401);
+  }
+
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    switch (body.action) {
+      case 'send':
+        return await sendCode(admin, user);
+      case 'verify':
+        return await verifyCode(admin, user, body.challengeId, body.code);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error handling OTP request:', error);
+    return jsonResponse({ error: 'Something went wrong with the verification code. Please try again.' }, 500);
+  }
+});
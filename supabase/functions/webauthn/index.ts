@@ -0,0 +1,377 @@
+// Passkey (WebAuthn) ceremonies.
+//
+//   POST { action: 'registration-options' }                        -> options for navigator.credentials.create,
+//                                                                     or { stepUpRequired } until a code is verified
+//   POST { action: 'registration-verify', challengeId, response, name }
+//   POST { action: 'authentication-options', electionId }          -> options for navigator.credentials.get
+//   POST { action: 'authentication-verify', challengeId, response }
+//
+// Every challenge is stored, expires after a few minutes and can be answered
+// once. A verified vote challenge is bound to one election and lets cast_vote
+// accept one ballot for it shortly afterwards.
+//
+// Only an account's first passkey can be added with the session alone. Every
+// later one, including after the user has removed their passkeys, uses up a
+// recently verified one-time or authenticator code, so a stolen session cannot
+// add a passkey of its own.
+
+import { createClient, SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from 'https://esm.sh/@simplewebauthn/server@14.0.3';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from 'https://esm.sh/@simplewebauthn/server@14.0.3';
+import { isoBase64URL, isoUint8Array } from 'https://esm.sh/@simplewebauthn/server@14.0.3/helpers';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const CHALLENGE_TTL_MINUTES = 5;
+const MAX_PASSKEYS_PER_USER = 10;
+// How recently the code for adding another passkey must have been verified
+const STEP_UP_MINUTES = 10;
+
+interface RelyingParty {
+  id: string;
+  name: string;
+  origins: string[];
+}
+
+// The site passkeys are bound to; WEBAUTHN_ORIGINS is a comma-separated list
+function relyingParty(): RelyingParty {
+  return {
+    id: Deno.env.get('WEBAUTHN_RP_ID') ?? 'localhost',
+    name: Deno.env.get('WEBAUTHN_RP_NAME') ?? 'SecureVote',
+    origins: (Deno.env.get('WEBAUTHN_ORIGINS') ?? 'http://localhost:8080')
+      .split(',')
+      .map(origin => origin.trim())
+      .filter(Boolean),
+  };
+}
+
+async function storeChallenge(
+  admin: SupabaseClient,
+  user: User,
+  purpose: 'registration' | 'vote',
+  challenge: string,
+  electionId: string | null = null,
+): Promise<string> {
+  const { data, error } = await admin
+    .from('webauthn_challenges')
+    .insert({
+      user_id: user.id,
+      purpose,
+      election_id: electionId,
+      challenge,
+      expires_at: new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000).toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Claim an open challenge so it cannot be answered twice, even by parallel requests
+async function claimChallenge(admin: SupabaseClient, user: User, challengeId: unknown, purpose: string) {
+  if (typeof challengeId !== 'string') {
+    return null;
+  }
+
+  const { data, error } = await admin
+    .from('webauthn_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', challengeId)
+    .eq('user_id', user.id)
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('id, challenge, election_id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+async function listCredentials(admin: SupabaseClient, user: User) {
+  const { data, error } = await admin
+    .from('webauthn_credentials')
+    .select('credential_id, public_key, counter, transports')
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+  return data;
+}
+
+// Whether a passkey has ever been registered to the account, even if since removed
+async function hasRegisteredPasskey(admin: SupabaseClient, user: User): Promise<boolean> {
+  const { count, error } = await admin
+    .from('webauthn_challenges')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .eq('purpose', 'registration')
+    .not('verified_at', 'is', null);
+
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+// The latest code the user verified in the last few minutes and has not used yet
+async function findStepUp(admin: SupabaseClient, user: User) {
+  const { data, error } = await admin
+    .from('otp_challenges')
+    .select('id')
+    .eq('user_id', user.id)
+    .is('consumed_at', null)
+    .gt('verified_at', new Date(Date.now() - STEP_UP_MINUTES * 60 * 1000).toISOString())
+    .order('verified_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Use up a verified code, as cast_vote does, so it cannot also add another passkey or cast a vote
+async function consumeStepUp(admin: SupabaseClient, user: User): Promise<boolean> {
+  const stepUp = await findStepUp(admin, user);
+  if (!stepUp) {
+    return false;
+  }
+
+  const { data, error } = await admin
+    .from('otp_challenges')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', stepUp.id)
+    .is('consumed_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data !== null;
+}
+
+async function registrationOptions(admin: SupabaseClient, user: User): Promise<Response> {
+  const credentials = await listCredentials(admin, user);
+  if (credentials.length >= MAX_PASSKEYS_PER_USER) {
+    return jsonResponse({ error: `You can register at most ${MAX_PASSKEYS_PER_USER} passkeys.` }, 400);
+  }
+
+  // Ask for a code before the device is prompted, rather than after
+  if (await hasRegisteredPasskey(admin, user) && !(await findStepUp(admin, user))) {
+    return jsonResponse({ stepUpRequired: true });
+  }
+
+  const rp = relyingParty();
+  const options = await generateRegistrationOptions({
+    rpName: rp.name,
+    rpID: rp.id,
+    userName: user.email ?? user.id,
+    userID: isoUint8Array.fromUTF8String(user.id),
+    attestationType: 'none',
+    excludeCredentials: credentials.map(credential => ({
+      id: credential.credential_id,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: 'preferred',
+    },
+  });
+
+  const challengeId = await storeChallenge(admin, user, 'registration', options.challenge);
+  return jsonResponse({ challengeId, options });
+}
+
+async function registrationVerify(
+  admin: SupabaseClient,
+  user: User,
+  challengeId: unknown,
+  response: unknown,
+  name: unknown,
+): Promise<Response> {
+  // Checked before this challenge is verified, so it does not count as a registration yet
+  const needsStepUp = await hasRegisteredPasskey(admin, user);
+
+  const challenge = await claimChallenge(admin, user, challengeId, 'registration');
+  if (!challenge) {
+    return jsonResponse({ error: 'This request has expired. Please try again.' }, 410);
+  }
+
+  const rp = relyingParty();
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: response as RegistrationResponseJSON,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    console.error('Passkey registration rejected:', error);
+    return jsonResponse({ error: 'The passkey could not be verified.' }, 400);
+  }
+
+  if (!verification.verified) {
+    return jsonResponse({ error: 'The passkey could not be verified.' }, 400);
+  }
+
+  if (needsStepUp && !(await consumeStepUp(admin, user))) {
+    return jsonResponse({ error: 'Verify a one-time code before adding another passkey.' }, 403);
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+  const label = typeof name === 'string' && name.trim() ? name.trim().slice(0, 64) : 'Passkey';
+
+  const { error: insertError } = await admin
+    .from('webauthn_credentials')
+    .insert({
+      user_id: user.id,
+      credential_id: credential.id,
+      public_key: isoBase64URL.fromBuffer(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      device_type: credentialDeviceType,
+      backed_up: credentialBackedUp,
+      name: label,
+    });
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      return jsonResponse({ error: 'This passkey is already registered.' }, 409);
+    }
+    throw insertError;
+  }
+
+  await admin
+    .from('webauthn_challenges')
+    .update({ verified_at: new Date().toISOString(), credential_id: credential.id })
+    .eq('id', challenge.id);
+
+  return jsonResponse({ verified: true });
+}
+
+async function authenticationOptions(admin: SupabaseClient, user: User, electionId: unknown): Promise<Response> {
+  if (typeof electionId !== 'string') {
+    return jsonResponse({ error: 'Choose an election before confirming your vote.' }, 400);
+  }
+
+  const credentials = await listCredentials(admin, user);
+  if (credentials.length === 0) {
+    return jsonResponse({ error: 'Add a passkey to your profile first.' }, 400);
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: relyingParty().id,
+    allowCredentials: credentials.map(credential => ({
+      id: credential.credential_id,
+      transports: credential.transports,
+    })),
+    userVerification: 'preferred',
+  });
+
+  const challengeId = await storeChallenge(admin, user, 'vote', options.challenge, electionId);
+  return jsonResponse({ challengeId, options });
+}
+
+async function authenticationVerify(
+  admin: SupabaseClient,
+  user: User,
+  challengeId: unknown,
+  response: unknown,
+): Promise<Response> {
+  const challenge = await claimChallenge(admin, user, challengeId, 'vote');
+  if (!challenge) {
+    return jsonResponse({ error: 'This request has expired. Please try again.' }, 410);
+  }
+
+  const credentialId = (response as { id?: unknown } | null)?.id;
+  const stored = (await listCredentials(admin, user)).find(credential => credential.credential_id === credentialId);
+  if (!stored) {
+    return jsonResponse({ error: 'This passkey is not registered to your account.' }, 400);
+  }
+
+  const rp = relyingParty();
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: response as AuthenticationResponseJSON,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      credential: {
+        id: stored.credential_id,
+        publicKey: isoBase64URL.toBuffer(stored.public_key),
+        counter: Number(stored.counter),
+        transports: stored.transports,
+      },
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    console.error('Passkey assertion rejected:', error);
+    return jsonResponse({ verified: false, error: 'The passkey signature could not be verified.' }, 400);
+  }
+
+  if (!verification.verified) {
+    return jsonResponse({ verified: false, error: 'The passkey signature could not be verified.' }, 400);
+  }
+
+  const now = new Date().toISOString();
+
+  const { error: credentialError } = await admin
+    .from('webauthn_credentials')
+    .update({ counter: verification.authenticationInfo.newCounter, last_used_at: now })
+    .eq('credential_id', stored.credential_id);
+
+  if (credentialError) throw credentialError;
+
+  const { error: challengeError } = await admin
+    .from('webauthn_challenges')
+    .update({ verified_at: now, credential_id: stored.credential_id })
+    .eq('id', challenge.id);
+
+  if (challengeError) throw challengeError;
+
+  return jsonResponse({ verified: true });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'You must be signed in to use a passkey.' }, 401);
+  }
+
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    switch (body.action) {
+      case 'registration-options':
+        return await registrationOptions(admin, user);
+      case 'registration-verify':
+        return await registrationVerify(admin, user, body.challengeId, body.response, body.name);
+      case 'authentication-options':
+        return await authenticationOptions(admin, user, body.electionId);
+      case 'authentication-verify':
+        return await authenticationVerify(admin, user, body.challengeId, body.response);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error('Error handling passkey request:', error);
+    return jsonResponse({ error: 'Something went wrong with your passkey. Please try again.' }, 500);
+  }
+});
@@ -0,0 +1,108 @@
+-- Append-only, hash-chained vote ledger
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- election_id deliberately has no foreign key: deleting an election must never rewrite the chain
+CREATE TABLE IF NOT EXISTS public.vote_ledger (
+    block_number BIGINT PRIMARY KEY CHECK (block_number >= 1),
+    block_hash TEXT NOT NULL UNIQUE,
+    previous_hash TEXT NOT NULL UNIQUE,
+    election_id UUID NOT NULL,
+    candidate_commitment TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS vote_ledger_election_id_idx ON public.vote_ledger (election_id);
+
+-- Salt that opens the candidate commitment stored in the ledger
+ALTER TABLE IF EXISTS public.votes ADD COLUMN IF NOT EXISTS commitment_salt TEXT;
+
+-- Validate every new block against the head of the chain.
+-- The hash format must stay in sync with VoteLedger.computeBlockHash.
+CREATE OR REPLACE FUNCTION public.vote_ledger_validate_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_expected_previous TEXT;
+    v_expected_hash TEXT;
+BEGIN
+    IF NEW.block_number = 1 THEN
+        v_expected_previous := repeat('0', 64);
+    ELSE
+        SELECT block_hash INTO v_expected_previous
+        FROM public.vote_ledger
+        WHERE block_number = NEW.block_number - 1;
+
+        IF v_expected_previous IS NULL THEN
+            RAISE EXCEPTION 'Ledger block % has no predecessor', NEW.block_number;
+        END IF;
+    END IF;
+
+    IF NEW.previous_hash <> v_expected_previous THEN
+        RAISE EXCEPTION 'Ledger block % does not link to the head of the chain', NEW.block_number;
+    END IF;
+
+    IF NEW.created_at NOT BETWEEN CURRENT_TIMESTAMP - INTERVAL '5 minutes' AND CURRENT_TIMESTAMP + INTERVAL '1 minute' THEN
+        RAISE EXCEPTION 'Ledger block % has an out-of-range timestamp', NEW.block_number;
+    END IF;
+
+    v_expected_hash := encode(
+        digest(
+            NEW.previous_hash || '|' ||
+            NEW.election_id::text || '|' ||
+            NEW.candidate_commitment || '|' ||
+            to_char(NEW.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    IF NEW.block_hash <> v_expected_hash THEN
+        RAISE EXCEPTION 'Ledger block % hash does not match its contents', NEW.block_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vote_ledger_validate_block ON public.vote_ledger;
+CREATE TRIGGER vote_ledger_validate_block
+BEFORE INSERT ON public.vote_ledger
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_validate_block();
+
+-- Reject any attempt to rewrite history
+CREATE OR REPLACE FUNCTION public.vote_ledger_reject_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'vote_ledger is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vote_ledger_append_only ON public.vote_ledger;
+CREATE TRIGGER vote_ledger_append_only
+BEFORE UPDATE OR DELETE ON public.vote_ledger
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+DROP TRIGGER IF EXISTS vote_ledger_no_truncate ON public.vote_ledger;
+CREATE TRIGGER vote_ledger_no_truncate
+BEFORE TRUNCATE ON public.vote_ledger
+FOR EACH STATEMENT EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+ALTER TABLE public.vote_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read the ledger so the chain can be independently recomputed
+CREATE POLICY "Ledger is publicly readable"
+ON public.vote_ledger
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Authenticated users can append to the ledger"
+ON public.vote_ledger
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+ALTER TABLE public.vote_ledger REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vote_ledger;
@@ -0,0 +1,45 @@
+-- Merkle-root tally commitments published when an election closes
+CREATE TABLE IF NOT EXISTS public.election_tallies (
+    election_id UUID PRIMARY KEY,
+    merkle_root TEXT NOT NULL,
+    receipt_count INTEGER NOT NULL CHECK (receipt_count >= 0),
+    tally JSONB NOT NULL DEFAULT '{}'::jsonb,
+    committed_by UUID DEFAULT auth.uid(),
+    committed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Report the offending table so the guard can be shared by other append-only tables
+CREATE OR REPLACE FUNCTION public.vote_ledger_reject_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+-- Commitments are write-once, like the ledger they summarise
+DROP TRIGGER IF EXISTS election_tallies_append_only ON public.election_tallies;
+CREATE TRIGGER election_tallies_append_only
+BEFORE UPDATE OR DELETE ON public.election_tallies
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+ALTER TABLE public.election_tallies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tally commitments are publicly readable"
+ON public.election_tallies
+FOR SELECT
+USING (true);
+
+-- A tally may only be committed once its election has closed
+CREATE POLICY "Authenticated users can commit closed election tallies"
+ON public.election_tallies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND (e.is_active = false OR e.end_date <= CURRENT_TIMESTAMP)
+    )
+);
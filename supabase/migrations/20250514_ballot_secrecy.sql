@@ -0,0 +1,179 @@
+-- Ballot secrecy: split the votes table so no row links a voter to a choice.
+-- voter_participation records only that a voter took part in an election;
+-- ballots holds the anonymous choices keyed by a random ballot ID.
+
+CREATE TABLE IF NOT EXISTS public.voter_participation (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    voter_id UUID NOT NULL,
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    -- Truncated to the hour so it cannot be joined against ballot or ledger timestamps
+    participated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('hour', CURRENT_TIMESTAMP),
+    UNIQUE(voter_id, election_id) -- Prevent double voting
+);
+
+CREATE TABLE IF NOT EXISTS public.ballots (
+    ballot_id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    candidate_id UUID REFERENCES public.candidates(id) ON DELETE CASCADE,
+    transaction_hash TEXT UNIQUE,
+    commitment_salt TEXT,
+    cast_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('hour', CURRENT_TIMESTAMP)
+);
+
+CREATE INDEX IF NOT EXISTS ballots_election_id_idx ON public.ballots (election_id);
+
+-- Move existing votes across, shuffling ballots so insertion order reveals nothing
+INSERT INTO public.voter_participation (voter_id, election_id, participated_at)
+SELECT voter_id, election_id, date_trunc('hour', created_at)
+FROM public.votes
+WHERE voter_id IS NOT NULL AND election_id IS NOT NULL
+ON CONFLICT (voter_id, election_id) DO NOTHING;
+
+INSERT INTO public.ballots (election_id, candidate_id, transaction_hash, commitment_salt, cast_at)
+SELECT election_id, candidate_id, transaction_hash, commitment_salt, date_trunc('hour', created_at)
+FROM public.votes
+WHERE election_id IS NOT NULL
+ORDER BY random();
+
+-- Retire the linked table along with the policy that exposed it to everyone
+DROP POLICY IF EXISTS "Users can view all votes for results" ON public.votes;
+DROP VIEW IF EXISTS public.vote_results;
+DROP TABLE IF EXISTS public.votes;
+
+CREATE OR REPLACE VIEW public.vote_results AS
+SELECT
+    e.id as election_id,
+    e.title as election_title,
+    c.id as candidate_id,
+    c.name as candidate_name,
+    c.party,
+    COUNT(b.ballot_id) as vote_count
+FROM public.elections e
+LEFT JOIN public.candidates c ON c.election_id = e.id
+LEFT JOIN public.ballots b ON b.candidate_id = c.id
+GROUP BY e.id, e.title, c.id, c.name, c.party;
+
+-- Voters can see their own participation; nobody can read who cast which ballot
+ALTER TABLE public.voter_participation ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own participation"
+ON public.voter_participation
+FOR SELECT
+USING (auth.uid() = voter_id);
+
+-- Ballots carry no voter information, so they are public for tallying
+ALTER TABLE public.ballots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ballots are publicly readable"
+ON public.ballots
+FOR SELECT
+USING (true);
+
+-- Neither table accepts direct inserts; both are written together by record_ballot
+CREATE OR REPLACE FUNCTION public.record_ballot(
+    p_election_id UUID,
+    p_candidate_id UUID,
+    p_transaction_hash TEXT,
+    p_commitment_salt TEXT
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_ballot_id UUID;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (v_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id, transaction_hash, commitment_salt)
+    VALUES (p_election_id, p_candidate_id, p_transaction_hash, p_commitment_salt)
+    RETURNING ballot_id INTO v_ballot_id;
+
+    RETURN v_ballot_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_voter_id UUID,
+    p_election_id UUID,
+    p_candidate_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Check if election exists and is active
+    IF NOT EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND is_active = true
+        AND CURRENT_TIMESTAMP BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'Election not found or not active';
+    END IF;
+
+    -- Check if candidate exists in the election
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    -- Record participation; the unique constraint rejects a second vote
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (p_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id)
+    VALUES (p_election_id, p_candidate_id);
+
+    RETURN true;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_user_voted(p_user_id TEXT, p_election_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.voter_participation
+    WHERE voter_id::text = p_user_id
+    AND election_id::text = p_election_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.get_candidate_votes(p_candidate_id TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN (
+    SELECT COUNT(*) FROM public.ballots
+    WHERE candidate_id::text = p_candidate_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE public.ballots REPLICA IDENTITY FULL;
+ALTER TABLE public.voter_participation REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ballots;
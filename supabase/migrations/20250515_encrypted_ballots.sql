@@ -0,0 +1,259 @@
+-- Encrypted ballot mode: ballots are encrypted on the voter's device under an
+-- election public key and only the aggregate is decrypted, by a threshold of
+-- trustees, once the election has closed.
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS encrypted_ballots BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS encryption_public_key TEXT,
+    ADD COLUMN IF NOT EXISTS decryption_threshold INTEGER CHECK (decryption_threshold >= 1);
+
+-- Per-candidate ElGamal ciphertexts with validity proofs; candidate_id stays NULL
+ALTER TABLE public.ballots
+    ADD COLUMN IF NOT EXISTS encrypted_choice JSONB;
+
+-- Once published, the election key is fixed so no ballot can be re-targeted
+CREATE OR REPLACE FUNCTION public.elections_lock_encryption_key()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF OLD.encryption_public_key IS NOT NULL AND (
+        NEW.encryption_public_key IS DISTINCT FROM OLD.encryption_public_key
+        OR NEW.encrypted_ballots IS DISTINCT FROM OLD.encrypted_ballots
+        OR NEW.decryption_threshold IS DISTINCT FROM OLD.decryption_threshold
+    ) THEN
+        RAISE EXCEPTION 'The election key cannot be changed once it has been published';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS elections_lock_encryption_key ON public.elections;
+CREATE TRIGGER elections_lock_encryption_key
+BEFORE UPDATE ON public.elections
+FOR EACH ROW EXECUTE FUNCTION public.elections_lock_encryption_key();
+
+-- Trustees each hold one Shamir share of the election secret key. Only the
+-- verification key g^share is stored; the share itself never reaches the server.
+CREATE TABLE IF NOT EXISTS public.election_trustees (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    trustee_index INTEGER NOT NULL CHECK (trustee_index >= 1),
+    name TEXT NOT NULL,
+    verification_key TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(election_id, trustee_index)
+);
+
+-- Decryption shares of the aggregate, with Chaum-Pedersen proofs. Several rows
+-- per trustee are allowed; clients keep only the ones whose proofs verify.
+CREATE TABLE IF NOT EXISTS public.election_decryptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    trustee_index INTEGER NOT NULL,
+    ballot_count INTEGER NOT NULL CHECK (ballot_count >= 0),
+    aggregate JSONB NOT NULL,
+    shares JSONB NOT NULL,
+    submitted_by UUID DEFAULT auth.uid(),
+    submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS election_decryptions_election_id_idx ON public.election_decryptions (election_id);
+
+DROP TRIGGER IF EXISTS election_trustees_append_only ON public.election_trustees;
+CREATE TRIGGER election_trustees_append_only
+BEFORE UPDATE OR DELETE ON public.election_trustees
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+DROP TRIGGER IF EXISTS election_decryptions_append_only ON public.election_decryptions;
+CREATE TRIGGER election_decryptions_append_only
+BEFORE UPDATE OR DELETE ON public.election_decryptions
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+ALTER TABLE public.election_trustees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Election trustees are publicly readable"
+ON public.election_trustees
+FOR SELECT
+USING (true);
+
+-- Trustees can only be registered before the election key is published
+CREATE POLICY "Authenticated users can register trustees before key publication"
+ON public.election_trustees
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND e.encryption_public_key IS NULL
+    )
+);
+
+ALTER TABLE public.election_decryptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Decryption shares are publicly readable"
+ON public.election_decryptions
+FOR SELECT
+USING (true);
+
+-- The aggregate stays sealed until the election has closed
+CREATE POLICY "Authenticated users can submit decryption shares for closed elections"
+ON public.election_decryptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND e.encrypted_ballots = true
+        AND (e.is_active = false OR e.end_date <= CURRENT_TIMESTAMP)
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.record_encrypted_ballot(
+    p_election_id UUID,
+    p_encrypted_choice JSONB,
+    p_transaction_hash TEXT,
+    p_commitment_salt TEXT
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_ballot_id UUID;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND encrypted_ballots = true
+        AND encryption_public_key IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'This election does not accept encrypted ballots';
+    END IF;
+
+    -- The proofs are checked by the trustees when the ballots are aggregated
+    IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+        RAISE EXCEPTION 'Malformed encrypted ballot';
+    END IF;
+
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (v_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, encrypted_choice, transaction_hash, commitment_salt)
+    VALUES (p_election_id, p_encrypted_choice, p_transaction_hash, p_commitment_salt)
+    RETURNING ballot_id INTO v_ballot_id;
+
+    RETURN v_ballot_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+-- Plaintext ballots would reveal running totals, so sealed elections refuse them
+CREATE OR REPLACE FUNCTION public.record_ballot(
+    p_election_id UUID,
+    p_candidate_id UUID,
+    p_transaction_hash TEXT,
+    p_commitment_salt TEXT
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_ballot_id UUID;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND encrypted_ballots = true
+    ) THEN
+        RAISE EXCEPTION 'This election only accepts encrypted ballots';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (v_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id, transaction_hash, commitment_salt)
+    VALUES (p_election_id, p_candidate_id, p_transaction_hash, p_commitment_salt)
+    RETURNING ballot_id INTO v_ballot_id;
+
+    RETURN v_ballot_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_voter_id UUID,
+    p_election_id UUID,
+    p_candidate_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Check if election exists and is active
+    IF NOT EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND is_active = true
+        AND CURRENT_TIMESTAMP BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'Election not found or not active';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND encrypted_ballots = true
+    ) THEN
+        RAISE EXCEPTION 'This election only accepts encrypted ballots';
+    END IF;
+
+    -- Check if candidate exists in the election
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    -- Record participation; the unique constraint rejects a second vote
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (p_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id)
+    VALUES (p_election_id, p_candidate_id);
+
+    RETURN true;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
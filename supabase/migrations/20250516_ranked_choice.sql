@@ -0,0 +1,168 @@
+-- Ranked-choice elections counted by instant runoff (IRV). Ranked ballots keep
+-- their first preference in candidate_id so first-choice counts still work.
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS voting_method TEXT NOT NULL DEFAULT 'plurality'
+    CHECK (voting_method IN ('plurality', 'irv'));
+
+-- Encrypted ballots only encode a single choice
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_encrypted_ballots_plurality_only
+    CHECK (NOT encrypted_ballots OR voting_method = 'plurality');
+
+-- Candidate IDs in order of preference
+ALTER TABLE public.ballots
+    ADD COLUMN IF NOT EXISTS ranking UUID[];
+
+-- Switching the counting method would change the meaning of ballots already cast
+CREATE OR REPLACE FUNCTION public.elections_lock_voting_method()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.voting_method IS DISTINCT FROM OLD.voting_method
+        AND EXISTS (SELECT 1 FROM public.ballots WHERE election_id = OLD.id) THEN
+        RAISE EXCEPTION 'The voting method cannot be changed once ballots have been cast';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS elections_lock_voting_method ON public.elections;
+CREATE TRIGGER elections_lock_voting_method
+BEFORE UPDATE ON public.elections
+FOR EACH ROW EXECUTE FUNCTION public.elections_lock_voting_method();
+
+-- record_ballot gains the ranking; drop the old signature so it is not left as an overload
+DROP FUNCTION IF EXISTS public.record_ballot(UUID, UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_ballot(
+    p_election_id UUID,
+    p_candidate_id UUID,
+    p_transaction_hash TEXT,
+    p_commitment_salt TEXT,
+    p_ranking UUID[] DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_voting_method TEXT;
+    v_encrypted BOOLEAN;
+    v_ballot_id UUID;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    SELECT voting_method, encrypted_ballots INTO v_voting_method, v_encrypted
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_encrypted THEN
+        RAISE EXCEPTION 'This election only accepts encrypted ballots';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    IF v_voting_method = 'irv' THEN
+        IF p_ranking IS NULL OR cardinality(p_ranking) = 0 OR p_ranking[1] <> p_candidate_id THEN
+            RAISE EXCEPTION 'A ranked ballot must list the first choice first';
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT r) FROM unnest(p_ranking) AS r) <> cardinality(p_ranking) THEN
+            RAISE EXCEPTION 'Each candidate can only be ranked once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(p_ranking) AS r
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates c
+                WHERE c.id = r
+                AND c.election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Ranked candidate not found in this election';
+        END IF;
+    ELSIF p_ranking IS NOT NULL THEN
+        RAISE EXCEPTION 'This election does not accept ranked ballots';
+    END IF;
+
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (v_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id, ranking, transaction_hash, commitment_salt)
+    VALUES (p_election_id, p_candidate_id, p_ranking, p_transaction_hash, p_commitment_salt)
+    RETURNING ballot_id INTO v_ballot_id;
+
+    RETURN v_ballot_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_voter_id UUID,
+    p_election_id UUID,
+    p_candidate_id UUID
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Check if election exists and is active
+    IF NOT EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND is_active = true
+        AND CURRENT_TIMESTAMP BETWEEN start_date AND end_date
+    ) THEN
+        RAISE EXCEPTION 'Election not found or not active';
+    END IF;
+
+    -- Single-choice votes only; other ballot types go through their own functions
+    IF EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND (encrypted_ballots = true OR voting_method <> 'plurality')
+    ) THEN
+        RAISE EXCEPTION 'This election does not accept single-choice votes';
+    END IF;
+
+    -- Check if candidate exists in the election
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    -- Record participation; the unique constraint rejects a second vote
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (p_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id)
+    VALUES (p_election_id, p_candidate_id);
+
+    RETURN true;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
@@ -0,0 +1,242 @@
+-- Multi-seat and approval elections. seats is how many candidates are elected;
+-- max_selections is how many candidates a voter may choose on one ballot.
+-- One voter still casts one ballot per election (enforced by voter_participation),
+-- so a ballot with several choices is a single row listing them in selections.
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1 CHECK (seats >= 1),
+    ADD COLUMN IF NOT EXISTS max_selections INTEGER NOT NULL DEFAULT 1 CHECK (max_selections >= 1);
+
+-- Encrypted ballots prove they hold exactly one choice, and rankings already list several
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_multiple_selections_plurality_only
+    CHECK (max_selections = 1 OR (voting_method = 'plurality' AND NOT encrypted_ballots));
+
+-- Instant runoff fills a single seat
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_irv_single_seat
+    CHECK (voting_method <> 'irv' OR seats = 1);
+
+-- Every candidate chosen on a multi-choice ballot; candidate_id keeps the first
+ALTER TABLE public.ballots
+    ADD COLUMN IF NOT EXISTS selections UUID[];
+
+-- Changing seats or selections would change the meaning of ballots already cast
+CREATE OR REPLACE FUNCTION public.elections_lock_voting_method()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.voting_method IS DISTINCT FROM OLD.voting_method
+        OR NEW.seats IS DISTINCT FROM OLD.seats
+        OR NEW.max_selections IS DISTINCT FROM OLD.max_selections)
+        AND EXISTS (SELECT 1 FROM public.ballots WHERE election_id = OLD.id) THEN
+        RAISE EXCEPTION 'The voting method, seats and selections cannot be changed once ballots have been cast';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Counts every candidate chosen on a ballot, not just the first
+CREATE OR REPLACE VIEW public.vote_results AS
+SELECT
+    e.id as election_id,
+    e.title as election_title,
+    c.id as candidate_id,
+    c.name as candidate_name,
+    c.party,
+    COUNT(b.ballot_id) as vote_count
+FROM public.elections e
+LEFT JOIN public.candidates c ON c.election_id = e.id
+LEFT JOIN public.ballots b ON b.election_id = e.id
+    AND (b.candidate_id = c.id OR c.id = ANY (b.selections))
+GROUP BY e.id, e.title, c.id, c.name, c.party;
+
+-- record_ballot gains the selections; drop the old signature so it is not left as an overload
+DROP FUNCTION IF EXISTS public.record_ballot(UUID, UUID, TEXT, TEXT, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.record_ballot(
+    p_election_id UUID,
+    p_candidate_id UUID,
+    p_transaction_hash TEXT,
+    p_commitment_salt TEXT,
+    p_ranking UUID[] DEFAULT NULL,
+    p_selections UUID[] DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_voting_method TEXT;
+    v_encrypted BOOLEAN;
+    v_max_selections INTEGER;
+    v_ballot_id UUID;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    SELECT voting_method, encrypted_ballots, max_selections
+    INTO v_voting_method, v_encrypted, v_max_selections
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_encrypted THEN
+        RAISE EXCEPTION 'This election only accepts encrypted ballots';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.candidates
+        WHERE id = p_candidate_id
+        AND election_id = p_election_id
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    IF v_voting_method = 'irv' THEN
+        IF p_ranking IS NULL OR cardinality(p_ranking) = 0 OR p_ranking[1] <> p_candidate_id THEN
+            RAISE EXCEPTION 'A ranked ballot must list the first choice first';
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT r) FROM unnest(p_ranking) AS r) <> cardinality(p_ranking) THEN
+            RAISE EXCEPTION 'Each candidate can only be ranked once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(p_ranking) AS r
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates c
+                WHERE c.id = r
+                AND c.election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Ranked candidate not found in this election';
+        END IF;
+    ELSIF p_ranking IS NOT NULL THEN
+        RAISE EXCEPTION 'This election does not accept ranked ballots';
+    END IF;
+
+    IF v_max_selections > 1 THEN
+        IF p_selections IS NULL OR cardinality(p_selections) = 0 OR p_selections[1] <> p_candidate_id THEN
+            RAISE EXCEPTION 'A multi-choice ballot must list the first choice first';
+        END IF;
+
+        IF cardinality(p_selections) > v_max_selections THEN
+            RAISE EXCEPTION 'You can choose at most % candidates in this election', v_max_selections;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT s) FROM unnest(p_selections) AS s) <> cardinality(p_selections) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(p_selections) AS s
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates c
+                WHERE c.id = s
+                AND c.election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Chosen candidate not found in this election';
+        END IF;
+    ELSIF p_selections IS NOT NULL THEN
+        RAISE EXCEPTION 'This election accepts a single choice';
+    END IF;
+
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (v_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id, ranking, selections, transaction_hash, commitment_salt)
+    VALUES (p_election_id, p_candidate_id, p_ranking, p_selections, p_transaction_hash, p_commitment_salt)
+    RETURNING ballot_id INTO v_ballot_id;
+
+    RETURN v_ballot_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
+
+-- cast_vote now takes every choice on the ballot; the single-candidate signature is retired
+DROP FUNCTION IF EXISTS public.cast_vote(UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_voter_id UUID,
+    p_election_id UUID,
+    p_candidate_ids UUID[]
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_max_selections INTEGER;
+BEGIN
+    -- Check if election exists and is active
+    SELECT max_selections INTO v_max_selections
+    FROM public.elections
+    WHERE id = p_election_id
+    AND is_active = true
+    AND CURRENT_TIMESTAMP BETWEEN start_date AND end_date;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found or not active';
+    END IF;
+
+    -- Plain choices only; ranked and encrypted ballots go through their own functions
+    IF EXISTS (
+        SELECT 1 FROM public.elections
+        WHERE id = p_election_id
+        AND (encrypted_ballots = true OR voting_method <> 'plurality')
+    ) THEN
+        RAISE EXCEPTION 'This election does not accept single-choice votes';
+    END IF;
+
+    IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+        RAISE EXCEPTION 'Choose at least one candidate';
+    END IF;
+
+    IF cardinality(p_candidate_ids) > v_max_selections THEN
+        RAISE EXCEPTION 'You can choose at most % candidates in this election', v_max_selections;
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT s) FROM unnest(p_candidate_ids) AS s) <> cardinality(p_candidate_ids) THEN
+        RAISE EXCEPTION 'Each candidate can only be chosen once';
+    END IF;
+
+    -- Check every candidate exists in the election
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_candidate_ids) AS s
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.candidates c
+            WHERE c.id = s
+            AND c.election_id = p_election_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Candidate not found in this election';
+    END IF;
+
+    -- Record participation; the unique constraint rejects a second vote
+    INSERT INTO public.voter_participation (voter_id, election_id)
+    VALUES (p_voter_id, p_election_id);
+
+    INSERT INTO public.ballots (election_id, candidate_id, selections)
+    VALUES (
+        p_election_id,
+        p_candidate_ids[1],
+        CASE WHEN v_max_selections > 1 THEN p_candidate_ids END
+    );
+
+    RETURN true;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'User has already voted in this election';
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Ranked-choice elections with more than one seat are counted by single
+-- transferable vote, so they no longer need to fill a single seat.
+ALTER TABLE public.elections
+    DROP CONSTRAINT IF EXISTS elections_irv_single_seat;
@@ -0,0 +1,203 @@
+-- Cast every vote through a single cast_vote call. Participation, the ballot and
+-- its ledger block are written in one transaction, so a vote is either fully
+-- recorded or not at all, and double voting is stopped by the database alone.
+
+-- The ledger is now only appended to by cast_vote
+DROP POLICY IF EXISTS "Authenticated users can append to the ledger" ON public.vote_ledger;
+
+-- Superseded by cast_vote
+DROP FUNCTION IF EXISTS public.record_ballot(UUID, UUID, TEXT, TEXT, UUID[], UUID[]);
+DROP FUNCTION IF EXISTS public.record_encrypted_ballot(UUID, JSONB, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.cast_vote(UUID, UUID, UUID[]);
+
+-- Append a block for a committed vote. Callers must hold the ledger lock.
+-- The hash format must stay in sync with VoteLedger.computeBlockHash.
+CREATE OR REPLACE FUNCTION public.append_ledger_block(
+    p_election_id UUID,
+    p_candidate_commitment TEXT
+) RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_previous_hash TEXT;
+    v_block_number BIGINT;
+    v_created_at TIMESTAMP WITH TIME ZONE := date_trunc('milliseconds', clock_timestamp());
+    v_block_hash TEXT;
+BEGIN
+    SELECT block_hash, block_number + 1 INTO v_previous_hash, v_block_number
+    FROM public.vote_ledger
+    ORDER BY block_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        v_previous_hash := repeat('0', 64);
+        v_block_number := 1;
+    END IF;
+
+    v_block_hash := encode(
+        digest(
+            v_previous_hash || '|' ||
+            p_election_id::text || '|' ||
+            p_candidate_commitment || '|' ||
+            to_char(v_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    INSERT INTO public.vote_ledger (block_number, block_hash, previous_hash, election_id, candidate_commitment, created_at)
+    VALUES (v_block_number, v_block_hash, v_previous_hash, p_election_id, p_candidate_commitment, v_created_at);
+
+    RETURN v_block_hash;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_ledger_block(UUID, TEXT) FROM PUBLIC;
+
+-- Cast a ballot for the signed-in voter and return its receipt hash.
+--   Plurality and approval elections take p_candidate_ids (one, or up to max_selections)
+--   Ranked-choice elections take p_ranking
+--   Sealed elections take p_encrypted_choice
+-- The ledger commits to sha256(election_id|value|salt), where value is the
+-- comma-separated candidate IDs or ranking, or the encrypted ballot's JSON text.
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF NOT v_election.is_active
+        OR CURRENT_TIMESTAMP NOT BETWEEN v_election.start_date AND v_election.end_date THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cast_vote(UUID, UUID[], UUID[], JSONB) TO authenticated;
@@ -0,0 +1,341 @@
+-- Elections move through draft -> scheduled -> open -> closed -> certified.
+-- Draft and certified are set by an administrator; once published, whether an
+-- election is scheduled, open or closed follows its start and end dates alone.
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft',
+    ADD COLUMN IF NOT EXISTS certified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.elections
+    DROP CONSTRAINT IF EXISTS elections_status_check;
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_status_check
+    CHECK (status IN ('draft', 'scheduled', 'open', 'closed', 'certified'));
+
+-- Existing rows may predate the check, so only new and updated rows are held to it
+ALTER TABLE public.elections
+    DROP CONSTRAINT IF EXISTS elections_dates_check;
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_dates_check
+    CHECK (end_date > start_date) NOT VALID;
+
+-- Where a published election stands at a given moment
+CREATE OR REPLACE FUNCTION public.election_phase(
+    p_start_date TIMESTAMP WITH TIME ZONE,
+    p_end_date TIMESTAMP WITH TIME ZONE,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+) RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN p_at < p_start_date THEN 'scheduled'
+        WHEN p_at < p_end_date THEN 'open'
+        ELSE 'closed'
+    END;
+$$;
+
+-- Active elections keep voting; inactive ones that had not ended go back to draft
+UPDATE public.elections
+SET status = CASE
+    WHEN end_date <= CURRENT_TIMESTAMP THEN 'closed'
+    WHEN is_active THEN public.election_phase(start_date, end_date)
+    ELSE 'draft'
+END;
+
+-- Closed elections that already published a tally were final in all but name
+UPDATE public.elections e
+SET status = 'certified', certified_at = t.committed_at
+FROM public.election_tallies t
+WHERE t.election_id = e.id
+AND e.status = 'closed';
+
+-- Policies that checked is_active now check the status
+DROP POLICY IF EXISTS "Authenticated users can commit closed election tallies" ON public.election_tallies;
+CREATE POLICY "Authenticated users can commit closed election tallies"
+ON public.election_tallies
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND e.status <> 'draft'
+        AND e.end_date <= CURRENT_TIMESTAMP
+    )
+);
+
+DROP POLICY IF EXISTS "Authenticated users can submit decryption shares for closed elections" ON public.election_decryptions;
+CREATE POLICY "Authenticated users can submit decryption shares for closed elections"
+ON public.election_decryptions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND e.encrypted_ballots = true
+        AND e.status <> 'draft'
+        AND e.end_date <= CURRENT_TIMESTAMP
+    )
+);
+
+ALTER TABLE public.elections
+    DROP COLUMN IF EXISTS is_active;
+
+-- Keep the stored status in step with the dates and reject transitions that skip a step
+CREATE OR REPLACE FUNCTION public.elections_enforce_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_old_phase TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'certified' THEN
+            RAISE EXCEPTION 'Only closed elections can be certified';
+        END IF;
+
+        IF NEW.status <> 'draft' THEN
+            IF NEW.end_date <= CURRENT_TIMESTAMP THEN
+                RAISE EXCEPTION 'An election cannot be published after its end date';
+            END IF;
+
+            NEW.status := public.election_phase(NEW.start_date, NEW.end_date);
+        END IF;
+
+        NEW.certified_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'certified' THEN
+        RAISE EXCEPTION 'Certified elections cannot be changed';
+    END IF;
+
+    v_old_phase := public.election_phase(OLD.start_date, OLD.end_date);
+
+    IF NEW.status = 'certified' THEN
+        IF OLD.status = 'draft' OR v_old_phase <> 'closed' THEN
+            RAISE EXCEPTION 'Only closed elections can be certified';
+        END IF;
+
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+            RAISE EXCEPTION 'The dates cannot change once voting has closed';
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM public.election_tallies WHERE election_id = OLD.id) THEN
+            RAISE EXCEPTION 'Commit the tally before certifying the election';
+        END IF;
+
+        NEW.certified_at := CURRENT_TIMESTAMP;
+        RETURN NEW;
+    END IF;
+
+    NEW.certified_at := NULL;
+
+    IF NEW.status = 'draft' THEN
+        IF OLD.status <> 'draft' AND v_old_phase <> 'scheduled' THEN
+            RAISE EXCEPTION 'Only elections that have not opened can return to draft';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'draft' THEN
+        IF NEW.end_date <= CURRENT_TIMESTAMP THEN
+            RAISE EXCEPTION 'An election cannot be published after its end date';
+        END IF;
+    ELSIF v_old_phase = 'closed' THEN
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+            RAISE EXCEPTION 'The dates cannot change once voting has closed';
+        END IF;
+    ELSIF v_old_phase = 'open' THEN
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+            RAISE EXCEPTION 'The start date cannot change once voting has opened';
+        END IF;
+
+        -- Closing early moves the end date to now, never into the past
+        NEW.end_date := GREATEST(NEW.end_date, CURRENT_TIMESTAMP);
+    END IF;
+
+    NEW.status := public.election_phase(NEW.start_date, NEW.end_date);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS elections_enforce_lifecycle ON public.elections;
+CREATE TRIGGER elections_enforce_lifecycle
+BEFORE INSERT OR UPDATE ON public.elections
+FOR EACH ROW EXECUTE FUNCTION public.elections_enforce_lifecycle();
+
+-- Move published elections on as their dates pass. Returns the number of elections changed.
+CREATE OR REPLACE FUNCTION public.advance_election_statuses()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changed INTEGER;
+BEGIN
+    UPDATE public.elections
+    SET status = public.election_phase(start_date, end_date)
+    WHERE status IN ('scheduled', 'open')
+    AND status <> public.election_phase(start_date, end_date);
+
+    GET DIAGNOSTICS v_changed = ROW_COUNT;
+    RETURN v_changed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.advance_election_statuses() FROM PUBLIC;
+
+-- Run the transition job every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+    'advance-election-statuses',
+    '* * * * *',
+    $$SELECT public.advance_election_statuses()$$
+);
+
+-- Votes are accepted only while a published election is open by the clock,
+-- so a vote cannot slip in between an election closing and the job running
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Faces are matched on the device by comparing embeddings, so registration
+-- stores the embedding and the model that produced it alongside the image
+ALTER TABLE public.user_biometrics
+    ADD COLUMN IF NOT EXISTS face_embedding DOUBLE PRECISION[],
+    ADD COLUMN IF NOT EXISTS face_model TEXT;
+
+ALTER TABLE public.user_biometrics
+    DROP CONSTRAINT IF EXISTS user_biometrics_face_embedding_check;
+ALTER TABLE public.user_biometrics
+    ADD CONSTRAINT user_biometrics_face_embedding_check
+    CHECK (
+        face_embedding IS NULL
+        OR (cardinality(face_embedding) = 128 AND face_model IS NOT NULL)
+    );
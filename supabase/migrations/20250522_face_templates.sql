@@ -0,0 +1,152 @@
+-- Store each face as an encrypted template rather than a photo. The template is
+-- the embedding, encrypted at rest with a key kept in the Vault, together with
+-- the model version that produced it and a quality score. A template from an
+-- older model cannot be compared, so its owner is asked to enroll again.
+
+ALTER TABLE public.user_biometrics
+    ADD COLUMN IF NOT EXISTS face_template BYTEA,
+    ADD COLUMN IF NOT EXISTS template_version TEXT,
+    ADD COLUMN IF NOT EXISTS template_quality REAL CHECK (template_quality BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS template_enrolled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.user_biometrics
+    DROP CONSTRAINT IF EXISTS user_biometrics_face_template_check;
+ALTER TABLE public.user_biometrics
+    ADD CONSTRAINT user_biometrics_face_template_check
+    CHECK (face_template IS NULL OR template_version IS NOT NULL);
+
+-- Generate the template key once; it never leaves the database
+SELECT vault.create_secret(
+    encode(gen_random_bytes(32), 'hex'),
+    'face_template_key',
+    'Encrypts face templates in user_biometrics'
+)
+WHERE NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'face_template_key');
+
+CREATE OR REPLACE FUNCTION public.face_template_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'face_template_key';
+
+    IF v_key IS NULL THEN
+        RAISE EXCEPTION 'The face template key has not been configured';
+    END IF;
+
+    RETURN v_key;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.face_template_key() FROM PUBLIC, anon, authenticated;
+
+-- Enroll the signed-in user's face, replacing any earlier template or photo
+CREATE OR REPLACE FUNCTION public.enroll_face_template(
+    p_embedding DOUBLE PRECISION[],
+    p_template_version TEXT,
+    p_quality REAL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_template BYTEA;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register your face';
+    END IF;
+
+    IF cardinality(p_embedding) IS DISTINCT FROM 128 THEN
+        RAISE EXCEPTION 'A face template must have 128 values';
+    END IF;
+
+    IF p_template_version IS NULL OR p_template_version = '' THEN
+        RAISE EXCEPTION 'A face template must name the model that produced it';
+    END IF;
+
+    IF p_quality IS NULL OR p_quality < 0 OR p_quality > 1 THEN
+        RAISE EXCEPTION 'A face template quality must be between 0 and 1';
+    END IF;
+
+    v_template := pgp_sym_encrypt(array_to_json(p_embedding)::text, public.face_template_key(), 'cipher-algo=aes256');
+
+    UPDATE public.user_biometrics
+    SET face_template = v_template,
+        template_version = p_template_version,
+        template_quality = p_quality,
+        template_enrolled_at = now(),
+        face_image_url = NULL,
+        updated_at = now()
+    WHERE user_id = v_user_id;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.user_biometrics (user_id, face_template, template_version, template_quality, template_enrolled_at)
+        VALUES (v_user_id, v_template, p_template_version, p_quality, now());
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enroll_face_template(DOUBLE PRECISION[], TEXT, REAL) TO authenticated;
+
+-- Decrypt the signed-in user's own template for matching on their device.
+-- Users whose registration predates templates get their legacy photo instead.
+CREATE OR REPLACE FUNCTION public.get_face_template()
+RETURNS TABLE (
+    embedding DOUBLE PRECISION[],
+    template_version TEXT,
+    template_quality REAL,
+    legacy_image_url TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        CASE WHEN b.face_template IS NULL THEN NULL ELSE ARRAY(
+            SELECT value::double precision
+            FROM json_array_elements_text(pgp_sym_decrypt(b.face_template, public.face_template_key())::json)
+        ) END,
+        b.template_version,
+        b.template_quality,
+        CASE WHEN b.face_template IS NULL THEN b.face_image_url END
+    FROM public.user_biometrics b
+    WHERE b.user_id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_face_template() TO authenticated;
+
+-- Templates are only written by enroll_face_template, and no new photos are accepted
+REVOKE INSERT, UPDATE ON public.user_biometrics FROM anon, authenticated;
+
+-- Migrate rows that already have a plaintext embedding and drop their photo.
+-- Their quality was never measured, so it stays NULL until they enroll again.
+UPDATE public.user_biometrics
+SET face_template = pgp_sym_encrypt(array_to_json(face_embedding)::text, public.face_template_key(), 'cipher-algo=aes256'),
+    template_version = face_model,
+    template_enrolled_at = updated_at,
+    face_image_url = NULL,
+    updated_at = now()
+WHERE face_embedding IS NOT NULL AND face_template IS NULL;
+
+ALTER TABLE public.user_biometrics
+    DROP CONSTRAINT IF EXISTS user_biometrics_face_embedding_check,
+    DROP COLUMN IF EXISTS face_embedding,
+    DROP COLUMN IF EXISTS face_model;
+
+-- Rows that only have a photo are converted on the owner's device the next time
+-- they verify, since the model does not run in the database. face_image_url is
+-- kept until then and can be dropped once no row has a photo without a template.
+COMMENT ON COLUMN public.user_biometrics.face_image_url IS
+    'Legacy face photo, cleared when the user enrolls a template. Do not write.';
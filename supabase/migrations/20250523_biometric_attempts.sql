@@ -0,0 +1,41 @@
+-- One row per biometric verification attempt, including the presentation-attack
+-- signals, so admins can review suspected spoofs. There are no update or delete
+-- policies, so recorded attempts cannot be changed from the app.
+CREATE TABLE IF NOT EXISTS public.biometric_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    modality TEXT NOT NULL CHECK (modality IN ('face', 'palm')),
+    verified BOOLEAN NOT NULL,
+    similarity REAL,
+    liveness_passed BOOLEAN,
+    spoof_score REAL CHECK (spoof_score BETWEEN 0 AND 1),
+    suspected_spoof BOOLEAN NOT NULL DEFAULT false,
+    spoof_signals JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS biometric_attempts_user_created_idx
+    ON public.biometric_attempts (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS biometric_attempts_suspected_spoof_idx
+    ON public.biometric_attempts (created_at DESC) WHERE suspected_spoof;
+
+ALTER TABLE public.biometric_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their own biometric attempts"
+ON public.biometric_attempts
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can read their own biometric attempts"
+ON public.biometric_attempts
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Matches the admin check in the app
+CREATE POLICY "Admins can read all biometric attempts"
+ON public.biometric_attempts
+FOR SELECT
+TO authenticated
+USING ((auth.jwt() ->> 'email') LIKE '%@dixith123.com');
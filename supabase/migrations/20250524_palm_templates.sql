@@ -0,0 +1,124 @@
+-- Store each palm as an encrypted template, alongside the face template. The
+-- template is the palmprint descriptor computed on the user's device, encrypted
+-- at rest with its own key in the Vault.
+
+ALTER TABLE public.user_biometrics
+    ADD COLUMN IF NOT EXISTS palm_template BYTEA,
+    ADD COLUMN IF NOT EXISTS palm_template_version TEXT,
+    ADD COLUMN IF NOT EXISTS palm_template_quality REAL CHECK (palm_template_quality BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS palm_enrolled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.user_biometrics
+    DROP CONSTRAINT IF EXISTS user_biometrics_palm_template_check;
+ALTER TABLE public.user_biometrics
+    ADD CONSTRAINT user_biometrics_palm_template_check
+    CHECK (palm_template IS NULL OR palm_template_version IS NOT NULL);
+
+SELECT vault.create_secret(
+    encode(gen_random_bytes(32), 'hex'),
+    'palm_template_key',
+    'Encrypts palm templates in user_biometrics'
+)
+WHERE NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'palm_template_key');
+
+CREATE OR REPLACE FUNCTION public.palm_template_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'palm_template_key';
+
+    IF v_key IS NULL THEN
+        RAISE EXCEPTION 'The palm template key has not been configured';
+    END IF;
+
+    RETURN v_key;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.palm_template_key() FROM PUBLIC, anon, authenticated;
+
+-- Enroll the signed-in user's palm, replacing any earlier template
+CREATE OR REPLACE FUNCTION public.enroll_palm_template(
+    p_descriptor DOUBLE PRECISION[],
+    p_template_version TEXT,
+    p_quality REAL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_template BYTEA;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register your palm';
+    END IF;
+
+    -- 8x8 cells of 6 line orientations, then 6 hand proportions
+    IF cardinality(p_descriptor) IS DISTINCT FROM 390 THEN
+        RAISE EXCEPTION 'A palm template must have 390 values';
+    END IF;
+
+    IF p_template_version IS NULL OR p_template_version = '' THEN
+        RAISE EXCEPTION 'A palm template must name the descriptor that produced it';
+    END IF;
+
+    IF p_quality IS NULL OR p_quality < 0 OR p_quality > 1 THEN
+        RAISE EXCEPTION 'A palm template quality must be between 0 and 1';
+    END IF;
+
+    v_template := pgp_sym_encrypt(array_to_json(p_descriptor)::text, public.palm_template_key(), 'cipher-algo=aes256');
+
+    UPDATE public.user_biometrics
+    SET palm_template = v_template,
+        palm_template_version = p_template_version,
+        palm_template_quality = p_quality,
+        palm_enrolled_at = now(),
+        updated_at = now()
+    WHERE user_id = v_user_id;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.user_biometrics (user_id, palm_template, palm_template_version, palm_template_quality, palm_enrolled_at)
+        VALUES (v_user_id, v_template, p_template_version, p_quality, now());
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enroll_palm_template(DOUBLE PRECISION[], TEXT, REAL) TO authenticated;
+
+-- Decrypt the signed-in user's own palm template for matching on their device
+CREATE OR REPLACE FUNCTION public.get_palm_template()
+RETURNS TABLE (
+    descriptor DOUBLE PRECISION[],
+    template_version TEXT,
+    template_quality REAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        ARRAY(
+            SELECT value::double precision
+            FROM json_array_elements_text(pgp_sym_decrypt(b.palm_template, public.palm_template_key())::json)
+        ),
+        b.palm_template_version,
+        b.palm_template_quality
+    FROM public.user_biometrics b
+    WHERE b.user_id = auth.uid()
+      AND b.palm_template IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_palm_template() TO authenticated;
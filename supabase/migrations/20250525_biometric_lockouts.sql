@@ -0,0 +1,324 @@
+-- Lock users out of biometric verification after repeated failures. Attempts
+-- are recorded through record_biometric_attempt, which keeps the lockout state
+-- in the database, so reloading the page no longer clears it. Each lockout in a
+-- row lasts twice as long as the one before, up to a day; a successful
+-- verification or an admin resets the escalation.
+CREATE TABLE IF NOT EXISTS public.biometric_lockouts (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Failures since the last success or lockout
+    failed_attempts INTEGER NOT NULL DEFAULT 0 CHECK (failed_attempts >= 0),
+    -- Lockouts since the last success; sets the length of the next one
+    lockout_count INTEGER NOT NULL DEFAULT 0 CHECK (lockout_count >= 0),
+    locked_until TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS biometric_lockouts_locked_until_idx
+    ON public.biometric_lockouts (locked_until DESC) WHERE locked_until IS NOT NULL;
+
+ALTER TABLE public.biometric_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own biometric lockout"
+ON public.biometric_lockouts
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all biometric lockouts"
+ON public.biometric_lockouts
+FOR SELECT
+TO authenticated
+USING ((auth.jwt() ->> 'email') LIKE '%@dixith123.com');
+
+-- Attempts can only be recorded through record_biometric_attempt, so a client
+-- cannot skip the lockout bookkeeping
+DROP POLICY IF EXISTS "Users can record their own biometric attempts" ON public.biometric_attempts;
+REVOKE INSERT ON public.biometric_attempts FROM anon, authenticated;
+
+-- Failures in a row that trigger a lockout
+CREATE OR REPLACE FUNCTION public.biometric_max_failed_attempts()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$ SELECT 3 $$;
+
+-- 15 minutes for the first lockout, doubling with each one after it, up to a day
+CREATE OR REPLACE FUNCTION public.biometric_lockout_duration(p_lockout_count INTEGER)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT LEAST(
+        interval '15 minutes' * power(2, GREATEST(p_lockout_count - 1, 0)),
+        interval '24 hours'
+    )
+$$;
+
+-- Record a verification attempt by the signed-in user and update their
+-- lockout. Attempts are refused while the user is locked out.
+CREATE OR REPLACE FUNCTION public.record_biometric_attempt(
+    p_modality TEXT,
+    p_verified BOOLEAN,
+    p_similarity REAL DEFAULT NULL,
+    p_liveness_passed BOOLEAN DEFAULT NULL,
+    p_spoof_score REAL DEFAULT NULL,
+    p_suspected_spoof BOOLEAN DEFAULT false,
+    p_spoof_signals JSONB DEFAULT NULL
+) RETURNS TABLE (
+    locked_until TIMESTAMP WITH TIME ZONE,
+    remaining_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_lockout public.biometric_lockouts%ROWTYPE;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to verify your identity';
+    END IF;
+
+    INSERT INTO public.biometric_lockouts (user_id)
+    VALUES (v_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    -- Lock the row so attempts sent at the same time are counted one by one
+    SELECT * INTO v_lockout
+    FROM public.biometric_lockouts
+    WHERE user_id = v_user_id
+    FOR UPDATE;
+
+    IF v_lockout.locked_until > now() THEN
+        RAISE EXCEPTION 'Biometric verification is locked until %', v_lockout.locked_until
+            USING HINT = 'biometric_locked';
+    END IF;
+
+    INSERT INTO public.biometric_attempts (
+        user_id, modality, verified, similarity, liveness_passed, spoof_score, suspected_spoof, spoof_signals
+    ) VALUES (
+        v_user_id, p_modality, p_verified, p_similarity, p_liveness_passed, p_spoof_score,
+        COALESCE(p_suspected_spoof, false), p_spoof_signals
+    );
+
+    IF p_verified THEN
+        v_lockout.failed_attempts := 0;
+        v_lockout.lockout_count := 0;
+        v_lockout.locked_until := NULL;
+    ELSE
+        v_lockout.failed_attempts := v_lockout.failed_attempts + 1;
+
+        IF v_lockout.failed_attempts >= public.biometric_max_failed_attempts() THEN
+            v_lockout.failed_attempts := 0;
+            v_lockout.lockout_count := v_lockout.lockout_count + 1;
+            v_lockout.locked_until := now() + public.biometric_lockout_duration(v_lockout.lockout_count);
+        END IF;
+    END IF;
+
+    UPDATE public.biometric_lockouts l
+    SET failed_attempts = v_lockout.failed_attempts,
+        lockout_count = v_lockout.lockout_count,
+        locked_until = v_lockout.locked_until,
+        updated_at = now()
+    WHERE l.user_id = v_user_id;
+
+    RETURN QUERY SELECT
+        CASE WHEN v_lockout.locked_until > now() THEN v_lockout.locked_until END,
+        public.biometric_max_failed_attempts() - v_lockout.failed_attempts;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_biometric_attempt(TEXT, BOOLEAN, REAL, BOOLEAN, REAL, BOOLEAN, JSONB) TO authenticated;
+
+-- The signed-in user's lockout, if any, and how many failures they have left
+CREATE OR REPLACE FUNCTION public.get_biometric_lockout()
+RETURNS TABLE (
+    locked_until TIMESTAMP WITH TIME ZONE,
+    remaining_attempts INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        CASE WHEN l.locked_until > now() THEN l.locked_until END,
+        public.biometric_max_failed_attempts() - COALESCE(l.failed_attempts, 0)
+    FROM (SELECT auth.uid() AS user_id) AS me
+    LEFT JOIN public.biometric_lockouts l ON l.user_id = me.user_id
+    WHERE me.user_id IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_biometric_lockout() TO authenticated;
+
+-- Let an admin unlock a user and reset their escalation
+CREATE OR REPLACE FUNCTION public.clear_biometric_lockout(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF COALESCE(auth.jwt() ->> 'email', '') NOT LIKE '%@dixith123.com' THEN
+        RAISE EXCEPTION 'Only admins can clear biometric lockouts';
+    END IF;
+
+    UPDATE public.biometric_lockouts
+    SET failed_attempts = 0,
+        lockout_count = 0,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clear_biometric_lockout(UUID) TO authenticated;
+
+-- Votes are refused while the voter is locked out of biometric verification
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
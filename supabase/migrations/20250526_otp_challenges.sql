@@ -0,0 +1,227 @@
+-- One-time codes for the vote step-up. Codes are generated and checked by the
+-- otp Edge Function, which holds the only copy of the code while sending it;
+-- this table keeps an HMAC of each code, its expiry and the attempts made.
+-- There are no policies, so only the service role can read or write it.
+
+-- Where SMS codes are sent; collected at registration
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS phone TEXT CHECK (phone ~ '^\+[1-9][0-9]{7,14}$');
+
+CREATE TABLE IF NOT EXISTS public.otp_challenges (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL DEFAULT 'vote' CHECK (purpose IN ('vote')),
+    transport TEXT NOT NULL CHECK (transport IN ('sms', 'email', 'console', 'file')),
+    -- Masked, for showing where the code went
+    destination TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    -- The user's nth code; the HOTP counter when codes are generated with HOTP
+    counter BIGINT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    -- Set when a vote is cast on the strength of this code
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, counter)
+);
+
+CREATE INDEX IF NOT EXISTS otp_challenges_user_created_idx
+    ON public.otp_challenges (user_id, created_at DESC);
+
+ALTER TABLE public.otp_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Save the signed-in user's phone number in E.164 form, e.g. +15551234567
+CREATE OR REPLACE FUNCTION public.set_phone_number(p_phone TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to set your phone number';
+    END IF;
+
+    IF p_phone IS NULL OR p_phone !~ '^\+[1-9][0-9]{7,14}$' THEN
+        RAISE EXCEPTION 'Enter the phone number with its country code, e.g. +15551234567';
+    END IF;
+
+    UPDATE public.profiles
+    SET phone = p_phone,
+        updated_at = now()
+    WHERE id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Profile not found';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_phone_number(TEXT) TO authenticated;
+
+-- Votes need a code verified in the last few minutes, which the vote uses up
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    UPDATE public.otp_challenges
+    SET consumed_at = now()
+    WHERE id = (
+        SELECT id FROM public.otp_challenges
+        WHERE user_id = v_voter_id
+        AND purpose = 'vote'
+        AND verified_at > now() - interval '10 minutes'
+        AND consumed_at IS NULL
+        ORDER BY verified_at DESC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    );
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Please verify your one-time code before voting';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
@@ -0,0 +1,370 @@
+-- Authenticator app (RFC 6238 TOTP) as an alternative to codes sent by SMS.
+-- Seeds are generated and checked in the database and are encrypted at rest
+-- with a key in the Vault; the app only sees a seed once, while enrolling.
+-- A verified TOTP or recovery code is recorded in otp_challenges, so it
+-- authorises a vote the same way as a verified SMS code.
+
+CREATE TABLE IF NOT EXISTS public.totp_factors (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    seed BYTEA NOT NULL,
+    -- NULL until the user proves their app generates the right codes
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    -- Time step of the last accepted code, so a code cannot be used twice
+    last_used_step BIGINT,
+    failed_attempts INTEGER NOT NULL DEFAULT 0 CHECK (failed_attempts >= 0),
+    last_failed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS public.totp_recovery_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS totp_recovery_codes_user_idx
+    ON public.totp_recovery_codes (user_id);
+
+-- Only the functions below read or write these tables
+ALTER TABLE public.totp_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.totp_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Authenticator codes are verified without a stored code or a delivery
+ALTER TABLE public.otp_challenges
+    ALTER COLUMN code_hash DROP NOT NULL,
+    DROP CONSTRAINT IF EXISTS otp_challenges_transport_check;
+ALTER TABLE public.otp_challenges
+    ADD CONSTRAINT otp_challenges_transport_check
+    CHECK (transport IN ('sms', 'email', 'console', 'file', 'totp', 'recovery_code')),
+    ADD CONSTRAINT otp_challenges_code_hash_check
+    CHECK (code_hash IS NOT NULL OR transport IN ('totp', 'recovery_code'));
+
+SELECT vault.create_secret(
+    encode(gen_random_bytes(32), 'hex'),
+    'totp_seed_key',
+    'Encrypts authenticator seeds in totp_factors'
+)
+WHERE NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'totp_seed_key');
+
+CREATE OR REPLACE FUNCTION public.totp_seed_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'totp_seed_key';
+
+    IF v_key IS NULL THEN
+        RAISE EXCEPTION 'The authenticator seed key has not been configured';
+    END IF;
+
+    RETURN v_key;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.totp_seed_key() FROM PUBLIC, anon, authenticated;
+
+-- HOTP (RFC 4226) of one time step: HMAC-SHA1 of the step, dynamically
+-- truncated to six digits
+CREATE OR REPLACE FUNCTION public.totp_code(p_seed BYTEA, p_step BIGINT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_digest BYTEA := hmac(int8send(p_step), p_seed, 'sha1');
+    v_offset INTEGER := get_byte(v_digest, 19) & 15;
+    v_binary BIGINT;
+BEGIN
+    v_binary := ((get_byte(v_digest, v_offset) & 127)::BIGINT << 24)
+        | (get_byte(v_digest, v_offset + 1) << 16)
+        | (get_byte(v_digest, v_offset + 2) << 8)
+        | get_byte(v_digest, v_offset + 3);
+
+    RETURN lpad((v_binary % 1000000)::TEXT, 6, '0');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.totp_code(BYTEA, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Check a code against the user's seed, allowing one 30-second step of clock
+-- drift either way. Returns the matching step, or NULL. Steps at or before
+-- p_after are skipped so a code cannot be replayed.
+CREATE OR REPLACE FUNCTION public.totp_match_step(p_seed BYTEA, p_code TEXT, p_after BIGINT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_now BIGINT := floor(extract(epoch FROM now()) / 30)::BIGINT;
+    v_step BIGINT;
+BEGIN
+    FOR v_step IN v_now - 1 .. v_now + 1 LOOP
+        IF (p_after IS NULL OR v_step > p_after) AND public.totp_code(p_seed, v_step) = p_code THEN
+            RETURN v_step;
+        END IF;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.totp_match_step(BYTEA, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+
+-- Whether the signed-in user has an authenticator, and how many recovery codes are left
+CREATE OR REPLACE FUNCTION public.get_totp_status()
+RETURNS TABLE (
+    enrolled BOOLEAN,
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    recovery_codes_remaining INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        f.confirmed_at IS NOT NULL,
+        f.confirmed_at,
+        (SELECT COUNT(*)::INTEGER FROM public.totp_recovery_codes r
+         WHERE r.user_id = auth.uid() AND r.used_at IS NULL)
+    FROM (SELECT auth.uid() AS user_id) AS me
+    LEFT JOIN public.totp_factors f ON f.user_id = me.user_id
+    WHERE me.user_id IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_totp_status() TO authenticated;
+
+-- Start enrolling an authenticator and return its seed, hex encoded, for the
+-- QR code. An unconfirmed enrollment is replaced.
+CREATE OR REPLACE FUNCTION public.begin_totp_enrollment()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_seed BYTEA := gen_random_bytes(20);
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to set up an authenticator';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.totp_factors WHERE user_id = v_user_id AND confirmed_at IS NOT NULL) THEN
+        RAISE EXCEPTION 'Remove your current authenticator before setting up a new one';
+    END IF;
+
+    INSERT INTO public.totp_factors (user_id, seed)
+    VALUES (v_user_id, pgp_sym_encrypt_bytea(v_seed, public.totp_seed_key(), 'cipher-algo=aes256'))
+    ON CONFLICT (user_id) DO UPDATE
+    SET seed = EXCLUDED.seed,
+        last_used_step = NULL,
+        failed_attempts = 0,
+        last_failed_at = NULL,
+        created_at = now();
+
+    RETURN encode(v_seed, 'hex');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.begin_totp_enrollment() TO authenticated;
+
+-- Confirm the enrollment with a code from the app. Returns ten single-use
+-- recovery codes, which are only stored hashed and cannot be shown again.
+CREATE OR REPLACE FUNCTION public.confirm_totp_enrollment(p_code TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_factor public.totp_factors%ROWTYPE;
+    v_step BIGINT;
+    v_code TEXT;
+    v_codes TEXT[] := '{}';
+BEGIN
+    SELECT * INTO v_factor
+    FROM public.totp_factors
+    WHERE user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_factor.confirmed_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Start setting up your authenticator first';
+    END IF;
+
+    v_step := public.totp_match_step(pgp_sym_decrypt_bytea(v_factor.seed, public.totp_seed_key()), p_code, NULL);
+    IF v_step IS NULL THEN
+        RAISE EXCEPTION 'That code is not correct. Check the time on your device and try again.';
+    END IF;
+
+    UPDATE public.totp_factors
+    SET confirmed_at = now(),
+        last_used_step = v_step
+    WHERE user_id = v_user_id;
+
+    DELETE FROM public.totp_recovery_codes WHERE user_id = v_user_id;
+
+    FOR i IN 1..10 LOOP
+        v_code := substr(encode(gen_random_bytes(5), 'hex'), 1, 5) || '-' || substr(encode(gen_random_bytes(5), 'hex'), 1, 5);
+        INSERT INTO public.totp_recovery_codes (user_id, code_hash)
+        VALUES (v_user_id, crypt(v_code, gen_salt('bf')));
+        v_codes := v_codes || v_code;
+    END LOOP;
+
+    RETURN v_codes;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_totp_enrollment(TEXT) TO authenticated;
+
+-- Check an authenticator code, or an unused recovery code, for a user. Returns
+-- 'totp' or 'recovery_code' for a correct code, or NULL. A correct code cannot
+-- be used again; after five wrong codes the user has to wait 15 minutes.
+CREATE OR REPLACE FUNCTION public.check_totp_code(p_user_id UUID, p_code TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_factor public.totp_factors%ROWTYPE;
+    v_code TEXT := lower(trim(p_code));
+    v_step BIGINT;
+    v_recovery_id UUID;
+BEGIN
+    SELECT * INTO v_factor
+    FROM public.totp_factors
+    WHERE user_id = p_user_id
+    AND confirmed_at IS NOT NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You have not set up an authenticator app';
+    END IF;
+
+    IF v_factor.failed_attempts >= 5 AND v_factor.last_failed_at > now() - interval '15 minutes' THEN
+        RAISE EXCEPTION 'Too many incorrect codes. Please try again in 15 minutes.';
+    END IF;
+
+    IF v_code ~ '^[0-9]{6}$' THEN
+        v_step := public.totp_match_step(
+            pgp_sym_decrypt_bytea(v_factor.seed, public.totp_seed_key()),
+            v_code,
+            v_factor.last_used_step
+        );
+    ELSE
+        SELECT id INTO v_recovery_id
+        FROM public.totp_recovery_codes
+        WHERE user_id = p_user_id
+        AND used_at IS NULL
+        AND code_hash = crypt(v_code, code_hash)
+        LIMIT 1;
+    END IF;
+
+    IF v_step IS NULL AND v_recovery_id IS NULL THEN
+        UPDATE public.totp_factors
+        SET failed_attempts = CASE
+                WHEN last_failed_at > now() - interval '15 minutes' THEN failed_attempts + 1
+                ELSE 1
+            END,
+            last_failed_at = now()
+        WHERE user_id = p_user_id;
+
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.totp_factors
+    SET failed_attempts = 0,
+        last_failed_at = NULL,
+        last_used_step = COALESCE(v_step, last_used_step)
+    WHERE user_id = p_user_id;
+
+    IF v_recovery_id IS NOT NULL THEN
+        UPDATE public.totp_recovery_codes SET used_at = now() WHERE id = v_recovery_id;
+        RETURN 'recovery_code';
+    END IF;
+
+    RETURN 'totp';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_totp_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Check a code from the signed-in user's authenticator, or a recovery code,
+-- and record a correct one as a verified step-up for voting
+CREATE OR REPLACE FUNCTION public.verify_totp(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_method TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to verify a code';
+    END IF;
+
+    v_method := public.check_totp_code(v_user_id, p_code);
+    IF v_method IS NULL THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.otp_challenges (
+        id, user_id, purpose, transport, destination, counter, expires_at, verified_at
+    ) VALUES (
+        gen_random_uuid(),
+        v_user_id,
+        'vote',
+        v_method,
+        'Authenticator app',
+        COALESCE((SELECT MAX(counter) FROM public.otp_challenges WHERE user_id = v_user_id), 0) + 1,
+        now(),
+        now()
+    );
+
+    RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.verify_totp(TEXT) TO authenticated;
+
+-- Remove the signed-in user's authenticator, which needs a current code or a
+-- recovery code. Returns false for a wrong code.
+CREATE OR REPLACE FUNCTION public.remove_totp(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to remove your authenticator';
+    END IF;
+
+    IF public.check_totp_code(v_user_id, p_code) IS NULL THEN
+        RETURN false;
+    END IF;
+
+    DELETE FROM public.totp_recovery_codes WHERE user_id = v_user_id;
+    DELETE FROM public.totp_factors WHERE user_id = v_user_id;
+
+    RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.remove_totp(TEXT) TO authenticated;
@@ -0,0 +1,245 @@
+-- Passkeys (WebAuthn) as a phishing-resistant factor for voting.
+-- The webauthn Edge Function creates the challenges and checks the signed
+-- responses; voters with a passkey must sign a challenge for the election
+-- right before their ballot is accepted.
+
+CREATE TABLE IF NOT EXISTS public.webauthn_credentials (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Base64url credential ID and COSE public key, as sent by the authenticator
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    -- Signature counter, to spot cloned authenticators
+    counter BIGINT NOT NULL DEFAULT 0 CHECK (counter >= 0),
+    transports TEXT[] NOT NULL DEFAULT '{}',
+    device_type TEXT NOT NULL CHECK (device_type IN ('singleDevice', 'multiDevice')),
+    backed_up BOOLEAN NOT NULL DEFAULT false,
+    name TEXT NOT NULL DEFAULT 'Passkey' CHECK (char_length(name) BETWEEN 1 AND 64),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS webauthn_credentials_user_idx
+    ON public.webauthn_credentials (user_id);
+
+ALTER TABLE public.webauthn_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Voters can list and remove their passkeys; only the Edge Function adds them
+CREATE POLICY "Users can view their own passkeys"
+    ON public.webauthn_credentials
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own passkeys"
+    ON public.webauthn_credentials
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.webauthn_challenges (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL CHECK (purpose IN ('registration', 'vote')),
+    -- The election a vote challenge was signed for
+    election_id UUID REFERENCES public.elections(id) ON DELETE CASCADE,
+    challenge TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Set once a response has been checked, whatever the outcome
+    used_at TIMESTAMP WITH TIME ZONE,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    credential_id TEXT,
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((purpose = 'vote') = (election_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS webauthn_challenges_user_idx
+    ON public.webauthn_challenges (user_id, purpose, created_at DESC);
+
+-- Only the Edge Function and cast_vote read or write challenges
+ALTER TABLE public.webauthn_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    UPDATE public.otp_challenges
+    SET consumed_at = now()
+    WHERE id = (
+        SELECT id FROM public.otp_challenges
+        WHERE user_id = v_voter_id
+        AND purpose = 'vote'
+        AND verified_at > now() - interval '10 minutes'
+        AND consumed_at IS NULL
+        ORDER BY verified_at DESC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    );
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Please verify your one-time code before voting';
+    END IF;
+
+    -- Voters with a passkey sign for this election right before the ballot is sent
+    IF EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
@@ -0,0 +1,246 @@
+-- Per-election authentication policy. Admins choose which factors an election
+-- requires and can raise the face and palm match thresholds for it; cast_vote
+-- checks the factors the policy names instead of a fixed set.
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS auth_factors TEXT[] NOT NULL DEFAULT ARRAY['face', 'palm', 'otp'],
+    ADD COLUMN IF NOT EXISTS min_match_confidence REAL;
+
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_auth_factors_check
+    CHECK (cardinality(auth_factors) > 0 AND auth_factors <@ ARRAY['face', 'palm', 'otp', 'passkey']),
+    ADD CONSTRAINT elections_min_match_confidence_check
+    CHECK (min_match_confidence BETWEEN 0 AND 1);
+
+-- Voters who have already voted were held to the policy in force at the time
+CREATE OR REPLACE FUNCTION public.elections_lock_auth_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.auth_factors IS DISTINCT FROM OLD.auth_factors
+        OR NEW.min_match_confidence IS DISTINCT FROM OLD.min_match_confidence)
+        AND EXISTS (SELECT 1 FROM public.ballots WHERE election_id = OLD.id) THEN
+        RAISE EXCEPTION 'The authentication policy cannot be changed once ballots have been cast';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS elections_lock_auth_policy ON public.elections;
+CREATE TRIGGER elections_lock_auth_policy
+BEFORE UPDATE ON public.elections
+FOR EACH ROW EXECUTE FUNCTION public.elections_lock_auth_policy();
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    -- Face and palm matches are checked on the device and recorded by record_biometric_attempt
+    IF 'face' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'face'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your face before voting';
+    END IF;
+
+    IF 'palm' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'palm'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your palm before voting';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    IF 'otp' = ANY(v_election.auth_factors) THEN
+        UPDATE public.otp_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.otp_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND verified_at > now() - interval '10 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please verify your one-time code before voting';
+        END IF;
+    END IF;
+
+    -- Voters sign with a passkey when the election requires it or they have added one
+    IF 'passkey' = ANY(v_election.auth_factors)
+        OR EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
@@ -0,0 +1,487 @@
+-- Role-based access control. Roles are granted per user in user_roles and
+-- checked by has_role, which the RLS policies and RPCs below use instead of
+-- matching the admin email domain.
+--
+--   voter             casts ballots; granted to every account on sign up
+--   election_officer  creates and edits elections, candidates and trustees,
+--                     and clears biometric lockouts
+--   auditor           reads verification attempts and lockouts
+--   super_admin       holds every role and grants or revokes roles
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('voter', 'election_officer', 'auditor', 'super_admin')),
+    granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    granted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS user_roles_role_idx ON public.user_roles (role);
+
+-- A super admin holds every role. SECURITY DEFINER so policies on user_roles
+-- itself can call it without recursing.
+CREATE OR REPLACE FUNCTION public.has_role(p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.user_roles
+        WHERE user_id = auth.uid()
+        AND role IN (p_role, 'super_admin')
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_role(TEXT) TO anon, authenticated;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Roles are granted and revoked through grant_role and revoke_role
+CREATE POLICY "Super admins can read all roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (public.has_role('super_admin'));
+
+-- Every account can vote until a super admin revokes the role
+CREATE OR REPLACE FUNCTION public.grant_default_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'voter')
+    ON CONFLICT DO NOTHING;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_grant_roles ON auth.users;
+CREATE TRIGGER on_auth_user_created_grant_roles
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.grant_default_roles();
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'voter' FROM auth.users
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.grant_role(p_email TEXT, p_role TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    IF NOT public.has_role('super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can grant roles';
+    END IF;
+
+    SELECT id INTO v_user_id
+    FROM auth.users
+    WHERE lower(email) = lower(trim(p_email));
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'No account uses that email address';
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role, granted_by)
+    VALUES (v_user_id, p_role, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    RETURN v_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_role(p_user_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role('super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can revoke roles';
+    END IF;
+
+    -- Otherwise the last super admin could lock everyone out of role management
+    IF p_role = 'super_admin' AND p_user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You cannot revoke your own super admin role';
+    END IF;
+
+    DELETE FROM public.user_roles
+    WHERE user_id = p_user_id
+    AND role = p_role;
+END;
+$$;
+
+-- Role holders with their email, which only the auth schema stores
+CREATE OR REPLACE FUNCTION public.list_user_roles()
+RETURNS TABLE (user_id UUID, email TEXT, role TEXT, granted_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role('super_admin') THEN
+        RAISE EXCEPTION 'Only super admins can list roles';
+    END IF;
+
+    RETURN QUERY
+    SELECT r.user_id, u.email::TEXT, r.role, r.granted_at
+    FROM public.user_roles r
+    JOIN auth.users u ON u.id = r.user_id
+    WHERE r.role <> 'voter'
+    ORDER BY u.email, r.role;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.grant_role(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_user_roles() TO authenticated;
+
+-- Elections and candidates are written by election officers. Drafts stay
+-- hidden from voters until they are published.
+ALTER TABLE public.elections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Published elections are publicly readable"
+ON public.elections
+FOR SELECT
+USING (status <> 'draft' OR public.has_role('election_officer') OR public.has_role('auditor'));
+
+CREATE POLICY "Election officers can create elections"
+ON public.elections
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('election_officer'));
+
+CREATE POLICY "Election officers can update elections"
+ON public.elections
+FOR UPDATE
+TO authenticated
+USING (public.has_role('election_officer'))
+WITH CHECK (public.has_role('election_officer'));
+
+CREATE POLICY "Election officers can delete elections"
+ON public.elections
+FOR DELETE
+TO authenticated
+USING (public.has_role('election_officer'));
+
+ALTER TABLE public.candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Candidates are publicly readable"
+ON public.candidates
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Election officers can add candidates"
+ON public.candidates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role('election_officer'));
+
+CREATE POLICY "Election officers can update candidates"
+ON public.candidates
+FOR UPDATE
+TO authenticated
+USING (public.has_role('election_officer'))
+WITH CHECK (public.has_role('election_officer'));
+
+CREATE POLICY "Election officers can remove candidates"
+ON public.candidates
+FOR DELETE
+TO authenticated
+USING (public.has_role('election_officer'));
+
+DROP POLICY IF EXISTS "Authenticated users can register trustees before key publication" ON public.election_trustees;
+CREATE POLICY "Election officers can register trustees before key publication"
+ON public.election_trustees
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    public.has_role('election_officer')
+    AND EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = election_id
+        AND e.encryption_public_key IS NULL
+    )
+);
+
+-- Verification attempts and lockouts are reviewed by auditors
+DROP POLICY IF EXISTS "Admins can read all biometric attempts" ON public.biometric_attempts;
+CREATE POLICY "Auditors can read all biometric attempts"
+ON public.biometric_attempts
+FOR SELECT
+TO authenticated
+USING (public.has_role('auditor'));
+
+DROP POLICY IF EXISTS "Admins can read all biometric lockouts" ON public.biometric_lockouts;
+CREATE POLICY "Auditors and election officers can read all biometric lockouts"
+ON public.biometric_lockouts
+FOR SELECT
+TO authenticated
+USING (public.has_role('auditor') OR public.has_role('election_officer'));
+
+CREATE OR REPLACE FUNCTION public.clear_biometric_lockout(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can clear biometric lockouts';
+    END IF;
+
+    UPDATE public.biometric_lockouts
+    SET failed_attempts = 0,
+        lockout_count = 0,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE user_id = p_user_id;
+END;
+$$;
+
+-- Removing accounts and their biometric data is left to super admins
+CREATE POLICY "Super admins can remove profiles"
+ON public.profiles
+FOR DELETE
+TO authenticated
+USING (public.has_role('super_admin'));
+
+CREATE POLICY "Super admins can reset biometric data"
+ON public.user_biometrics
+FOR DELETE
+TO authenticated
+USING (public.has_role('super_admin'));
+
+-- Revoking the voter role suspends an account from voting
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT public.has_role('voter') THEN
+        RAISE EXCEPTION 'Your account is not allowed to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    -- Face and palm matches are checked on the device and recorded by record_biometric_attempt
+    IF 'face' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'face'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your face before voting';
+    END IF;
+
+    IF 'palm' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'palm'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your palm before voting';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    IF 'otp' = ANY(v_election.auth_factors) THEN
+        UPDATE public.otp_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.otp_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND verified_at > now() - interval '10 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please verify your one-time code before voting';
+        END IF;
+    END IF;
+
+    -- Voters sign with a passkey when the election requires it or they have added one
+    IF 'passkey' = ANY(v_election.auth_factors)
+        OR EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
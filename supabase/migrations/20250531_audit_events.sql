@@ -0,0 +1,288 @@
+-- Append-only, hash-chained audit log. Events are written by triggers on the
+-- tables they describe and, for sign-ins, by record_sign_in. Like the vote
+-- ledger, every event hash covers the one before it, so auditors can walk the
+-- chain and detect any rewritten or missing event.
+
+CREATE TABLE IF NOT EXISTS public.audit_events (
+    event_number BIGINT PRIMARY KEY CHECK (event_number >= 1),
+    event_hash TEXT NOT NULL UNIQUE,
+    previous_hash TEXT NOT NULL UNIQUE,
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'sign_in',
+        'biometric_enrolled',
+        'verification_attempt',
+        'election_created',
+        'election_updated',
+        'election_deleted',
+        'candidate_added',
+        'candidate_removed',
+        'vote_cast',
+        'role_granted',
+        'role_revoked'
+    )),
+    actor_id UUID,
+    target_id TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_type_idx ON public.audit_events (event_type, event_number DESC);
+CREATE INDEX IF NOT EXISTS audit_events_actor_idx ON public.audit_events (actor_id, event_number DESC);
+CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON public.audit_events (created_at DESC);
+
+-- The hash format must stay in sync with computeAuditEventHash in the app
+CREATE OR REPLACE FUNCTION public.append_audit_event(
+    p_event_type TEXT,
+    p_actor_id UUID,
+    p_target_id TEXT,
+    p_details JSONB DEFAULT '{}'::jsonb
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous_hash TEXT;
+    v_event_number BIGINT;
+    v_created_at TIMESTAMP WITH TIME ZONE := date_trunc('milliseconds', clock_timestamp());
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_event_hash TEXT;
+BEGIN
+    -- Serialise appends so every event links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.audit_events'));
+
+    SELECT event_hash, event_number + 1 INTO v_previous_hash, v_event_number
+    FROM public.audit_events
+    ORDER BY event_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        v_previous_hash := repeat('0', 64);
+        v_event_number := 1;
+    END IF;
+
+    v_event_hash := encode(
+        digest(
+            v_previous_hash || '|' ||
+            p_event_type || '|' ||
+            COALESCE(p_actor_id::text, '') || '|' ||
+            COALESCE(p_target_id, '') || '|' ||
+            v_details::text || '|' ||
+            to_char(v_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    INSERT INTO public.audit_events (
+        event_number, event_hash, previous_hash, event_type, actor_id, target_id, details, created_at
+    ) VALUES (
+        v_event_number, v_event_hash, v_previous_hash, p_event_type, p_actor_id, p_target_id, v_details, v_created_at
+    );
+
+    RETURN v_event_hash;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.append_audit_event(TEXT, UUID, TEXT, JSONB) FROM PUBLIC;
+
+-- Reject any attempt to rewrite history
+CREATE OR REPLACE FUNCTION public.audit_events_reject_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON public.audit_events;
+CREATE TRIGGER audit_events_append_only
+BEFORE UPDATE OR DELETE ON public.audit_events
+FOR EACH ROW EXECUTE FUNCTION public.audit_events_reject_mutation();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON public.audit_events;
+CREATE TRIGGER audit_events_no_truncate
+BEFORE TRUNCATE ON public.audit_events
+FOR EACH STATEMENT EXECUTE FUNCTION public.audit_events_reject_mutation();
+
+-- Events are only written through append_audit_event
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON public.audit_events FROM anon, authenticated;
+
+CREATE POLICY "Auditors can read the audit log"
+ON public.audit_events
+FOR SELECT
+TO authenticated
+USING (public.has_role('auditor'));
+
+-- Sign-ins happen in Supabase Auth, so the app reports them after signing in
+CREATE OR REPLACE FUNCTION public.record_sign_in()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in';
+    END IF;
+
+    PERFORM public.append_audit_event('sign_in', auth.uid(), auth.uid()::text);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_sign_in() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.audit_election_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changed JSONB;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.append_audit_event('election_created', auth.uid(), NEW.id::text,
+            jsonb_build_object('title', NEW.title, 'status', NEW.status));
+        RETURN NEW;
+    ELSIF TG_OP = 'UPDATE' THEN
+        SELECT COALESCE(jsonb_agg(n.key ORDER BY n.key), '[]'::jsonb) INTO v_changed
+        FROM jsonb_each(to_jsonb(NEW)) AS n
+        WHERE to_jsonb(OLD) -> n.key IS DISTINCT FROM n.value;
+
+        IF v_changed <> '[]'::jsonb THEN
+            PERFORM public.append_audit_event('election_updated', auth.uid(), NEW.id::text,
+                jsonb_build_object('title', NEW.title, 'status', NEW.status, 'changed', v_changed));
+        END IF;
+        RETURN NEW;
+    ELSE
+        PERFORM public.append_audit_event('election_deleted', auth.uid(), OLD.id::text,
+            jsonb_build_object('title', OLD.title));
+        RETURN OLD;
+    END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_election_change ON public.elections;
+CREATE TRIGGER audit_election_change
+AFTER INSERT OR UPDATE OR DELETE ON public.elections
+FOR EACH ROW EXECUTE FUNCTION public.audit_election_change();
+
+CREATE OR REPLACE FUNCTION public.audit_candidate_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.append_audit_event('candidate_added', auth.uid(), NEW.id::text,
+            jsonb_build_object('election_id', NEW.election_id, 'name', NEW.name));
+        RETURN NEW;
+    ELSE
+        PERFORM public.append_audit_event('candidate_removed', auth.uid(), OLD.id::text,
+            jsonb_build_object('election_id', OLD.election_id, 'name', OLD.name));
+        RETURN OLD;
+    END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_candidate_change ON public.candidates;
+CREATE TRIGGER audit_candidate_change
+AFTER INSERT OR DELETE ON public.candidates
+FOR EACH ROW EXECUTE FUNCTION public.audit_candidate_change();
+
+CREATE OR REPLACE FUNCTION public.audit_biometric_enrollment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.face_template IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.face_template IS DISTINCT FROM OLD.face_template) THEN
+        PERFORM public.append_audit_event('biometric_enrolled', NEW.user_id, NEW.user_id::text,
+            jsonb_build_object('modality', 'face', 'quality', NEW.template_quality));
+    END IF;
+
+    IF NEW.palm_template IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.palm_template IS DISTINCT FROM OLD.palm_template) THEN
+        PERFORM public.append_audit_event('biometric_enrolled', NEW.user_id, NEW.user_id::text,
+            jsonb_build_object('modality', 'palm', 'quality', NEW.palm_template_quality));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_biometric_enrollment ON public.user_biometrics;
+CREATE TRIGGER audit_biometric_enrollment
+AFTER INSERT OR UPDATE ON public.user_biometrics
+FOR EACH ROW EXECUTE FUNCTION public.audit_biometric_enrollment();
+
+CREATE OR REPLACE FUNCTION public.audit_verification_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.append_audit_event('verification_attempt', NEW.user_id, NEW.id::text,
+        jsonb_build_object(
+            'modality', NEW.modality,
+            'verified', NEW.verified,
+            'suspected_spoof', NEW.suspected_spoof
+        ));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_verification_attempt ON public.biometric_attempts;
+CREATE TRIGGER audit_verification_attempt
+AFTER INSERT ON public.biometric_attempts
+FOR EACH ROW EXECUTE FUNCTION public.audit_verification_attempt();
+
+-- The voter is left out on purpose: these events are in the same order as the
+-- ledger blocks, so naming the voter would link them to their ballot
+CREATE OR REPLACE FUNCTION public.audit_vote_cast()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.append_audit_event('vote_cast', NULL, NEW.election_id::text);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_vote_cast ON public.voter_participation;
+CREATE TRIGGER audit_vote_cast
+AFTER INSERT ON public.voter_participation
+FOR EACH ROW EXECUTE FUNCTION public.audit_vote_cast();
+
+CREATE OR REPLACE FUNCTION public.audit_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.append_audit_event('role_granted', auth.uid(), NEW.user_id::text,
+            jsonb_build_object('role', NEW.role));
+        RETURN NEW;
+    ELSE
+        PERFORM public.append_audit_event('role_revoked', auth.uid(), OLD.user_id::text,
+            jsonb_build_object('role', OLD.role));
+        RETURN OLD;
+    END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_role_change ON public.user_roles;
+CREATE TRIGGER audit_role_change
+AFTER INSERT OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.audit_role_change();
@@ -0,0 +1,465 @@
+-- Eligibility rolls. Each election is open to every voter, limited to a
+-- roster of emails or student IDs, or limited by rules on the voter's
+-- department, year of study and district. The attributes are kept on the
+-- profile and only election officers can set them.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS student_id TEXT,
+    ADD COLUMN IF NOT EXISTS department TEXT,
+    ADD COLUMN IF NOT EXISTS year_of_study SMALLINT CHECK (year_of_study BETWEEN 1 AND 10),
+    ADD COLUMN IF NOT EXISTS district TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_student_id_idx
+    ON public.profiles (lower(student_id)) WHERE student_id IS NOT NULL;
+
+-- Voters could otherwise put themselves on any electorate by editing their profile
+CREATE OR REPLACE FUNCTION public.profiles_lock_voter_attributes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- Maintenance from the SQL editor runs without a signed-in user
+    IF auth.uid() IS NULL OR public.has_role('election_officer') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.student_id IS NOT NULL OR NEW.department IS NOT NULL
+            OR NEW.year_of_study IS NOT NULL OR NEW.district IS NOT NULL THEN
+            RAISE EXCEPTION 'Only election officers can set voter details';
+        END IF;
+    ELSIF NEW.student_id IS DISTINCT FROM OLD.student_id
+        OR NEW.department IS DISTINCT FROM OLD.department
+        OR NEW.year_of_study IS DISTINCT FROM OLD.year_of_study
+        OR NEW.district IS DISTINCT FROM OLD.district THEN
+        RAISE EXCEPTION 'Only election officers can change voter details';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_lock_voter_attributes ON public.profiles;
+CREATE TRIGGER profiles_lock_voter_attributes
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.profiles_lock_voter_attributes();
+
+-- Rules list the allowed values for each attribute, for example
+-- {"departments": ["Physics"], "years": [3, 4], "districts": []}.
+-- An empty or missing list allows any value.
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS eligibility TEXT NOT NULL DEFAULT 'open',
+    ADD COLUMN IF NOT EXISTS eligibility_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_eligibility_check
+    CHECK (eligibility IN ('open', 'roster', 'rules')),
+    ADD CONSTRAINT elections_eligibility_rules_check
+    CHECK (jsonb_typeof(eligibility_rules) = 'object');
+
+-- Identifiers are stored lower-case and matched against the voter's email and student ID
+CREATE TABLE IF NOT EXISTS public.election_roster (
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    identifier TEXT NOT NULL CHECK (identifier <> '' AND identifier = lower(trim(identifier))),
+    added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (election_id, identifier)
+);
+
+ALTER TABLE public.election_roster ENABLE ROW LEVEL SECURITY;
+
+-- Rosters are replaced through replace_election_roster
+CREATE POLICY "Election officers and auditors can read rosters"
+ON public.election_roster
+FOR SELECT
+TO authenticated
+USING (public.has_role('election_officer') OR public.has_role('auditor'));
+
+CREATE OR REPLACE FUNCTION public.eligibility_rule_matches(p_allowed JSONB, p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT jsonb_typeof(p_allowed) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_allowed) = 0
+        OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements_text(p_allowed) AS allowed
+            WHERE lower(allowed) = lower(p_value)
+        );
+$$;
+
+CREATE OR REPLACE FUNCTION public.voter_is_eligible(p_election_id UUID, p_voter_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_eligibility TEXT;
+    v_rules JSONB;
+    v_profile public.profiles%ROWTYPE;
+BEGIN
+    SELECT eligibility, eligibility_rules INTO v_eligibility, v_rules
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF v_eligibility IS NULL THEN
+        RETURN false;
+    ELSIF v_eligibility = 'open' THEN
+        RETURN true;
+    END IF;
+
+    SELECT * INTO v_profile
+    FROM public.profiles
+    WHERE id = p_voter_id;
+
+    IF v_eligibility = 'roster' THEN
+        RETURN EXISTS (
+            SELECT 1 FROM public.election_roster r
+            WHERE r.election_id = p_election_id
+            AND (
+                r.identifier = (SELECT lower(email) FROM auth.users WHERE id = p_voter_id)
+                OR r.identifier = lower(v_profile.student_id)
+            )
+        );
+    END IF;
+
+    RETURN public.eligibility_rule_matches(v_rules -> 'departments', v_profile.department)
+        AND public.eligibility_rule_matches(v_rules -> 'years', v_profile.year_of_study::text)
+        AND public.eligibility_rule_matches(v_rules -> 'districts', v_profile.district);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.voter_is_eligible(UUID, UUID) FROM PUBLIC;
+
+-- The published elections the signed-in voter may vote in
+CREATE OR REPLACE FUNCTION public.get_eligible_elections()
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.elections
+    WHERE status IN ('scheduled', 'open')
+    AND public.voter_is_eligible(id, auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_eligible_elections() TO authenticated;
+
+-- Replace an election's roster in one go and return how many entries it now has
+CREATE OR REPLACE FUNCTION public.replace_election_roster(p_election_id UUID, p_identifiers TEXT[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can change rosters';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.elections WHERE id = p_election_id) THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    DELETE FROM public.election_roster
+    WHERE election_id = p_election_id;
+
+    INSERT INTO public.election_roster (election_id, identifier)
+    SELECT DISTINCT p_election_id, lower(trim(i))
+    FROM unnest(COALESCE(p_identifiers, ARRAY[]::TEXT[])) AS i
+    WHERE trim(i) <> '';
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    PERFORM public.append_audit_event('roster_updated', auth.uid(), p_election_id::text,
+        jsonb_build_object('entries', v_count));
+
+    RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_election_roster(UUID, TEXT[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_voter_attributes(
+    p_user_id UUID,
+    p_student_id TEXT,
+    p_department TEXT,
+    p_year_of_study SMALLINT,
+    p_district TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can set voter details';
+    END IF;
+
+    UPDATE public.profiles
+    SET student_id = NULLIF(trim(p_student_id), ''),
+        department = NULLIF(trim(p_department), ''),
+        year_of_study = p_year_of_study,
+        district = NULLIF(trim(p_district), ''),
+        updated_at = now()
+    WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Voter not found';
+    END IF;
+
+    PERFORM public.append_audit_event('voter_attributes_updated', auth.uid(), p_user_id::text,
+        jsonb_build_object(
+            'student_id', NULLIF(trim(p_student_id), ''),
+            'department', NULLIF(trim(p_department), ''),
+            'year_of_study', p_year_of_study,
+            'district', NULLIF(trim(p_district), '')
+        ));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_voter_attributes(UUID, TEXT, TEXT, SMALLINT, TEXT) TO authenticated;
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+ALTER TABLE public.audit_events
+    ADD CONSTRAINT audit_events_event_type_check
+    CHECK (event_type IN (
+        'sign_in',
+        'biometric_enrolled',
+        'verification_attempt',
+        'election_created',
+        'election_updated',
+        'election_deleted',
+        'candidate_added',
+        'candidate_removed',
+        'vote_cast',
+        'role_granted',
+        'role_revoked',
+        'roster_updated',
+        'voter_attributes_updated'
+    ));
+
+-- Voters outside the electorate are turned away
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT public.has_role('voter') THEN
+        RAISE EXCEPTION 'Your account is not allowed to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF NOT public.voter_is_eligible(p_election_id, v_voter_id) THEN
+        RAISE EXCEPTION 'You are not on the electorate for this election';
+    END IF;
+
+    -- Face and palm matches are checked on the device and recorded by record_biometric_attempt
+    IF 'face' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'face'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your face before voting';
+    END IF;
+
+    IF 'palm' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'palm'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_match_confidence, 0)
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your palm before voting';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    IF 'otp' = ANY(v_election.auth_factors) THEN
+        UPDATE public.otp_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.otp_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND verified_at > now() - interval '10 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please verify your one-time code before voting';
+        END IF;
+    END IF;
+
+    -- Voters sign with a passkey when the election requires it or they have added one
+    IF 'passkey' = ANY(v_election.auth_factors)
+        OR EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- Turnout statistics. The electorate is every voter eligible for the election
+-- today, so turnout is the share of them who have taken part. Participation
+-- is only ever reported in aggregate: by the hour, as participated_at already
+-- is, and by profile attribute with small groups folded together so no one
+-- voter's participation can be singled out.
+
+CREATE OR REPLACE FUNCTION public.get_turnout_statistics(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_status TEXT;
+    v_result JSONB;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF v_status IS NULL
+        OR (v_status = 'draft' AND NOT (public.has_role('election_officer') OR public.has_role('auditor'))) THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    WITH electorate AS (
+        SELECT
+            p.department,
+            p.year_of_study::text AS year_of_study,
+            p.district,
+            EXISTS (
+                SELECT 1 FROM public.voter_participation vp
+                WHERE vp.election_id = p_election_id AND vp.voter_id = p.id
+            ) AS voted
+        FROM public.profiles p
+        WHERE EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = p.id AND r.role = 'voter')
+        AND public.voter_is_eligible(p_election_id, p.id)
+    ),
+    attribute_values AS (
+        SELECT 'department' AS attribute, department AS value, voted FROM electorate
+        UNION ALL
+        SELECT 'year_of_study', year_of_study, voted FROM electorate
+        UNION ALL
+        SELECT 'district', district, voted FROM electorate
+    ),
+    attribute_groups AS (
+        SELECT attribute, value, COUNT(*) AS eligible, COUNT(*) FILTER (WHERE voted) AS voted
+        FROM attribute_values
+        GROUP BY attribute, value
+    ),
+    -- Groups of fewer than five eligible voters are reported together
+    folded_groups AS (
+        SELECT
+            attribute,
+            CASE WHEN eligible >= 5 THEN value END AS value,
+            eligible < 5 AS grouped,
+            SUM(eligible) AS eligible,
+            SUM(voted) AS voted
+        FROM attribute_groups
+        GROUP BY attribute, CASE WHEN eligible >= 5 THEN value END, eligible < 5
+    ),
+    breakdowns AS (
+        SELECT attribute, jsonb_agg(
+            jsonb_build_object('value', value, 'grouped', grouped, 'eligible', eligible, 'voted', voted)
+            ORDER BY grouped, eligible DESC, value
+        ) AS rows
+        FROM folded_groups
+        GROUP BY attribute
+    ),
+    hourly AS (
+        SELECT participated_at, COUNT(*) AS votes
+        FROM public.voter_participation
+        WHERE election_id = p_election_id
+        GROUP BY participated_at
+    )
+    SELECT jsonb_build_object(
+        'eligible_voters', (SELECT COUNT(*) FROM electorate),
+        'eligible_voted', (SELECT COUNT(*) FROM electorate WHERE voted),
+        'votes_cast', (SELECT COALESCE(SUM(votes), 0) FROM hourly),
+        'votes_over_time', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('hour', participated_at, 'votes', votes) ORDER BY participated_at), '[]'::jsonb)
+            FROM hourly
+        ),
+        'breakdowns', (SELECT COALESCE(jsonb_object_agg(attribute, rows), '{}'::jsonb) FROM breakdowns)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_turnout_statistics(UUID) TO anon, authenticated;
@@ -0,0 +1,82 @@
+-- Bulk import of election definitions. Every election in a file is created
+-- together with its candidates in one transaction, so a bad row leaves
+-- nothing half-imported. Imported elections start as drafts.
+
+CREATE OR REPLACE FUNCTION public.import_elections(p_elections JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_election JSONB;
+    v_candidate JSONB;
+    v_title TEXT;
+    v_start_date TIMESTAMP WITH TIME ZONE;
+    v_election_id UUID;
+    v_election_ids UUID[] := '{}';
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can import elections';
+    END IF;
+
+    IF jsonb_typeof(p_elections) IS DISTINCT FROM 'array' OR jsonb_array_length(p_elections) = 0 THEN
+        RAISE EXCEPTION 'There are no elections to import';
+    END IF;
+
+    FOR v_election IN SELECT value FROM jsonb_array_elements(p_elections) LOOP
+        v_title := trim(COALESCE(v_election ->> 'title', ''));
+        v_start_date := (v_election ->> 'start_date')::timestamptz;
+
+        IF v_title = '' THEN
+            RAISE EXCEPTION 'Every election needs a title';
+        END IF;
+
+        -- Importing the same file twice would otherwise duplicate every election
+        IF EXISTS (SELECT 1 FROM public.elections WHERE title = v_title AND start_date = v_start_date) THEN
+            RAISE EXCEPTION 'An election called "%" starting % already exists', v_title, v_start_date;
+        END IF;
+
+        INSERT INTO public.elections (
+            title, description, start_date, end_date, status, voting_method, seats, max_selections,
+            auth_factors, min_match_confidence, eligibility, eligibility_rules, created_by
+        ) VALUES (
+            v_title,
+            NULLIF(v_election ->> 'description', ''),
+            v_start_date,
+            (v_election ->> 'end_date')::timestamptz,
+            'draft',
+            v_election ->> 'voting_method',
+            (v_election ->> 'seats')::integer,
+            (v_election ->> 'max_selections')::integer,
+            ARRAY(SELECT jsonb_array_elements_text(v_election -> 'auth_factors')),
+            (v_election ->> 'min_match_confidence')::real,
+            v_election ->> 'eligibility',
+            COALESCE(v_election -> 'eligibility_rules', '{}'::jsonb),
+            auth.uid()
+        )
+        RETURNING id INTO v_election_id;
+
+        FOR v_candidate IN SELECT value FROM jsonb_array_elements(COALESCE(v_election -> 'candidates', '[]'::jsonb)) LOOP
+            IF trim(COALESCE(v_candidate ->> 'name', '')) = '' THEN
+                RAISE EXCEPTION 'Every candidate in "%" needs a name', v_title;
+            END IF;
+
+            INSERT INTO public.candidates (election_id, name, party, bio, photo_url)
+            VALUES (
+                v_election_id,
+                trim(v_candidate ->> 'name'),
+                NULLIF(trim(COALESCE(v_candidate ->> 'party', '')), ''),
+                NULLIF(v_candidate ->> 'bio', ''),
+                NULLIF(trim(COALESCE(v_candidate ->> 'photo_url', '')), '')
+            );
+        END LOOP;
+
+        v_election_ids := v_election_ids || v_election_id;
+    END LOOP;
+
+    RETURN v_election_ids;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_elections(JSONB) TO authenticated;
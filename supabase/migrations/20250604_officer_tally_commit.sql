@@ -0,0 +1,452 @@
+-- Tally commitments are computed in the database from the ballots, the vote
+-- ledger and the trustees' published decryption shares, and only an election
+-- officer can commit one. Clients can no longer insert a root or tally of
+-- their own choosing.
+
+DROP POLICY IF EXISTS "Authenticated users can commit closed election tallies" ON public.election_tallies;
+REVOKE INSERT, UPDATE, DELETE ON public.election_tallies FROM anon, authenticated;
+
+-- Same tree as src/utils/ledger/merkle.ts: hex strings are hashed as text with
+-- '00' and '01' prefixes, and an unpaired node is promoted unchanged
+CREATE OR REPLACE FUNCTION public.ledger_merkle_root(
+    p_election_id UUID,
+    OUT merkle_root TEXT,
+    OUT receipt_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_level TEXT[];
+    v_next TEXT[];
+    v_index INTEGER;
+BEGIN
+    SELECT COALESCE(array_agg(encode(digest('00' || block_hash, 'sha256'), 'hex') ORDER BY block_number), '{}')
+    INTO v_level
+    FROM public.vote_ledger
+    WHERE election_id = p_election_id;
+
+    receipt_count := cardinality(v_level);
+
+    IF receipt_count = 0 THEN
+        merkle_root := repeat('0', 64);
+        RETURN;
+    END IF;
+
+    WHILE cardinality(v_level) > 1 LOOP
+        v_next := '{}';
+        v_index := 1;
+
+        WHILE v_index <= cardinality(v_level) LOOP
+            IF v_index < cardinality(v_level) THEN
+                v_next := v_next || encode(digest('01' || v_level[v_index] || v_level[v_index + 1], 'sha256'), 'hex');
+            ELSE
+                v_next := v_next || v_level[v_index];
+            END IF;
+
+            v_index := v_index + 2;
+        END LOOP;
+
+        v_level := v_next;
+    END LOOP;
+
+    merkle_root := v_level[1];
+END;
+$$;
+
+-- One vote per selection on multi-choice ballots, otherwise one for the single
+-- choice, as tallyChoices counts them
+CREATE OR REPLACE FUNCTION public.count_ballots(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_object_agg(choice, votes), '{}'::jsonb)
+    FROM (
+        SELECT choice, COUNT(*) AS votes
+        FROM public.ballots b
+        CROSS JOIN LATERAL unnest(
+            CASE WHEN cardinality(b.selections) > 0 THEN b.selections ELSE ARRAY[b.candidate_id] END
+        ) AS choice
+        WHERE b.election_id = p_election_id
+        AND choice IS NOT NULL
+        GROUP BY choice
+    ) counts;
+$$;
+
+-- Arbitrary-precision arithmetic for the ElGamal group in src/utils/crypto/elgamal.ts
+CREATE OR REPLACE FUNCTION public.elgamal_from_hex(p_hex TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_value NUMERIC := 0;
+BEGIN
+    IF p_hex IS NULL OR p_hex !~ '^[0-9a-fA-F]+$' THEN
+        RAISE EXCEPTION 'Invalid encrypted value';
+    END IF;
+
+    FOR v_index IN 1..length(p_hex) LOOP
+        v_value := v_value * 16 + (strpos('0123456789abcdef', lower(substr(p_hex, v_index, 1))) - 1);
+    END LOOP;
+
+    RETURN v_value;
+END;
+$$;
+
+-- Lowercase hex without leading zeros, like bigint.toString(16)
+CREATE OR REPLACE FUNCTION public.elgamal_to_hex(p_value NUMERIC)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_value NUMERIC := p_value;
+    v_hex TEXT := '';
+BEGIN
+    IF v_value = 0 THEN
+        RETURN '0';
+    END IF;
+
+    WHILE v_value > 0 LOOP
+        v_hex := substr('0123456789abcdef', mod(v_value, 16)::integer + 1, 1) || v_hex;
+        v_value := div(v_value, 16);
+    END LOOP;
+
+    RETURN v_hex;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.elgamal_mod_pow(p_base NUMERIC, p_exponent NUMERIC, p_modulus NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_result NUMERIC := 1;
+    v_base NUMERIC := mod(p_base, p_modulus);
+    v_exponent NUMERIC := p_exponent;
+BEGIN
+    WHILE v_exponent > 0 LOOP
+        IF mod(v_exponent, 2) = 1 THEN
+            v_result := mod(v_result * v_base, p_modulus);
+        END IF;
+        v_base := mod(v_base * v_base, p_modulus);
+        v_exponent := div(v_exponent, 2);
+    END LOOP;
+
+    RETURN v_result;
+END;
+$$;
+
+-- Fiat-Shamir challenge: SHA-256 of the values as hex joined by '|', reduced mod q
+CREATE OR REPLACE FUNCTION public.elgamal_hash_to_scalar(p_values NUMERIC[], p_q NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT mod(public.elgamal_from_hex(encode(digest(string_agg(public.elgamal_to_hex(value), '|' ORDER BY ordinal), 'sha256'), 'hex')), p_q)
+    FROM unnest(p_values) WITH ORDINALITY AS v(value, ordinal);
+$$;
+
+-- Chaum-Pedersen check that log_base1(value1) = log_base2(value2), as verifyEquality
+CREATE OR REPLACE FUNCTION public.elgamal_verify_equality(
+    p_base1 NUMERIC,
+    p_value1 NUMERIC,
+    p_base2 NUMERIC,
+    p_value2 NUMERIC,
+    p_challenge NUMERIC,
+    p_response NUMERIC,
+    p_p NUMERIC,
+    p_q NUMERIC
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_negated NUMERIC := mod(p_q - mod(p_challenge, p_q), p_q);
+    v_commitment1 NUMERIC;
+    v_commitment2 NUMERIC;
+BEGIN
+    v_commitment1 := mod(public.elgamal_mod_pow(p_base1, p_response, p_p) * public.elgamal_mod_pow(p_value1, v_negated, p_p), p_p);
+    v_commitment2 := mod(public.elgamal_mod_pow(p_base2, p_response, p_p) * public.elgamal_mod_pow(p_value2, v_negated, p_p), p_p);
+
+    RETURN p_challenge = public.elgamal_hash_to_scalar(
+        ARRAY[p_base1, p_value1, p_base2, p_value2, v_commitment1, v_commitment2], p_q
+    );
+END;
+$$;
+
+-- Lagrange coefficient at zero for one trustee within the set that decrypted
+CREATE OR REPLACE FUNCTION public.elgamal_lagrange_coefficient(p_index INTEGER, p_indices INTEGER[], p_q NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_numerator NUMERIC := 1;
+    v_denominator NUMERIC := 1;
+    v_other INTEGER;
+BEGIN
+    FOREACH v_other IN ARRAY p_indices LOOP
+        IF v_other <> p_index THEN
+            v_numerator := mod(v_numerator * v_other, p_q);
+            v_denominator := mod(v_denominator * (v_other - p_index), p_q);
+        END IF;
+    END LOOP;
+
+    -- mod keeps the sign of the dividend
+    v_denominator := mod(v_denominator + p_q, p_q);
+
+    RETURN mod(v_numerator * public.elgamal_mod_pow(v_denominator, p_q - 2, p_q), p_q);
+END;
+$$;
+
+-- Combine the trustees' decryption shares of a sealed election into its tally,
+-- as getDecryptionStatus does: shares whose proofs fail are ignored, and a
+-- threshold of trustees must have decrypted the same aggregate.
+CREATE OR REPLACE FUNCTION public.decrypt_sealed_tally(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_p NUMERIC := public.elgamal_from_hex(
+        'f33c5969b69ddba5aa31b9a8ad45129e52fabd5cc0a2ffc9994a68d3ab1d117e' ||
+        '873e46081802ddc809d63e308b50243811b578927b5651766bfab6e2a60f2627' ||
+        '3bc629c6499bb75420c197a63eda020ce89daafcf001207d104d790ec324881a' ||
+        'e01350f82c9d0acea99bf868610ed0c740118610306d7fa5966d293f41a5a3e4' ||
+        '35badb4e5b5d25ec98734b790cbb5ee734970b168fd36c521cc1cae4d9e06380' ||
+        '4b53af45e8a3f63d15cbd0f70fc1e851bd11e3d1f2ee90689791f4570b38d9cc' ||
+        '5cc2b547cf9c2c21844b0ba7c5e0af9b862807397c83a72b1f3edd48c33677bd' ||
+        'b4d6cbf8b1b3636a6357f14577b8095760edd9bc650438e582b61c85ad4ef159'
+    );
+    v_q NUMERIC := public.elgamal_from_hex('e7ab2cdcbc5aff5fc7e423b3e4bd7c95aa44789a6c3b6bdebca44e1da890c70d');
+    v_g NUMERIC := public.elgamal_from_hex(
+        'c8ef7a9ba6ec8d501c4d0ba1e8f3c05c32583ec35792ca80a5b7b7dc72ac5f62' ||
+        'b6d909927c609148750c6af92fd0d9863334c36f2e89ca0d1f088db92eb347f8' ||
+        '05aa7ee1bd5da5994b990690e0097c66f1269ce73cb4a7e89e1227f9811e70c2' ||
+        '02ab1d1d777ab9d9f3aa9c4b0d254245d423e210ebee51448c7aed561c1f9338' ||
+        'ce607dbe95cb9301b30b3d548b247533be3c8f250658f7839a8a1c5ff4633a8e' ||
+        '5d5d1d2f0766f95eba431cac4e1e4a9323aa804322f2a46d282291e947c3102e' ||
+        '6a113ea61e806e2c89372661ba7a4a2690ce00951546dbfb0cdda09cba970594' ||
+        'a239fc8f4fef290748aa30a31fee047777fd76c8e723722e5029e04ffb098341'
+    );
+    v_threshold INTEGER;
+    v_trustee_count INTEGER;
+    v_row RECORD;
+    v_candidate_id TEXT;
+    v_share JSONB;
+    v_share_value NUMERIC;
+    v_alpha NUMERIC;
+    v_valid BOOLEAN;
+    v_key TEXT;
+    v_groups JSONB := '{}'::jsonb;
+    v_best JSONB;
+    v_indices INTEGER[];
+    v_index INTEGER;
+    v_combined NUMERIC;
+    v_target NUMERIC;
+    v_candidate NUMERIC;
+    v_count INTEGER;
+    v_tally JSONB := '{}'::jsonb;
+BEGIN
+    SELECT e.decryption_threshold, (SELECT COUNT(*) FROM public.election_trustees t WHERE t.election_id = e.id)
+    INTO v_threshold, v_trustee_count
+    FROM public.elections e
+    WHERE e.id = p_election_id;
+
+    -- Group verified submissions by the aggregate they decrypt, one per trustee
+    FOR v_row IN
+        SELECT d.trustee_index, d.ballot_count, d.aggregate, d.shares, t.verification_key
+        FROM public.election_decryptions d
+        JOIN public.election_trustees t
+            ON t.election_id = d.election_id AND t.trustee_index = d.trustee_index
+        WHERE d.election_id = p_election_id
+        ORDER BY d.submitted_at
+    LOOP
+        v_key := md5(v_row.ballot_count::text || '|' || v_row.aggregate::text);
+
+        IF v_groups #> ARRAY[v_key, 'shares', v_row.trustee_index::text] IS NOT NULL THEN
+            CONTINUE;
+        END IF;
+
+        v_valid := jsonb_typeof(v_row.aggregate) = 'object' AND jsonb_typeof(v_row.shares) = 'array';
+
+        BEGIN
+            FOR v_candidate_id IN SELECT jsonb_object_keys(v_row.aggregate) LOOP
+                EXIT WHEN NOT v_valid;
+
+                SELECT value INTO v_share
+                FROM jsonb_array_elements(v_row.shares)
+                WHERE value ->> 'candidateId' = v_candidate_id
+                LIMIT 1;
+
+                v_share_value := public.elgamal_from_hex(v_share ->> 'share');
+                v_alpha := public.elgamal_from_hex(v_row.aggregate -> v_candidate_id ->> 'alpha');
+
+                v_valid := v_share_value > 0 AND v_share_value < v_p
+                    AND public.elgamal_mod_pow(v_share_value, v_q, v_p) = 1
+                    AND public.elgamal_verify_equality(
+                        v_g,
+                        public.elgamal_from_hex(v_row.verification_key),
+                        v_alpha,
+                        v_share_value,
+                        public.elgamal_from_hex(v_share -> 'proof' ->> 'challenge'),
+                        public.elgamal_from_hex(v_share -> 'proof' ->> 'response'),
+                        v_p,
+                        v_q
+                    );
+            END LOOP;
+        EXCEPTION
+            WHEN OTHERS THEN
+                v_valid := false;
+        END;
+
+        IF NOT v_valid THEN
+            RAISE WARNING 'Ignoring invalid decryption share from trustee %', v_row.trustee_index;
+            CONTINUE;
+        END IF;
+
+        IF NOT v_groups ? v_key THEN
+            v_groups := v_groups || jsonb_build_object(v_key, jsonb_build_object(
+                'ballot_count', v_row.ballot_count,
+                'aggregate', v_row.aggregate,
+                'shares', '{}'::jsonb
+            ));
+        END IF;
+
+        v_groups := jsonb_set(v_groups, ARRAY[v_key, 'shares', v_row.trustee_index::text], v_row.shares);
+    END LOOP;
+
+    SELECT value INTO v_best
+    FROM jsonb_each(v_groups)
+    ORDER BY (SELECT COUNT(*) FROM jsonb_object_keys(value -> 'shares')) DESC
+    LIMIT 1;
+
+    SELECT COALESCE(array_agg(trustee_index::integer ORDER BY trustee_index::integer), '{}')
+    INTO v_indices
+    FROM jsonb_object_keys(COALESCE(v_best -> 'shares', '{}'::jsonb)) AS trustee_index;
+
+    IF v_threshold IS NULL OR cardinality(v_indices) < v_threshold THEN
+        RAISE EXCEPTION 'Waiting for % of % trustees to decrypt the sealed ballots', v_threshold, v_trustee_count;
+    END IF;
+
+    -- Any threshold of the agreeing trustees recovers the same plaintext
+    v_indices := v_indices[1:v_threshold];
+
+    FOR v_candidate_id IN SELECT jsonb_object_keys(v_best -> 'aggregate') LOOP
+        v_combined := 1;
+
+        FOREACH v_index IN ARRAY v_indices LOOP
+            SELECT value INTO v_share
+            FROM jsonb_array_elements(v_best -> 'shares' -> v_index::text)
+            WHERE value ->> 'candidateId' = v_candidate_id
+            LIMIT 1;
+
+            v_combined := mod(v_combined * public.elgamal_mod_pow(
+                public.elgamal_from_hex(v_share ->> 'share'),
+                public.elgamal_lagrange_coefficient(v_index, v_indices, v_q),
+                v_p
+            ), v_p);
+        END LOOP;
+
+        -- beta / alpha^secret = g^count; search counts up to the ballot count
+        v_target := mod(
+            public.elgamal_from_hex(v_best -> 'aggregate' -> v_candidate_id ->> 'beta')
+                * public.elgamal_mod_pow(v_combined, v_q - 1, v_p),
+            v_p
+        );
+        v_candidate := 1;
+        v_count := NULL;
+
+        FOR v_message IN 0..(v_best ->> 'ballot_count')::integer LOOP
+            IF v_candidate = v_target THEN
+                v_count := v_message;
+                EXIT;
+            END IF;
+            v_candidate := mod(v_candidate * v_g, v_p);
+        END LOOP;
+
+        IF v_count IS NULL THEN
+            RAISE EXCEPTION 'Decrypted count for candidate % is out of range', v_candidate_id;
+        END IF;
+
+        v_tally := v_tally || jsonb_build_object(v_candidate_id, v_count);
+    END LOOP;
+
+    RETURN v_tally;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ledger_merkle_root(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.count_ballots(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.decrypt_sealed_tally(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_from_hex(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_to_hex(NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_mod_pow(NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_hash_to_scalar(NUMERIC[], NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_verify_equality(NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_lagrange_coefficient(INTEGER, INTEGER[], NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Compute and publish the Merkle root over a closed election's ledger blocks
+-- together with its tally. Commitments are write-once; an existing commitment
+-- is returned unchanged.
+CREATE OR REPLACE FUNCTION public.commit_election_tally(p_election_id UUID)
+RETURNS public.election_tallies
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_election public.elections;
+    v_root RECORD;
+    v_tally public.election_tallies;
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can commit a tally';
+    END IF;
+
+    SELECT * INTO v_tally FROM public.election_tallies WHERE election_id = p_election_id;
+    IF FOUND THEN
+        RETURN v_tally;
+    END IF;
+
+    SELECT * INTO v_election FROM public.elections WHERE id = p_election_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status = 'draft' OR v_election.end_date > CURRENT_TIMESTAMP THEN
+        RAISE EXCEPTION 'The tally can only be committed once the election has closed';
+    END IF;
+
+    SELECT * INTO v_root FROM public.ledger_merkle_root(p_election_id);
+
+    INSERT INTO public.election_tallies (election_id, merkle_root, receipt_count, tally, committed_by)
+    VALUES (
+        p_election_id,
+        v_root.merkle_root,
+        v_root.receipt_count,
+        CASE WHEN v_election.encrypted_ballots
+            THEN public.decrypt_sealed_tally(p_election_id)
+            ELSE public.count_ballots(p_election_id)
+        END,
+        auth.uid()
+    )
+    -- Another officer committed first; theirs stands
+    ON CONFLICT (election_id) DO NOTHING;
+
+    SELECT * INTO v_tally FROM public.election_tallies WHERE election_id = p_election_id;
+    RETURN v_tally;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.commit_election_tally(UUID) TO authenticated;
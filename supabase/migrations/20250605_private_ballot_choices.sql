@@ -0,0 +1,76 @@
+-- Ballots no longer publish their choices. Anyone could read each ballot's
+-- candidate together with its receipt and commitment salt, which opens the
+-- receipt a voter was shown, and realtime streamed every ballot as it was cast.
+-- The commitments stay public in the vote ledger; choices are only released as
+-- per-candidate counts and, for ranked elections, anonymous preference lists.
+
+DROP POLICY IF EXISTS "Ballots are publicly readable" ON public.ballots;
+REVOKE SELECT ON public.ballots FROM anon, authenticated;
+
+-- Sealed ciphertexts reveal nothing without a threshold of trustees, who read
+-- them to build the aggregate they decrypt
+GRANT SELECT (ballot_id, election_id, encrypted_choice) ON public.ballots TO anon, authenticated;
+
+CREATE POLICY "Sealed ballots are publicly readable"
+ON public.ballots
+FOR SELECT
+USING (encrypted_choice IS NOT NULL);
+
+ALTER PUBLICATION supabase_realtime DROP TABLE public.ballots;
+
+-- Votes per candidate, counted as for the tally. Drafts stay with the staff.
+CREATE OR REPLACE FUNCTION public.get_ballot_counts(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF v_status IS NULL
+        OR (v_status = 'draft' AND NOT (public.has_role('election_officer') OR public.has_role('auditor'))) THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    RETURN public.count_ballots(p_election_id);
+END;
+$$;
+
+-- Every ranking cast in a ranked-choice election, without ballot IDs, receipts
+-- or salts, in an order that says nothing about when each was cast
+CREATE OR REPLACE FUNCTION public.get_ranked_ballots(p_election_id UUID)
+RETURNS SETOF UUID[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_status TEXT;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF v_status IS NULL
+        OR (v_status = 'draft' AND NOT (public.has_role('election_officer') OR public.has_role('auditor'))) THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    RETURN QUERY
+    SELECT ranking
+    FROM public.ballots
+    WHERE election_id = p_election_id
+    AND ranking IS NOT NULL
+    ORDER BY ranking::text;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ballot_counts(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ranked_ballots(UUID) TO anon, authenticated;
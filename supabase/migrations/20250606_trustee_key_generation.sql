@@ -0,0 +1,448 @@
+-- Election keys are generated by the trustees together instead of in the
+-- officer's browser, so nobody ever holds the whole secret key or another
+-- trustee's share (a joint Feldman distributed key generation):
+--
+--   1. An officer names the trustees by account email and sets the threshold.
+--   2. Each trustee publishes a transport key that only they can open.
+--   3. Each trustee then deals: they publish commitments g^a to a random
+--      polynomial and its value at every trustee's index, sealed to that
+--      trustee's transport key.
+--   4. When the last dealing arrives, the election public key and every
+--      trustee's verification key are derived from the commitments alone.
+--
+-- A trustee's secret share is the sum of the values dealt to them, which they
+-- open and check against the commitments on their own device.
+
+ALTER TABLE public.election_trustees
+    ALTER COLUMN verification_key DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS transport_key TEXT;
+
+-- Trustees are registered through register_election_trustees only
+DROP POLICY IF EXISTS "Election officers can register trustees before key publication" ON public.election_trustees;
+REVOKE INSERT, UPDATE, DELETE ON public.election_trustees FROM anon, authenticated;
+
+-- Still append-only, except that the transport and verification keys are each
+-- filled in once during the ceremony
+CREATE OR REPLACE FUNCTION public.election_trustees_fill_once()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE'
+        OR NEW.election_id IS DISTINCT FROM OLD.election_id
+        OR NEW.trustee_index IS DISTINCT FROM OLD.trustee_index
+        OR NEW.name IS DISTINCT FROM OLD.name
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR (OLD.transport_key IS NOT NULL AND NEW.transport_key IS DISTINCT FROM OLD.transport_key)
+        OR (OLD.verification_key IS NOT NULL AND NEW.verification_key IS DISTINCT FROM OLD.verification_key) THEN
+        RAISE EXCEPTION 'Election trustees cannot be changed once registered';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS election_trustees_append_only ON public.election_trustees;
+CREATE TRIGGER election_trustees_append_only
+BEFORE UPDATE OR DELETE ON public.election_trustees
+FOR EACH ROW EXECUTE FUNCTION public.election_trustees_fill_once();
+
+CREATE TABLE IF NOT EXISTS public.election_key_dealings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    election_id UUID NOT NULL REFERENCES public.elections(id) ON DELETE CASCADE,
+    trustee_index INTEGER NOT NULL,
+    -- g^a for each coefficient of the dealer's polynomial, constant term first
+    commitments JSONB NOT NULL,
+    -- Proof the dealer knows the constant term, so no dealer can pick their
+    -- commitment to cancel out the others' and fix the election key
+    proof JSONB NOT NULL,
+    -- The polynomial at each trustee's index, sealed to their transport key
+    sealed_shares JSONB NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(election_id, trustee_index)
+);
+
+DROP TRIGGER IF EXISTS election_key_dealings_append_only ON public.election_key_dealings;
+CREATE TRIGGER election_key_dealings_append_only
+BEFORE UPDATE OR DELETE ON public.election_key_dealings
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_reject_mutation();
+
+ALTER TABLE public.election_key_dealings ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can re-derive the election key from the commitments
+CREATE POLICY "Key dealings are publicly readable"
+ON public.election_key_dealings
+FOR SELECT
+USING (true);
+
+-- The group from src/utils/crypto/elgamal.ts
+CREATE OR REPLACE FUNCTION public.elgamal_group(OUT p NUMERIC, OUT q NUMERIC, OUT g NUMERIC)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT
+        public.elgamal_from_hex(
+            'f33c5969b69ddba5aa31b9a8ad45129e52fabd5cc0a2ffc9994a68d3ab1d117e' ||
+            '873e46081802ddc809d63e308b50243811b578927b5651766bfab6e2a60f2627' ||
+            '3bc629c6499bb75420c197a63eda020ce89daafcf001207d104d790ec324881a' ||
+            'e01350f82c9d0acea99bf868610ed0c740118610306d7fa5966d293f41a5a3e4' ||
+            '35badb4e5b5d25ec98734b790cbb5ee734970b168fd36c521cc1cae4d9e06380' ||
+            '4b53af45e8a3f63d15cbd0f70fc1e851bd11e3d1f2ee90689791f4570b38d9cc' ||
+            '5cc2b547cf9c2c21844b0ba7c5e0af9b862807397c83a72b1f3edd48c33677bd' ||
+            'b4d6cbf8b1b3636a6357f14577b8095760edd9bc650438e582b61c85ad4ef159'
+        ),
+        public.elgamal_from_hex('e7ab2cdcbc5aff5fc7e423b3e4bd7c95aa44789a6c3b6bdebca44e1da890c70d'),
+        public.elgamal_from_hex(
+            'c8ef7a9ba6ec8d501c4d0ba1e8f3c05c32583ec35792ca80a5b7b7dc72ac5f62' ||
+            'b6d909927c609148750c6af92fd0d9863334c36f2e89ca0d1f088db92eb347f8' ||
+            '05aa7ee1bd5da5994b990690e0097c66f1269ce73cb4a7e89e1227f9811e70c2' ||
+            '02ab1d1d777ab9d9f3aa9c4b0d254245d423e210ebee51448c7aed561c1f9338' ||
+            'ce607dbe95cb9301b30b3d548b247533be3c8f250658f7839a8a1c5ff4633a8e' ||
+            '5d5d1d2f0766f95eba431cac4e1e4a9323aa804322f2a46d282291e947c3102e' ||
+            '6a113ea61e806e2c89372661ba7a4a2690ce00951546dbfb0cdda09cba970594' ||
+            'a239fc8f4fef290748aa30a31fee047777fd76c8e723722e5029e04ffb098341'
+        );
+$$;
+
+CREATE OR REPLACE FUNCTION public.elgamal_is_group_element(p_value NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT p_value > 0 AND p_value < grp.p AND public.elgamal_mod_pow(p_value, grp.q, grp.p) = 1
+    FROM public.elgamal_group() grp;
+$$;
+
+-- Schnorr proof of knowledge of log_g(value), as verifyKnowledge
+CREATE OR REPLACE FUNCTION public.elgamal_verify_knowledge(
+    p_context NUMERIC[],
+    p_value NUMERIC,
+    p_challenge NUMERIC,
+    p_response NUMERIC
+) RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT p_challenge = public.elgamal_hash_to_scalar(
+        p_context || ARRAY[
+            grp.g,
+            p_value,
+            mod(
+                public.elgamal_mod_pow(grp.g, p_response, grp.p)
+                    * public.elgamal_mod_pow(p_value, mod(grp.q - mod(p_challenge, grp.q), grp.q), grp.p),
+                grp.p
+            )
+        ],
+        grp.q
+    )
+    FROM public.elgamal_group() grp;
+$$;
+
+-- An officer names the trustees while the election is still a draft
+CREATE OR REPLACE FUNCTION public.register_election_trustees(
+    p_election_id UUID,
+    p_threshold INTEGER,
+    p_emails TEXT[]
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_election RECORD;
+    v_email TEXT;
+    v_user_id UUID;
+    v_name TEXT;
+    v_user_ids UUID[] := '{}';
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can register trustees';
+    END IF;
+
+    SELECT status, encryption_public_key INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF v_election.status <> 'draft' THEN
+        RAISE EXCEPTION 'Trustees can only be registered while the election is a draft';
+    END IF;
+
+    IF v_election.encryption_public_key IS NOT NULL
+        OR EXISTS (SELECT 1 FROM public.election_trustees WHERE election_id = p_election_id) THEN
+        RAISE EXCEPTION 'This election already has trustees';
+    END IF;
+
+    IF COALESCE(array_length(p_emails, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'At least one trustee is required';
+    END IF;
+
+    IF p_threshold IS NULL OR p_threshold < 1 OR p_threshold > array_length(p_emails, 1) THEN
+        RAISE EXCEPTION 'The threshold must be between 1 and the number of trustees';
+    END IF;
+
+    FOREACH v_email IN ARRAY p_emails LOOP
+        SELECT u.id, COALESCE(NULLIF(trim(pr.full_name), ''), u.email::TEXT)
+        INTO v_user_id, v_name
+        FROM auth.users u
+        LEFT JOIN public.profiles pr ON pr.id = u.id
+        WHERE lower(u.email) = lower(trim(v_email));
+
+        IF v_user_id IS NULL THEN
+            RAISE EXCEPTION 'No account uses the email address %', trim(v_email);
+        END IF;
+
+        IF v_user_id = ANY(v_user_ids) THEN
+            RAISE EXCEPTION '% is listed as a trustee more than once', trim(v_email);
+        END IF;
+
+        v_user_ids := v_user_ids || v_user_id;
+
+        INSERT INTO public.election_trustees (election_id, trustee_index, name, user_id)
+        VALUES (p_election_id, array_length(v_user_ids, 1), v_name, v_user_id);
+    END LOOP;
+
+    UPDATE public.elections
+    SET encrypted_ballots = true,
+        decryption_threshold = p_threshold
+    WHERE id = p_election_id;
+END;
+$$;
+
+-- Step 2: a trustee publishes g^y for a transport secret y kept on their device
+CREATE OR REPLACE FUNCTION public.publish_trustee_transport_key(p_election_id UUID, p_transport_key TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_trustee RECORD;
+BEGIN
+    SELECT trustee_index, transport_key INTO v_trustee
+    FROM public.election_trustees
+    WHERE election_id = p_election_id
+    AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You are not a trustee of this election';
+    END IF;
+
+    IF v_trustee.transport_key IS NOT NULL THEN
+        RAISE EXCEPTION 'You have already joined the key ceremony for this election';
+    END IF;
+
+    IF NOT public.elgamal_is_group_element(public.elgamal_from_hex(p_transport_key)) THEN
+        RAISE EXCEPTION 'Invalid transport key';
+    END IF;
+
+    UPDATE public.election_trustees
+    SET transport_key = lower(p_transport_key)
+    WHERE election_id = p_election_id
+    AND trustee_index = v_trustee.trustee_index;
+
+    RETURN v_trustee.trustee_index;
+END;
+$$;
+
+-- Steps 3 and 4: record a trustee's dealing and, once every trustee has dealt,
+-- publish the election key and the trustees' verification keys
+CREATE OR REPLACE FUNCTION public.submit_key_dealing(
+    p_election_id UUID,
+    p_commitments JSONB,
+    p_proof JSONB,
+    p_sealed_shares JSONB
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_grp RECORD;
+    v_threshold INTEGER;
+    v_trustee_index INTEGER;
+    v_trustee_count INTEGER;
+    v_commitments NUMERIC[];
+    v_public_key NUMERIC;
+    v_verification_key NUMERIC;
+    v_dealing RECORD;
+    v_recipient INTEGER;
+    v_power NUMERIC;
+BEGIN
+    SELECT * INTO v_grp FROM public.elgamal_group();
+
+    SELECT trustee_index INTO v_trustee_index
+    FROM public.election_trustees
+    WHERE election_id = p_election_id
+    AND user_id = auth.uid();
+
+    IF v_trustee_index IS NULL THEN
+        RAISE EXCEPTION 'You are not a trustee of this election';
+    END IF;
+
+    SELECT decryption_threshold INTO v_threshold
+    FROM public.elections
+    WHERE id = p_election_id
+    AND encryption_public_key IS NULL;
+
+    IF v_threshold IS NULL THEN
+        RAISE EXCEPTION 'The key ceremony for this election is over';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.election_trustees
+        WHERE election_id = p_election_id
+        AND transport_key IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Every trustee must join the key ceremony before anyone deals';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.election_key_dealings
+        WHERE election_id = p_election_id
+        AND trustee_index = v_trustee_index
+    ) THEN
+        RAISE EXCEPTION 'You have already dealt for this election';
+    END IF;
+
+    SELECT count(*) INTO v_trustee_count
+    FROM public.election_trustees
+    WHERE election_id = p_election_id;
+
+    IF jsonb_typeof(p_commitments) IS DISTINCT FROM 'array' OR jsonb_array_length(p_commitments) <> v_threshold THEN
+        RAISE EXCEPTION 'A dealing needs one commitment per coefficient';
+    END IF;
+
+    SELECT array_agg(public.elgamal_from_hex(value) ORDER BY ordinal) INTO v_commitments
+    FROM jsonb_array_elements_text(p_commitments) WITH ORDINALITY AS c(value, ordinal);
+
+    IF EXISTS (SELECT 1 FROM unnest(v_commitments) AS c(value) WHERE NOT public.elgamal_is_group_element(value)) THEN
+        RAISE EXCEPTION 'Invalid commitment in dealing';
+    END IF;
+
+    IF NOT public.elgamal_verify_knowledge(
+        ARRAY[public.elgamal_from_hex(replace(p_election_id::text, '-', '')), v_trustee_index::NUMERIC],
+        v_commitments[1],
+        public.elgamal_from_hex(p_proof ->> 'challenge'),
+        public.elgamal_from_hex(p_proof ->> 'response')
+    ) THEN
+        RAISE EXCEPTION 'Invalid proof of knowledge in dealing';
+    END IF;
+
+    -- Exactly one sealed share for every trustee; its contents can only be
+    -- checked by the recipient
+    IF jsonb_typeof(p_sealed_shares) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_sealed_shares) <> v_trustee_count
+        OR (
+            SELECT count(DISTINCT (value ->> 'trusteeIndex')::integer)
+            FROM jsonb_array_elements(p_sealed_shares)
+            WHERE (value ->> 'trusteeIndex')::integer BETWEEN 1 AND v_trustee_count
+            AND value ->> 'ephemeral' ~ '^[0-9a-f]+$'
+            AND value ->> 'masked' ~ '^[0-9a-f]+$'
+        ) <> v_trustee_count THEN
+        RAISE EXCEPTION 'A dealing needs one sealed share per trustee';
+    END IF;
+
+    INSERT INTO public.election_key_dealings (election_id, trustee_index, commitments, proof, sealed_shares)
+    VALUES (p_election_id, v_trustee_index, p_commitments, p_proof, p_sealed_shares);
+
+    IF (SELECT count(*) FROM public.election_key_dealings WHERE election_id = p_election_id) < v_trustee_count THEN
+        RETURN;
+    END IF;
+
+    -- The election key is the product of every dealer's constant-term commitment
+    v_public_key := 1;
+    FOR v_dealing IN
+        SELECT commitments FROM public.election_key_dealings WHERE election_id = p_election_id
+    LOOP
+        v_public_key := mod(v_public_key * public.elgamal_from_hex(v_dealing.commitments ->> 0), v_grp.p);
+    END LOOP;
+
+    -- A trustee's verification key is g^(sum of their dealt values), the
+    -- product over dealers of prod_k C_k^(index^k)
+    FOR v_recipient IN 1..v_trustee_count LOOP
+        v_verification_key := 1;
+
+        FOR v_dealing IN
+            SELECT commitments FROM public.election_key_dealings WHERE election_id = p_election_id
+        LOOP
+            v_power := 1;
+            FOR v_k IN 0..v_threshold - 1 LOOP
+                v_verification_key := mod(
+                    v_verification_key * public.elgamal_mod_pow(public.elgamal_from_hex(v_dealing.commitments ->> v_k), v_power, v_grp.p),
+                    v_grp.p
+                );
+                v_power := mod(v_power * v_recipient, v_grp.q);
+            END LOOP;
+        END LOOP;
+
+        UPDATE public.election_trustees
+        SET verification_key = public.elgamal_to_hex(v_verification_key)
+        WHERE election_id = p_election_id
+        AND trustee_index = v_recipient;
+    END LOOP;
+
+    UPDATE public.elections
+    SET encryption_public_key = public.elgamal_to_hex(v_public_key)
+    WHERE id = p_election_id;
+END;
+$$;
+
+-- The caller's trustee seats and how far each key ceremony has got. Draft
+-- elections are not readable by trustees who are not staff.
+CREATE OR REPLACE FUNCTION public.get_key_ceremonies()
+RETURNS TABLE (
+    election_id UUID,
+    election_title TEXT,
+    trustee_index INTEGER,
+    trustee_name TEXT,
+    threshold INTEGER,
+    trustee_count INTEGER,
+    joined_count INTEGER,
+    dealt_count INTEGER,
+    has_joined BOOLEAN,
+    has_dealt BOOLEAN,
+    public_key TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        e.id,
+        e.title,
+        t.trustee_index,
+        t.name,
+        e.decryption_threshold,
+        (SELECT count(*)::integer FROM public.election_trustees o WHERE o.election_id = e.id),
+        (SELECT count(*)::integer FROM public.election_trustees o WHERE o.election_id = e.id AND o.transport_key IS NOT NULL),
+        (SELECT count(*)::integer FROM public.election_key_dealings d WHERE d.election_id = e.id),
+        t.transport_key IS NOT NULL,
+        EXISTS (
+            SELECT 1 FROM public.election_key_dealings d
+            WHERE d.election_id = e.id
+            AND d.trustee_index = t.trustee_index
+        ),
+        e.encryption_public_key
+    FROM public.election_trustees t
+    JOIN public.elections e ON e.id = t.election_id
+    WHERE t.user_id = auth.uid()
+    ORDER BY e.start_date DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.elgamal_group() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_is_group_element(NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_verify_knowledge(NUMERIC[], NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.register_election_trustees(UUID, INTEGER, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_trustee_transport_key(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_key_dealing(UUID, JSONB, JSONB, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_key_ceremonies() TO authenticated;
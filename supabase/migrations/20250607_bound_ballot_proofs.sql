@@ -0,0 +1,26 @@
+-- The 0/1 proofs on an encrypted ballot hash the election and ballot IDs into
+-- their challenge, so ciphertexts copied from another ballot no longer verify.
+-- The voter's device picks the ballot ID it proves against; it becomes the
+-- row's ballot_id, and the primary key stops it being used twice.
+
+CREATE OR REPLACE FUNCTION public.ballots_use_encrypted_ballot_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.encrypted_choice IS NOT NULL THEN
+        IF COALESCE(NEW.encrypted_choice ->> 'ballotId', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        NEW.ballot_id := (NEW.encrypted_choice ->> 'ballotId')::uuid;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ballots_use_encrypted_ballot_id ON public.ballots;
+CREATE TRIGGER ballots_use_encrypted_ballot_id
+BEFORE INSERT ON public.ballots
+FOR EACH ROW EXECUTE FUNCTION public.ballots_use_encrypted_ballot_id();
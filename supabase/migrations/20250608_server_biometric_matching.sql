@@ -0,0 +1,169 @@
+-- Face and palm matches are decided on the server. The biometric-verify Edge
+-- Function compares what the voter's device captured with the stored template
+-- and records the attempt itself, so a client can no longer report its own
+-- verification, and the decrypted templates are no longer sent to devices.
+
+DROP FUNCTION IF EXISTS public.record_biometric_attempt(TEXT, BOOLEAN, REAL, BOOLEAN, REAL, BOOLEAN, JSONB);
+
+-- Record a verification attempt for a user and update their lockout. Attempts
+-- are refused while the user is locked out. Only the Edge Function calls this.
+CREATE OR REPLACE FUNCTION public.record_biometric_attempt(
+    p_user_id UUID,
+    p_modality TEXT,
+    p_verified BOOLEAN,
+    p_similarity REAL DEFAULT NULL,
+    p_liveness_passed BOOLEAN DEFAULT NULL,
+    p_spoof_score REAL DEFAULT NULL,
+    p_suspected_spoof BOOLEAN DEFAULT false,
+    p_spoof_signals JSONB DEFAULT NULL
+) RETURNS TABLE (
+    locked_until TIMESTAMP WITH TIME ZONE,
+    remaining_attempts INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lockout public.biometric_lockouts%ROWTYPE;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to verify your identity';
+    END IF;
+
+    INSERT INTO public.biometric_lockouts (user_id)
+    VALUES (p_user_id)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    -- Lock the row so attempts sent at the same time are counted one by one
+    SELECT * INTO v_lockout
+    FROM public.biometric_lockouts
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF v_lockout.locked_until > now() THEN
+        RAISE EXCEPTION 'Biometric verification is locked until %', v_lockout.locked_until
+            USING HINT = 'biometric_locked';
+    END IF;
+
+    INSERT INTO public.biometric_attempts (
+        user_id, modality, verified, similarity, liveness_passed, spoof_score, suspected_spoof, spoof_signals
+    ) VALUES (
+        p_user_id, p_modality, p_verified, p_similarity, p_liveness_passed, p_spoof_score,
+        COALESCE(p_suspected_spoof, false), p_spoof_signals
+    );
+
+    IF p_verified THEN
+        v_lockout.failed_attempts := 0;
+        v_lockout.lockout_count := 0;
+        v_lockout.locked_until := NULL;
+    ELSE
+        v_lockout.failed_attempts := v_lockout.failed_attempts + 1;
+
+        IF v_lockout.failed_attempts >= public.biometric_max_failed_attempts() THEN
+            v_lockout.failed_attempts := 0;
+            v_lockout.lockout_count := v_lockout.lockout_count + 1;
+            v_lockout.locked_until := now() + public.biometric_lockout_duration(v_lockout.lockout_count);
+        END IF;
+    END IF;
+
+    UPDATE public.biometric_lockouts l
+    SET failed_attempts = v_lockout.failed_attempts,
+        lockout_count = v_lockout.lockout_count,
+        locked_until = v_lockout.locked_until,
+        updated_at = now()
+    WHERE l.user_id = p_user_id;
+
+    RETURN QUERY SELECT
+        CASE WHEN v_lockout.locked_until > now() THEN v_lockout.locked_until END,
+        public.biometric_max_failed_attempts() - v_lockout.failed_attempts;
+END;
+$$;
+
+-- A user's decrypted face or palm template, for the Edge Function to match against
+CREATE OR REPLACE FUNCTION public.get_biometric_template(p_user_id UUID, p_modality TEXT)
+RETURNS TABLE (
+    template DOUBLE PRECISION[],
+    template_version TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_modality = 'face' THEN
+        RETURN QUERY
+        SELECT
+            ARRAY(
+                SELECT value::double precision
+                FROM json_array_elements_text(pgp_sym_decrypt(b.face_template, public.face_template_key())::json)
+            ),
+            b.template_version
+        FROM public.user_biometrics b
+        WHERE b.user_id = p_user_id
+        AND b.face_template IS NOT NULL;
+    ELSIF p_modality = 'palm' THEN
+        RETURN QUERY
+        SELECT
+            ARRAY(
+                SELECT value::double precision
+                FROM json_array_elements_text(pgp_sym_decrypt(b.palm_template, public.palm_template_key())::json)
+            ),
+            b.palm_template_version
+        FROM public.user_biometrics b
+        WHERE b.user_id = p_user_id
+        AND b.palm_template IS NOT NULL;
+    ELSE
+        RAISE EXCEPTION 'Unknown biometric modality %', p_modality;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_biometric_attempt(UUID, TEXT, BOOLEAN, REAL, BOOLEAN, REAL, BOOLEAN, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_biometric_template(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_biometric_attempt(UUID, TEXT, BOOLEAN, REAL, BOOLEAN, REAL, BOOLEAN, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_biometric_template(UUID, TEXT) TO service_role;
+
+-- Devices only learn whether a template exists and which model made it
+DROP FUNCTION IF EXISTS public.get_face_template();
+CREATE OR REPLACE FUNCTION public.get_face_template()
+RETURNS TABLE (
+    has_template BOOLEAN,
+    template_version TEXT,
+    template_quality REAL,
+    legacy_image_url TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        b.face_template IS NOT NULL,
+        b.template_version,
+        b.template_quality,
+        CASE WHEN b.face_template IS NULL THEN b.face_image_url END
+    FROM public.user_biometrics b
+    WHERE b.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_face_template() TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_palm_template();
+CREATE OR REPLACE FUNCTION public.get_palm_template()
+RETURNS TABLE (
+    template_version TEXT,
+    template_quality REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT b.palm_template_version, b.palm_template_quality
+    FROM public.user_biometrics b
+    WHERE b.user_id = auth.uid()
+    AND b.palm_template IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_palm_template() TO authenticated;
@@ -0,0 +1,365 @@
+-- Face and palm get match thresholds of their own. Each election can raise
+-- either one within its own range, and cast_vote holds attempts to the
+-- factor's default threshold when the election leaves it blank.
+
+-- The similarity a match needs when the election does not raise it; the
+-- biometric-verify Edge Function uses the same defaults
+CREATE OR REPLACE FUNCTION public.default_match_confidence(p_modality TEXT)
+RETURNS REAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_modality
+        WHEN 'face' THEN 0.85::real
+        WHEN 'palm' THEN 0.65::real
+    END;
+$$;
+
+ALTER TABLE public.elections
+    ADD COLUMN IF NOT EXISTS min_face_confidence REAL,
+    ADD COLUMN IF NOT EXISTS min_palm_confidence REAL;
+
+ALTER TABLE public.elections
+    ADD CONSTRAINT elections_min_face_confidence_check
+    CHECK (min_face_confidence BETWEEN 0.85::real AND 0.99::real),
+    ADD CONSTRAINT elections_min_palm_confidence_check
+    CHECK (min_palm_confidence BETWEEN 0.65::real AND 0.95::real);
+
+-- Carry over thresholds that raised the defaults. Certified elections reject
+-- updates, so the election triggers are paused for the copy.
+ALTER TABLE public.elections DISABLE TRIGGER elections_enforce_lifecycle;
+ALTER TABLE public.elections DISABLE TRIGGER elections_lock_auth_policy;
+
+UPDATE public.elections
+SET min_face_confidence = CASE
+        WHEN 'face' = ANY(auth_factors) AND min_match_confidence > 0.85::real
+        THEN LEAST(min_match_confidence, 0.99::real)
+    END,
+    min_palm_confidence = CASE
+        WHEN 'palm' = ANY(auth_factors) AND min_match_confidence > 0.65::real
+        THEN LEAST(min_match_confidence, 0.95::real)
+    END
+WHERE min_match_confidence IS NOT NULL;
+
+ALTER TABLE public.elections ENABLE TRIGGER elections_enforce_lifecycle;
+ALTER TABLE public.elections ENABLE TRIGGER elections_lock_auth_policy;
+
+ALTER TABLE public.elections DROP COLUMN min_match_confidence;
+
+-- Voters who have already voted were held to the policy in force at the time
+CREATE OR REPLACE FUNCTION public.elections_lock_auth_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF (NEW.auth_factors IS DISTINCT FROM OLD.auth_factors
+        OR NEW.min_face_confidence IS DISTINCT FROM OLD.min_face_confidence
+        OR NEW.min_palm_confidence IS DISTINCT FROM OLD.min_palm_confidence)
+        AND EXISTS (SELECT 1 FROM public.ballots WHERE election_id = OLD.id) THEN
+        RAISE EXCEPTION 'The authentication policy cannot be changed once ballots have been cast';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Imports set each factor's threshold
+CREATE OR REPLACE FUNCTION public.import_elections(p_elections JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_election JSONB;
+    v_candidate JSONB;
+    v_title TEXT;
+    v_start_date TIMESTAMP WITH TIME ZONE;
+    v_election_id UUID;
+    v_election_ids UUID[] := '{}';
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can import elections';
+    END IF;
+
+    IF jsonb_typeof(p_elections) IS DISTINCT FROM 'array' OR jsonb_array_length(p_elections) = 0 THEN
+        RAISE EXCEPTION 'There are no elections to import';
+    END IF;
+
+    FOR v_election IN SELECT value FROM jsonb_array_elements(p_elections) LOOP
+        v_title := trim(COALESCE(v_election ->> 'title', ''));
+        v_start_date := (v_election ->> 'start_date')::timestamptz;
+
+        IF v_title = '' THEN
+            RAISE EXCEPTION 'Every election needs a title';
+        END IF;
+
+        -- Importing the same file twice would otherwise duplicate every election
+        IF EXISTS (SELECT 1 FROM public.elections WHERE title = v_title AND start_date = v_start_date) THEN
+            RAISE EXCEPTION 'An election called "%" starting % already exists', v_title, v_start_date;
+        END IF;
+
+        INSERT INTO public.elections (
+            title, description, start_date, end_date, status, voting_method, seats, max_selections,
+            auth_factors, min_face_confidence, min_palm_confidence, eligibility, eligibility_rules, created_by
+        ) VALUES (
+            v_title,
+            NULLIF(v_election ->> 'description', ''),
+            v_start_date,
+            (v_election ->> 'end_date')::timestamptz,
+            'draft',
+            v_election ->> 'voting_method',
+            (v_election ->> 'seats')::integer,
+            (v_election ->> 'max_selections')::integer,
+            ARRAY(SELECT jsonb_array_elements_text(v_election -> 'auth_factors')),
+            (v_election ->> 'min_face_confidence')::real,
+            (v_election ->> 'min_palm_confidence')::real,
+            v_election ->> 'eligibility',
+            COALESCE(v_election -> 'eligibility_rules', '{}'::jsonb),
+            auth.uid()
+        )
+        RETURNING id INTO v_election_id;
+
+        FOR v_candidate IN SELECT value FROM jsonb_array_elements(COALESCE(v_election -> 'candidates', '[]'::jsonb)) LOOP
+            IF trim(COALESCE(v_candidate ->> 'name', '')) = '' THEN
+                RAISE EXCEPTION 'Every candidate in "%" needs a name', v_title;
+            END IF;
+
+            INSERT INTO public.candidates (election_id, name, party, bio, photo_url)
+            VALUES (
+                v_election_id,
+                trim(v_candidate ->> 'name'),
+                NULLIF(trim(COALESCE(v_candidate ->> 'party', '')), ''),
+                NULLIF(v_candidate ->> 'bio', ''),
+                NULLIF(trim(COALESCE(v_candidate ->> 'photo_url', '')), '')
+            );
+        END LOOP;
+
+        v_election_ids := v_election_ids || v_election_id;
+    END LOOP;
+
+    RETURN v_election_ids;
+END;
+$$;
+
+-- Each factor is compared with its own threshold
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT public.has_role('voter') THEN
+        RAISE EXCEPTION 'Your account is not allowed to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF NOT public.voter_is_eligible(p_election_id, v_voter_id) THEN
+        RAISE EXCEPTION 'You are not on the electorate for this election';
+    END IF;
+
+    -- Face and palm matches are made and recorded by the biometric-verify Edge
+    -- Function. Without an election threshold the built-in default applies.
+    IF 'face' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'face'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_face_confidence, public.default_match_confidence('face'))
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your face before voting';
+    END IF;
+
+    IF 'palm' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'palm'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_palm_confidence, public.default_match_confidence('palm'))
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your palm before voting';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    IF 'otp' = ANY(v_election.auth_factors) THEN
+        UPDATE public.otp_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.otp_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND verified_at > now() - interval '10 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please verify your one-time code before voting';
+        END IF;
+    END IF;
+
+    -- Voters sign with a passkey when the election requires it or they have added one
+    IF 'passkey' = ANY(v_election.auth_factors)
+        OR EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        -- The proofs are checked by the trustees when the ballots are aggregated
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
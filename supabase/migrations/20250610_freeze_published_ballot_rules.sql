@@ -0,0 +1,93 @@
+-- The voting method, seats, choices per voter and ballot encryption decide
+-- what a ballot looks like, so they can only change while an election is a
+-- draft. Before, they were only locked once the first ballot was cast.
+
+-- Keep the stored status in step with the dates and reject transitions that skip a step
+CREATE OR REPLACE FUNCTION public.elections_enforce_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_old_phase TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status = 'certified' THEN
+            RAISE EXCEPTION 'Only closed elections can be certified';
+        END IF;
+
+        IF NEW.status <> 'draft' THEN
+            IF NEW.end_date <= CURRENT_TIMESTAMP THEN
+                RAISE EXCEPTION 'An election cannot be published after its end date';
+            END IF;
+
+            NEW.status := public.election_phase(NEW.start_date, NEW.end_date);
+        END IF;
+
+        NEW.certified_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'certified' THEN
+        RAISE EXCEPTION 'Certified elections cannot be changed';
+    END IF;
+
+    -- Voters' devices build ballots from these, so they stay fixed once published
+    IF OLD.status <> 'draft' AND (
+        NEW.voting_method IS DISTINCT FROM OLD.voting_method
+        OR NEW.seats IS DISTINCT FROM OLD.seats
+        OR NEW.max_selections IS DISTINCT FROM OLD.max_selections
+        OR NEW.encrypted_ballots IS DISTINCT FROM OLD.encrypted_ballots
+    ) THEN
+        RAISE EXCEPTION 'The voting method, seats, choices per voter and ballot encryption cannot change once an election is published';
+    END IF;
+
+    v_old_phase := public.election_phase(OLD.start_date, OLD.end_date);
+
+    IF NEW.status = 'certified' THEN
+        IF OLD.status = 'draft' OR v_old_phase <> 'closed' THEN
+            RAISE EXCEPTION 'Only closed elections can be certified';
+        END IF;
+
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+            RAISE EXCEPTION 'The dates cannot change once voting has closed';
+        END IF;
+
+        IF NOT EXISTS (SELECT 1 FROM public.election_tallies WHERE election_id = OLD.id) THEN
+            RAISE EXCEPTION 'Commit the tally before certifying the election';
+        END IF;
+
+        NEW.certified_at := CURRENT_TIMESTAMP;
+        RETURN NEW;
+    END IF;
+
+    NEW.certified_at := NULL;
+
+    IF NEW.status = 'draft' THEN
+        IF OLD.status <> 'draft' AND v_old_phase <> 'scheduled' THEN
+            RAISE EXCEPTION 'Only elections that have not opened can return to draft';
+        END IF;
+
+        RETURN NEW;
+    END IF;
+
+    IF OLD.status = 'draft' THEN
+        IF NEW.end_date <= CURRENT_TIMESTAMP THEN
+            RAISE EXCEPTION 'An election cannot be published after its end date';
+        END IF;
+    ELSIF v_old_phase = 'closed' THEN
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+            RAISE EXCEPTION 'The dates cannot change once voting has closed';
+        END IF;
+    ELSIF v_old_phase = 'open' THEN
+        IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+            RAISE EXCEPTION 'The start date cannot change once voting has opened';
+        END IF;
+
+        -- Closing early moves the end date to now, never into the past
+        NEW.end_date := GREATEST(NEW.end_date, CURRENT_TIMESTAMP);
+    END IF;
+
+    NEW.status := public.election_phase(NEW.start_date, NEW.end_date);
+    RETURN NEW;
+END;
+$$;
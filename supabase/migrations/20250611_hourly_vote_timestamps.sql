@@ -0,0 +1,182 @@
+-- Vote ledger blocks and vote_cast audit events only record the hour they
+-- were written in, as voter_participation already does. Their exact times
+-- matched the voter's verification attempt and one-time code, which linked
+-- the voter to their ledger block and ballot.
+--
+-- The hour alone does not hide the order of votes. Ledger blocks are numbered,
+-- and each vote_cast audit event takes the next event_number, right after the
+-- voter's own sign-in and verification events. Anyone who can read the audit
+-- log can still line a voter's events up with the vote that follows them, and
+-- the vote with its ledger block. Only auditors read the audit log.
+--
+-- Manual check, in a transaction that is rolled back: after the first five
+-- minutes of an hour (e.g. at :30), a vote must still append its block.
+--
+--   BEGIN;
+--   SELECT public.append_ledger_block(gen_random_uuid(), 'check');
+--   SELECT block_number, created_at FROM public.vote_ledger ORDER BY block_number DESC LIMIT 1;
+--   ROLLBACK;
+
+-- Validate every new block against the head of the chain. Its timestamp must
+-- be an hour, as append_ledger_block writes it, rather than the exact time.
+-- The hash format must stay in sync with VoteLedger.computeBlockHash.
+CREATE OR REPLACE FUNCTION public.vote_ledger_validate_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_expected_previous TEXT;
+    v_expected_hash TEXT;
+BEGIN
+    IF NEW.block_number = 1 THEN
+        v_expected_previous := repeat('0', 64);
+    ELSE
+        SELECT block_hash INTO v_expected_previous
+        FROM public.vote_ledger
+        WHERE block_number = NEW.block_number - 1;
+
+        IF v_expected_previous IS NULL THEN
+            RAISE EXCEPTION 'Ledger block % has no predecessor', NEW.block_number;
+        END IF;
+    END IF;
+
+    IF NEW.previous_hash <> v_expected_previous THEN
+        RAISE EXCEPTION 'Ledger block % does not link to the head of the chain', NEW.block_number;
+    END IF;
+
+    -- Blocks carry the start of the hour they were written in: this hour, or the
+    -- previous one for a vote that started just before the hour turned
+    IF NEW.created_at <> date_trunc('hour', NEW.created_at)
+        OR NEW.created_at NOT BETWEEN date_trunc('hour', CURRENT_TIMESTAMP) - INTERVAL '1 hour'
+            AND CURRENT_TIMESTAMP + INTERVAL '1 minute' THEN
+        RAISE EXCEPTION 'Ledger block % has an out-of-range timestamp', NEW.block_number;
+    END IF;
+
+    v_expected_hash := encode(
+        digest(
+            NEW.previous_hash || '|' ||
+            NEW.election_id::text || '|' ||
+            NEW.candidate_commitment || '|' ||
+            to_char(NEW.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    IF NEW.block_hash <> v_expected_hash THEN
+        RAISE EXCEPTION 'Ledger block % hash does not match its contents', NEW.block_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS vote_ledger_validate_block ON public.vote_ledger;
+CREATE TRIGGER vote_ledger_validate_block
+BEFORE INSERT ON public.vote_ledger
+FOR EACH ROW EXECUTE FUNCTION public.vote_ledger_validate_block();
+
+-- Append a block for a committed vote. Callers must hold the ledger lock.
+-- The hash format must stay in sync with VoteLedger.computeBlockHash.
+CREATE OR REPLACE FUNCTION public.append_ledger_block(
+    p_election_id UUID,
+    p_candidate_commitment TEXT
+) RETURNS TEXT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_previous_hash TEXT;
+    v_block_number BIGINT;
+    -- Only the hour is kept, as for participation, so a block's time cannot be
+    -- matched to the voter's verification attempts
+    v_created_at TIMESTAMP WITH TIME ZONE := date_trunc('hour', clock_timestamp());
+    v_block_hash TEXT;
+BEGIN
+    SELECT block_hash, block_number + 1 INTO v_previous_hash, v_block_number
+    FROM public.vote_ledger
+    ORDER BY block_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        v_previous_hash := repeat('0', 64);
+        v_block_number := 1;
+    END IF;
+
+    v_block_hash := encode(
+        digest(
+            v_previous_hash || '|' ||
+            p_election_id::text || '|' ||
+            p_candidate_commitment || '|' ||
+            to_char(v_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    INSERT INTO public.vote_ledger (block_number, block_hash, previous_hash, election_id, candidate_commitment, created_at)
+    VALUES (v_block_number, v_block_hash, v_previous_hash, p_election_id, p_candidate_commitment, v_created_at);
+
+    RETURN v_block_hash;
+END;
+$$;
+
+-- The hash format must stay in sync with computeAuditEventHash in the app
+CREATE OR REPLACE FUNCTION public.append_audit_event(
+    p_event_type TEXT,
+    p_actor_id UUID,
+    p_target_id TEXT,
+    p_details JSONB DEFAULT '{}'::jsonb
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous_hash TEXT;
+    v_event_number BIGINT;
+    v_created_at TIMESTAMP WITH TIME ZONE := date_trunc('milliseconds', clock_timestamp());
+    v_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    v_event_hash TEXT;
+BEGIN
+    -- Votes only keep the hour, like participation and the ledger, so they
+    -- cannot be matched to the voter's verification attempts by time
+    IF p_event_type = 'vote_cast' THEN
+        v_created_at := date_trunc('hour', v_created_at);
+    END IF;
+
+    -- Serialise appends so every event links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.audit_events'));
+
+    SELECT event_hash, event_number + 1 INTO v_previous_hash, v_event_number
+    FROM public.audit_events
+    ORDER BY event_number DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        v_previous_hash := repeat('0', 64);
+        v_event_number := 1;
+    END IF;
+
+    v_event_hash := encode(
+        digest(
+            v_previous_hash || '|' ||
+            p_event_type || '|' ||
+            COALESCE(p_actor_id::text, '') || '|' ||
+            COALESCE(p_target_id, '') || '|' ||
+            v_details::text || '|' ||
+            to_char(v_created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'sha256'
+        ),
+        'hex'
+    );
+
+    INSERT INTO public.audit_events (
+        event_number, event_hash, previous_hash, event_type, actor_id, target_id, details, created_at
+    ) VALUES (
+        v_event_number, v_event_hash, v_previous_hash, p_event_type, p_actor_id, p_target_id, v_details, v_created_at
+    );
+
+    RETURN v_event_hash;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Turnout breakdowns are for election officers and auditors only, and a
+-- group's vote count is withheld whenever it would show whether its members
+-- voted: when none or all of them did, or fewer than five did not. Overall
+-- turnout and votes per hour stay public.
+
+CREATE OR REPLACE FUNCTION public.get_turnout_statistics(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    -- Smallest group, and smallest number of voters or non-voters, reported on its own
+    v_min_group CONSTANT INTEGER := 5;
+    v_status TEXT;
+    v_is_staff BOOLEAN := public.has_role('election_officer') OR public.has_role('auditor');
+    v_result JSONB;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.elections
+    WHERE id = p_election_id;
+
+    IF v_status IS NULL
+        OR (v_status = 'draft' AND NOT v_is_staff) THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    WITH electorate AS (
+        SELECT
+            p.department,
+            p.year_of_study::text AS year_of_study,
+            p.district,
+            EXISTS (
+                SELECT 1 FROM public.voter_participation vp
+                WHERE vp.election_id = p_election_id AND vp.voter_id = p.id
+            ) AS voted
+        FROM public.profiles p
+        WHERE EXISTS (SELECT 1 FROM public.user_roles r WHERE r.user_id = p.id AND r.role = 'voter')
+        AND public.voter_is_eligible(p_election_id, p.id)
+    ),
+    attribute_values AS (
+        SELECT 'department' AS attribute, department AS value, voted FROM electorate
+        UNION ALL
+        SELECT 'year_of_study', year_of_study, voted FROM electorate
+        UNION ALL
+        SELECT 'district', district, voted FROM electorate
+    ),
+    attribute_groups AS (
+        SELECT attribute, value, COUNT(*) AS eligible, COUNT(*) FILTER (WHERE voted) AS voted
+        FROM attribute_values
+        GROUP BY attribute, value
+    ),
+    -- Groups of fewer than five eligible voters are reported together
+    folded_groups AS (
+        SELECT
+            attribute,
+            CASE WHEN eligible >= v_min_group THEN value END AS value,
+            eligible < v_min_group AS grouped,
+            SUM(eligible) AS eligible,
+            SUM(voted) AS voted
+        FROM attribute_groups
+        GROUP BY attribute, CASE WHEN eligible >= v_min_group THEN value END, eligible < v_min_group
+    ),
+    -- A group where nobody voted, everybody voted, or fewer than five did not
+    -- vote says whether its members voted, so its count is withheld
+    risky_groups AS (
+        SELECT *, voted = 0 OR eligible - voted < v_min_group AS risky
+        FROM folded_groups
+    ),
+    -- A lone withheld count could be worked out from the total, so the
+    -- smallest other group in the breakdown is withheld with it
+    suppressed_groups AS (
+        SELECT
+            attribute, value, grouped, eligible, voted,
+            risky OR (
+                COUNT(*) FILTER (WHERE risky) OVER (PARTITION BY attribute) = 1
+                AND row_number() OVER (PARTITION BY attribute, risky ORDER BY eligible, value) = 1
+            ) AS suppressed
+        FROM risky_groups
+    ),
+    breakdowns AS (
+        SELECT attribute, jsonb_agg(
+            jsonb_build_object(
+                'value', value,
+                'grouped', grouped,
+                'eligible', eligible,
+                'voted', CASE WHEN NOT suppressed THEN voted END,
+                'suppressed', suppressed
+            )
+            ORDER BY grouped, eligible DESC, value
+        ) AS rows
+        FROM suppressed_groups
+        GROUP BY attribute
+    ),
+    hourly AS (
+        SELECT participated_at, COUNT(*) AS votes
+        FROM public.voter_participation
+        WHERE election_id = p_election_id
+        GROUP BY participated_at
+    )
+    SELECT jsonb_build_object(
+        'eligible_voters', (SELECT COUNT(*) FROM electorate),
+        'eligible_voted', (SELECT COUNT(*) FROM electorate WHERE voted),
+        'votes_cast', (SELECT COALESCE(SUM(votes), 0) FROM hourly),
+        'votes_over_time', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('hour', participated_at, 'votes', votes) ORDER BY participated_at), '[]'::jsonb)
+            FROM hourly
+        ),
+        -- Only officers and auditors see turnout by group
+        'breakdowns', CASE WHEN v_is_staff THEN (SELECT COALESCE(jsonb_object_agg(attribute, rows), '{}'::jsonb) FROM breakdowns) END
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
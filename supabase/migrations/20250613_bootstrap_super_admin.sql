@@ -0,0 +1,36 @@
+-- The first super admin is made explicitly, from the SQL editor or with the
+-- service role key. Every later role is granted through grant_role.
+
+CREATE OR REPLACE FUNCTION public.bootstrap_super_admin(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    -- Serialise bootstraps so two calls cannot both find no super admin
+    PERFORM pg_advisory_xact_lock(hashtext('public.bootstrap_super_admin'));
+
+    IF EXISTS (SELECT 1 FROM public.user_roles WHERE role = 'super_admin') THEN
+        RAISE EXCEPTION 'A super admin already exists; ask them to grant the role';
+    END IF;
+
+    SELECT id INTO v_user_id
+    FROM auth.users
+    WHERE lower(email) = lower(trim(p_email));
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'No account uses that email address';
+    END IF;
+
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (v_user_id, 'super_admin');
+
+    RETURN v_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bootstrap_super_admin(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bootstrap_super_admin(TEXT) TO service_role;
@@ -0,0 +1,142 @@
+-- A registered face can only be replaced after the voter has matched it on
+-- the server, so someone holding a voter's session cannot swap in their own
+-- face. Voters who cannot match any more, e.g. after an injury, have an
+-- election officer reset their biometrics instead. Both are audited.
+
+ALTER TABLE public.audit_events DROP CONSTRAINT IF EXISTS audit_events_event_type_check;
+ALTER TABLE public.audit_events
+    ADD CONSTRAINT audit_events_event_type_check
+    CHECK (event_type IN (
+        'sign_in',
+        'biometric_enrolled',
+        'biometric_reset',
+        'verification_attempt',
+        'election_created',
+        'election_updated',
+        'election_deleted',
+        'candidate_added',
+        'candidate_removed',
+        'vote_cast',
+        'role_granted',
+        'role_revoked',
+        'roster_updated',
+        'voter_attributes_updated'
+    ));
+
+CREATE OR REPLACE FUNCTION public.enroll_face_template(
+    p_embedding DOUBLE PRECISION[],
+    p_template_version TEXT,
+    p_quality REAL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_template BYTEA;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register your face';
+    END IF;
+
+    IF cardinality(p_embedding) IS DISTINCT FROM 128 THEN
+        RAISE EXCEPTION 'A face template must have 128 values';
+    END IF;
+
+    IF p_template_version IS NULL OR p_template_version = '' THEN
+        RAISE EXCEPTION 'A face template must name the model that produced it';
+    END IF;
+
+    IF p_quality IS NULL OR p_quality < 0 OR p_quality > 1 THEN
+        RAISE EXCEPTION 'A face template quality must be between 0 and 1';
+    END IF;
+
+    -- Replacing a template takes a server-verified match against it, made
+    -- since it was enrolled; otherwise an election officer must reset it first
+    IF EXISTS (
+        SELECT 1 FROM public.user_biometrics b
+        WHERE b.user_id = v_user_id
+        AND b.face_template IS NOT NULL
+        AND NOT EXISTS (
+            SELECT 1 FROM public.biometric_attempts a
+            WHERE a.user_id = v_user_id
+            AND a.modality = 'face'
+            AND a.verified
+            AND a.created_at > GREATEST(b.template_enrolled_at, now() - interval '10 minutes')
+        )
+    ) THEN
+        RAISE EXCEPTION 'Verify your registered face before registering a new one, or ask an election officer to reset it';
+    END IF;
+
+    v_template := pgp_sym_encrypt(array_to_json(p_embedding)::text, public.face_template_key(), 'cipher-algo=aes256');
+
+    UPDATE public.user_biometrics
+    SET face_template = v_template,
+        template_version = p_template_version,
+        template_quality = p_quality,
+        template_enrolled_at = now(),
+        face_image_url = NULL,
+        updated_at = now()
+    WHERE user_id = v_user_id;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.user_biometrics (user_id, face_template, template_version, template_quality, template_enrolled_at)
+        VALUES (v_user_id, v_template, p_template_version, p_quality, now());
+    END IF;
+END;
+$$;
+
+-- Enrollment events say whether an earlier template was replaced
+CREATE OR REPLACE FUNCTION public.audit_biometric_enrollment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.face_template IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.face_template IS DISTINCT FROM OLD.face_template) THEN
+        PERFORM public.append_audit_event('biometric_enrolled', NEW.user_id, NEW.user_id::text,
+            jsonb_build_object('modality', 'face', 'quality', NEW.template_quality,
+                'replaced', TG_OP = 'UPDATE' AND OLD.face_template IS NOT NULL));
+    END IF;
+
+    IF NEW.palm_template IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.palm_template IS DISTINCT FROM OLD.palm_template) THEN
+        PERFORM public.append_audit_event('biometric_enrolled', NEW.user_id, NEW.user_id::text,
+            jsonb_build_object('modality', 'palm', 'quality', NEW.palm_template_quality,
+                'replaced', TG_OP = 'UPDATE' AND OLD.palm_template IS NOT NULL));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Remove a voter's face and palm templates so they can register again
+CREATE OR REPLACE FUNCTION public.reset_biometrics(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role('election_officer') THEN
+        RAISE EXCEPTION 'Only election officers can reset biometrics';
+    END IF;
+
+    DELETE FROM public.user_biometrics
+    WHERE user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This voter has not registered any biometrics';
+    END IF;
+
+    PERFORM public.append_audit_event('biometric_reset', auth.uid(), p_user_id::text);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reset_biometrics(UUID) TO authenticated;
+
+-- Resets go through reset_biometrics so they are audited
+DROP POLICY IF EXISTS "Super admins can reset biometric data" ON public.user_biometrics;
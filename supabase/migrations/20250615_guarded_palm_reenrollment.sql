@@ -0,0 +1,68 @@
+-- A registered palm can only be replaced after the voter has matched it on
+-- the server, as for faces, so someone holding a voter's session cannot swap
+-- in their own palm. Otherwise an election officer resets it with
+-- reset_biometrics, which is audited.
+
+CREATE OR REPLACE FUNCTION public.enroll_palm_template(
+    p_descriptor DOUBLE PRECISION[],
+    p_template_version TEXT,
+    p_quality REAL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_template BYTEA;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register your palm';
+    END IF;
+
+    -- 8x8 cells of 6 line orientations, then 6 hand proportions
+    IF cardinality(p_descriptor) IS DISTINCT FROM 390 THEN
+        RAISE EXCEPTION 'A palm template must have 390 values';
+    END IF;
+
+    IF p_template_version IS NULL OR p_template_version = '' THEN
+        RAISE EXCEPTION 'A palm template must name the descriptor that produced it';
+    END IF;
+
+    IF p_quality IS NULL OR p_quality < 0 OR p_quality > 1 THEN
+        RAISE EXCEPTION 'A palm template quality must be between 0 and 1';
+    END IF;
+
+    -- Replacing a template takes a server-verified match against it, made
+    -- since it was enrolled; otherwise an election officer must reset it first
+    IF EXISTS (
+        SELECT 1 FROM public.user_biometrics b
+        WHERE b.user_id = v_user_id
+        AND b.palm_template IS NOT NULL
+        AND NOT EXISTS (
+            SELECT 1 FROM public.biometric_attempts a
+            WHERE a.user_id = v_user_id
+            AND a.modality = 'palm'
+            AND a.verified
+            AND a.created_at > GREATEST(b.palm_enrolled_at, now() - interval '10 minutes')
+        )
+    ) THEN
+        RAISE EXCEPTION 'Verify your registered palm before registering a new one, or ask an election officer to reset it';
+    END IF;
+
+    v_template := pgp_sym_encrypt(array_to_json(p_descriptor)::text, public.palm_template_key(), 'cipher-algo=aes256');
+
+    UPDATE public.user_biometrics
+    SET palm_template = v_template,
+        palm_template_version = p_template_version,
+        palm_template_quality = p_quality,
+        palm_enrolled_at = now(),
+        updated_at = now()
+    WHERE user_id = v_user_id;
+
+    IF NOT FOUND THEN
+        INSERT INTO public.user_biometrics (user_id, palm_template, palm_template_version, palm_template_quality, palm_enrolled_at)
+        VALUES (v_user_id, v_template, p_template_version, p_quality, now());
+    END IF;
+END;
+$$;
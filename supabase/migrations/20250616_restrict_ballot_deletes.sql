@@ -0,0 +1,14 @@
+-- Cast ballots are never deleted along with their election or candidate. The
+-- ledger keeps a block for every ballot, so losing one would leave the tally
+-- short of the chain's Merkle root. Deleting an election or a candidate that
+-- has ballots now fails instead.
+
+ALTER TABLE public.ballots DROP CONSTRAINT IF EXISTS ballots_election_id_fkey;
+ALTER TABLE public.ballots
+    ADD CONSTRAINT ballots_election_id_fkey
+    FOREIGN KEY (election_id) REFERENCES public.elections(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.ballots DROP CONSTRAINT IF EXISTS ballots_candidate_id_fkey;
+ALTER TABLE public.ballots
+    ADD CONSTRAINT ballots_candidate_id_fkey
+    FOREIGN KEY (candidate_id) REFERENCES public.candidates(id) ON DELETE RESTRICT;
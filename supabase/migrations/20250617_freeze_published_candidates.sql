@@ -0,0 +1,39 @@
+-- The candidate list is part of the ballot, so like the ballot rules it can
+-- only change while the election is a draft. Officers return a scheduled
+-- election to draft to correct it.
+
+CREATE OR REPLACE FUNCTION public.candidates_require_draft_election()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Candidates deleted along with their election have no election left to check
+    IF TG_OP <> 'INSERT' AND EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = OLD.election_id
+        AND e.status <> 'draft'
+    ) THEN
+        RAISE EXCEPTION 'Candidates can only be changed while the election is a draft';
+    END IF;
+
+    IF TG_OP <> 'DELETE' AND EXISTS (
+        SELECT 1 FROM public.elections e
+        WHERE e.id = NEW.election_id
+        AND e.status <> 'draft'
+    ) THEN
+        RAISE EXCEPTION 'Candidates can only be added while the election is a draft';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS candidates_require_draft_election ON public.candidates;
+CREATE TRIGGER candidates_require_draft_election
+BEFORE INSERT OR UPDATE OR DELETE ON public.candidates
+FOR EACH ROW EXECUTE FUNCTION public.candidates_require_draft_election();
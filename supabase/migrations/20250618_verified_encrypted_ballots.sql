@@ -0,0 +1,590 @@
+-- Encrypted ballots are checked in the database before they are accepted, and
+-- the sealed tally is only decrypted from the aggregate of the ballots that
+-- were actually cast. Trustees can no longer have a tally decrypted from an
+-- aggregate or ballot count of their own choosing.
+--
+-- Ballots cast before this migration were only checked by the trustees. If one
+-- of them is malformed, no trustee submission matches the ballots and the
+-- tally is refused rather than decrypted without it.
+
+-- The ElGamal group of src/utils/crypto/elgamal.ts
+CREATE OR REPLACE FUNCTION public.elgamal_group(OUT p NUMERIC, OUT q NUMERIC, OUT g NUMERIC)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT
+        public.elgamal_from_hex(
+            'f33c5969b69ddba5aa31b9a8ad45129e52fabd5cc0a2ffc9994a68d3ab1d117e' ||
+            '873e46081802ddc809d63e308b50243811b578927b5651766bfab6e2a60f2627' ||
+            '3bc629c6499bb75420c197a63eda020ce89daafcf001207d104d790ec324881a' ||
+            'e01350f82c9d0acea99bf868610ed0c740118610306d7fa5966d293f41a5a3e4' ||
+            '35badb4e5b5d25ec98734b790cbb5ee734970b168fd36c521cc1cae4d9e06380' ||
+            '4b53af45e8a3f63d15cbd0f70fc1e851bd11e3d1f2ee90689791f4570b38d9cc' ||
+            '5cc2b547cf9c2c21844b0ba7c5e0af9b862807397c83a72b1f3edd48c33677bd' ||
+            'b4d6cbf8b1b3636a6357f14577b8095760edd9bc650438e582b61c85ad4ef159'
+        ),
+        public.elgamal_from_hex('e7ab2cdcbc5aff5fc7e423b3e4bd7c95aa44789a6c3b6bdebca44e1da890c70d'),
+        public.elgamal_from_hex(
+            'c8ef7a9ba6ec8d501c4d0ba1e8f3c05c32583ec35792ca80a5b7b7dc72ac5f62' ||
+            'b6d909927c609148750c6af92fd0d9863334c36f2e89ca0d1f088db92eb347f8' ||
+            '05aa7ee1bd5da5994b990690e0097c66f1269ce73cb4a7e89e1227f9811e70c2' ||
+            '02ab1d1d777ab9d9f3aa9c4b0d254245d423e210ebee51448c7aed561c1f9338' ||
+            'ce607dbe95cb9301b30b3d548b247533be3c8f250658f7839a8a1c5ff4633a8e' ||
+            '5d5d1d2f0766f95eba431cac4e1e4a9323aa804322f2a46d282291e947c3102e' ||
+            '6a113ea61e806e2c89372661ba7a4a2690ce00951546dbfb0cdda09cba970594' ||
+            'a239fc8f4fef290748aa30a31fee047777fd76c8e723722e5029e04ffb098341'
+        );
+$$;
+
+-- Check an encrypted ballot as verifyBallot does: one ciphertext for each of
+-- the election's candidates, each with a proof bound to this election and
+-- ballot that it encrypts 0 or 1, and a proof that together they encrypt 1
+CREATE OR REPLACE FUNCTION public.elgamal_verify_ballot(p_election_id UUID, p_public_key TEXT, p_ballot JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_p NUMERIC;
+    v_q NUMERIC;
+    v_g NUMERIC;
+    v_g_inverse NUMERIC;
+    v_public_key NUMERIC;
+    v_context NUMERIC[];
+    v_choice JSONB;
+    v_alpha NUMERIC;
+    v_beta NUMERIC;
+    v_c0 NUMERIC;
+    v_c1 NUMERIC;
+    v_s0 NUMERIC;
+    v_s1 NUMERIC;
+    v_commitments NUMERIC[];
+    v_total_alpha NUMERIC := 1;
+    v_total_beta NUMERIC := 1;
+    v_challenge NUMERIC;
+    v_response NUMERIC;
+BEGIN
+    SELECT g.p, g.q, g.g INTO v_p, v_q, v_g FROM public.elgamal_group() g;
+    v_g_inverse := public.elgamal_mod_pow(v_g, v_q - 1, v_p);
+    v_public_key := public.elgamal_from_hex(p_public_key);
+
+    IF jsonb_typeof(p_ballot -> 'choices') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_ballot -> 'choices') = 0
+        OR jsonb_typeof(p_ballot -> 'sumProof') IS DISTINCT FROM 'object'
+        OR COALESCE(p_ballot ->> 'ballotId', '') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        RETURN false;
+    END IF;
+
+    -- Exactly one choice for every candidate
+    IF (
+        SELECT array_agg(value ->> 'candidateId' ORDER BY value ->> 'candidateId')
+        FROM jsonb_array_elements(p_ballot -> 'choices')
+    ) IS DISTINCT FROM (
+        SELECT array_agg(c.id::text ORDER BY c.id::text)
+        FROM public.candidates c
+        WHERE c.election_id = p_election_id
+    ) THEN
+        RETURN false;
+    END IF;
+
+    v_context := ARRAY[
+        public.elgamal_from_hex(replace(p_election_id::text, '-', '')),
+        public.elgamal_from_hex(replace(p_ballot ->> 'ballotId', '-', ''))
+    ];
+
+    FOR v_choice IN SELECT value FROM jsonb_array_elements(p_ballot -> 'choices') LOOP
+        v_alpha := public.elgamal_from_hex(v_choice ->> 'alpha');
+        v_beta := public.elgamal_from_hex(v_choice ->> 'beta');
+        v_c0 := public.elgamal_from_hex(v_choice -> 'proof' ->> 'c0');
+        v_c1 := public.elgamal_from_hex(v_choice -> 'proof' ->> 'c1');
+        v_s0 := public.elgamal_from_hex(v_choice -> 'proof' ->> 's0');
+        v_s1 := public.elgamal_from_hex(v_choice -> 'proof' ->> 's1');
+
+        IF v_alpha <= 0 OR v_alpha >= v_p OR public.elgamal_mod_pow(v_alpha, v_q, v_p) <> 1
+            OR v_beta <= 0 OR v_beta >= v_p OR public.elgamal_mod_pow(v_beta, v_q, v_p) <> 1 THEN
+            RETURN false;
+        END IF;
+
+        -- Honest proofs are reduced mod q, which also keeps the exponents short
+        IF GREATEST(v_c0, v_c1, v_s0, v_s1) >= v_q THEN
+            RETURN false;
+        END IF;
+
+        -- As verifyBit: the commitments for bit 0, then for bit 1 with g taken out of beta
+        v_commitments := ARRAY[
+            mod(public.elgamal_mod_pow(v_g, v_s0, v_p) * public.elgamal_mod_pow(v_alpha, mod(v_q - v_c0, v_q), v_p), v_p),
+            mod(public.elgamal_mod_pow(v_public_key, v_s0, v_p) * public.elgamal_mod_pow(v_beta, mod(v_q - v_c0, v_q), v_p), v_p),
+            mod(public.elgamal_mod_pow(v_g, v_s1, v_p) * public.elgamal_mod_pow(v_alpha, mod(v_q - v_c1, v_q), v_p), v_p),
+            mod(public.elgamal_mod_pow(v_public_key, v_s1, v_p)
+                * public.elgamal_mod_pow(mod(v_beta * v_g_inverse, v_p), mod(v_q - v_c1, v_q), v_p), v_p)
+        ];
+
+        IF mod(v_c0 + v_c1, v_q) <> public.elgamal_hash_to_scalar(
+            v_context || ARRAY[v_public_key, v_alpha, v_beta] || v_commitments, v_q
+        ) THEN
+            RETURN false;
+        END IF;
+
+        v_total_alpha := mod(v_total_alpha * v_alpha, v_p);
+        v_total_beta := mod(v_total_beta * v_beta, v_p);
+    END LOOP;
+
+    v_challenge := public.elgamal_from_hex(p_ballot -> 'sumProof' ->> 'challenge');
+    v_response := public.elgamal_from_hex(p_ballot -> 'sumProof' ->> 'response');
+
+    IF GREATEST(v_challenge, v_response) >= v_q THEN
+        RETURN false;
+    END IF;
+
+    RETURN public.elgamal_verify_equality(
+        v_g,
+        v_total_alpha,
+        v_public_key,
+        mod(v_total_beta * v_g_inverse, v_p),
+        v_challenge,
+        v_response,
+        v_p,
+        v_q
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN false;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.elgamal_group() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.elgamal_verify_ballot(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.cast_vote(
+    p_election_id UUID,
+    p_candidate_ids UUID[] DEFAULT NULL,
+    p_ranking UUID[] DEFAULT NULL,
+    p_encrypted_choice JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_voter_id UUID := auth.uid();
+    v_election public.elections%ROWTYPE;
+    v_choices UUID[];
+    v_candidate_id UUID;
+    v_selections UUID[];
+    v_value TEXT;
+    v_salt TEXT := encode(gen_random_bytes(16), 'hex');
+    v_commitment TEXT;
+    v_receipt_hash TEXT;
+BEGIN
+    IF v_voter_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to vote';
+    END IF;
+
+    IF NOT public.has_role('voter') THEN
+        RAISE EXCEPTION 'Your account is not allowed to vote';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.biometric_lockouts
+        WHERE user_id = v_voter_id
+        AND locked_until > now()
+    ) THEN
+        RAISE EXCEPTION 'Biometric verification is locked for your account. Please try again later.';
+    END IF;
+
+    -- Lock the election row so its rules cannot change while the vote is cast
+    SELECT * INTO v_election
+    FROM public.elections
+    WHERE id = p_election_id
+    FOR SHARE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Election not found';
+    END IF;
+
+    IF NOT public.voter_is_eligible(p_election_id, v_voter_id) THEN
+        RAISE EXCEPTION 'You are not on the electorate for this election';
+    END IF;
+
+    -- Face and palm matches are made and recorded by the biometric-verify Edge
+    -- Function. Without an election threshold the built-in default applies.
+    IF 'face' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'face'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_face_confidence, public.default_match_confidence('face'))
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your face before voting';
+    END IF;
+
+    IF 'palm' = ANY(v_election.auth_factors) AND NOT EXISTS (
+        SELECT 1 FROM public.biometric_attempts
+        WHERE user_id = v_voter_id
+        AND modality = 'palm'
+        AND verified
+        AND similarity >= COALESCE(v_election.min_palm_confidence, public.default_match_confidence('palm'))
+        AND created_at > now() - interval '30 minutes'
+    ) THEN
+        RAISE EXCEPTION 'Please verify your palm before voting';
+    END IF;
+
+    -- Each verified code authorises one vote, and only for a short while
+    IF 'otp' = ANY(v_election.auth_factors) THEN
+        UPDATE public.otp_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.otp_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND verified_at > now() - interval '10 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please verify your one-time code before voting';
+        END IF;
+    END IF;
+
+    -- Voters sign with a passkey when the election requires it or they have added one
+    IF 'passkey' = ANY(v_election.auth_factors)
+        OR EXISTS (SELECT 1 FROM public.webauthn_credentials WHERE user_id = v_voter_id) THEN
+        UPDATE public.webauthn_challenges
+        SET consumed_at = now()
+        WHERE id = (
+            SELECT id FROM public.webauthn_challenges
+            WHERE user_id = v_voter_id
+            AND purpose = 'vote'
+            AND election_id = p_election_id
+            AND verified_at > now() - interval '2 minutes'
+            AND consumed_at IS NULL
+            ORDER BY verified_at DESC
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        );
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Please confirm your vote with your passkey';
+        END IF;
+    END IF;
+
+    IF v_election.status NOT IN ('scheduled', 'open')
+        OR public.election_phase(v_election.start_date, v_election.end_date) <> 'open' THEN
+        RAISE EXCEPTION 'This election is not open for voting';
+    END IF;
+
+    IF v_election.encrypted_ballots THEN
+        IF p_encrypted_choice IS NULL OR p_candidate_ids IS NOT NULL OR p_ranking IS NOT NULL THEN
+            RAISE EXCEPTION 'This election only accepts encrypted ballots';
+        END IF;
+
+        IF v_election.encryption_public_key IS NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots yet';
+        END IF;
+
+        IF jsonb_typeof(p_encrypted_choice -> 'choices') IS DISTINCT FROM 'array' THEN
+            RAISE EXCEPTION 'Malformed encrypted ballot';
+        END IF;
+
+        IF NOT public.elgamal_verify_ballot(p_election_id, v_election.encryption_public_key, p_encrypted_choice) THEN
+            RAISE EXCEPTION 'The encrypted ballot''s proofs do not verify';
+        END IF;
+
+        v_value := p_encrypted_choice::text;
+    ELSE
+        IF p_encrypted_choice IS NOT NULL THEN
+            RAISE EXCEPTION 'This election does not accept encrypted ballots';
+        END IF;
+
+        IF v_election.voting_method = 'irv' THEN
+            IF p_candidate_ids IS NOT NULL THEN
+                RAISE EXCEPTION 'This election only accepts ranked ballots';
+            END IF;
+
+            IF p_ranking IS NULL OR cardinality(p_ranking) = 0 THEN
+                RAISE EXCEPTION 'Rank at least one candidate';
+            END IF;
+
+            v_choices := p_ranking;
+        ELSE
+            IF p_ranking IS NOT NULL THEN
+                RAISE EXCEPTION 'This election does not accept ranked ballots';
+            END IF;
+
+            IF p_candidate_ids IS NULL OR cardinality(p_candidate_ids) = 0 THEN
+                RAISE EXCEPTION 'Choose at least one candidate';
+            END IF;
+
+            IF cardinality(p_candidate_ids) > v_election.max_selections THEN
+                RAISE EXCEPTION 'You can choose at most % candidates in this election', v_election.max_selections;
+            END IF;
+
+            v_choices := p_candidate_ids;
+            IF v_election.max_selections > 1 THEN
+                v_selections := p_candidate_ids;
+            END IF;
+        END IF;
+
+        IF (SELECT COUNT(DISTINCT c) FROM unnest(v_choices) AS c) <> cardinality(v_choices) THEN
+            RAISE EXCEPTION 'Each candidate can only be chosen once';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM unnest(v_choices) AS c
+            WHERE NOT EXISTS (
+                SELECT 1 FROM public.candidates
+                WHERE id = c
+                AND election_id = p_election_id
+            )
+        ) THEN
+            RAISE EXCEPTION 'Candidate not found in this election';
+        END IF;
+
+        v_candidate_id := v_choices[1];
+        v_value := array_to_string(v_choices, ',');
+    END IF;
+
+    -- The unique constraint rejects a second vote, however many are sent at once
+    BEGIN
+        INSERT INTO public.voter_participation (voter_id, election_id)
+        VALUES (v_voter_id, p_election_id);
+    EXCEPTION
+        WHEN unique_violation THEN
+            RAISE EXCEPTION 'User has already voted in this election';
+    END;
+
+    -- Serialise appends so every block links to the one before it
+    PERFORM pg_advisory_xact_lock(hashtext('public.vote_ledger'));
+
+    v_commitment := encode(digest(p_election_id::text || '|' || v_value || '|' || v_salt, 'sha256'), 'hex');
+    v_receipt_hash := public.append_ledger_block(p_election_id, v_commitment);
+
+    INSERT INTO public.ballots (
+        election_id, candidate_id, ranking, selections, encrypted_choice, transaction_hash, commitment_salt
+    ) VALUES (
+        p_election_id,
+        v_candidate_id,
+        CASE WHEN v_election.voting_method = 'irv' THEN p_ranking END,
+        v_selections,
+        p_encrypted_choice,
+        v_receipt_hash,
+        v_salt
+    );
+
+    RETURN v_receipt_hash;
+END;
+$$;
+
+-- Combine the trustees' decryption shares of a sealed election into its tally,
+-- as getDecryptionStatus does: shares whose proofs fail are ignored, and a
+-- threshold of trustees must have decrypted the same aggregate. Only
+-- submissions for the aggregate and ballot count of the cast ballots count.
+CREATE OR REPLACE FUNCTION public.decrypt_sealed_tally(p_election_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_p NUMERIC;
+    v_q NUMERIC;
+    v_g NUMERIC;
+    v_threshold INTEGER;
+    v_trustee_count INTEGER;
+    v_row RECORD;
+    v_candidate_id TEXT;
+    v_share JSONB;
+    v_share_value NUMERIC;
+    v_alpha NUMERIC;
+    v_valid BOOLEAN;
+    v_key TEXT;
+    v_groups JSONB := '{}'::jsonb;
+    v_best JSONB;
+    v_indices INTEGER[];
+    v_index INTEGER;
+    v_combined NUMERIC;
+    v_target NUMERIC;
+    v_candidate NUMERIC;
+    v_count INTEGER;
+    v_tally JSONB := '{}'::jsonb;
+    v_choice JSONB;
+    v_ballot_alpha NUMERIC;
+    v_ballot_beta NUMERIC;
+    v_ballot_count INTEGER;
+    v_expected JSONB := '{}'::jsonb;
+BEGIN
+    SELECT g.p, g.q, g.g INTO v_p, v_q, v_g FROM public.elgamal_group() g;
+
+    SELECT e.decryption_threshold, (SELECT COUNT(*) FROM public.election_trustees t WHERE t.election_id = e.id)
+    INTO v_threshold, v_trustee_count
+    FROM public.elections e
+    WHERE e.id = p_election_id;
+
+    -- The aggregate the trustees should have decrypted, recomputed from the ballots
+    SELECT COUNT(*) INTO v_ballot_count
+    FROM public.ballots b
+    WHERE b.election_id = p_election_id
+    AND b.encrypted_choice IS NOT NULL;
+
+    FOR v_candidate_id IN SELECT c.id::text FROM public.candidates c WHERE c.election_id = p_election_id LOOP
+        v_ballot_alpha := 1;
+        v_ballot_beta := 1;
+
+        FOR v_choice IN
+            SELECT choice
+            FROM public.ballots b
+            CROSS JOIN LATERAL jsonb_array_elements(b.encrypted_choice -> 'choices') AS choice
+            WHERE b.election_id = p_election_id
+            AND b.encrypted_choice IS NOT NULL
+            AND choice ->> 'candidateId' = v_candidate_id
+        LOOP
+            v_ballot_alpha := mod(v_ballot_alpha * public.elgamal_from_hex(v_choice ->> 'alpha'), v_p);
+            v_ballot_beta := mod(v_ballot_beta * public.elgamal_from_hex(v_choice ->> 'beta'), v_p);
+        END LOOP;
+
+        v_expected := v_expected || jsonb_build_object(
+            v_candidate_id, jsonb_build_object('alpha', v_ballot_alpha, 'beta', v_ballot_beta)
+        );
+    END LOOP;
+
+    -- Group verified submissions by the aggregate they decrypt, one per trustee
+    FOR v_row IN
+        SELECT d.trustee_index, d.ballot_count, d.aggregate, d.shares, t.verification_key
+        FROM public.election_decryptions d
+        JOIN public.election_trustees t
+            ON t.election_id = d.election_id AND t.trustee_index = d.trustee_index
+        WHERE d.election_id = p_election_id
+        ORDER BY d.submitted_at
+    LOOP
+        v_key := md5(v_row.ballot_count::text || '|' || v_row.aggregate::text);
+
+        IF v_groups #> ARRAY[v_key, 'shares', v_row.trustee_index::text] IS NOT NULL THEN
+            CONTINUE;
+        END IF;
+
+        v_valid := jsonb_typeof(v_row.aggregate) = 'object' AND jsonb_typeof(v_row.shares) = 'array';
+
+        BEGIN
+            -- Same candidates, ciphertexts and ballot count as the cast ballots
+            v_valid := v_valid
+                AND v_row.ballot_count = v_ballot_count
+                AND NOT EXISTS (
+                    SELECT 1
+                    FROM jsonb_each(v_expected) expected
+                    FULL JOIN jsonb_each(v_row.aggregate) submitted ON submitted.key = expected.key
+                    WHERE expected.key IS NULL
+                    OR submitted.key IS NULL
+                    OR public.elgamal_from_hex(submitted.value ->> 'alpha') <> (expected.value ->> 'alpha')::numeric
+                    OR public.elgamal_from_hex(submitted.value ->> 'beta') <> (expected.value ->> 'beta')::numeric
+                );
+
+            FOR v_candidate_id IN SELECT jsonb_object_keys(v_row.aggregate) LOOP
+                EXIT WHEN NOT v_valid;
+
+                SELECT value INTO v_share
+                FROM jsonb_array_elements(v_row.shares)
+                WHERE value ->> 'candidateId' = v_candidate_id
+                LIMIT 1;
+
+                v_share_value := public.elgamal_from_hex(v_share ->> 'share');
+                v_alpha := public.elgamal_from_hex(v_row.aggregate -> v_candidate_id ->> 'alpha');
+
+                v_valid := v_share_value > 0 AND v_share_value < v_p
+                    AND public.elgamal_mod_pow(v_share_value, v_q, v_p) = 1
+                    AND public.elgamal_verify_equality(
+                        v_g,
+                        public.elgamal_from_hex(v_row.verification_key),
+                        v_alpha,
+                        v_share_value,
+                        public.elgamal_from_hex(v_share -> 'proof' ->> 'challenge'),
+                        public.elgamal_from_hex(v_share -> 'proof' ->> 'response'),
+                        v_p,
+                        v_q
+                    );
+            END LOOP;
+        EXCEPTION
+            WHEN OTHERS THEN
+                v_valid := false;
+        END;
+
+        IF NOT v_valid THEN
+            RAISE WARNING 'Ignoring invalid decryption share or aggregate from trustee %', v_row.trustee_index;
+            CONTINUE;
+        END IF;
+
+        IF NOT v_groups ? v_key THEN
+            v_groups := v_groups || jsonb_build_object(v_key, jsonb_build_object(
+                'ballot_count', v_row.ballot_count,
+                'aggregate', v_row.aggregate,
+                'shares', '{}'::jsonb
+            ));
+        END IF;
+
+        v_groups := jsonb_set(v_groups, ARRAY[v_key, 'shares', v_row.trustee_index::text], v_row.shares);
+    END LOOP;
+
+    SELECT value INTO v_best
+    FROM jsonb_each(v_groups)
+    ORDER BY (SELECT COUNT(*) FROM jsonb_object_keys(value -> 'shares')) DESC
+    LIMIT 1;
+
+    SELECT COALESCE(array_agg(trustee_index::integer ORDER BY trustee_index::integer), '{}')
+    INTO v_indices
+    FROM jsonb_object_keys(COALESCE(v_best -> 'shares', '{}'::jsonb)) AS trustee_index;
+
+    IF v_threshold IS NULL OR cardinality(v_indices) < v_threshold THEN
+        RAISE EXCEPTION 'Waiting for % of % trustees to decrypt the sealed ballots', v_threshold, v_trustee_count;
+    END IF;
+
+    -- Any threshold of the agreeing trustees recovers the same plaintext
+    v_indices := v_indices[1:v_threshold];
+
+    FOR v_candidate_id IN SELECT jsonb_object_keys(v_best -> 'aggregate') LOOP
+        v_combined := 1;
+
+        FOREACH v_index IN ARRAY v_indices LOOP
+            SELECT value INTO v_share
+            FROM jsonb_array_elements(v_best -> 'shares' -> v_index::text)
+            WHERE value ->> 'candidateId' = v_candidate_id
+            LIMIT 1;
+
+            v_combined := mod(v_combined * public.elgamal_mod_pow(
+                public.elgamal_from_hex(v_share ->> 'share'),
+                public.elgamal_lagrange_coefficient(v_index, v_indices, v_q),
+                v_p
+            ), v_p);
+        END LOOP;
+
+        -- beta / alpha^secret = g^count; search counts up to the ballot count
+        v_target := mod(
+            public.elgamal_from_hex(v_best -> 'aggregate' -> v_candidate_id ->> 'beta')
+                * public.elgamal_mod_pow(v_combined, v_q - 1, v_p),
+            v_p
+        );
+        v_candidate := 1;
+        v_count := NULL;
+
+        FOR v_message IN 0..(v_best ->> 'ballot_count')::integer LOOP
+            IF v_candidate = v_target THEN
+                v_count := v_message;
+                EXIT;
+            END IF;
+            v_candidate := mod(v_candidate * v_g, v_p);
+        END LOOP;
+
+        IF v_count IS NULL THEN
+            RAISE EXCEPTION 'Decrypted count for candidate % is out of range', v_candidate_id;
+        END IF;
+
+        v_tally := v_tally || jsonb_build_object(v_candidate_id, v_count);
+    END LOOP;
+
+    RETURN v_tally;
+END;
+$$;
@@ -21,6 +21,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // The package's exports map does not expose its model files
+      "@vladmandic/human/models": path.resolve(__dirname, "./node_modules/@vladmandic/human/models"),
     },
   },
   optimizeDeps: {